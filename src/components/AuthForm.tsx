@@ -0,0 +1,135 @@
+import { Link, useRouter } from '@tanstack/react-router'
+import { useState, type FormEvent } from 'react'
+import type { User } from '@/data/repository'
+import { useRefreshSession } from '@/hooks/useRefreshSession'
+import { useTranslation } from '@/hooks/useTranslation'
+import { RateLimitError } from '@/lib/rate-limit'
+import { fieldErrorsOf, type FieldErrors } from '@/lib/validation'
+
+/**
+ * AuthForm - Username and password form shared by the login and signup pages
+ * @param mode - Which page is showing the form
+ * @param submit - Server function that signs the user in
+ * @param redirect - Path to open once signed in
+ */
+export default function AuthForm({
+  mode,
+  submit,
+  redirect = '/',
+}: {
+  mode: 'login' | 'signup'
+  submit: (options: {
+    data: { username: string; password: string }
+  }) => Promise<User>
+  redirect?: string
+}) {
+  const router = useRouter()
+  const refreshSession = useRefreshSession()
+  const { t } = useTranslation()
+  const [errors, setErrors] = useState<FieldErrors>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isSignup = mode === 'signup'
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const form = new FormData(event.currentTarget)
+    setIsSubmitting(true)
+    try {
+      await submit({
+        data: {
+          username: String(form.get('username') ?? ''),
+          password: String(form.get('password') ?? ''),
+        },
+      })
+      // Refetch the session so the route guards and every page see the new
+      // user
+      await refreshSession()
+      await router.navigate({ href: redirect })
+    } catch (error) {
+      setErrors(
+        fieldErrorsOf(error, t) ?? {
+          input:
+            error instanceof RateLimitError ? error.message : t('auth.failed'),
+        },
+      )
+      setIsSubmitting(false)
+    }
+  }
+
+  const field = (
+    name: 'username' | 'password',
+    label: string,
+    hint?: string,
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-ink-muted">
+      {label}
+      <input
+        name={name}
+        type={name === 'password' ? 'password' : 'text'}
+        autoComplete={
+          name === 'username'
+            ? 'username'
+            : isSignup
+              ? 'new-password'
+              : 'current-password'
+        }
+        required
+        aria-invalid={errors[name] ? true : undefined}
+        className={`rounded-lg border px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+          errors[name] ? 'border-red-500' : 'border-line-strong'
+        }`}
+      />
+      {errors[name] ? (
+        <span className="text-xs text-red-600">{errors[name]}</span>
+      ) : (
+        hint && <span className="text-xs text-ink-subtle">{hint}</span>
+      )}
+    </label>
+  )
+
+  return (
+    <div className="min-h-screen bg-page flex justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        noValidate
+        className="w-full max-w-sm h-fit rounded-2xl bg-card shadow-sm border border-line p-6 space-y-5"
+      >
+        <h1 className="text-xl font-semibold text-ink">
+          {t(isSignup ? 'auth.signUp' : 'auth.signIn')}
+        </h1>
+        {errors.input && (
+          <p role="alert" className="text-sm text-red-600">
+            {errors.input}
+          </p>
+        )}
+        {field(
+          'username',
+          t('auth.username'),
+          isSignup ? t('auth.usernameHint') : undefined,
+        )}
+        {field(
+          'password',
+          t('auth.password'),
+          isSignup ? t('auth.passwordHint') : undefined,
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 disabled:opacity-60 transition"
+        >
+          {t(isSignup ? 'auth.submitSignUp' : 'auth.signIn')}
+        </button>
+        <p className="text-sm text-ink-muted text-center">
+          {t(isSignup ? 'auth.haveAccount' : 'auth.newHere')}{' '}
+          <Link
+            to={isSignup ? '/login' : '/signup'}
+            search={{ redirect }}
+            className="text-blue-600 hover:underline"
+          >
+            {t(isSignup ? 'auth.signIn' : 'auth.signUp')}
+          </Link>
+        </p>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+/**
+ * Card - A raised panel for a page's main content
+ * @param className - Extra classes, e.g. spacing between children
+ */
+export default function Card({
+  children,
+  className = '',
+}: {
+  children: React.ReactNode
+  className?: string
+}) {
+  return (
+    <div
+      className={`rounded-2xl bg-card border border-line shadow-sm p-6 ${className}`}
+    >
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { Link } from '@tanstack/react-router'
+import { FaRobot } from 'react-icons/fa'
+import { useTranslation } from '@/hooks/useTranslation'
+
+const CHATBOT_PATH = '/demo/start/chatbot'
+
+/**
+ * ChatbotLanding - What signed-out visitors (and search engines) see in
+ * place of the chat, with links to sign in or create an account
+ */
+export default function ChatbotLanding() {
+  const { t } = useTranslation()
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center bg-page p-4">
+      <div className="w-full max-w-md rounded-2xl bg-card shadow-sm border border-line p-6 text-center space-y-4">
+        <FaRobot className="mx-auto text-5xl text-blue-600" aria-hidden />
+        <h1 className="text-xl font-semibold text-ink">{t('chat.title')}</h1>
+        <p className="text-sm text-ink-muted">{t('chat.landing')}</p>
+        <div className="flex justify-center gap-3">
+          <Link
+            to="/login"
+            search={{ redirect: CHATBOT_PATH }}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 transition"
+          >
+            {t('header.signIn')}
+          </Link>
+          <Link
+            to="/signup"
+            search={{ redirect: CHATBOT_PATH }}
+            className="rounded-lg border border-line-strong px-4 py-2 text-ink-muted hover:bg-sunken transition"
+          >
+            {t('chat.signUp')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
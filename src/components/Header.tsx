@@ -1,23 +1,84 @@
-import { Link } from '@tanstack/react-router'
+import {
+  Link,
+  useLocation,
+  useRouteContext,
+  useRouter,
+} from '@tanstack/react-router'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import {
   ChevronDown,
   ChevronRight,
-  Home,
-  Cpu,
+  Languages,
+  LogIn,
+  LogOut,
   Menu,
-  Network,
-  SquareFunction,
-  StickyNote,
+  Monitor,
+  Moon,
+  Sun,
   X,
 } from 'lucide-react'
+import { setLocale } from '@/data/i18n'
+import { focusableElements, useFocusTrap } from '@/hooks/useFocusTrap'
+import { useRefreshSession } from '@/hooks/useRefreshSession'
+import { useTheme } from '@/hooks/useTheme'
+import { useTranslation } from '@/hooks/useTranslation'
+import { isLocale, LOCALE_NAMES, LOCALES } from '@/lib/i18n'
+import { buildNavigation, isNavActive, type NavItem } from '@/lib/navigation'
+import { THEME_PREFERENCES, type ThemePreference } from '@/lib/theme'
+
+const THEME_ICONS: Record<ThemePreference, typeof Sun> = {
+  light: Sun,
+  dark: Moon,
+  system: Monitor,
+}
+
+/**
+ * Arrow keys, Home and End move between the drawer's links and buttons
+ */
+function moveFocus(event: React.KeyboardEvent<HTMLElement>) {
+  const items = focusableElements(event.currentTarget)
+  const index = items.indexOf(document.activeElement as HTMLElement)
+  const target =
+    event.key === 'ArrowDown'
+      ? items[(index + 1) % items.length]
+      : event.key === 'ArrowUp'
+        ? items[(index - 1 + items.length) % items.length]
+        : event.key === 'Home'
+          ? items[0]
+          : event.key === 'End'
+            ? items[items.length - 1]
+            : undefined
+  if (!target) return
+  event.preventDefault()
+  target.focus()
+}
 
 export default function Header() {
+  const { user } = useRouteContext({ from: '__root__' })
+  const { locale, t } = useTranslation()
+  const router = useRouter()
+  const refreshSession = useRefreshSession()
+  const pathname = useLocation({ select: (location) => location.pathname })
   const [isOpen, setIsOpen] = useState(false)
-  const [groupedExpanded, setGroupedExpanded] = useState<
-    Record<string, boolean>
-  >({})
+  // Groups the user opened or closed; the rest follow the current page
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({})
+
+  const close = useCallback(() => setIsOpen(false), [])
+  const drawerRef = useFocusTrap<HTMLElement>(isOpen, close)
+
+  // Every route that declares `staticData.nav`, built once per router
+  const navigation = useMemo(
+    () => buildNavigation(Object.values(router.routesById)),
+    [router],
+  )
+
+  // Each navigation re-expands the group holding the new page
+  useEffect(() => setExpanded({}), [pathname])
+
+  const isExpanded = (item: NavItem) =>
+    expanded[item.group!] ??
+    [item, ...item.children].some((link) => isNavActive(link.to, pathname))
 
   return (
     <>
@@ -25,7 +86,9 @@ export default function Header() {
         <button
           onClick={() => setIsOpen(true)}
           className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
-          aria-label="Open menu"
+          aria-label={t('header.openMenu')}
+          aria-expanded={isOpen}
+          aria-controls="nav-drawer"
         >
           <Menu size={24} />
         </button>
@@ -38,155 +101,194 @@ export default function Header() {
             />
           </Link>
         </h1>
+        <div className="ml-auto flex items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-300">
+            <Languages size={18} />
+            <span className="sr-only">{t('header.language')}</span>
+            <select
+              value={locale}
+              onChange={async (e) => {
+                if (!isLocale(e.target.value)) return
+                await setLocale({ data: { locale: e.target.value } })
+                // Refetch the session so every page picks up the language
+                await refreshSession()
+              }}
+              className="bg-gray-800 text-white rounded-lg px-2 py-1 border border-gray-600"
+            >
+              {LOCALES.map((option) => (
+                <option key={option} value={option}>
+                  {LOCALE_NAMES[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <ThemeToggle />
+          {user ? (
+            <>
+              <span className="text-gray-300">
+                {t('header.signedInAs')}{' '}
+                <span className="font-semibold text-white">
+                  {user.username}
+                </span>
+              </span>
+              <Link
+                to="/logout"
+                className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                <LogOut size={18} />
+                {t('header.signOut')}
+              </Link>
+            </>
+          ) : (
+            <Link
+              to="/login"
+              className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              <LogIn size={18} />
+              {t('header.signIn')}
+            </Link>
+          )}
+        </div>
       </header>
 
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-40 bg-black/40"
+          onClick={close}
+          aria-hidden="true"
+        />
+      )}
+
       <aside
+        ref={drawerRef}
+        id="nav-drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="nav-drawer-title"
+        inert={!isOpen}
         className={`fixed top-0 left-0 h-full w-80 bg-gray-900 text-white shadow-2xl z-50 transform transition-transform duration-300 ease-in-out flex flex-col ${
           isOpen ? 'translate-x-0' : '-translate-x-full'
         }`}
       >
         <div className="flex items-center justify-between p-4 border-b border-gray-700">
-          <h2 className="text-xl font-bold">Navigation</h2>
+          <h2 id="nav-drawer-title" className="text-xl font-bold">
+            {t('header.navigation')}
+          </h2>
           <button
-            onClick={() => setIsOpen(false)}
+            onClick={close}
             className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
-            aria-label="Close menu"
+            aria-label={t('header.closeMenu')}
           >
             <X size={24} />
           </button>
         </div>
 
-        <nav className="flex-1 p-4 overflow-y-auto">
-          <Link
-            to="/"
-            onClick={() => setIsOpen(false)}
-            className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
-            activeProps={{
-              className:
-                'flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
-            }}
-          >
-            <Home size={20} />
-            <span className="font-medium">Home</span>
-          </Link>
-
-          {/* Chatbot Feature */}
-          <Link
-            to="/demo/start/chatbot"
-            onClick={() => setIsOpen(false)}
-            className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
-            activeProps={{
-              className:
-                'flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
-            }}
-          >
-            <Cpu size={20} />
-            <span className="font-medium">Chatbot</span>
-          </Link>
-
-          {/* Demo Links Start */}
-
-          <Link
-            to="/demo/start/server-funcs"
-            onClick={() => setIsOpen(false)}
-            className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
-            activeProps={{
-              className:
-                'flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
-            }}
-          >
-            <SquareFunction size={20} />
-            <span className="font-medium">Start - Server Functions</span>
-          </Link>
-
-          <Link
-            to="/demo/start/api-request"
-            onClick={() => setIsOpen(false)}
-            className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
-            activeProps={{
-              className:
-                'flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
-            }}
-          >
-            <Network size={20} />
-            <span className="font-medium">Start - API Request</span>
-          </Link>
-
-          <div className="flex flex-row justify-between">
-            <Link
-              to="/demo/start/ssr"
-              onClick={() => setIsOpen(false)}
-              className="flex-1 flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
-              activeProps={{
-                className:
-                  'flex-1 flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
-              }}
-            >
-              <StickyNote size={20} />
-              <span className="font-medium">Start - SSR Demos</span>
-            </Link>
-            <button
-              className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
-              onClick={() =>
-                setGroupedExpanded((prev) => ({
-                  ...prev,
-                  StartSSRDemo: !prev.StartSSRDemo,
-                }))
-              }
-            >
-              {groupedExpanded.StartSSRDemo ? (
-                <ChevronDown size={20} />
-              ) : (
-                <ChevronRight size={20} />
-              )}
-            </button>
-          </div>
-          {groupedExpanded.StartSSRDemo && (
-            <div className="flex flex-col ml-4">
-              <Link
-                to="/demo/start/ssr/spa-mode"
-                onClick={() => setIsOpen(false)}
-                className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
-                activeProps={{
-                  className:
-                    'flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
-                }}
-              >
-                <StickyNote size={20} />
-                <span className="font-medium">SPA Mode</span>
-              </Link>
-
-              <Link
-                to="/demo/start/ssr/full-ssr"
-                onClick={() => setIsOpen(false)}
-                className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
-                activeProps={{
-                  className:
-                    'flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
-                }}
-              >
-                <StickyNote size={20} />
-                <span className="font-medium">Full SSR</span>
-              </Link>
-
-              <Link
-                to="/demo/start/ssr/data-only"
-                onClick={() => setIsOpen(false)}
-                className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
-                activeProps={{
-                  className:
-                    'flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
-                }}
-              >
-                <StickyNote size={20} />
-                <span className="font-medium">Data Only</span>
-              </Link>
-            </div>
-          )}
-
-          {/* Demo Links End */}
+        <nav
+          className="flex-1 p-4 overflow-y-auto"
+          onKeyDown={moveFocus}
+          aria-label={t('header.navigation')}
+        >
+          <ul>
+            {navigation.map((item) => {
+              const expanded = item.group !== undefined && isExpanded(item)
+              return (
+                <li key={item.to}>
+                  {item.children.length === 0 ? (
+                    <NavLink item={item} onNavigate={close} />
+                  ) : (
+                    <>
+                      <div className="flex flex-row justify-between">
+                        <NavLink item={item} onNavigate={close} />
+                        <button
+                          className="p-2 hover:bg-gray-800 rounded-lg transition-colors mb-2"
+                          aria-expanded={expanded}
+                          aria-controls={`nav-group-${item.group}`}
+                          aria-label={t(item.title)}
+                          onClick={() =>
+                            setExpanded((prev) => ({
+                              ...prev,
+                              [item.group!]: !expanded,
+                            }))
+                          }
+                        >
+                          {expanded ? (
+                            <ChevronDown size={20} />
+                          ) : (
+                            <ChevronRight size={20} />
+                          )}
+                        </button>
+                      </div>
+                      {expanded && (
+                        <ul
+                          id={`nav-group-${item.group}`}
+                          className="flex flex-col ml-4"
+                        >
+                          {item.children.map((child) => (
+                            <li key={child.to}>
+                              <NavLink item={child} onNavigate={close} />
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
         </nav>
       </aside>
     </>
   )
 }
+
+/**
+ * ThemeToggle - Steps through the light, dark and system themes
+ */
+function ThemeToggle() {
+  const { t } = useTranslation()
+  const { preference, setPreference } = useTheme()
+  const Icon = THEME_ICONS[preference]
+  const next =
+    THEME_PREFERENCES[
+      (THEME_PREFERENCES.indexOf(preference) + 1) % THEME_PREFERENCES.length
+    ]
+  const label = t('header.theme', { theme: t(`theme.${preference}`) })
+  return (
+    <button
+      onClick={() => setPreference(next)}
+      className="p-2 rounded-lg hover:bg-gray-700 transition-colors"
+      aria-label={label}
+      title={label}
+    >
+      <Icon size={18} />
+    </button>
+  )
+}
+
+/**
+ * NavLink - A drawer link, highlighted while its page is open
+ */
+function NavLink({
+  item,
+  onNavigate,
+}: {
+  item: NavItem
+  onNavigate: () => void
+}) {
+  const { t } = useTranslation()
+  const Icon = item.icon
+  return (
+    <Link
+      to={item.to}
+      onClick={onNavigate}
+      className="flex-1 flex items-center gap-3 p-3 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400 transition-colors mb-2"
+      activeProps={{ className: 'bg-cyan-600 hover:bg-cyan-700' }}
+      inactiveProps={{ className: 'hover:bg-gray-800' }}
+      activeOptions={{ exact: true }}
+    >
+      <Icon size={20} />
+      <span className="font-medium">{t(item.title)}</span>
+    </Link>
+  )
+}
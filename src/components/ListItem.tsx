@@ -0,0 +1,24 @@
+/**
+ * ListItem - A row in a card's list
+ * @param dimmed - Fades the row, e.g. while a change is being saved
+ * @param className - Extra classes, e.g. layout of the row's contents
+ */
+export default function ListItem({
+  children,
+  dimmed = false,
+  className = '',
+}: {
+  children: React.ReactNode
+  dimmed?: boolean
+  className?: string
+}) {
+  return (
+    <li
+      className={`rounded-lg border border-line bg-sunken p-3 ${
+        dimmed ? 'opacity-60' : ''
+      } ${className}`}
+    >
+      {children}
+    </li>
+  )
+}
@@ -0,0 +1,28 @@
+import { Link } from '@tanstack/react-router'
+import { useTranslation } from '@/hooks/useTranslation'
+
+/**
+ * NotFound - Shown for URLs that match no route, and for loaders that
+ * throw `notFound()`
+ */
+export default function NotFound() {
+  const { t } = useTranslation()
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center bg-page p-4">
+      <div className="w-full max-w-md rounded-2xl bg-card shadow-sm border border-line p-6 text-center space-y-4">
+        <p className="text-6xl font-black text-line-strong">404</p>
+        <h1 className="text-xl font-semibold text-ink">
+          {t('notFound.title')}
+        </h1>
+        <p className="text-sm text-ink-muted">{t('notFound.description')}</p>
+        <Link
+          to="/"
+          className="inline-block rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 transition"
+        >
+          {t('notFound.home')}
+        </Link>
+      </div>
+    </div>
+  )
+}
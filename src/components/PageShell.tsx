@@ -0,0 +1,24 @@
+/**
+ * PageShell - A page's background and content column, in the current theme
+ * @param width - Tailwind max-width class of the column
+ * @param centered - Also centers the column vertically, for short pages
+ */
+export default function PageShell({
+  children,
+  width = 'max-w-2xl',
+  centered = false,
+}: {
+  children: React.ReactNode
+  width?: string
+  centered?: boolean
+}) {
+  return (
+    <div
+      className={`min-h-screen flex justify-center bg-page text-ink p-4 ${
+        centered ? 'items-center' : 'items-start'
+      }`}
+    >
+      <div className={`w-full ${width}`}>{children}</div>
+    </div>
+  )
+}
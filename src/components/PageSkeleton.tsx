@@ -0,0 +1,26 @@
+import { useTranslation } from '@/hooks/useTranslation'
+
+/**
+ * PageSkeleton - Placeholder shown while a slow loader runs: a heading and
+ * a few rows shaped like the page's list
+ * @param rows - Number of placeholder rows
+ */
+export default function PageSkeleton({ rows = 4 }: { rows?: number }) {
+  const { t } = useTranslation()
+
+  return (
+    <div
+      role="status"
+      aria-busy="true"
+      className="min-h-screen flex justify-center bg-page p-4"
+    >
+      <span className="sr-only">{t('pending.loading')}</span>
+      <div className="w-full max-w-2xl h-fit rounded-2xl bg-card border border-line p-6 space-y-4 animate-pulse">
+        <div className="h-8 w-1/2 rounded bg-line" />
+        {Array.from({ length: rows }, (_, i) => (
+          <div key={i} className="h-12 rounded-lg bg-sunken" />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import type { UseQueryResult } from '@tanstack/react-query'
+import { AlertTriangle, RotateCcw } from 'lucide-react'
+import { useTranslation } from '@/hooks/useTranslation'
+
+/**
+ * QueryStatus - Stands in for a list fetched in the browser: placeholder
+ * rows while its query loads, and a retry button if it fails
+ * @param query - The list's query
+ * @param rows - Number of placeholder rows
+ */
+export default function QueryStatus({
+  query,
+  rows = 4,
+}: {
+  query: UseQueryResult<unknown>
+  rows?: number
+}) {
+  const { t } = useTranslation()
+
+  if (query.isPending) {
+    return (
+      <div role="status" aria-busy="true" className="space-y-3 animate-pulse">
+        <span className="sr-only">{t('pending.loading')}</span>
+        {Array.from({ length: rows }, (_, i) => (
+          <div key={i} className="h-12 rounded-lg bg-sunken" />
+        ))}
+      </div>
+    )
+  }
+
+  if (query.isError) {
+    return (
+      <div role="alert" className="flex flex-col items-center gap-3 py-6">
+        <AlertTriangle className="h-8 w-8 text-amber-500" />
+        <p className="text-sm text-ink-muted">{t('error.list')}</p>
+        <button
+          onClick={() => query.refetch()}
+          disabled={query.isFetching}
+          className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 disabled:opacity-60 disabled:cursor-not-allowed transition"
+        >
+          <RotateCcw size={16} />
+          {t(query.isFetching ? 'error.retrying' : 'error.retry')}
+        </button>
+      </div>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,123 @@
+// @vitest-environment jsdom
+import {
+  createMemoryHistory,
+  createRootRoute,
+  createRoute,
+  createRouter,
+  Outlet,
+  RouterProvider,
+} from '@tanstack/react-router'
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import RouteError from '@/components/RouteError'
+
+/**
+ * A loader that fails the first time it runs and succeeds after that
+ */
+function failOnce(message: string) {
+  let calls = 0
+  return vi.fn(async () => {
+    calls += 1
+    if (calls === 1) throw new Error(message)
+    return 'Loaded'
+  })
+}
+
+/**
+ * Renders a one-page app with the same error boundaries as `getRouter`:
+ * RouteError on the root route and as every route's default
+ */
+function renderApp({
+  beforeLoad,
+  loader,
+}: {
+  beforeLoad?: () => Promise<string>
+  loader?: () => Promise<string>
+}) {
+  const rootRoute = createRootRoute({
+    beforeLoad,
+    errorComponent: RouteError,
+    component: Outlet,
+  })
+  const pageRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/',
+    loader: loader ?? (async () => 'Loaded'),
+    component: function Page() {
+      return <p>{pageRoute.useLoaderData()}</p>
+    },
+  })
+  const router = createRouter({
+    routeTree: rootRoute.addChildren([pageRoute]),
+    history: createMemoryHistory({ initialEntries: ['/'] }),
+    defaultErrorComponent: RouteError,
+  })
+  render(<RouterProvider router={router} />)
+}
+
+describe('RouteError', () => {
+  beforeEach(() => {
+    // The router logs every caught error
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('shows when a loader throws and re-runs it on retry', async () => {
+    const loader = failOnce('Database unavailable')
+    renderApp({ loader })
+
+    expect((await screen.findByRole('alert')).textContent).toContain(
+      'Something went wrong',
+    )
+    // Details are shown in development, which is how tests run
+    expect(screen.getByText('Database unavailable')).toBeTruthy()
+    expect(loader).toHaveBeenCalledTimes(1)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }))
+
+    expect(await screen.findByText('Loaded')).toBeTruthy()
+    expect(loader).toHaveBeenCalledTimes(2)
+    expect(screen.queryByRole('alert')).toBeNull()
+  })
+
+  it('catches a failing root beforeLoad and re-runs it on retry', async () => {
+    const beforeLoad = failOnce('Session lookup failed')
+    renderApp({ beforeLoad })
+
+    await screen.findByRole('alert')
+    expect(beforeLoad).toHaveBeenCalledTimes(1)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }))
+
+    expect(await screen.findByText('Loaded')).toBeTruthy()
+    await waitFor(() => expect(beforeLoad).toHaveBeenCalledTimes(2))
+  })
+
+  it('stays up when the retry fails too', async () => {
+    const loader = vi.fn(async (): Promise<string> => {
+      throw new Error('Still down')
+    })
+    renderApp({ loader })
+
+    await screen.findByRole('alert')
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }))
+
+    await waitFor(() => expect(loader).toHaveBeenCalledTimes(2))
+    expect(await screen.findByRole('alert')).toBeTruthy()
+    expect(
+      screen.getByRole<HTMLButtonElement>('button', { name: 'Try again' })
+        .disabled,
+    ).toBe(false)
+  })
+})
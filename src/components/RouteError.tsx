@@ -0,0 +1,62 @@
+import {
+  Link,
+  useRouter,
+  type ErrorComponentProps,
+} from '@tanstack/react-router'
+import { AlertTriangle, RotateCcw } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from '@/hooks/useTranslation'
+
+/**
+ * RouteError - Error boundary for a route whose loader or component threw.
+ * Retrying re-runs the loaders, which also clears the boundary once they
+ * succeed. Error details are only shown in development.
+ */
+export default function RouteError({ error }: ErrorComponentProps) {
+  const router = useRouter()
+  const { t } = useTranslation()
+  const [retrying, setRetrying] = useState(false)
+
+  const retry = async () => {
+    setRetrying(true)
+    try {
+      await router.invalidate()
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  return (
+    <div
+      role="alert"
+      className="min-h-[60vh] flex items-center justify-center bg-page p-4"
+    >
+      <div className="w-full max-w-md rounded-2xl bg-card shadow-sm border border-line p-6 text-center space-y-4">
+        <AlertTriangle className="mx-auto h-10 w-10 text-amber-500" />
+        <h1 className="text-xl font-semibold text-ink">{t('error.title')}</h1>
+        <p className="text-sm text-ink-muted">{t('error.description')}</p>
+        {import.meta.env.DEV && (
+          <pre className="text-left text-xs text-red-700 bg-red-50 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap">
+            {error.message}
+          </pre>
+        )}
+        <div className="flex justify-center gap-3">
+          <button
+            onClick={retry}
+            disabled={retrying}
+            className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 disabled:opacity-60 disabled:cursor-not-allowed transition"
+          >
+            <RotateCcw size={16} />
+            {t(retrying ? 'error.retrying' : 'error.retry')}
+          </button>
+          <Link
+            to="/"
+            className="rounded-lg border border-line-strong px-4 py-2 text-ink-muted hover:bg-sunken transition"
+          >
+            {t('error.home')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
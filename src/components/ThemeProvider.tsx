@@ -0,0 +1,78 @@
+import { useRouteContext } from '@tanstack/react-router'
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from 'react'
+import { setTheme } from '@/data/theme'
+import { useRefreshSession } from '@/hooks/useRefreshSession'
+import { ThemeContext } from '@/hooks/useTheme'
+import {
+  DEFAULT_THEME_PREFERENCE,
+  SYSTEM_DARK_QUERY,
+  type ThemePreference,
+} from '@/lib/theme'
+
+/**
+ * Follows the operating system's color scheme
+ */
+function subscribeToSystemTheme(onChange: () => void) {
+  const query = matchMedia(SYSTEM_DARK_QUERY)
+  query.addEventListener('change', onChange)
+  return () => query.removeEventListener('change', onChange)
+}
+
+/**
+ * ThemeProvider - Supplies the theme to everything inside it. The saved
+ * preference comes from the root route's context, read from a cookie on
+ * the server, so server and browser agree on the first render.
+ */
+export default function ThemeProvider({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const refreshSession = useRefreshSession()
+  const saved = useRouteContext({
+    from: '__root__',
+    // The context is missing while the root route itself is failing
+    select: (context) => context.theme ?? DEFAULT_THEME_PREFERENCE,
+  })
+  // Switches right away, before the server has stored the choice
+  const [preference, setPreferenceState] = useState(saved)
+  useEffect(() => setPreferenceState(saved), [saved])
+
+  const systemDark = useSyncExternalStore(
+    subscribeToSystemTheme,
+    () => matchMedia(SYSTEM_DARK_QUERY).matches,
+    // Unknown on the server; SYSTEM_THEME_SCRIPT covers the first paint
+    () => false,
+  )
+
+  const setPreference = useCallback(
+    async (next: ThemePreference) => {
+      setPreferenceState(next)
+      await setTheme({ data: { theme: next } })
+      await refreshSession()
+    },
+    [refreshSession],
+  )
+
+  const value = useMemo(
+    () => ({
+      preference,
+      theme:
+        preference === 'system'
+          ? systemDark
+            ? ('dark' as const)
+            : ('light' as const)
+          : preference,
+      setPreference,
+    }),
+    [preference, systemDark, setPreference],
+  )
+
+  return <ThemeContext value={value}>{children}</ThemeContext>
+}
@@ -0,0 +1,40 @@
+import { X } from 'lucide-react'
+import type { Toast } from '@/hooks/useToasts'
+import { useTranslation } from '@/hooks/useTranslation'
+
+/**
+ * Toasts - Renders notifications from `useToasts` in the bottom-right corner
+ */
+export default function Toasts({
+  toasts,
+  onDismiss,
+}: {
+  toasts: Toast[]
+  onDismiss: (id: number) => void
+}) {
+  const { t } = useTranslation()
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role={toast.tone === 'error' ? 'alert' : 'status'}
+          className={`flex items-start gap-3 rounded-lg px-4 py-3 text-sm shadow-lg ${
+            toast.tone === 'error'
+              ? 'bg-red-600 text-white'
+              : 'bg-gray-800 text-white'
+          }`}
+        >
+          <span className="flex-1">{toast.message}</span>
+          <button
+            onClick={() => onDismiss(toast.id)}
+            className="opacity-80 hover:opacity-100"
+            aria-label={t('toast.dismiss')}
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  authMiddleware,
+  getCurrentUser,
+  signIn,
+  signOut,
+  signUp,
+} from '@/data/auth'
+import { createMemoryRepositories, setRepositories } from '@/data/repository'
+import { ValidationError } from '@/lib/validation'
+
+/**
+ * Runs a server function's validator and handler directly, without the
+ * RPC layer or its middleware
+ */
+const start = vi.hoisted(() => {
+  type Fn = (...args: any[]) => any
+  const createServerFn = () => {
+    let validate: Fn = (input) => input
+    const builder = {
+      middleware: () => builder,
+      inputValidator: (fn: Fn) => {
+        validate = fn
+        return builder
+      },
+      handler: (fn: Fn) => async (options?: { data?: unknown }) =>
+        fn({ data: validate(options?.data) }),
+    }
+    return builder
+  }
+  const createMiddleware = () => ({
+    server: (fn: Fn) => ({ options: { server: fn } }),
+  })
+  return { createServerFn, createMiddleware }
+})
+
+/**
+ * The browser's cookies, as the server reads and writes them
+ */
+const cookies = vi.hoisted(() => {
+  const jar = new Map<string, string>()
+  return {
+    jar,
+    getCookie: (name: string) => jar.get(name),
+    setCookie: vi.fn((name: string, value: string) => jar.set(name, value)),
+    deleteCookie: vi.fn((name: string) => jar.delete(name)),
+  }
+})
+
+vi.mock('@tanstack/react-start', () => start)
+vi.mock('@tanstack/react-start/server', () => cookies)
+vi.mock('@/middleware', () => ({ rateLimit: () => ({}) }))
+
+const DAY = 24 * 60 * 60 * 1000
+const CREDENTIALS = { username: 'ada', password: 'correct horse' }
+
+/**
+ * Runs the auth middleware's server step the way a server function call
+ * would
+ */
+function callProtected() {
+  const next = vi.fn(async (options: unknown) => options)
+  const run = authMiddleware.options.server as unknown as (options: {
+    next: typeof next
+  }) => Promise<unknown>
+  return { next, result: run({ next }) }
+}
+
+describe('auth server functions', () => {
+  let repositories: ReturnType<typeof createMemoryRepositories>
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-03-01T12:00:00Z'))
+    repositories = createMemoryRepositories()
+    setRepositories(repositories)
+    cookies.jar.clear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.clearAllMocks()
+  })
+
+  it('signs up with a hashed password and a 30-day HTTP-only cookie', async () => {
+    const user = await signUp({ data: CREDENTIALS })
+    expect(user).toEqual({ id: expect.any(Number), username: 'ada' })
+
+    const record = await repositories.users.findByUsername('ada')
+    expect(record!.passwordHash).toMatch(/^pbkdf2-sha256\$/)
+    expect(record!.passwordHash).not.toContain(CREDENTIALS.password)
+
+    expect(cookies.setCookie).toHaveBeenCalledWith(
+      'auth_session',
+      expect.stringMatching(/^[\w-]{43}$/),
+      {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: false,
+        path: '/',
+        expires: new Date(Date.now() + 30 * DAY),
+      },
+    )
+    expect(await getCurrentUser()).toEqual(user)
+  })
+
+  it('turns away a taken username', async () => {
+    await signUp({ data: CREDENTIALS })
+    await expect(
+      signUp({ data: { ...CREDENTIALS, password: 'another one' } }),
+    ).rejects.toMatchObject({
+      fieldErrors: { username: 'That username is taken' },
+    })
+  })
+
+  it('signs in with the right password only', async () => {
+    await signUp({ data: CREDENTIALS })
+    cookies.jar.clear()
+
+    const error = await signIn({
+      data: { ...CREDENTIALS, password: 'wrong horse' },
+    }).catch((caught: unknown) => caught)
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).fieldErrors).toEqual({
+      input: 'Incorrect username or password',
+    })
+    expect(await getCurrentUser()).toBeNull()
+
+    await signIn({ data: CREDENTIALS })
+    expect(await getCurrentUser()).toMatchObject({ username: 'ada' })
+  })
+
+  it('gives an unknown username the same answer as a wrong password', async () => {
+    await expect(
+      signIn({ data: { username: 'nobody', password: 'whatever' } }),
+    ).rejects.toMatchObject({
+      fieldErrors: { input: 'Incorrect username or password' },
+    })
+    expect(cookies.setCookie).not.toHaveBeenCalled()
+  })
+
+  it('forgets a session once it expires', async () => {
+    await signUp({ data: CREDENTIALS })
+    vi.setSystemTime(Date.now() + 30 * DAY - 1)
+    expect(await getCurrentUser()).not.toBeNull()
+    vi.setSystemTime(Date.now() + 1)
+    expect(await getCurrentUser()).toBeNull()
+  })
+
+  it('signs out by deleting the session as well as the cookie', async () => {
+    await signUp({ data: CREDENTIALS })
+    const token = cookies.jar.get('auth_session')!
+
+    await signOut()
+    expect(cookies.deleteCookie).toHaveBeenCalledWith('auth_session', {
+      path: '/',
+    })
+    expect(await getCurrentUser()).toBeNull()
+    // A copy of the old cookie no longer signs anyone in
+    cookies.jar.set('auth_session', token)
+    expect(await getCurrentUser()).toBeNull()
+  })
+
+  it('only lets signed-in users through the auth middleware', async () => {
+    const visitor = callProtected()
+    await expect(visitor.result).rejects.toThrow('Sign in to continue')
+    expect(visitor.next).not.toHaveBeenCalled()
+
+    const user = await signUp({ data: CREDENTIALS })
+    const member = callProtected()
+    await member.result
+    expect(member.next).toHaveBeenCalledWith({ context: { user } })
+  })
+})
@@ -0,0 +1,143 @@
+import { createMiddleware, createServerFn } from '@tanstack/react-start'
+import {
+  deleteCookie,
+  getCookie,
+  setCookie,
+} from '@tanstack/react-start/server'
+import { getRepositories, type User } from '@/data/repository'
+import {
+  DUMMY_PASSWORD_HASH,
+  hashPassword,
+  verifyPassword,
+} from '@/data/password'
+import { createI18n, DEFAULT_LOCALE } from '@/lib/i18n'
+import { signInSchema, signUpSchema } from '@/lib/schemas'
+import { ValidationError, validator } from '@/lib/validation'
+import { rateLimit } from '@/middleware'
+
+const AUTH_COOKIE = 'auth_session'
+const SESSION_DAYS = 30
+
+// Field errors are sent in English; the form translates them
+const { t: english } = createI18n(DEFAULT_LOCALE)
+
+/**
+ * Hashes a session token for storage
+ */
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(token),
+  )
+  return Buffer.from(digest).toString('hex')
+}
+
+/**
+ * Signs the user in on this browser: stores a new session and hands its
+ * token to the browser in an HTTP-only cookie
+ */
+async function startSession(user: User) {
+  const { authSessions } = await getRepositories()
+  const token = Buffer.from(
+    crypto.getRandomValues(new Uint8Array(32)),
+  ).toString('base64url')
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000)
+  await authSessions.create(await hashToken(token), {
+    userId: user.id,
+    expiresAt: expiresAt.toISOString(),
+  })
+  setCookie(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+/**
+ * Looks up the user signed in on the current request
+ */
+async function findCurrentUser(): Promise<User | null> {
+  const token = getCookie(AUTH_COOKIE)
+  if (!token) return null
+  const { authSessions, users } = await getRepositories()
+  const session = await authSessions.get(await hashToken(token))
+  return (session && (await users.get(session.userId))) ?? null
+}
+
+/**
+ * Returns the signed-in user, or null for a visitor
+ */
+export const getCurrentUser = createServerFn({ method: 'GET' }).handler(
+  async () => await findCurrentUser(),
+)
+
+/**
+ * Creates an account and signs it in
+ */
+export const signUp = createServerFn({ method: 'POST' })
+  .middleware([rateLimit('auth')])
+  .inputValidator(validator(signUpSchema))
+  .handler(async ({ data }) => {
+    const { users } = await getRepositories()
+    const user = await users.create(
+      data.username,
+      await hashPassword(data.password),
+    )
+    if (!user) {
+      throw new ValidationError({
+        username: english('validation.usernameTaken'),
+      })
+    }
+    await startSession(user)
+    return user
+  })
+
+/**
+ * Signs in with a username and password
+ */
+export const signIn = createServerFn({ method: 'POST' })
+  .middleware([rateLimit('auth')])
+  .inputValidator(validator(signInSchema))
+  .handler(async ({ data }) => {
+    const { users } = await getRepositories()
+    const record = await users.findByUsername(data.username)
+    // Hash even for unknown users so timing does not reveal which exist
+    const valid = await verifyPassword(
+      data.password,
+      record?.passwordHash ?? DUMMY_PASSWORD_HASH,
+    )
+    if (!record || !valid) {
+      throw new ValidationError({
+        input: english('validation.badCredentials'),
+      })
+    }
+    const user: User = { id: record.id, username: record.username }
+    await startSession(user)
+    return user
+  })
+
+/**
+ * Signs out of this browser
+ */
+export const signOut = createServerFn({ method: 'POST' }).handler(async () => {
+  const token = getCookie(AUTH_COOKIE)
+  if (token) {
+    const { authSessions } = await getRepositories()
+    await authSessions.delete(await hashToken(token))
+  }
+  deleteCookie(AUTH_COOKIE, { path: '/' })
+})
+
+/**
+ * Rejects server function calls from visitors who are not signed in, and
+ * passes the signed-in user to the handler as `context.user`
+ */
+export const authMiddleware = createMiddleware({ type: 'function' }).server(
+  async ({ next }) => {
+    const user = await findCurrentUser()
+    if (!user) throw new Error('Sign in to continue')
+    return next({ context: { user } })
+  },
+)
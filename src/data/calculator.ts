@@ -0,0 +1,31 @@
+import { createServerFn } from '@tanstack/react-start'
+import { requestLocale } from '@/data/i18n'
+import {
+  checkCalculatorSearch,
+  hasCalculatorInput,
+  type CalculatorErrors,
+} from '@/lib/calculator'
+import { calculatorSearchSchema } from '@/lib/schemas'
+import { calculatePaycheck, type PaycheckEstimate } from '@/lib/tax'
+import { validator } from '@/lib/validation'
+
+/**
+ * CalculatorResult - Either an estimate or the fields that need fixing
+ */
+export type CalculatorResult =
+  | { kind: 'estimate'; estimate: PaycheckEstimate }
+  | { kind: 'invalid'; errors: CalculatorErrors }
+
+/**
+ * Runs the paycheck calculator for the /calculator route's search params.
+ * Returns null until pay has been entered, and field errors when a value is
+ * out of range.
+ */
+export const estimatePaycheck = createServerFn({ method: 'GET' })
+  .inputValidator(validator(calculatorSearchSchema))
+  .handler(async ({ data }): Promise<CalculatorResult | null> => {
+    if (!hasCalculatorInput(data)) return null
+    const checked = checkCalculatorSearch(data, requestLocale())
+    if ('errors' in checked) return { kind: 'invalid', errors: checked.errors }
+    return { kind: 'estimate', estimate: calculatePaycheck(checked.input) }
+  })
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { streamReply } from '@/data/chatbot'
+import { createMemoryRepositories, setRepositories } from '@/data/repository'
+import {
+  createSession,
+  recordExchange,
+  type ChatSession,
+} from '@/lib/chatbot/conversation'
+import {
+  createRuleResponder,
+  setChatResponder,
+  type ChatResponder,
+} from '@/lib/chatbot/responders'
+import { readEventStream, type ServerSentEvent } from '@/lib/sse'
+
+vi.mock('@/data/i18n', () => ({ requestLocale: () => 'en' }))
+
+const USER_ID = 1
+const SESSION_ID = '00000000-0000-4000-8000-000000000000'
+
+let repositories: ReturnType<typeof createMemoryRepositories>
+
+beforeEach(async () => {
+  repositories = createMemoryRepositories()
+  setRepositories(repositories)
+  await repositories.chatSessions.save(USER_ID, createSession(SESSION_ID))
+})
+
+/**
+ * Sends one message and reads the whole reply stream
+ */
+async function send(text: string, signal = new AbortController().signal) {
+  const events: ServerSentEvent[] = []
+  const response = streamReply(
+    USER_ID,
+    SESSION_ID,
+    { kind: 'message', text },
+    signal,
+  )
+  for await (const event of readEventStream(response)) events.push(event)
+  return events
+}
+
+describe('streamReply', () => {
+  it('streams tokens, then the saved conversation', async () => {
+    setChatResponder(createRuleResponder({ delayMs: 0 }))
+    const events = await send('please calculate my taxes')
+
+    const done = events.at(-1)!
+    expect(done.event).toBe('done')
+    const session = done.data as ChatSession
+    const text = events
+      .filter((event) => event.event === 'token')
+      .map((event) => (event.data as { text: string }).text)
+      .join('')
+    expect(session.messages.at(-1)!.text).toBe(text)
+    expect(
+      await repositories.chatSessions.get(USER_ID, SESSION_ID),
+    ).toMatchObject({ messages: session.messages })
+  })
+
+  it('runs a second turn only after the first is saved', async () => {
+    setChatResponder(createRuleResponder({ delayMs: 2 }))
+    const [first, second] = await Promise.all([
+      send('please calculate my taxes'),
+      send('rate $35/hr, 40 hours, CA'),
+    ])
+
+    const firstSession = first.at(-1)!.data as ChatSession
+    const secondSession = second.at(-1)!.data as ChatSession
+    expect(
+      secondSession.messages.slice(0, firstSession.messages.length),
+    ).toEqual(firstSession.messages)
+    expect(
+      secondSession.messages
+        .filter((message) => message.sender === 'user')
+        .map((message) => message.text),
+    ).toEqual(['please calculate my taxes', 'rate $35/hr, 40 hours, CA'])
+  })
+
+  it('stops replying when the client disconnects and saves what was sent', async () => {
+    let chunks = 0
+    // Writes until told to stop
+    const endless: ChatResponder = {
+      respond: (session, turn, { signal }) => ({
+        text: (async function* () {
+          while (!signal.aborted) {
+            chunks++
+            yield 'word '
+            await new Promise((resolve) => setTimeout(resolve, 1))
+          }
+        })(),
+        complete: (sent) =>
+          recordExchange(
+            session,
+            turn.kind === 'message' ? turn.text : turn.label,
+            sent.trim(),
+          ),
+      }),
+    }
+    setChatResponder(endless)
+
+    const client = new AbortController()
+    const response = streamReply(
+      USER_ID,
+      SESSION_ID,
+      { kind: 'message', text: 'tell me everything' },
+      client.signal,
+    )
+    for await (const event of readEventStream(response)) {
+      expect(event.event).toBe('token')
+      client.abort()
+      break
+    }
+
+    await vi.waitFor(async () => {
+      const saved = await repositories.chatSessions.get(USER_ID, SESSION_ID)
+      expect(saved!.messages.at(-2)!.text).toBe('tell me everything')
+    })
+    const saved = await repositories.chatSessions.get(USER_ID, SESSION_ID)
+    const produced = chunks
+    expect(saved!.messages.at(-1)!.text).toBe(
+      Array.from({ length: produced }, () => 'word').join(' '),
+    )
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect(chunks).toBe(produced)
+  })
+})
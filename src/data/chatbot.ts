@@ -0,0 +1,128 @@
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import { authMiddleware } from '@/data/auth'
+import { requestLocale } from '@/data/i18n'
+import { getRepositories } from '@/data/repository'
+import { createSession, type ChatSession } from '@/lib/chatbot/conversation'
+import { getChatResponder, type ChatTurn } from '@/lib/chatbot/responders'
+import { chatTopicSchema, chatTurnSchema } from '@/lib/schemas'
+import { eventStream } from '@/lib/sse'
+import { validator } from '@/lib/validation'
+import { rateLimit } from '@/middleware'
+
+/**
+ * Finds the user's conversation, falling back to their latest one when the
+ * id is unknown (or belongs to someone else), and to a new one after that
+ */
+async function findSession(userId: number, id?: string): Promise<ChatSession> {
+  const { chatSessions } = await getRepositories()
+  return (
+    (id && (await chatSessions.get(userId, id))) ||
+    (await chatSessions.latest(userId)) ||
+    createSession(crypto.randomUUID(), requestLocale())
+  )
+}
+
+async function saveSession(userId: number, session: ChatSession) {
+  const { chatSessions } = await getRepositories()
+  await chatSessions.save(userId, session)
+}
+
+// Each user's latest turn, so the next one waits until it has been saved
+const pendingTurns = new Map<number, Promise<void>>()
+
+/**
+ * Runs a user's turns one after another. Without this, a turn sent while
+ * the previous reply is still streaming could read the conversation before
+ * that reply is saved, and then drop it when saving its own.
+ */
+function oneTurnAtATime(userId: number, run: () => Promise<void>) {
+  const previous = pendingTurns.get(userId) ?? Promise.resolve()
+  const current = previous.then(run, run)
+  pendingTurns.set(userId, current)
+  const forget = () => {
+    if (pendingTurns.get(userId) === current) pendingTurns.delete(userId)
+  }
+  current.then(forget, forget)
+  return current
+}
+
+/**
+ * Streams the bot's reply to a turn as server-sent events: a "token" event
+ * for each chunk of text, then "done" with the saved conversation. When the
+ * client disconnects (e.g. the user sent another message), the reply stops
+ * and what was sent so far is saved. Server-only, so exporting it keeps the
+ * repositories out of the client bundle.
+ */
+export const streamReply = createServerOnlyFn(
+  (
+    userId: number,
+    sessionId: string,
+    turn: ChatTurn,
+    signal: AbortSignal,
+  ): Response => {
+    const locale = requestLocale()
+    return eventStream(
+      (send, disconnected) =>
+        oneTurnAtATime(userId, async () => {
+          const session = await findSession(userId, sessionId)
+          const reply = getChatResponder().respond(session, turn, {
+            signal: disconnected,
+            locale,
+          })
+          let sent = ''
+          for await (const text of reply.text) {
+            sent += text
+            send('token', { text })
+          }
+          const next = reply.complete(sent)
+          await saveSession(userId, next)
+          send('done', next)
+        }),
+      signal,
+    )
+  },
+)
+
+/**
+ * Loads the signed-in user's conversation, starting (and persisting) a new
+ * one the first time they open the chat.
+ */
+export const getChatSession = createServerFn({ method: 'GET' })
+  .middleware([authMiddleware])
+  .handler(async ({ context }) => {
+    const session = await findSession(context.user.id)
+    await saveSession(context.user.id, session)
+    return session
+  })
+
+/**
+ * Handles one user turn, streaming the bot's reply and persisting the
+ * updated transcript
+ */
+export const sendChatMessage = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware, rateLimit('chat')])
+  .inputValidator(validator(chatTurnSchema))
+  .handler(({ data, context, signal }) =>
+    streamReply(
+      context.user.id,
+      data.sessionId,
+      { kind: 'message', text: data.text },
+      signal,
+    ),
+  )
+
+/**
+ * Launches a topic's flow directly, as when a suggestion card is clicked,
+ * streaming the reply like `sendChatMessage`
+ */
+export const startChatTopic = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware, rateLimit('chat')])
+  .inputValidator(validator(chatTopicSchema))
+  .handler(({ data, context, signal }) =>
+    streamReply(
+      context.user.id,
+      data.sessionId,
+      { kind: 'topic', topic: data.topic, label: data.label },
+      signal,
+    ),
+  )
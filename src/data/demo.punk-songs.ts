@@ -1,4 +1,8 @@
 import { createServerFn } from '@tanstack/react-start'
+import { requestLocale } from '@/data/i18n'
+import { createI18n } from '@/lib/i18n'
+import { albumsSchema } from '@/lib/schemas'
+import { validator } from '@/lib/validation'
 
 export const getPunkSongs = createServerFn({
   method: 'GET',
@@ -11,3 +15,39 @@ export const getPunkSongs = createServerFn({
   { id: 6, name: 'All the Small Things', artist: 'blink-182' },
   { id: 7, name: 'Beverly Hills', artist: 'Weezer' },
 ])
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Release year of each song, keyed by song id, after a simulated one second
+ * query
+ */
+export const getReleaseYears = createServerFn({ method: 'GET' }).handler(
+  async (): Promise<Record<number, number>> => {
+    await sleep(1000)
+    return { 1: 2000, 2: 1991, 3: 2001, 4: 1999, 5: 2001, 6: 1999, 7: 2005 }
+  },
+)
+
+/**
+ * Album each song appeared on, keyed by song id, after a simulated three
+ * second query
+ * @param fail - Fails instead, to show how a streamed section handles errors
+ */
+export const getAlbums = createServerFn({ method: 'GET' })
+  .inputValidator(validator(albumsSchema))
+  .handler(async ({ data }): Promise<Record<number, string>> => {
+    await sleep(3000)
+    if (data.fail) {
+      throw new Error(createI18n(requestLocale()).t('streaming.albumsFailed'))
+    }
+    return {
+      1: 'Wheatus',
+      2: 'Nevermind',
+      3: 'Bleed American',
+      4: 'A Place in the Sun',
+      5: 'All Killer No Filler',
+      6: 'Enema of the State',
+      7: 'Make Believe',
+    }
+  })
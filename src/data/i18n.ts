@@ -0,0 +1,46 @@
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import {
+  getCookie,
+  getRequestHeader,
+  setCookie,
+} from '@tanstack/react-start/server'
+import { isLocale, negotiateLocale, type Locale } from '@/lib/i18n'
+import { localeSchema } from '@/lib/schemas'
+import { validator } from '@/lib/validation'
+
+const LOCALE_COOKIE = 'locale'
+const LOCALE_COOKIE_DAYS = 365
+
+/**
+ * requestLocale - Language for the current request: the one picked in the
+ * language switcher, or else the browser's preference from Accept-Language
+ */
+export const requestLocale = createServerOnlyFn((): Locale => {
+  const chosen = getCookie(LOCALE_COOKIE)
+  return isLocale(chosen)
+    ? chosen
+    : negotiateLocale(getRequestHeader('accept-language'))
+})
+
+/**
+ * Returns the language to render the app in
+ */
+export const getLocale = createServerFn({ method: 'GET' }).handler(() =>
+  requestLocale(),
+)
+
+/**
+ * Remembers the visitor's language choice in a cookie, so it wins over
+ * the browser's preference from then on
+ */
+export const setLocale = createServerFn({ method: 'POST' })
+  .inputValidator(validator(localeSchema))
+  .handler(({ data }) => {
+    setCookie(LOCALE_COOKIE, data.locale, {
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: LOCALE_COOKIE_DAYS * 24 * 60 * 60,
+    })
+    return data.locale
+  })
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DUMMY_PASSWORD_HASH,
+  hashPassword,
+  verifyPassword,
+} from '@/data/password'
+
+describe('password hashing', () => {
+  it('verifies the password it hashed and rejects any other', async () => {
+    const stored = await hashPassword('correct horse')
+    expect(stored).toMatch(/^pbkdf2-sha256\$600000\$[\w+/]+=*\$[\w+/]+=*$/)
+    expect(await verifyPassword('correct horse', stored)).toBe(true)
+    expect(await verifyPassword('correct horsE', stored)).toBe(false)
+    expect(await verifyPassword('', stored)).toBe(false)
+  })
+
+  it('salts every hash', async () => {
+    const [first, second] = await Promise.all([
+      hashPassword('hunter22'),
+      hashPassword('hunter22'),
+    ])
+    expect(first).not.toBe(second)
+  })
+
+  it('reads the work factor from the stored hash', async () => {
+    // A hash made with fewer iterations, e.g. before the count was raised
+    const salt = new Uint8Array(16).fill(7)
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode('hunter22'),
+      'PBKDF2',
+      false,
+      ['deriveBits'],
+    )
+    const hash = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: 1_000 },
+      key,
+      256,
+    )
+    const stored = [
+      'pbkdf2-sha256',
+      1_000,
+      Buffer.from(salt).toString('base64'),
+      Buffer.from(hash).toString('base64'),
+    ].join('$')
+    expect(await verifyPassword('hunter22', stored)).toBe(true)
+    expect(await verifyPassword('hunter23', stored)).toBe(false)
+  })
+
+  it('rejects malformed hashes and the dummy hash', async () => {
+    expect(await verifyPassword('hunter22', 'hunter22')).toBe(false)
+    expect(await verifyPassword('hunter22', 'bcrypt$10$abc$def')).toBe(false)
+    expect(await verifyPassword('', DUMMY_PASSWORD_HASH)).toBe(false)
+  })
+})
@@ -0,0 +1,83 @@
+/*
+ * Password hashing with PBKDF2 from the Web Crypto API, which Node.js
+ * provides globally, so no native modules are needed. Hashes are stored as
+ * "pbkdf2-sha256$<iterations>$<salt>$<hash>" (base64) so the work factor can
+ * be raised later without invalidating existing passwords.
+ */
+
+const ALGORITHM = 'pbkdf2-sha256'
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const ITERATIONS = 600_000
+const SALT_BYTES = 16
+const HASH_BITS = 256
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64')
+
+const fromBase64 = (text: string) => new Uint8Array(Buffer.from(text, 'base64'))
+
+async function derive(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  )
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS,
+  )
+  return new Uint8Array(bits)
+}
+
+/**
+ * Compares two byte arrays in constant time, so response timing does not
+ * reveal how much of a hash matched
+ */
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i]
+  return diff === 0
+}
+
+/**
+ * hashPassword - Hashes a password with a fresh random salt
+ * @returns The encoded hash to store
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const hash = await derive(password, salt, ITERATIONS)
+  return [ALGORITHM, ITERATIONS, toBase64(salt), toBase64(hash)].join('$')
+}
+
+/**
+ * verifyPassword - Checks a password against a hash from `hashPassword`
+ * @returns false for a wrong password or a malformed hash
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [algorithm, iterations, salt, hash] = stored.split('$')
+  if (algorithm !== ALGORITHM || !salt || !hash) return false
+  const expected = fromBase64(hash)
+  const actual = await derive(password, fromBase64(salt), Number(iterations))
+  return equalBytes(actual, expected)
+}
+
+/**
+ * Stands in for a stored hash when the username does not exist, so a failed
+ * login takes as long whether or not the account is real
+ */
+export const DUMMY_PASSWORD_HASH = [
+  ALGORITHM,
+  ITERATIONS,
+  toBase64(new Uint8Array(SALT_BYTES)),
+  toBase64(new Uint8Array(HASH_BITS / 8)),
+].join('$')
@@ -0,0 +1,51 @@
+import { QueryClient } from '@tanstack/react-query'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { sessionQueryOptions } from '@/data/queries'
+
+const server = vi.hoisted(() => ({
+  getCurrentUser: vi.fn(),
+}))
+
+vi.mock('@/data/auth', () => server)
+vi.mock('@/data/i18n', () => ({ getLocale: async () => 'en' }))
+vi.mock('@/data/theme', () => ({ getTheme: async () => 'system' }))
+vi.mock('@/data/todos', () => ({}))
+vi.mock('@/data/demo.punk-songs', () => ({}))
+
+describe('sessionQueryOptions', () => {
+  let queryClient: QueryClient
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    queryClient = new QueryClient()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+    vi.useRealTimers()
+    vi.resetAllMocks()
+  })
+
+  it('reuses the session between navigations while it is fresh', async () => {
+    server.getCurrentUser.mockResolvedValue({ id: 1, username: 'ada' })
+    // The root route fetches it on every navigation
+    await queryClient.fetchQuery(sessionQueryOptions())
+    vi.setSystemTime(Date.now() + 60_000)
+    await queryClient.fetchQuery(sessionQueryOptions())
+    expect(server.getCurrentUser).toHaveBeenCalledOnce()
+  })
+
+  it('notices a session that ended on the server once it goes stale', async () => {
+    server.getCurrentUser
+      .mockResolvedValueOnce({ id: 1, username: 'ada' })
+      .mockResolvedValueOnce(null)
+    await queryClient.fetchQuery(sessionQueryOptions())
+
+    vi.setSystemTime(Date.now() + 5 * 60 * 1000 + 1)
+    expect(await queryClient.fetchQuery(sessionQueryOptions())).toEqual({
+      user: null,
+      locale: 'en',
+      theme: 'system',
+    })
+  })
+})
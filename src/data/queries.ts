@@ -0,0 +1,66 @@
+import { queryOptions } from '@tanstack/react-query'
+import { getCurrentUser } from '@/data/auth'
+import { getPunkSongs } from '@/data/demo.punk-songs'
+import { getLocale } from '@/data/i18n'
+import { getTheme } from '@/data/theme'
+import { getTodos } from '@/data/todos'
+
+/*
+ * Query options shared by loaders, which prefetch them during SSR, and
+ * components, which read the same cache entry after hydration.
+ */
+
+/**
+ * The signed-in user (or null), the language to render in and the saved
+ * theme, which the root route puts in every route's context. Fetched during
+ * SSR and reused by client-side navigations until it is five minutes old;
+ * the next navigation after that fetches it again, so a session that
+ * expired or was signed out elsewhere stops showing as signed in.
+ * `useRefreshSession` refetches it straight away after signing in or out or
+ * changing the language or theme.
+ */
+export const sessionQueryOptions = () =>
+  queryOptions({
+    queryKey: ['session'],
+    queryFn: async () => {
+      const [user, locale, theme] = await Promise.all([
+        getCurrentUser(),
+        getLocale(),
+        getTheme(),
+      ])
+      return { user, locale, theme }
+    },
+    staleTime: 5 * 60 * 1000,
+    gcTime: Number.POSITIVE_INFINITY,
+  })
+
+export const punkSongsQueryOptions = () =>
+  queryOptions({
+    queryKey: ['punk-songs'],
+    queryFn: () => getPunkSongs(),
+  })
+
+/**
+ * Names from the demo API route. The URL is relative, so these are only
+ * fetched in the browser.
+ */
+export const namesQueryOptions = () =>
+  queryOptions({
+    queryKey: ['names'],
+    queryFn: async () => {
+      const res = await fetch('/demo/api/names')
+      if (!res.ok) throw new Error(`Names request failed: ${res.status}`)
+      return (await res.json()) as string[]
+    },
+  })
+
+/**
+ * A user's todos; the key includes their id so another account signing in
+ * on the same tab never sees a cached list
+ * @param userId - Signed-in user
+ */
+export const todosQueryOptions = (userId: number) =>
+  queryOptions({
+    queryKey: ['todos', userId],
+    queryFn: () => getTodos(),
+  })
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { LogRecord } from '@/lib/logger'
+
+const sqlite = vi.hoisted(() => ({
+  available: false,
+  createSqliteRepositories: (filename: string): never => {
+    throw new Error(`unable to open database file: ${filename}`)
+  },
+}))
+
+// Stands in for a Node.js release without node:sqlite, or one whose
+// database file can't be opened (e.g. on a read-only filesystem)
+vi.mock('./sqlite', () => {
+  if (!sqlite.available) {
+    throw new Error('No such built-in module: node:sqlite')
+  }
+  return { createSqliteRepositories: sqlite.createSqliteRepositories }
+})
+
+/**
+ * Loads a fresh copy of the module, so each test builds its own stores,
+ * with logging captured
+ */
+async function load(dataStore: string | undefined) {
+  vi.stubEnv('DATA_STORE', dataStore)
+  vi.resetModules()
+  const { createMemorySink, setLogSink } = await import('@/lib/logger')
+  const sink = createMemorySink()
+  setLogSink(sink)
+  const { getRepositories } = await import('./index')
+  return { getRepositories, logged: sink.records as LogRecord[] }
+}
+
+describe('getRepositories', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    sqlite.available = false
+  })
+
+  it('falls back to memory with a warning when DATA_STORE is unset', async () => {
+    const { getRepositories, logged } = await load(undefined)
+    const { users } = await getRepositories()
+    await users.create('ada', 'hash')
+    expect(await users.findByUsername('ada')).toMatchObject({
+      username: 'ada',
+    })
+    expect(logged).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        msg: 'data store',
+        store: 'memory',
+      }),
+    ])
+  })
+
+  it('fails when SQLite was asked for explicitly', async () => {
+    const { getRepositories } = await load('sqlite')
+    await expect(getRepositories()).rejects.toThrow(
+      'SQLite storage needs Node.js 22.13 or newer',
+    )
+  })
+
+  it('rejects unknown stores', async () => {
+    const { getRepositories } = await load('redis')
+    await expect(getRepositories()).rejects.toThrow(
+      'Unknown DATA_STORE "redis"',
+    )
+  })
+
+  it('falls back to memory with a warning when the database cannot be opened', async () => {
+    sqlite.available = true
+    vi.stubEnv('DATABASE_FILE', '/read-only/data.db')
+    const { getRepositories, logged } = await load(undefined)
+    const { users } = await getRepositories()
+    await users.create('ada', 'hash')
+    expect(await users.findByUsername('ada')).toMatchObject({
+      username: 'ada',
+    })
+    expect(logged).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        msg: 'data store',
+        store: 'memory',
+        reason: expect.stringContaining('"/read-only/data.db"'),
+        error: expect.objectContaining({
+          message: 'unable to open database file: /read-only/data.db',
+        }),
+      }),
+    ])
+  })
+
+  it('fails when an explicitly chosen database cannot be opened', async () => {
+    sqlite.available = true
+    const { getRepositories } = await load('sqlite')
+    await expect(getRepositories()).rejects.toThrow(
+      'Could not open the SQLite database "data.db"',
+    )
+  })
+})
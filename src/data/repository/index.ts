@@ -0,0 +1,90 @@
+import { log, serializeError } from '@/lib/logger'
+import { createMemoryRepositories } from './memory'
+import type { Repositories } from './types'
+
+export type {
+  AuthSession,
+  AuthSessionRepository,
+  ChatSessionRepository,
+  Repositories,
+  Todo,
+  TodoChanges,
+  TodoRepository,
+  User,
+  UserRecord,
+  UserRepository,
+} from './types'
+export { createMemoryRepositories } from './memory'
+
+let repositories: Promise<Repositories> | undefined
+
+/**
+ * Builds the store selected by `DATA_STORE`: "sqlite" (in the file named by
+ * `DATABASE_FILE`) or "memory". Left unset, SQLite is used where Node.js
+ * has node:sqlite (22.13 and newer) and the database file can be opened,
+ * e.g. not on a read-only serverless filesystem; memory is used elsewhere,
+ * with a warning, since nothing survives a restart.
+ */
+async function createRepositories(): Promise<Repositories> {
+  const configured = process.env.DATA_STORE
+  const store = configured ?? 'sqlite'
+  if (store === 'memory') return createMemoryRepositories()
+  if (store !== 'sqlite') {
+    throw new Error(
+      `Unknown DATA_STORE "${store}", expected "sqlite" or "memory"`,
+    )
+  }
+
+  // Loaded lazily so the memory store works on Node.js versions without node:sqlite
+  let sqlite: typeof import('./sqlite')
+  try {
+    sqlite = await import('./sqlite')
+  } catch (error) {
+    if (configured) {
+      throw new Error(
+        'SQLite storage needs Node.js 22.13 or newer; set DATA_STORE=memory to run without it',
+        { cause: error },
+      )
+    }
+    log('warn', 'data store', {
+      store: 'memory',
+      reason: `node:sqlite is unavailable in Node.js ${process.versions.node}; data is kept in memory and lost on restart`,
+      error: serializeError(error),
+    })
+    return createMemoryRepositories()
+  }
+
+  const filename = process.env.DATABASE_FILE ?? 'data.db'
+  try {
+    return sqlite.createSqliteRepositories(filename)
+  } catch (error) {
+    if (configured) {
+      throw new Error(
+        `Could not open the SQLite database "${filename}"; set DATABASE_FILE to a writable path`,
+        { cause: error },
+      )
+    }
+    log('warn', 'data store', {
+      store: 'memory',
+      reason: `the SQLite database "${filename}" could not be opened; data is kept in memory and lost on restart. Set DATABASE_FILE to a writable path to keep it.`,
+      error: serializeError(error),
+    })
+    return createMemoryRepositories()
+  }
+}
+
+/**
+ * getRepositories - Returns the app's stores, creating them on first use
+ */
+export function getRepositories(): Promise<Repositories> {
+  repositories ??= createRepositories()
+  return repositories
+}
+
+/**
+ * setRepositories - Replaces the app's stores, e.g. with
+ * `createMemoryRepositories()` in tests
+ */
+export function setRepositories(next: Repositories) {
+  repositories = Promise.resolve(next)
+}
@@ -0,0 +1,132 @@
+import type { ChatSession } from '@/lib/chatbot/conversation'
+import type { AuthSession, Repositories, Todo, UserRecord } from './types'
+
+/**
+ * createMemoryRepositories - Stores everything in process memory.
+ * Nothing survives a restart, which makes it a good fit for tests.
+ */
+export function createMemoryRepositories(): Repositories {
+  const todos: Array<Todo & { userId: number }> = []
+  let nextTodoId = 1
+  const sessions = new Map<string, { userId: number; session: ChatSession }>()
+  const users: UserRecord[] = []
+  let nextUserId = 1
+  const authSessions = new Map<string, AuthSession>()
+
+  const toTodo = ({ id, name, completed }: Todo): Todo => ({
+    id,
+    name,
+    completed,
+  })
+  const findTodo = (userId: number, id: number) =>
+    todos.find((t) => t.id === id && t.userId === userId)
+
+  return {
+    todos: {
+      list: async (userId) =>
+        todos.filter((t) => t.userId === userId).map(toTodo),
+      create: async (userId, name) => {
+        const todo = { id: nextTodoId++, name, completed: false, userId }
+        todos.push(todo)
+        return toTodo(todo)
+      },
+      update: async (userId, id, changes) => {
+        const todo = findTodo(userId, id)
+        if (!todo) return undefined
+        Object.assign(todo, changes)
+        return toTodo(todo)
+      },
+      delete: async (userId, id) => {
+        const todo = findTodo(userId, id)
+        if (!todo) return false
+        todos.splice(todos.indexOf(todo), 1)
+        return true
+      },
+      reorder: async (userId, ids) => {
+        const own = todos.filter((t) => t.userId === userId)
+        const byId = new Map(own.map((todo) => [todo.id, todo]))
+        if (
+          ids.length !== own.length ||
+          new Set(ids).size !== ids.length ||
+          !ids.every((id) => byId.has(id))
+        ) {
+          return false
+        }
+        // Other users' todos keep their places; only relative order matters
+        const others = todos.filter((t) => t.userId !== userId)
+        todos.splice(
+          0,
+          todos.length,
+          ...others,
+          ...ids.map((id) => byId.get(id)!),
+        )
+        return true
+      },
+    },
+    chatSessions: {
+      // Copies keep callers from mutating stored state, as with a real database
+      get: async (userId, id) => {
+        const stored = sessions.get(id)
+        return stored?.userId === userId
+          ? structuredClone(stored.session)
+          : undefined
+      },
+      latest: async (userId) => {
+        let latest: ChatSession | undefined
+        for (const stored of sessions.values()) {
+          if (
+            stored.userId === userId &&
+            (!latest || stored.session.updatedAt > latest.updatedAt)
+          ) {
+            latest = stored.session
+          }
+        }
+        return structuredClone(latest)
+      },
+      save: async (userId, session) => {
+        const stored = sessions.get(session.id)
+        if (stored && stored.userId !== userId) return
+        sessions.set(session.id, { userId, session: structuredClone(session) })
+      },
+    },
+    users: {
+      get: async (id) => {
+        const user = users.find((u) => u.id === id)
+        return user && { id: user.id, username: user.username }
+      },
+      findByUsername: async (username) => {
+        const user = users.find(
+          (u) => u.username.toLowerCase() === username.toLowerCase(),
+        )
+        return user && { ...user }
+      },
+      create: async (username, passwordHash) => {
+        if (
+          users.some((u) => u.username.toLowerCase() === username.toLowerCase())
+        ) {
+          return undefined
+        }
+        const user = { id: nextUserId++, username, passwordHash }
+        users.push(user)
+        return { id: user.id, username }
+      },
+    },
+    authSessions: {
+      get: async (tokenHash) => {
+        const session = authSessions.get(tokenHash)
+        if (!session) return undefined
+        if (Date.parse(session.expiresAt) <= Date.now()) {
+          authSessions.delete(tokenHash)
+          return undefined
+        }
+        return { ...session }
+      },
+      create: async (tokenHash, session) => {
+        authSessions.set(tokenHash, { ...session })
+      },
+      delete: async (tokenHash) => {
+        authSessions.delete(tokenHash)
+      },
+    },
+  }
+}
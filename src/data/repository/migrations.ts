@@ -0,0 +1,110 @@
+import type { DatabaseSync } from 'node:sqlite'
+
+/**
+ * Migration - A forward-only schema change
+ * @property version - Applied in ascending order; never renumber a shipped migration
+ * @property name - Short description recorded alongside the version
+ * @property sql - Statements to run
+ */
+export interface Migration {
+  version: number
+  name: string
+  sql: string
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_todos',
+    sql: `
+      CREATE TABLE todos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO todos (name) VALUES ('Get groceries'), ('Buy a new phone');
+    `,
+  },
+  {
+    version: 2,
+    name: 'create_chat_sessions',
+    sql: `
+      CREATE TABLE chat_sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 3,
+    name: 'add_todo_completed_and_position',
+    sql: `
+      ALTER TABLE todos ADD COLUMN completed INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE todos ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+      UPDATE todos SET position = id;
+    `,
+  },
+  {
+    version: 4,
+    name: 'create_users_and_scope_data',
+    // Rows from before accounts existed keep a NULL owner and are never shown
+    sql: `
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE auth_sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        expires_at TEXT NOT NULL
+      );
+      ALTER TABLE todos ADD COLUMN user_id INTEGER REFERENCES users (id) ON DELETE CASCADE;
+      ALTER TABLE chat_sessions ADD COLUMN user_id INTEGER REFERENCES users (id) ON DELETE CASCADE;
+      CREATE INDEX todos_by_user ON todos (user_id, position);
+      CREATE INDEX chat_sessions_by_user ON chat_sessions (user_id, updated_at);
+    `,
+  },
+]
+
+/**
+ * Applies any migrations the database has not seen yet. Each one runs in its
+ * own write transaction, so concurrent processes cannot apply it twice.
+ * @param db - Open database connection
+ * @param migrations - Migrations to apply, defaults to the app's schema
+ */
+export function migrate(db: DatabaseSync, migrations = MIGRATIONS) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+  const isApplied = db.prepare(
+    'SELECT 1 FROM schema_migrations WHERE version = ?',
+  )
+  const record = db.prepare(
+    'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+  )
+
+  for (const migration of [...migrations].sort(
+    (a, b) => a.version - b.version,
+  )) {
+    if (isApplied.get(migration.version)) continue
+    db.exec('BEGIN IMMEDIATE')
+    try {
+      // Re-check under the write lock in case another process got here first
+      if (!isApplied.get(migration.version)) {
+        db.exec(migration.sql)
+        record.run(migration.version, migration.name)
+      }
+      db.exec('COMMIT')
+    } catch (error) {
+      db.exec('ROLLBACK')
+      throw error
+    }
+  }
+}
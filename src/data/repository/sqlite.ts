@@ -0,0 +1,199 @@
+import { DatabaseSync } from 'node:sqlite'
+import type { ChatSession } from '@/lib/chatbot/conversation'
+import { migrate } from './migrations'
+import type { AuthSession, Repositories, Todo, UserRecord } from './types'
+
+/**
+ * Copies a row into a plain object (rows have a null prototype)
+ */
+function toTodo(row: Record<string, unknown>): Todo {
+  return {
+    id: Number(row.id),
+    name: String(row.name),
+    completed: Boolean(row.completed),
+  }
+}
+
+/**
+ * Copies a user row into a plain object
+ */
+function toUserRecord(row: Record<string, unknown>): UserRecord {
+  return {
+    id: Number(row.id),
+    username: String(row.username),
+    passwordHash: String(row.password_hash),
+  }
+}
+
+/**
+ * createSqliteRepositories - Stores everything in a local SQLite file using
+ * the `node:sqlite` module built into Node.js 22.13+
+ *
+ * Statements run synchronously, so each write is atomic within the process;
+ * WAL mode and a busy timeout let several processes share the file.
+ * @param filename - Database file, created (and migrated) on first use
+ */
+export function createSqliteRepositories(filename: string): Repositories {
+  const db = new DatabaseSync(filename)
+  try {
+    db.exec('PRAGMA journal_mode = WAL')
+    db.exec('PRAGMA busy_timeout = 5000')
+    migrate(db)
+  } catch (error) {
+    db.close()
+    throw error
+  }
+
+  const listTodos = db.prepare(
+    'SELECT id, name, completed FROM todos WHERE user_id = ? ORDER BY position, id',
+  )
+  // Position is computed inside the insert so concurrent creates cannot collide
+  const insertTodo = db.prepare(`
+    INSERT INTO todos (user_id, name, position)
+    SELECT :userId, :name, COALESCE(MAX(position), 0) + 1
+    FROM todos WHERE user_id = :userId
+    RETURNING id, name, completed
+  `)
+  const updateTodo = db.prepare(`
+    UPDATE todos SET
+      name = COALESCE(:name, name),
+      completed = COALESCE(:completed, completed)
+    WHERE id = :id AND user_id = :userId
+    RETURNING id, name, completed
+  `)
+  const deleteTodo = db.prepare(
+    'DELETE FROM todos WHERE id = ? AND user_id = ?',
+  )
+  const listTodoIds = db.prepare('SELECT id FROM todos WHERE user_id = ?')
+  const setTodoPosition = db.prepare(
+    'UPDATE todos SET position = ? WHERE id = ?',
+  )
+  const selectSession = db.prepare(
+    'SELECT data FROM chat_sessions WHERE id = ? AND user_id = ?',
+  )
+  const selectLatestSession = db.prepare(`
+    SELECT data FROM chat_sessions WHERE user_id = ?
+    ORDER BY updated_at DESC LIMIT 1
+  `)
+  // The WHERE clause turns a clash with another user's session id into a no-op
+  const upsertSession = db.prepare(`
+    INSERT INTO chat_sessions (id, user_id, data, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET
+      data = excluded.data,
+      updated_at = excluded.updated_at
+    WHERE chat_sessions.user_id = excluded.user_id
+  `)
+  const selectUser = db.prepare('SELECT id, username FROM users WHERE id = ?')
+  const selectUserByName = db.prepare(
+    'SELECT id, username, password_hash FROM users WHERE username = ?',
+  )
+  const insertUser = db.prepare(`
+    INSERT INTO users (username, password_hash) VALUES (?, ?)
+    ON CONFLICT (username) DO NOTHING
+    RETURNING id, username
+  `)
+  const selectAuthSession = db.prepare(
+    'SELECT user_id, expires_at FROM auth_sessions WHERE token_hash = ?',
+  )
+  const insertAuthSession = db.prepare(
+    'INSERT INTO auth_sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)',
+  )
+  const deleteAuthSession = db.prepare(
+    'DELETE FROM auth_sessions WHERE token_hash = ?',
+  )
+
+  return {
+    todos: {
+      list: async (userId) => listTodos.all(userId).map(toTodo),
+      create: async (userId, name) => toTodo(insertTodo.get({ userId, name })!),
+      update: async (userId, id, changes) => {
+        const row = updateTodo.get({
+          id,
+          userId,
+          name: changes.name ?? null,
+          completed:
+            changes.completed === undefined ? null : Number(changes.completed),
+        })
+        return row ? toTodo(row) : undefined
+      },
+      delete: async (userId, id) => deleteTodo.run(id, userId).changes > 0,
+      reorder: async (userId, ids) => {
+        db.exec('BEGIN IMMEDIATE')
+        try {
+          const existing = new Set(
+            listTodoIds.all(userId).map((row) => Number(row.id)),
+          )
+          if (
+            ids.length !== existing.size ||
+            new Set(ids).size !== ids.length ||
+            !ids.every((id) => existing.has(id))
+          ) {
+            db.exec('ROLLBACK')
+            return false
+          }
+          ids.forEach((id, index) => setTodoPosition.run(index + 1, id))
+          db.exec('COMMIT')
+          return true
+        } catch (error) {
+          db.exec('ROLLBACK')
+          throw error
+        }
+      },
+    },
+    chatSessions: {
+      get: async (userId, id) => {
+        const row = selectSession.get(id, userId) as
+          { data: string } | undefined
+        return row ? (JSON.parse(row.data) as ChatSession) : undefined
+      },
+      latest: async (userId) => {
+        const row = selectLatestSession.get(userId) as
+          { data: string } | undefined
+        return row ? (JSON.parse(row.data) as ChatSession) : undefined
+      },
+      save: async (userId, session) => {
+        upsertSession.run(
+          session.id,
+          userId,
+          JSON.stringify(session),
+          session.updatedAt,
+        )
+      },
+    },
+    users: {
+      get: async (id) => {
+        const row = selectUser.get(id)
+        return row && { id: Number(row.id), username: String(row.username) }
+      },
+      findByUsername: async (username) => {
+        const row = selectUserByName.get(username)
+        return row && toUserRecord(row)
+      },
+      create: async (username, passwordHash) => {
+        const row = insertUser.get(username, passwordHash)
+        return row && { id: Number(row.id), username: String(row.username) }
+      },
+    },
+    authSessions: {
+      get: async (tokenHash) => {
+        const row = selectAuthSession.get(tokenHash)
+        if (!row) return undefined
+        const session: AuthSession = {
+          userId: Number(row.user_id),
+          expiresAt: String(row.expires_at),
+        }
+        if (Date.parse(session.expiresAt) <= Date.now()) {
+          deleteAuthSession.run(tokenHash)
+          return undefined
+        }
+        return session
+      },
+      create: async (tokenHash, session) => {
+        insertAuthSession.run(tokenHash, session.userId, session.expiresAt)
+      },
+      delete: async (tokenHash) => {
+        deleteAuthSession.run(tokenHash)
+      },
+    },
+  }
+}
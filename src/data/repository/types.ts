@@ -0,0 +1,118 @@
+import type { ChatSession } from '@/lib/chatbot/conversation'
+
+/**
+ * Todo - An item in the server functions demo's todo list
+ * @property id - Unique id assigned by the store; never reused
+ * @property name - What needs doing
+ * @property completed - Whether it has been done
+ */
+export interface Todo {
+  id: number
+  name: string
+  completed: boolean
+}
+
+/**
+ * TodoChanges - Fields of a todo that can be edited
+ */
+export type TodoChanges = Partial<Pick<Todo, 'name' | 'completed'>>
+
+/**
+ * TodoRepository - Storage for todos. Every user has their own list; a todo
+ * owned by someone else behaves as if it did not exist.
+ */
+export interface TodoRepository {
+  /** Returns the user's todos in list order */
+  list(userId: number): Promise<Todo[]>
+  /** Stores a new todo at the end of the user's list and returns it with its assigned id */
+  create(userId: number, name: string): Promise<Todo>
+  /** Applies changes to a todo; returns undefined when the user has no todo with that id */
+  update(
+    userId: number,
+    id: number,
+    changes: TodoChanges,
+  ): Promise<Todo | undefined>
+  /** Removes a todo; returns false when the user has no todo with that id */
+  delete(userId: number, id: number): Promise<boolean>
+  /**
+   * Puts the user's todos in the given order. `ids` must list every one of
+   * them exactly once; returns false (and changes nothing) when it does not.
+   */
+  reorder(userId: number, ids: number[]): Promise<boolean>
+}
+
+/**
+ * ChatSessionRepository - Storage for chatbot conversations, each owned by
+ * one user
+ */
+export interface ChatSessionRepository {
+  /** Returns the session, or undefined when the user has no session with that id */
+  get(userId: number, id: string): Promise<ChatSession | undefined>
+  /** Returns the user's most recently updated session */
+  latest(userId: number): Promise<ChatSession | undefined>
+  /** Inserts or replaces a session; never overwrites another user's session */
+  save(userId: number, session: ChatSession): Promise<void>
+}
+
+/**
+ * User - A signed-up account
+ * @property id - Unique id assigned by the store
+ * @property username - Login name, unique regardless of case
+ */
+export interface User {
+  id: number
+  username: string
+}
+
+/**
+ * UserRecord - A user along with their stored password hash
+ */
+export interface UserRecord extends User {
+  passwordHash: string
+}
+
+/**
+ * UserRepository - Storage for accounts
+ */
+export interface UserRepository {
+  /** Returns the user, or undefined when no user has that id */
+  get(id: number): Promise<User | undefined>
+  /** Looks a user up by username, ignoring case */
+  findByUsername(username: string): Promise<UserRecord | undefined>
+  /** Stores a new user; returns undefined when the username is taken */
+  create(username: string, passwordHash: string): Promise<User | undefined>
+}
+
+/**
+ * AuthSession - A signed-in browser
+ * @property userId - Who is signed in
+ * @property expiresAt - ISO timestamp after which the session is invalid
+ */
+export interface AuthSession {
+  userId: number
+  expiresAt: string
+}
+
+/**
+ * AuthSessionRepository - Storage for sign-in sessions. Sessions are keyed
+ * by a hash of the cookie token, so a leaked database cannot be used to
+ * sign in.
+ */
+export interface AuthSessionRepository {
+  /** Returns the session, or undefined when it does not exist or has expired */
+  get(tokenHash: string): Promise<AuthSession | undefined>
+  /** Stores a new session */
+  create(tokenHash: string, session: AuthSession): Promise<void>
+  /** Removes a session; does nothing when it does not exist */
+  delete(tokenHash: string): Promise<void>
+}
+
+/**
+ * Repositories - Every store the app uses, backed by one implementation
+ */
+export interface Repositories {
+  todos: TodoRepository
+  chatSessions: ChatSessionRepository
+  users: UserRepository
+  authSessions: AuthSessionRepository
+}
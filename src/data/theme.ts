@@ -0,0 +1,38 @@
+import { createServerFn } from '@tanstack/react-start'
+import { getCookie, setCookie } from '@tanstack/react-start/server'
+import { themeSchema } from '@/lib/schemas'
+import {
+  DEFAULT_THEME_PREFERENCE,
+  isThemePreference,
+  type ThemePreference,
+} from '@/lib/theme'
+import { validator } from '@/lib/validation'
+
+const THEME_COOKIE = 'theme'
+const THEME_COOKIE_DAYS = 365
+
+/**
+ * Returns the theme picked in the header, so the server renders the page
+ * in it and the first paint is never in the wrong one
+ */
+export const getTheme = createServerFn({ method: 'GET' }).handler(
+  (): ThemePreference => {
+    const chosen = getCookie(THEME_COOKIE)
+    return isThemePreference(chosen) ? chosen : DEFAULT_THEME_PREFERENCE
+  },
+)
+
+/**
+ * Remembers the visitor's theme choice in a cookie
+ */
+export const setTheme = createServerFn({ method: 'POST' })
+  .inputValidator(validator(themeSchema))
+  .handler(({ data }) => {
+    setCookie(THEME_COOKIE, data.theme, {
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: THEME_COOKIE_DAYS * 24 * 60 * 60,
+    })
+    return data.theme
+  })
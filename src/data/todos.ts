@@ -0,0 +1,94 @@
+import { createServerFn } from '@tanstack/react-start'
+import { authMiddleware } from '@/data/auth'
+import { getRepositories } from '@/data/repository'
+import {
+  completeTodoSchema,
+  newTodoSchema,
+  renameTodoSchema,
+  reorderTodosSchema,
+  todoIdSchema,
+} from '@/lib/schemas'
+import { validator } from '@/lib/validation'
+import { rateLimit } from '@/middleware'
+
+/**
+ * Lists the signed-in user's todos in their saved order
+ */
+export const getTodos = createServerFn({
+  method: 'GET',
+})
+  .middleware([authMiddleware])
+  .handler(async ({ context }) => {
+    const { todos } = await getRepositories()
+    return await todos.list(context.user.id)
+  })
+
+/**
+ * Adds a todo to the end of the list; every mutation returns the updated
+ * list
+ */
+export const addTodo = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware, rateLimit('todos')])
+  .inputValidator(validator(newTodoSchema))
+  .handler(async ({ data, context }) => {
+    const { todos } = await getRepositories()
+    await todos.create(context.user.id, data.name)
+    return await todos.list(context.user.id)
+  })
+
+/**
+ * Renames a todo
+ */
+export const updateTodo = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware, rateLimit('todos')])
+  .inputValidator(validator(renameTodoSchema))
+  .handler(async ({ data, context }) => {
+    const { todos } = await getRepositories()
+    const updated = await todos.update(context.user.id, data.id, {
+      name: data.name,
+    })
+    if (!updated) throw new Error('Todo not found')
+    return await todos.list(context.user.id)
+  })
+
+/**
+ * Marks a todo done or not done
+ */
+export const completeTodo = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware, rateLimit('todos')])
+  .inputValidator(validator(completeTodoSchema))
+  .handler(async ({ data, context }) => {
+    const { todos } = await getRepositories()
+    const updated = await todos.update(context.user.id, data.id, {
+      completed: data.completed,
+    })
+    if (!updated) throw new Error('Todo not found')
+    return await todos.list(context.user.id)
+  })
+
+/**
+ * Deletes a todo
+ */
+export const deleteTodo = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware, rateLimit('todos')])
+  .inputValidator(validator(todoIdSchema))
+  .handler(async ({ data, context }) => {
+    const { todos } = await getRepositories()
+    if (!(await todos.delete(context.user.id, data.id)))
+      throw new Error('Todo not found')
+    return await todos.list(context.user.id)
+  })
+
+/**
+ * Saves a new order, given every todo id in it
+ */
+export const reorderTodos = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware, rateLimit('todos')])
+  .inputValidator(validator(reorderTodosSchema))
+  .handler(async ({ data, context }) => {
+    const { todos } = await getRepositories()
+    if (!(await todos.reorder(context.user.id, data.ids))) {
+      throw new Error('The todo list changed; reload and try again')
+    }
+    return await todos.list(context.user.id)
+  })
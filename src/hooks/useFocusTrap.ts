@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react'
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])'
+
+/**
+ * Lists the elements inside a container that can take keyboard focus, in
+ * tab order
+ */
+export function focusableElements(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE))
+}
+
+/**
+ * useFocusTrap - Keeps keyboard focus inside a container while it is open,
+ * as a modal drawer or dialog should: focus moves in when it opens, Tab and
+ * Shift+Tab wrap around, Escape closes it, and focus returns to where it
+ * was once it closes
+ * @param active - Whether the container is open
+ * @param onEscape - Closes the container
+ * @returns Ref to attach to the container
+ */
+export function useFocusTrap<T extends HTMLElement>(
+  active: boolean,
+  onEscape: () => void,
+) {
+  const ref = useRef<T>(null)
+  const onEscapeRef = useRef(onEscape)
+  onEscapeRef.current = onEscape
+
+  useEffect(() => {
+    const container = ref.current
+    if (!active || !container) return
+    const previous =
+      document.activeElement instanceof HTMLElement
+        ? document.activeElement
+        : null
+    focusableElements(container)[0]?.focus()
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault()
+        onEscapeRef.current()
+        return
+      }
+      if (event.key !== 'Tab') return
+      const items = focusableElements(container)
+      if (items.length === 0) return
+      const first = items[0]
+      const last = items[items.length - 1]
+      const current = document.activeElement
+      if (!container.contains(current)) {
+        event.preventDefault()
+        first.focus()
+      } else if (event.shiftKey && current === first) {
+        event.preventDefault()
+        last.focus()
+      } else if (!event.shiftKey && current === last) {
+        event.preventDefault()
+        first.focus()
+      }
+    }
+    document.addEventListener('keydown', onKeyDown)
+    return () => {
+      document.removeEventListener('keydown', onKeyDown)
+      previous?.focus()
+    }
+  }, [active])
+
+  return ref
+}
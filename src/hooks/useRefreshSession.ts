@@ -0,0 +1,19 @@
+import { useRouter } from '@tanstack/react-router'
+import { useCallback } from 'react'
+import { sessionQueryOptions } from '@/data/queries'
+
+/**
+ * useRefreshSession - Call after signing in or out or changing the
+ * language or theme. Marks the cached session stale and re-runs the
+ * routes, so the root route fetches it again and every page sees the
+ * change.
+ */
+export function useRefreshSession() {
+  const router = useRouter()
+  return useCallback(async () => {
+    await router.options.context.queryClient.invalidateQueries({
+      queryKey: sessionQueryOptions().queryKey,
+    })
+    await router.invalidate()
+  }, [router])
+}
@@ -0,0 +1,138 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  useSpeechRecognition,
+  type SpeechRecognitionLike,
+  type SpeechRecognitionResultEvent,
+} from '@/hooks/useSpeechRecognition'
+
+/**
+ * Stands in for the browser recognizer; the test drives its events
+ */
+class MockRecognition implements SpeechRecognitionLike {
+  static instances: MockRecognition[] = []
+  lang = ''
+  continuous = false
+  interimResults = false
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null = null
+  onerror: ((event: { error: string }) => void) | null = null
+  onend: (() => void) | null = null
+  start = vi.fn()
+  stop = vi.fn(() => this.onend?.())
+  abort = vi.fn()
+
+  constructor() {
+    MockRecognition.instances.push(this)
+  }
+
+  /**
+   * Delivers the session's results so far, each a transcript and whether
+   * it is final
+   */
+  emit(...results: Array<[string, boolean]>) {
+    this.onresult?.({
+      resultIndex: 0,
+      results: results.map(([transcript, isFinal]) =>
+        Object.assign([{ transcript }], { isFinal }),
+      ),
+    })
+  }
+}
+
+function setup(getRecognition = () => MockRecognition) {
+  MockRecognition.instances = []
+  const onTranscript = vi.fn()
+  const hook = renderHook(() =>
+    useSpeechRecognition({ lang: 'es-ES', onTranscript, getRecognition }),
+  )
+  return { ...hook, onTranscript }
+}
+
+describe('useSpeechRecognition', () => {
+  it('reports interim and then final transcripts', () => {
+    const { result, onTranscript } = setup()
+    expect(result.current.isSupported).toBe(true)
+
+    act(() => result.current.start())
+    const [recognition] = MockRecognition.instances
+    expect(result.current.isListening).toBe(true)
+    expect(recognition).toMatchObject({
+      lang: 'es-ES',
+      continuous: true,
+      interimResults: true,
+    })
+    expect(recognition.start).toHaveBeenCalledOnce()
+
+    act(() => recognition.emit(['calculate', false]))
+    expect(onTranscript).toHaveBeenLastCalledWith('calculate', false)
+    act(() => recognition.emit(['calculate ', true], [' my taxes ', false]))
+    expect(onTranscript).toHaveBeenLastCalledWith('calculate  my taxes', false)
+    act(() => recognition.emit(['calculate ', true], ['my taxes', true]))
+    expect(onTranscript).toHaveBeenLastCalledWith('calculate my taxes', true)
+
+    act(() => result.current.stop())
+    expect(recognition.stop).toHaveBeenCalledOnce()
+    expect(result.current.isListening).toBe(false)
+  })
+
+  it('only runs one recognizer at a time', () => {
+    const { result } = setup()
+    act(() => result.current.start())
+    act(() => result.current.start())
+    expect(MockRecognition.instances).toHaveLength(1)
+  })
+
+  it('reports a denied microphone', () => {
+    const { result } = setup()
+    act(() => result.current.start())
+    const [recognition] = MockRecognition.instances
+    act(() => {
+      recognition.onerror?.({ error: 'not-allowed' })
+      recognition.onend?.()
+    })
+    expect(result.current.error).toBe('chat.micDenied')
+    expect(result.current.isListening).toBe(false)
+
+    // Starting again clears the error
+    act(() => result.current.start())
+    expect(result.current.error).toBeNull()
+  })
+
+  it.each(['aborted', 'no-speech'])('ignores the %s error', (error) => {
+    const { result } = setup()
+    act(() => result.current.start())
+    act(() => MockRecognition.instances[0].onerror?.({ error }))
+    expect(result.current.error).toBeNull()
+  })
+
+  it('reports a recognizer that fails to start', () => {
+    const { result } = setup(
+      () =>
+        class extends MockRecognition {
+          start = vi.fn(() => {
+            throw new Error('InvalidStateError')
+          })
+        },
+    )
+    act(() => result.current.start())
+    expect(result.current.isListening).toBe(false)
+    expect(result.current.error).toBe('chat.voiceFailed')
+  })
+
+  it('does nothing where speech recognition is unsupported', () => {
+    const { result, onTranscript } = setup(() => undefined as never)
+    expect(result.current.isSupported).toBe(false)
+    act(() => result.current.start())
+    expect(MockRecognition.instances).toHaveLength(0)
+    expect(result.current.isListening).toBe(false)
+    expect(onTranscript).not.toHaveBeenCalled()
+  })
+
+  it('aborts a recording in progress on unmount', () => {
+    const { result, unmount } = setup()
+    act(() => result.current.start())
+    unmount()
+    expect(MockRecognition.instances[0].abort).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { MessageKey } from '@/lib/i18n'
+
+/**
+ * Minimal shape of the Web Speech API recognizer used by the hook.
+ * TypeScript's DOM lib does not ship these types yet.
+ */
+export interface SpeechRecognitionLike {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  onend: (() => void) | null
+  start: () => void
+  stop: () => void
+  abort: () => void
+}
+
+/**
+ * Event delivered to `onresult`
+ * @property resultIndex - Index of the first result that changed
+ * @property results - All results for the current session
+ */
+export interface SpeechRecognitionResultEvent {
+  resultIndex: number
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>
+}
+
+export type SpeechRecognitionConstructor = new () => SpeechRecognitionLike
+
+/**
+ * Finds the browser's recognizer, including the prefixed Chrome/Safari version
+ */
+function getBrowserRecognition(): SpeechRecognitionConstructor | undefined {
+  if (typeof window === 'undefined') return undefined
+  const speechWindow = window as typeof window & {
+    SpeechRecognition?: SpeechRecognitionConstructor
+    webkitSpeechRecognition?: SpeechRecognitionConstructor
+  }
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition
+}
+
+/**
+ * UseSpeechRecognitionOptions - Configuration for the dictation hook
+ * @property lang - BCP 47 language tag passed to the recognizer
+ * @property onTranscript - Called with the full transcript so far whenever it changes
+ * @property getRecognition - Returns the recognizer constructor; override to inject a mock in tests
+ */
+export interface UseSpeechRecognitionOptions {
+  lang?: string
+  onTranscript?: (transcript: string, isFinal: boolean) => void
+  getRecognition?: () => SpeechRecognitionConstructor | undefined
+}
+
+/**
+ * useSpeechRecognition - Push-to-talk dictation backed by the Web Speech API
+ *
+ * Support is detected after mount so server and client render the same markup.
+ * Call `start` when the talk button is pressed and `stop` when it is released;
+ * interim and final text is reported through `onTranscript`.
+ * @returns Support and recording flags, the message key of the latest error
+ * and start/stop controls
+ */
+export function useSpeechRecognition({
+  lang = 'en-US',
+  onTranscript,
+  getRecognition = getBrowserRecognition,
+}: UseSpeechRecognitionOptions = {}) {
+  const [isSupported, setIsSupported] = useState(false)
+  const [isListening, setIsListening] = useState(false)
+  const [error, setError] = useState<MessageKey | null>(null)
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null)
+  // Keep the latest callback without restarting the recognizer
+  const onTranscriptRef = useRef(onTranscript)
+  onTranscriptRef.current = onTranscript
+
+  useEffect(() => {
+    setIsSupported(getRecognition() !== undefined)
+  }, [getRecognition])
+
+  // Abort any recording still in progress when the component unmounts
+  useEffect(() => () => recognitionRef.current?.abort(), [])
+
+  const start = useCallback(() => {
+    const Recognition = getRecognition()
+    if (!Recognition || recognitionRef.current) return
+
+    const recognition = new Recognition()
+    recognition.lang = lang
+    recognition.continuous = true
+    recognition.interimResults = true
+
+    recognition.onresult = (event) => {
+      let transcript = ''
+      let isFinal = true
+      for (let i = 0; i < event.results.length; i++) {
+        const result = event.results[i]
+        transcript += result[0].transcript
+        if (!result.isFinal) isFinal = false
+      }
+      onTranscriptRef.current?.(transcript.trim(), isFinal)
+    }
+    recognition.onerror = (event) => {
+      // "aborted" and "no-speech" are normal outcomes of releasing the button
+      if (event.error !== 'aborted' && event.error !== 'no-speech') {
+        setError(
+          event.error === 'not-allowed' ? 'chat.micDenied' : 'chat.voiceFailed',
+        )
+      }
+    }
+    recognition.onend = () => {
+      recognitionRef.current = null
+      setIsListening(false)
+    }
+
+    recognitionRef.current = recognition
+    setError(null)
+    setIsListening(true)
+    try {
+      recognition.start()
+    } catch {
+      recognitionRef.current = null
+      setIsListening(false)
+      setError('chat.voiceFailed')
+    }
+  }, [getRecognition, lang])
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop()
+  }, [])
+
+  return { isSupported, isListening, error, start, stop }
+}
@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react'
+import {
+  DEFAULT_THEME_PREFERENCE,
+  type Theme,
+  type ThemePreference,
+} from '@/lib/theme'
+
+/**
+ * ThemeState - The theme in use and how to change it
+ * @property preference - What the visitor picked
+ * @property theme - Theme the page is drawn in, with `system` resolved
+ * @property setPreference - Switches theme and remembers the choice
+ */
+export interface ThemeState {
+  preference: ThemePreference
+  theme: Theme
+  setPreference: (preference: ThemePreference) => Promise<void>
+}
+
+export const ThemeContext = createContext<ThemeState>({
+  preference: DEFAULT_THEME_PREFERENCE,
+  theme: 'light',
+  setPreference: async () => {},
+})
+
+/**
+ * useTheme - Reads the theme from the nearest `ThemeProvider`
+ */
+export function useTheme(): ThemeState {
+  return useContext(ThemeContext)
+}
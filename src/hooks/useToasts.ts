@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+/**
+ * Toast - A short-lived notification
+ * @property id - Unique key for rendering and dismissal
+ * @property message - Text shown to the user
+ * @property tone - 'error' for failures, 'info' for everything else
+ */
+export interface Toast {
+  id: number
+  message: string
+  tone: 'error' | 'info'
+}
+
+/**
+ * useToasts - Keeps a list of notifications that dismiss themselves
+ * @param duration - Milliseconds each toast stays visible
+ * @returns The visible toasts plus functions to show and dismiss them
+ */
+export function useToasts(duration = 5_000) {
+  const [toasts, setToasts] = useState<Toast[]>([])
+  const nextIdRef = useRef(1)
+  const timersRef = useRef(new Set<ReturnType<typeof setTimeout>>())
+
+  // Clear pending timers on unmount
+  useEffect(() => {
+    const timers = timersRef.current
+    return () => timers.forEach(clearTimeout)
+  }, [])
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id))
+  }, [])
+
+  const show = useCallback(
+    (message: string, tone: Toast['tone'] = 'info') => {
+      const id = nextIdRef.current++
+      setToasts((current) => [...current, { id, message, tone }])
+      const timer = setTimeout(() => {
+        timersRef.current.delete(timer)
+        dismiss(id)
+      }, duration)
+      timersRef.current.add(timer)
+    },
+    [dismiss, duration],
+  )
+
+  const showError = useCallback(
+    (message: string) => show(message, 'error'),
+    [show],
+  )
+
+  return { toasts, show, showError, dismiss }
+}
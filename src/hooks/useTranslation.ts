@@ -0,0 +1,17 @@
+import { useRouteContext } from '@tanstack/react-router'
+import { useMemo } from 'react'
+import { createI18n, DEFAULT_LOCALE, type I18n } from '@/lib/i18n'
+
+/**
+ * useTranslation - Translator for the language the page was rendered in,
+ * as detected by the root route
+ * @returns The current locale and its message lookup
+ */
+export function useTranslation(): I18n {
+  const locale = useRouteContext({
+    from: '__root__',
+    // The context is missing while the root route itself is failing
+    select: (context) => context.locale ?? DEFAULT_LOCALE,
+  })
+  return useMemo(() => createI18n(locale), [locale])
+}
@@ -0,0 +1,249 @@
+import { log, serializeError } from '@/lib/logger'
+import {
+  enforceRateLimit,
+  rateLimitClient,
+  RateLimitError,
+  type RateLimitName,
+} from '@/lib/rate-limit'
+import type { FieldErrors } from '@/lib/validation'
+
+/*
+ * Helpers shared by the versioned REST API under /api/v1. Every response is
+ * JSON in one of two envelopes:
+ *   { "data": ... }                                   on success
+ *   { "error": { "code", "message", "details"? } }    on failure
+ */
+
+/**
+ * ApiErrorCode - Machine-readable reason for a failed API call
+ */
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'invalid_input'
+  | 'not_acceptable'
+  | 'unsupported_media_type'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'internal_error'
+
+/**
+ * ApiError - Thrown by an API handler to send an error envelope
+ * @property status - HTTP status code
+ * @property code - Machine-readable reason
+ * @property details - Message for each invalid field, if any
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly code: ApiErrorCode
+  readonly details?: FieldErrors
+
+  constructor(
+    status: number,
+    code: ApiErrorCode,
+    message: string,
+    details?: FieldErrors,
+  ) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+/**
+ * Builds a success envelope
+ */
+export function ok(data: unknown, init?: ResponseInit): Response {
+  return Response.json({ data }, init)
+}
+
+/**
+ * Builds an error envelope
+ */
+export function errorResponse(error: ApiError): Response {
+  return Response.json(
+    {
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details }),
+      },
+    },
+    { status: error.status },
+  )
+}
+
+/**
+ * Origins allowed to call the API from a browser, from the comma-separated
+ * `API_CORS_ORIGINS`; "*" (the default) allows any origin
+ */
+function allowedOrigins(): string[] {
+  return (process.env.API_CORS_ORIGINS ?? '*')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+}
+
+/**
+ * CORS headers for a response. Nothing is added for origins that are not
+ * allowed, so the browser blocks the response.
+ * @param request - Incoming request
+ * @param methods - Methods the route supports
+ */
+function corsHeaders(request: Request, methods: string[]): Headers {
+  const headers = new Headers({ Vary: 'Origin' })
+  const origin = request.headers.get('Origin')
+  if (!origin) return headers
+  const allowed = allowedOrigins()
+  if (!allowed.includes('*') && !allowed.includes(origin)) return headers
+
+  headers.set(
+    'Access-Control-Allow-Origin',
+    allowed.includes('*') ? '*' : origin,
+  )
+  headers.set(
+    'Access-Control-Allow-Methods',
+    [...methods, 'OPTIONS'].join(', '),
+  )
+  headers.set(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Accept, X-Request-Id',
+  )
+  headers.set('Access-Control-Expose-Headers', 'X-Request-Id, Retry-After')
+  headers.set('Access-Control-Max-Age', '600')
+  return headers
+}
+
+/**
+ * negotiate - Picks the response type from the Accept header
+ * @param request - Incoming request
+ * @param offered - Media types the route can produce, preferred first
+ * @returns The best offered type; throws a 406 ApiError when none is acceptable
+ */
+export function negotiate<const T extends string>(
+  request: Request,
+  offered: readonly T[],
+): T {
+  const accept = request.headers.get('Accept')
+  if (!accept) return offered[0]
+
+  const ranges = accept
+    .split(',')
+    .map((part) => {
+      const [range, ...params] = part.trim().toLowerCase().split(';')
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith('q='))
+      return { range: range.trim(), q: q ? Number(q.slice(2)) : 1 }
+    })
+    .filter(({ q }) => q > 0)
+
+  const quality = (type: string) => {
+    const [group] = type.split('/')
+    return Math.max(
+      0,
+      ...ranges
+        .filter(
+          ({ range }) =>
+            range === type || range === `${group}/*` || range === '*/*',
+        )
+        .map(({ q }) => q),
+    )
+  }
+
+  let best: T | undefined
+  for (const type of offered) {
+    if (quality(type) > (best ? quality(best) : 0)) best = type
+  }
+  if (!best) {
+    throw new ApiError(
+      406,
+      'not_acceptable',
+      `This endpoint can respond with ${offered.join(' or ')}`,
+    )
+  }
+  return best
+}
+
+/**
+ * readJson - Parses a JSON request body
+ * @returns The parsed body; throws a 415 or 400 ApiError for anything else
+ */
+export async function readJson(request: Request): Promise<unknown> {
+  const type = request.headers.get('Content-Type') ?? ''
+  if (!/^application\/json\b/i.test(type)) {
+    throw new ApiError(
+      415,
+      'unsupported_media_type',
+      'Send the request body as application/json',
+    )
+  }
+  try {
+    return await request.json()
+  } catch {
+    throw new ApiError(
+      400,
+      'invalid_json',
+      'The request body is not valid JSON',
+    )
+  }
+}
+
+type ApiHandler = (ctx: { request: Request }) => Response | Promise<Response>
+
+/**
+ * apiHandlers - Wraps a route's `server.handlers` for the REST API: adds
+ * CORS headers and a preflight handler, and turns thrown errors into error
+ * envelopes. Each call takes a token from the caller's rate limit bucket;
+ * preflights are free.
+ * @param handlers - Handler for each supported method
+ * @param options.rateLimit - Limit for the route; defaults to "api"
+ */
+export function apiHandlers<M extends 'GET' | 'POST'>(
+  handlers: Record<M, ApiHandler>,
+  { rateLimit = 'api' }: { rateLimit?: RateLimitName } = {},
+): Record<M | 'OPTIONS', ApiHandler> {
+  const methods = Object.keys(handlers)
+  const wrapped = Object.fromEntries(
+    Object.entries<ApiHandler>(handlers).map(([method, handler]) => [
+      method,
+      async (ctx: { request: Request }) => {
+        let response: Response
+        try {
+          await enforceRateLimit(rateLimit, rateLimitClient())
+          response = await handler(ctx)
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            response = errorResponse(
+              new ApiError(429, 'rate_limited', error.message),
+            )
+            response.headers.set('Retry-After', String(error.retryAfterSeconds))
+          } else {
+            if (!(error instanceof ApiError)) {
+              log('error', 'api handler', { error: serializeError(error) })
+            }
+            response = errorResponse(
+              error instanceof ApiError
+                ? error
+                : new ApiError(500, 'internal_error', 'Something went wrong'),
+            )
+          }
+        }
+        corsHeaders(ctx.request, methods).forEach((value, key) =>
+          response.headers.set(key, value),
+        )
+        return response
+      },
+    ]),
+  ) as Record<M, ApiHandler>
+
+  return {
+    ...wrapped,
+    OPTIONS: ({ request }) =>
+      new Response(null, {
+        status: 204,
+        headers: corsHeaders(request, methods),
+      }),
+  }
+}
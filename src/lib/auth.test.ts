@@ -0,0 +1,39 @@
+import { isRedirect, type ParsedLocation } from '@tanstack/react-router'
+import { describe, expect, it } from 'vitest'
+import { requireUser, validateAuthSearch } from '@/lib/auth'
+
+const location = { href: '/demo/start/server-funcs?tab=2' } as ParsedLocation
+
+describe('requireUser', () => {
+  it('passes a signed-in user on to the route context', () => {
+    const user = { id: 1, username: 'ada' }
+    expect(requireUser(user, location)).toEqual({ user })
+  })
+
+  it('sends visitors to the login page and back afterwards', () => {
+    let thrown: unknown
+    try {
+      requireUser(null, location)
+    } catch (error) {
+      thrown = error
+    }
+    expect(isRedirect(thrown)).toBe(true)
+    expect((thrown as { options: unknown }).options).toMatchObject({
+      to: '/login',
+      search: { redirect: '/demo/start/server-funcs?tab=2' },
+    })
+  })
+})
+
+describe('validateAuthSearch', () => {
+  it.each([
+    [{ redirect: '/demo/start/chatbot' }, { redirect: '/demo/start/chatbot' }],
+    [{ redirect: 'https://evil.example' }, {}],
+    [{ redirect: '//evil.example' }, {}],
+    [{ redirect: '/\\evil.example' }, {}],
+    [{ redirect: 42 }, {}],
+    [{}, {}],
+  ])('reads %j as %j', (search, expected) => {
+    expect(validateAuthSearch(search)).toEqual(expected)
+  })
+})
@@ -0,0 +1,32 @@
+import { redirect, type ParsedLocation } from '@tanstack/react-router'
+import type { User } from '@/data/repository'
+import { safeRedirect } from '@/lib/schemas'
+
+/**
+ * AuthSearch - Search params of the login and signup pages
+ * @property redirect - Path to return to once signed in
+ */
+export interface AuthSearch {
+  redirect?: string
+}
+
+export const validateAuthSearch = (
+  search: Record<string, unknown>,
+): AuthSearch => {
+  const target = safeRedirect(search.redirect)
+  return target ? { redirect: target } : {}
+}
+
+/**
+ * requireUser - `beforeLoad` guard for pages that need an account. Sends
+ * visitors to the login page, which brings them back afterwards.
+ * @param user - The root route's `context.user`
+ * @param location - Page being opened
+ * @returns Route context with the user known to be signed in
+ */
+export function requireUser(user: User | null, location: ParsedLocation) {
+  if (!user) {
+    throw redirect({ to: '/login', search: { redirect: location.href } })
+  }
+  return { user }
+}
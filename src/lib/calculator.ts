@@ -0,0 +1,260 @@
+import {
+  createI18n,
+  DEFAULT_LOCALE,
+  LOCALE_TAGS,
+  type Locale,
+} from '@/lib/i18n'
+import {
+  FILING_STATUS_LABELS,
+  grossPerPaycheck,
+  PAY_FREQUENCY_LABELS,
+  PAY_PERIODS,
+  US_STATES,
+  type FilingStatus,
+  type PayBasis,
+  type PayFrequency,
+  type PaycheckInput,
+} from '@/lib/tax'
+
+/**
+ * CalculatorSearch - Calculator inputs as they appear in the URL, so an
+ * estimate can be bookmarked or shared. Money amounts other than the salary
+ * are per paycheck.
+ * @property pay - Whether pay is quoted hourly or as an annual salary
+ * @property hours - Hours worked per week (hourly pay)
+ * @property rate - Hourly rate (hourly pay)
+ * @property salary - Annual salary (salaried pay)
+ * @property frequency - How often the employee is paid
+ * @property filing - Federal filing status
+ * @property state - Postal abbreviation of the state of residence
+ * @property county - County of residence
+ * @property city - City of residence
+ * @property allowances - W-4 withholding allowances
+ * @property extra - Extra federal withholding
+ * @property k401 - 401(k) contribution
+ * @property hsa - HSA contribution
+ * @property health - Pre-tax health insurance premiums
+ */
+export interface CalculatorSearch {
+  pay?: 'hourly' | 'salary'
+  hours?: number
+  rate?: number
+  salary?: number
+  frequency?: PayFrequency
+  filing?: FilingStatus
+  state?: string
+  county?: string
+  city?: string
+  allowances?: number
+  extra?: number
+  k401?: number
+  hsa?: number
+  health?: number
+}
+
+export type CalculatorField = keyof CalculatorSearch
+
+/**
+ * CalculatorErrors - Message for each field that failed validation
+ */
+export type CalculatorErrors = Partial<Record<CalculatorField, string>>
+
+const NUMBER_FIELDS = [
+  'hours',
+  'rate',
+  'salary',
+  'allowances',
+  'extra',
+  'k401',
+  'hsa',
+  'health',
+] as const
+
+const TEXT_FIELDS = ['state', 'county', 'city'] as const
+
+/**
+ * Reads a number from a search param, which may arrive as a number or,
+ * from a plain HTML form submission, as a string
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number')
+    return Number.isFinite(value) ? value : undefined
+  if (typeof value !== 'string' || value.trim() === '') return undefined
+  const parsed = Number(value.replace(/[$,\s]/g, ''))
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * validateCalculatorSearch - Keeps the recognized calculator params and
+ * drops anything malformed, so a hand-edited URL never breaks the page
+ * @param search - Raw search params
+ */
+export function validateCalculatorSearch(
+  search: Record<string, unknown>,
+): CalculatorSearch {
+  const result: CalculatorSearch = {}
+
+  if (search.pay === 'hourly' || search.pay === 'salary') {
+    result.pay = search.pay
+  }
+  if (
+    typeof search.frequency === 'string' &&
+    search.frequency in PAY_FREQUENCY_LABELS
+  ) {
+    result.frequency = search.frequency as PayFrequency
+  }
+  if (
+    typeof search.filing === 'string' &&
+    search.filing in FILING_STATUS_LABELS
+  ) {
+    result.filing = search.filing as FilingStatus
+  }
+  for (const field of NUMBER_FIELDS) {
+    const value = toNumber(search[field])
+    if (value !== undefined) result[field] = value
+  }
+  for (const field of TEXT_FIELDS) {
+    const value = search[field]
+    if (typeof value === 'string' && value.trim() !== '') {
+      result[field] = value.trim()
+    }
+  }
+
+  return result
+}
+
+/**
+ * Returns true once the search carries enough to attempt an estimate
+ */
+export function hasCalculatorInput(search: CalculatorSearch): boolean {
+  return search.pay !== undefined
+}
+
+/**
+ * checkCalculatorSearch - Range-checks calculator params and converts them
+ * into paycheck calculator input
+ * @param search - Params from `validateCalculatorSearch`
+ * @param locale - Language of the error messages
+ * @returns The calculator input, or a message for each invalid field
+ */
+export function checkCalculatorSearch(
+  search: CalculatorSearch,
+  locale: Locale = DEFAULT_LOCALE,
+): { input: PaycheckInput } | { errors: CalculatorErrors } {
+  const { t } = createI18n(locale)
+  const number = (value: number) => value.toLocaleString(LOCALE_TAGS[locale])
+  const errors: CalculatorErrors = {}
+  const inRange = (
+    field: (typeof NUMBER_FIELDS)[number],
+    min: number,
+    max: number,
+    required = false,
+  ) => {
+    const value = search[field]
+    if (value === undefined) {
+      if (required) errors[field] = t('calculator.required')
+    } else if (value < min || value > max) {
+      errors[field] = t('calculator.outOfRange', {
+        min: number(min),
+        max: number(max),
+      })
+    }
+  }
+
+  if (search.pay === 'hourly') {
+    inRange('hours', 1, 168, true)
+    inRange('rate', 0.01, 10_000, true)
+  } else {
+    inRange('salary', 1, 100_000_000, true)
+  }
+  inRange('allowances', 0, 20)
+  if (search.allowances !== undefined && !Number.isInteger(search.allowances)) {
+    errors.allowances = t('calculator.wholeNumber')
+  }
+  inRange('extra', 0, 1_000_000)
+  inRange('k401', 0, 1_000_000)
+  inRange('hsa', 0, 1_000_000)
+  inRange('health', 0, 1_000_000)
+  if (!search.state || !US_STATES[search.state]) {
+    errors.state = t('calculator.chooseState')
+  }
+
+  if (Object.keys(errors).length > 0) return { errors }
+
+  const payFrequency = search.frequency ?? 'biweekly'
+  return {
+    input: {
+      grossPay: grossPerPaycheck(
+        search.pay === 'hourly'
+          ? { kind: 'hourly', hours: search.hours!, rate: search.rate! }
+          : { kind: 'salary', salary: search.salary! },
+        payFrequency,
+      ),
+      payFrequency,
+      filingStatus: search.filing ?? 'single',
+      state: search.state!,
+      county: search.county,
+      city: search.city,
+      allowances: search.allowances,
+      extraWithholding: search.extra,
+      preTaxDeductions: {
+        retirement401k: search.k401,
+        hsa: search.hsa,
+        healthPremiums: search.health,
+      },
+    },
+  }
+}
+
+/**
+ * Rounds a dollar amount to cents so it reads cleanly in a URL
+ */
+const toCents = (amount: number | undefined) =>
+  amount === undefined ? undefined : Math.round(amount * 100) / 100
+
+/**
+ * searchFromPaycheckInput - Converts calculator input back into search
+ * params, e.g. to link a chat estimate to its downloadable report
+ * @param input - Input that was passed to `calculatePaycheck`
+ * @param pay - How pay was quoted; defaults to the equivalent annual salary
+ */
+export function searchFromPaycheckInput(
+  input: PaycheckInput,
+  pay: PayBasis = {
+    kind: 'salary',
+    salary: input.grossPay * PAY_PERIODS[input.payFrequency],
+  },
+): CalculatorSearch {
+  const search: CalculatorSearch = {
+    ...(pay.kind === 'hourly'
+      ? { pay: 'hourly', hours: pay.hours, rate: pay.rate }
+      : { pay: 'salary', salary: toCents(pay.salary) }),
+    frequency: input.payFrequency,
+    filing: input.filingStatus,
+    state: input.state,
+    county: input.county,
+    city: input.city,
+    allowances: input.allowances,
+    extra: toCents(input.extraWithholding),
+    k401: toCents(input.preTaxDeductions?.retirement401k),
+    hsa: toCents(input.preTaxDeductions?.hsa),
+    health: toCents(input.preTaxDeductions?.healthPremiums),
+  }
+  // Drop unset fields so they stay out of the URL
+  return Object.fromEntries(
+    Object.entries(search).filter(([, value]) => value !== undefined),
+  ) as CalculatorSearch
+}
+
+/**
+ * Builds the download URL for an estimate report
+ * @param search - Inputs the estimate was calculated from
+ * @param format - Report file type
+ */
+export function reportUrl(search: CalculatorSearch, format: 'csv' | 'pdf') {
+  const params = new URLSearchParams({ format })
+  for (const [key, value] of Object.entries(search)) {
+    if (value !== undefined) params.set(key, String(value))
+  }
+  return `/api/estimate?${params}`
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createAdvisorResponder,
+  ESTIMATE_TOOL,
+  runEstimateTool,
+} from '@/lib/chatbot/advisor'
+import { createSession } from '@/lib/chatbot/conversation'
+import { createI18n, type Locale } from '@/lib/i18n'
+import {
+  createMockProvider,
+  type CompletionRequest,
+  type LlmProvider,
+} from '@/lib/llm'
+
+const mock = createMockProvider({ delayMs: 0 })
+
+/**
+ * Asks the advisor one question and collects its whole reply, along with
+ * every request the model was sent
+ */
+async function ask(
+  question: string,
+  { provider = mock, locale = 'en' as Locale } = {},
+) {
+  const requests: CompletionRequest[] = []
+  const recording: LlmProvider = {
+    complete: (request) => {
+      requests.push(structuredClone({ ...request, signal: undefined }))
+      return provider.complete(request)
+    },
+  }
+  const reply = createAdvisorResponder(recording).respond(
+    createSession('session', locale),
+    { kind: 'message', text: question },
+    { signal: new AbortController().signal, locale },
+  )
+  let text = ''
+  for await (const chunk of reply.text) text += chunk
+  return { text, requests, session: reply.complete(text) }
+}
+
+describe('advisor with the mock model', () => {
+  it('runs the paycheck calculator for a question with pay and a state', async () => {
+    const { text, requests, session } = await ask(
+      'Can I afford $2,000 rent making $30/hr for 40 hours in NY?',
+    )
+
+    expect(requests).toHaveLength(2)
+    expect(requests[1].messages.at(-1)).toMatchObject({
+      role: 'tool',
+      toolCallId: 'call_1',
+    })
+    expect(requests[1].messages.at(-2)).toMatchObject({
+      role: 'assistant',
+      toolCalls: [
+        {
+          name: ESTIMATE_TOOL,
+          arguments: { pay: 'hourly', hours: 40, rate: 30, state: 'NY' },
+        },
+      ],
+    })
+
+    expect(text).toMatch(
+      /^Estimated biweekly paycheck in NY: \$2,400\.00 gross, /,
+    )
+    expect(text).toContain(createI18n('en').t('advisor.disclaimer'))
+    expect(session.messages.at(-1)).toMatchObject({
+      sender: 'bot',
+      report: { pay: 'hourly', hours: 40, rate: 30, state: 'NY' },
+    })
+  })
+
+  it('answers in the session language', async () => {
+    const { text } = await ask('Gano $30/hr por 40 horas en NY', {
+      locale: 'es',
+    })
+    const { t } = createI18n('es')
+    expect(text).toMatch(/^Cheque de pago estimado \(cada dos semanas\) en NY/)
+    expect(text).toContain(t('advisor.disclaimer'))
+  })
+
+  it('relays a calculator error', async () => {
+    // Calls the calculator with a state it doesn't know, then lets the mock
+    // answer the result
+    const badCall: LlmProvider = {
+      async *complete(request) {
+        if (request.messages.at(-1)!.role === 'user') {
+          yield {
+            type: 'tool_call',
+            call: {
+              id: 'call_1',
+              name: ESTIMATE_TOOL,
+              arguments: { salary: 85_000, state: 'Narnia' },
+            },
+          }
+          return
+        }
+        yield* mock.complete(request)
+      },
+    }
+
+    const { text, requests, session } = await ask('What about Narnia?', {
+      provider: badCall,
+    })
+    const result = JSON.parse(
+      (requests[1].messages.at(-1) as { content: string }).content,
+    )
+    expect(result).toEqual({
+      error: 'Some values are missing or out of range',
+      fields: { state: expect.any(String) },
+    })
+    expect(text).toBe(
+      "I couldn't run the calculator: Some values are missing or out of range.",
+    )
+    expect(session.messages.at(-1)).not.toHaveProperty('report')
+  })
+
+  it('answers without the calculator when no numbers are given', async () => {
+    const { text, requests } = await ask('Should I pay off debt first?')
+    expect(requests).toHaveLength(1)
+    expect(requests[0].tools?.map((tool) => tool.name)).toEqual([ESTIMATE_TOOL])
+    expect(text).toBe(
+      createI18n('en').t('advisor.mock.offline', {
+        question: 'Should I pay off debt first?',
+      }),
+    )
+  })
+
+  it('stops a model that keeps calling tools', async () => {
+    const looping: LlmProvider = {
+      async *complete(request) {
+        yield {
+          type: 'tool_call',
+          call: {
+            id: `call_${request.messages.length}`,
+            name: ESTIMATE_TOOL,
+            arguments: { salary: 85_000, state: 'TX' },
+          },
+        }
+      },
+    }
+    const { text, requests } = await ask('Loop forever', { provider: looping })
+    expect(requests).toHaveLength(4)
+    expect(text).toBe(createI18n('en').t('advisor.unavailable'))
+  })
+})
+
+describe('runEstimateTool', () => {
+  it('rejects arguments that do not match the schema', () => {
+    expect(
+      runEstimateTool({ salary: 'lots' }, createI18n('en')).output,
+    ).toMatchObject({
+      error: 'Invalid arguments',
+      fields: { salary: 'Must be a number' },
+    })
+  })
+
+  it('guesses hourly pay from a rate', () => {
+    const { report } = runEstimateTool(
+      { hours: 40, rate: 25, state: 'TX' },
+      createI18n('en'),
+    )
+    expect(report).toMatchObject({ pay: 'hourly', hours: 40, rate: 25 })
+  })
+})
@@ -0,0 +1,211 @@
+import { checkCalculatorSearch, type CalculatorSearch } from '@/lib/calculator'
+import { formatMoney, formatPercent } from '@/lib/format'
+import { createI18n, type I18n } from '@/lib/i18n'
+import type { LlmMessage, LlmProvider, LlmTool, ToolCall } from '@/lib/llm'
+import { log, serializeError } from '@/lib/logger'
+import { calculatorSearchSchema } from '@/lib/schemas'
+import { calculatePaycheck, type TaxEstimate } from '@/lib/tax'
+import { recordExchange } from './conversation'
+import type { ChatResponder } from './responders'
+
+/**
+ * Name of the tool that runs the paycheck calculator
+ */
+export const ESTIMATE_TOOL = 'estimate_paycheck'
+
+/**
+ * advisorSystemPrompt - Instructions for the model answering open-ended
+ * questions in the chatbot
+ * @param i18n - Language the model should answer in
+ */
+export function advisorSystemPrompt({ t }: I18n): string {
+  return `You are Jacob, the assistant in a paycheck and personal finance app for people working in the United States.
+Answer questions about taxes, paychecks, budgeting, saving, retirement and investing in plain language, in at most a few short paragraphs. Answer in ${t('advisor.language')}.
+Never do tax or paycheck arithmetic yourself. Whenever an answer depends on the taxes or take-home pay for specific numbers, call the ${ESTIMATE_TOOL} tool and base your answer on its result; if pay or state is missing, ask for it first.
+Do not recommend specific securities or products, and say so when a question needs a professional.
+End every answer that involves a money decision with this disclaimer: "${t('advisor.disclaimer')}"`
+}
+
+/**
+ * The paycheck calculator, offered to the model as a tool. Its arguments
+ * are the /calculator search params.
+ */
+const estimateTool: LlmTool = {
+  name: ESTIMATE_TOOL,
+  description:
+    'Estimates federal, state and local taxes and take-home pay for one paycheck and for the year. Money amounts other than the salary are per paycheck.',
+  parameters: calculatorSearchSchema.jsonSchema,
+}
+
+/**
+ * Keeps the totals and tax lines of an estimate, which is all the model needs
+ */
+const summarize = (estimate: TaxEstimate) => ({
+  grossPay: estimate.grossPay,
+  totalTax: estimate.totalTax,
+  netPay: estimate.netPay,
+  effectiveRate: estimate.effectiveRate,
+  taxes: estimate.lineItems.map(({ label, amount }) => ({ label, amount })),
+})
+
+/**
+ * runEstimateTool - Runs the paycheck calculator for a tool call
+ * @param args - Arguments the model sent
+ * @param i18n - Language of the summary and error messages
+ * @returns The result to send back to the model, and the estimate's inputs
+ * when it succeeded
+ */
+export function runEstimateTool(
+  args: unknown,
+  { locale, t }: I18n,
+): {
+  output: Record<string, unknown>
+  report?: CalculatorSearch
+} {
+  const parsed = calculatorSearchSchema.parse(args)
+  if (!parsed.ok) {
+    return {
+      output: { error: t('advisor.invalidArguments'), fields: parsed.errors },
+    }
+  }
+  const search: CalculatorSearch = {
+    ...parsed.value,
+    pay:
+      parsed.value.pay ??
+      (parsed.value.salary === undefined && parsed.value.rate !== undefined
+        ? 'hourly'
+        : 'salary'),
+  }
+  const checked = checkCalculatorSearch(search, locale)
+  if ('errors' in checked) {
+    return {
+      output: {
+        error: t('advisor.invalidValues'),
+        fields: checked.errors,
+      },
+    }
+  }
+
+  const { input } = checked
+  const { perPaycheck, annual } = calculatePaycheck(input)
+  return {
+    report: search,
+    output: {
+      summary: t('advisor.summary', {
+        frequency: t(`frequency.${input.payFrequency}`).toLowerCase(),
+        state: input.state,
+        gross: formatMoney(perPaycheck.grossPay, locale),
+        tax: formatMoney(perPaycheck.totalTax, locale),
+        net: formatMoney(perPaycheck.netPay, locale),
+        annualNet: formatMoney(annual.netPay, locale),
+        rate: formatPercent(annual.effectiveRate, locale),
+      }),
+      payFrequency: input.payFrequency,
+      filingStatus: input.filingStatus,
+      perPaycheck: summarize(perPaycheck),
+      annual: summarize(annual),
+    },
+  }
+}
+
+/**
+ * Runs a tool the model called
+ */
+function runTool(
+  call: ToolCall,
+  i18n: I18n,
+): ReturnType<typeof runEstimateTool> {
+  if (call.name === ESTIMATE_TOOL) return runEstimateTool(call.arguments, i18n)
+  return {
+    output: { error: i18n.t('advisor.unknownTool', { name: call.name }) },
+  }
+}
+
+/**
+ * Model turns allowed per message, so a model that keeps calling tools
+ * cannot loop forever
+ */
+const MAX_MODEL_TURNS = 4
+
+/**
+ * createAdvisorResponder - Answers free-form questions with a language
+ * model, running the paycheck calculator whenever the model asks for it
+ * @param provider - Model to use
+ * @param historyLength - Recent messages sent along as context
+ */
+export function createAdvisorResponder(
+  provider: LlmProvider,
+  { historyLength = 10 } = {},
+): ChatResponder {
+  return {
+    respond: (session, turn, { signal, locale }) => {
+      const userInput = turn.kind === 'message' ? turn.text : turn.label
+      const i18n = createI18n(locale)
+      let report: CalculatorSearch | undefined
+
+      async function* reply(): AsyncGenerator<string> {
+        const messages: LlmMessage[] = [
+          { role: 'system', content: advisorSystemPrompt(i18n) },
+          ...session.messages
+            .slice(-historyLength)
+            .map((message): LlmMessage => ({
+              role: message.sender === 'user' ? 'user' : 'assistant',
+              content: message.text,
+            })),
+          { role: 'user', content: userInput },
+        ]
+
+        // Whether any text has been sent, across model turns
+        let written = false
+        try {
+          for (let turns = 0; turns < MAX_MODEL_TURNS; turns++) {
+            let text = ''
+            const calls: ToolCall[] = []
+            for await (const chunk of provider.complete({
+              messages,
+              tools: [estimateTool],
+              signal,
+              locale,
+            })) {
+              if (chunk.type === 'tool_call') {
+                calls.push(chunk.call)
+                continue
+              }
+              // Separate text written before a tool call from the answer after it
+              yield (text === '' && written ? '\n\n' : '') + chunk.text
+              text += chunk.text
+              written = true
+            }
+            if (calls.length === 0) return
+
+            messages.push({
+              role: 'assistant',
+              content: text,
+              toolCalls: calls,
+            })
+            for (const call of calls) {
+              const result = runTool(call, i18n)
+              report = result.report ?? report
+              messages.push({
+                role: 'tool',
+                toolCallId: call.id,
+                content: JSON.stringify(result.output),
+              })
+            }
+          }
+          yield i18n.t('advisor.unavailable')
+        } catch (error) {
+          if (signal.aborted) return
+          log('error', 'advisor model', { error: serializeError(error) })
+          yield i18n.t('advisor.unavailable')
+        }
+      }
+
+      return {
+        text: reply(),
+        complete: (sent) =>
+          recordExchange(session, userInput, sent.trim(), report),
+      }
+    },
+  }
+}
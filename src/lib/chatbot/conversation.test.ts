@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import {
+  advanceConversation,
+  createSession,
+  type ChatSession,
+} from '@/lib/chatbot/conversation'
+import { createI18n } from '@/lib/i18n'
+
+const { t } = createI18n('es')
+
+/**
+ * Sends one message to a Spanish conversation in the given state
+ */
+function reply(input: string, state: ChatSession['state']) {
+  const session = { ...createSession('session', 'es'), state }
+  return advanceConversation(session, input, 'es')
+}
+
+describe('conversation in Spanish', () => {
+  it('greets in Spanish', () => {
+    expect(createSession('session', 'es').messages[0].text).toBe(
+      t('chat.greeting'),
+    )
+  })
+
+  it.each(['calcular impuestos', 'Calcula mis impuestos, por favor'])(
+    'starts a tax estimate for %j',
+    (input) => {
+      const session = reply(input, 'awaiting_tax_request')
+      expect(session.state).toBe('awaiting_tax_details')
+      expect(session.messages.at(-1)!.text).toBe(t('chat.taxStart'))
+    },
+  )
+
+  it.each(['sí', 'si', 'Sí, claro'])('reads %j as yes', (input) => {
+    const session = reply(input, 'awaiting_anything_else')
+    expect(session.state).toBe('awaiting_tax_request')
+    expect(session.messages.at(-1)!.text).toBe(t('chat.whatNext'))
+  })
+
+  it('does not read "si" meaning "if" as yes', () => {
+    const session = reply('si gano 50000 en CA', 'awaiting_anything_else')
+    expect(session.messages.at(-1)!.text).not.toBe(t('chat.whatNext'))
+  })
+
+  it('reads "no, gracias" as no', () => {
+    const session = reply('no, gracias', 'awaiting_anything_else')
+    expect(session.messages.at(-1)!.text).toBe(t('chat.goodbye'))
+  })
+
+  it('starts the flows from Spanish requests', () => {
+    expect(reply('plan de jubilación', 'awaiting_tax_request').state).toBe(
+      'awaiting_retirement_age',
+    )
+    expect(reply('deducciones fiscales', 'awaiting_tax_request').state).toBe(
+      'awaiting_deduction_filing',
+    )
+  })
+
+  it('names the options in Spanish when the request is ambiguous', () => {
+    const session = reply('jubilación e inversiones', 'awaiting_tax_request')
+    expect(session.messages.at(-1)!.text).toBe(
+      '¿Quisiste decir "Plan de jubilación" o "Consejos de inversión"?',
+    )
+  })
+
+  it('does not read "no quiero calcular impuestos" as a tax request', () => {
+    const session = reply(
+      'no quiero calcular impuestos',
+      'awaiting_tax_request',
+    )
+    expect(session.state).not.toBe('awaiting_tax_details')
+  })
+
+  it('estimates from Spanish pay details', () => {
+    const session = reply(
+      '40 horas a $35 la hora, quincenal, casado, condado de Kings, NY',
+      'awaiting_tax_details',
+    )
+    expect(session.state).toBe('awaiting_anything_else')
+    const { text } = session.messages.at(-1)!
+    expect(text).toMatch(/^Impuesto federal sobre la renta: /m)
+    expect(text).toMatch(/^Impuesto estatal sobre la renta \(NY\): /m)
+    expect(text).toMatch(/^Seguro Social: /m)
+    expect(text).toMatch(
+      /^Pago estimado \(quincenal\) para Condado de Kings, NY \(Casado\/a, declaración conjunta\):/,
+    )
+  })
+
+  it('names an invalid value in Spanish', () => {
+    const session = advanceConversation(
+      {
+        ...createSession('session', 'es'),
+        state: 'awaiting_tax_details',
+        taxDetails: { slots: { salary: 85_000 }, asking: 'state' },
+      },
+      'Narnia',
+      'es',
+    )
+    expect(session.messages.at(-1)!.text).toContain(
+      '- estado: "Narnia" no es el nombre ni la abreviatura de un estado de EE. UU.',
+    )
+  })
+})
+
+describe('slot errors in English', () => {
+  it('names the field and the value', () => {
+    const session = advanceConversation(
+      { ...createSession('session'), state: 'awaiting_tax_details' },
+      'rate: abc, 401k: 150%',
+    )
+    expect(session.messages.at(-1)!.text).toContain(
+      [
+        '- rate: "abc" is not a dollar amount.',
+        '- 401k: "150%" is not a percentage between 0% and 100%.',
+      ].join('\n'),
+    )
+  })
+})
@@ -0,0 +1,602 @@
+import {
+  searchFromPaycheckInput,
+  type CalculatorSearch,
+} from '@/lib/calculator'
+import { formatLineItem, formatMoney, formatPercent } from '@/lib/format'
+import { createI18n, DEFAULT_LOCALE, type I18n, type Locale } from '@/lib/i18n'
+import {
+  calculatePaycheck,
+  grossPerPaycheck,
+  type PayBasis,
+  type PaycheckInput,
+  type TaxEstimate,
+} from '@/lib/tax'
+import {
+  advanceFlow,
+  isFlowState,
+  startFlow,
+  type FlowAnswers,
+  type FlowName,
+  type FlowReply,
+  type FlowState,
+} from './flows'
+import {
+  chatbotIntents,
+  type Classification,
+  type IntentDefinition,
+} from './intents'
+import {
+  mergeSlots,
+  missingSlot,
+  parseTaxDetails,
+  SLOT_PROMPTS,
+  type SlotError,
+  type TaxDetailsDraft,
+  type TaxSlotName,
+  type TaxSlots,
+} from './tax-details'
+
+/**
+ * Message - Represents a single chat message
+ * @property sender - 'user' or 'bot' indicating who sent the message
+ * @property text - The content of the message
+ * @property createdAt - ISO timestamp of when the message was recorded
+ * @property report - Inputs of the estimate this message shows, used to offer report downloads
+ */
+export interface Message {
+  sender: 'user' | 'bot'
+  text: string
+  createdAt: string
+  report?: CalculatorSearch
+}
+
+/**
+ * ChatState - Represents the different stages of the chatbot conversation
+ * Flow states track which question of a multi-step flow is being answered
+ */
+export type ChatState =
+  | 'idle'
+  | 'awaiting_tax_request'
+  | 'awaiting_tax_details'
+  | 'awaiting_anything_else'
+  | FlowState
+
+/**
+ * ChatTopic - Conversations that can be launched directly from a suggestion card
+ */
+export type ChatTopic = 'tax' | FlowName
+
+/**
+ * ChatSession - A persisted conversation
+ * @property id - Random UUID the page sends with each turn; sessions are stored
+ * under the signed-in user's account
+ * @property state - Current position in the conversation state machine
+ * @property messages - Full transcript, oldest first
+ * @property answers - Answers collected by the flow in progress
+ * @property taxDetails - Tax details collected so far while in awaiting_tax_details
+ * @property updatedAt - ISO timestamp of the last turn
+ */
+export interface ChatSession {
+  id: string
+  state: ChatState
+  messages: Message[]
+  answers: FlowAnswers
+  taxDetails?: TaxDetailsDraft
+  updatedAt: string
+}
+
+/**
+ * BotReply - Result of handling a single user turn
+ * @property text - The bot's response
+ * @property state - State the conversation moves to
+ * @property answers - Updated flow answers, when the turn changed them
+ * @property taxDetails - Tax details still being collected, if any
+ * @property report - Inputs of the estimate in the reply, if it contains one
+ * @property openEnded - Set when nothing in the input was recognized, so the
+ * reply is only a fallback
+ */
+interface BotReply {
+  text: string
+  state: ChatState
+  answers?: FlowAnswers
+  taxDetails?: TaxDetailsDraft
+  report?: CalculatorSearch
+  openEnded?: true
+}
+
+/**
+ * formatBreakdown - Renders an estimate as an itemized, line-per-tax summary
+ * @param estimate - Estimate for the period being displayed
+ * @param i18n - Language and number formatting of the reply
+ * @returns Multi-line text listing gross pay, each deduction and tax, total taxes and net pay
+ */
+function formatBreakdown(estimate: TaxEstimate, i18n: I18n): string {
+  const { locale, t } = i18n
+  const money = (amount: number) => formatMoney(amount, locale)
+  const lines = [
+    t('chat.grossPay', { amount: money(estimate.grossPay) }),
+    ...[...estimate.deductions, ...estimate.lineItems].map(
+      (item) => `${formatLineItem(item, i18n)}: ${money(item.amount)}`,
+    ),
+    t('chat.totalTaxes', {
+      amount: money(estimate.totalTax),
+      rate: formatPercent(estimate.effectiveRate, locale),
+    }),
+    t('chat.netPay', { amount: money(estimate.netPay) }),
+    ...estimate.notes,
+  ]
+  return lines.join('\n')
+}
+
+/**
+ * createSession - Starts a new conversation with the bot's greeting
+ * @param id - Session identifier
+ * @param locale - Language of the greeting
+ * @param now - Clock used for timestamps
+ */
+export function createSession(
+  id: string,
+  locale: Locale = DEFAULT_LOCALE,
+  now = new Date(),
+): ChatSession {
+  const timestamp = now.toISOString()
+  const { t } = createI18n(locale)
+  return {
+    id,
+    state: 'awaiting_tax_request',
+    messages: [
+      { sender: 'bot', text: t('chat.greeting'), createdAt: timestamp },
+    ],
+    answers: {},
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * advanceConversation - Records a user turn and the bot's reply
+ * @param session - Conversation before the turn
+ * @param userInput - Text input from the user
+ * @param locale - Language of the reply
+ * @param now - Clock used for timestamps
+ * @returns A new session with both messages appended and the next state
+ */
+export function advanceConversation(
+  session: ChatSession,
+  userInput: string,
+  locale: Locale = DEFAULT_LOCALE,
+  now = new Date(),
+): ChatSession {
+  const reply = handleBotResponse(session, userInput, createI18n(locale))
+  return recordTurn(session, userInput, reply, now)
+}
+
+/**
+ * startTopic - Jumps straight into a topic, e.g. when a suggestion card is clicked.
+ * Any flow in progress is abandoned.
+ * @param session - Conversation before the turn
+ * @param topic - Topic to start
+ * @param label - Text recorded as the user's message
+ * @param locale - Language of the reply
+ * @param now - Clock used for timestamps
+ */
+export function startTopic(
+  session: ChatSession,
+  topic: ChatTopic,
+  label: string,
+  locale: Locale = DEFAULT_LOCALE,
+  now = new Date(),
+): ChatSession {
+  const i18n = createI18n(locale)
+  const reply: BotReply =
+    topic === 'tax'
+      ? {
+          text: i18n.t('chat.taxStart'),
+          state: 'awaiting_tax_details',
+          taxDetails: { slots: {} },
+        }
+      : fromFlowReply(startFlow(topic, i18n), i18n)
+  return recordTurn(session, label, reply, now)
+}
+
+/**
+ * isOpenEnded - Whether a message is outside what the state machine
+ * understands, so it is better answered free-form, e.g. by a language model
+ * @param session - Conversation before the turn
+ * @param userInput - Text input from the user
+ */
+export function isOpenEnded(session: ChatSession, userInput: string): boolean {
+  return (
+    handleBotResponse(session, userInput, createI18n(DEFAULT_LOCALE))
+      .openEnded === true
+  )
+}
+
+/**
+ * recordExchange - Appends a user message and a free-form reply, e.g. one
+ * written by a model, without moving the conversation along
+ * @param session - Conversation before the turn
+ * @param userInput - Text recorded as the user's message
+ * @param text - The bot's reply
+ * @param report - Inputs of an estimate the reply contains, if any
+ * @param now - Clock used for timestamps
+ */
+export function recordExchange(
+  session: ChatSession,
+  userInput: string,
+  text: string,
+  report?: CalculatorSearch,
+  now = new Date(),
+): ChatSession {
+  return recordTurn(
+    session,
+    userInput,
+    { text, state: session.state, taxDetails: session.taxDetails, report },
+    now,
+  )
+}
+
+/**
+ * Appends a user message and the bot's reply to the transcript
+ */
+function recordTurn(
+  session: ChatSession,
+  userInput: string,
+  reply: BotReply,
+  now: Date,
+): ChatSession {
+  const timestamp = now.toISOString()
+  return {
+    ...session,
+    state: reply.state,
+    answers: reply.answers ?? session.answers ?? {},
+    taxDetails: reply.taxDetails,
+    messages: [
+      ...session.messages,
+      { sender: 'user', text: userInput, createdAt: timestamp },
+      {
+        sender: 'bot',
+        text: reply.text,
+        createdAt: timestamp,
+        ...(reply.report && { report: reply.report }),
+      },
+    ],
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * Converts a flow reply into a bot reply, closing the flow with the usual
+ * follow-up question once it finishes
+ */
+function fromFlowReply(reply: FlowReply, { t }: I18n): BotReply {
+  if (reply.state) {
+    return { text: reply.text, state: reply.state, answers: reply.answers }
+  }
+  return {
+    text: `${reply.text}\n\n${t('chat.anythingElse')}`,
+    state: 'awaiting_anything_else',
+    answers: {},
+  }
+}
+
+/**
+ * Returns true when the input is clearly the user declining or backing out
+ */
+function isDecline(userInput: string): boolean {
+  const classification = chatbotIntents.classify(userInput)
+  return classification.kind === 'match' && classification.intent === 'decline'
+}
+
+/**
+ * Builds a "did you mean" prompt from candidate intents
+ * @param candidates - Intents the input may have been aiming for
+ * @param i18n - Language of the prompt
+ * @returns The prompt, or undefined when there is nothing to suggest
+ */
+function didYouMean(
+  candidates: IntentDefinition[],
+  { t }: I18n,
+): string | undefined {
+  if (candidates.length === 0) return undefined
+  const labels = candidates.map((c) => `"${t(c.label)}"`)
+  const options =
+    labels.length === 1
+      ? labels[0]
+      : `${labels.slice(0, -1).join(', ')} ${t('chat.or')} ${labels[labels.length - 1]}`
+  return t('chat.didYouMean', { options })
+}
+
+/**
+ * Replies to a top-level request by dispatching on the recognized intent
+ * @param state - Current conversation state
+ * @param userInput - Text input from the user
+ * @param classification - Recognized intent for the user's input
+ * @param onDecline - State to move to when the user declines
+ * @param fallback - Reply when nothing was recognized
+ * @param i18n - Language of the reply
+ */
+function handleIntent(
+  state: ChatState,
+  userInput: string,
+  classification: Classification,
+  onDecline: ChatState,
+  fallback: BotReply,
+  i18n: I18n,
+): BotReply {
+  const { t } = i18n
+  if (classification.kind === 'ambiguous') {
+    // "taxes on $60k in PA with a 401k" also scores as retirement, but pay
+    // or a state in the message means the user wants an estimate
+    const { slots } = parseTaxDetails(userInput)
+    const hasTaxDetails =
+      slots.salary !== undefined ||
+      slots.rate !== undefined ||
+      slots.state !== undefined
+    if (
+      hasTaxDetails &&
+      classification.candidates.some((c) => c.name === 'calculate_tax')
+    ) {
+      return handleTaxDetails({ slots: {} }, userInput, i18n)
+    }
+    return { text: didYouMean(classification.candidates, i18n)!, state }
+  }
+  if (classification.kind === 'unknown') {
+    const suggestion = didYouMean(classification.suggestions, i18n)
+    return suggestion
+      ? { text: suggestion, state }
+      : { ...fallback, openEnded: true }
+  }
+
+  switch (classification.intent) {
+    case 'calculate_tax': {
+      // The request may already carry some details, e.g. "taxes on $85k in CA"
+      const { slots } = parseTaxDetails(userInput)
+      if (Object.keys(slots).length > 0) {
+        return handleTaxDetails({ slots: {} }, userInput, i18n)
+      }
+      return {
+        text: t('chat.taxStart'),
+        state: 'awaiting_tax_details',
+        taxDetails: { slots: {} },
+      }
+    }
+
+    case 'retirement':
+    case 'investment':
+    case 'deductions':
+      return fromFlowReply(startFlow(classification.intent, i18n), i18n)
+
+    case 'decline':
+      return { text: t('chat.goodbye'), state: onDecline }
+
+    case 'affirm':
+      return state === 'awaiting_anything_else'
+        ? { text: t('chat.whatNext'), state: 'awaiting_tax_request' }
+        : fallback
+
+    default:
+      return fallback
+  }
+}
+
+/**
+ * Slot to re-ask about when a field was invalid. Optional paycheck details
+ * have no question of their own.
+ */
+const SLOT_FOR_FIELD: Partial<Record<SlotError['field'], TaxSlotName>> = {
+  hours: 'hours',
+  rate: 'rate',
+  salary: 'pay',
+  state: 'state',
+  county: 'locality',
+  city: 'locality',
+}
+
+/**
+ * Builds calculator input from a complete set of slots. Hourly pay defaults
+ * to weekly paychecks and a salary to biweekly ones.
+ * @param slots - Filled slots (pay and state are present)
+ * @returns The calculator input and how pay was quoted
+ */
+function paycheckFromSlots(slots: Partial<TaxSlots>): {
+  input: PaycheckInput
+  pay: PayBasis
+} {
+  const pay: PayBasis =
+    slots.salary === undefined
+      ? { kind: 'hourly', hours: slots.hours!, rate: slots.rate! }
+      : { kind: 'salary', salary: slots.salary }
+  const payFrequency =
+    slots.payFrequency ?? (pay.kind === 'hourly' ? 'weekly' : 'biweekly')
+  const grossPay = grossPerPaycheck(pay, payFrequency)
+
+  return {
+    pay,
+    input: {
+      grossPay,
+      payFrequency,
+      filingStatus: slots.filingStatus ?? 'single',
+      state: slots.state!,
+      county: slots.county,
+      city: slots.city,
+      allowances: slots.allowances,
+      extraWithholding: slots.extraWithholding,
+      preTaxDeductions: {
+        retirement401k:
+          slots.retirement401kPercent !== undefined
+            ? (grossPay * slots.retirement401kPercent) / 100
+            : slots.retirement401k,
+        hsa: slots.hsa,
+        healthPremiums: slots.healthPremiums,
+      },
+    },
+  }
+}
+
+/**
+ * Runs the paycheck calculator on a complete set of slots
+ * @param slots - Filled slots (pay and state are present)
+ * @param i18n - Language and number formatting of the reply
+ * @returns Itemized per-paycheck estimate followed by the annualized net pay,
+ * and the inputs needed to download it as a report
+ */
+function estimateFromSlots(
+  slots: Partial<TaxSlots>,
+  i18n: I18n,
+): {
+  text: string
+  report: CalculatorSearch
+} {
+  const { locale, t } = i18n
+  const { input, pay } = paycheckFromSlots(slots)
+  const { perPaycheck, annual } = calculatePaycheck(input)
+  const location = [
+    slots.city,
+    slots.county && t('chat.county', { county: slots.county }),
+    slots.state,
+  ]
+    .filter(Boolean)
+    .join(', ')
+  const assumed =
+    slots.payFrequency === undefined || slots.filingStatus === undefined
+      ? `\n${t('chat.refine')}`
+      : ''
+  const heading = t('chat.estimate', {
+    frequency: t(`frequency.${input.payFrequency}`).toLowerCase(),
+    location,
+    filing: t(`filing.${input.filingStatus}`),
+  })
+  const annualNet = t('chat.annualNetPay', {
+    net: formatMoney(annual.netPay, locale),
+    gross: formatMoney(annual.grossPay, locale),
+  })
+
+  const text = `${heading}
+${formatBreakdown(perPaycheck, i18n)}
+${annualNet}
+${t('chat.estimateNote')}${assumed}
+
+${t('chat.anythingElse')}`
+  return { text, report: searchFromPaycheckInput(input, pay) }
+}
+
+/**
+ * Fills tax detail slots from the user's message, asking follow-up questions
+ * only for what is still missing and naming any field that was invalid
+ * @param draft - Slots collected so far
+ * @param userInput - Text input from the user
+ * @param i18n - Language of the reply
+ */
+function handleTaxDetails(
+  draft: TaxDetailsDraft,
+  userInput: string,
+  i18n: I18n,
+): BotReply {
+  const { t } = i18n
+  const { slots, errors } = parseTaxDetails(userInput, draft.asking)
+
+  // Let the user back out instead of re-prompting forever
+  if (Object.keys(slots).length === 0 && isDecline(userInput)) {
+    return {
+      text: t('chat.taxDeclined'),
+      state: 'awaiting_tax_request',
+    }
+  }
+
+  const merged = mergeSlots(draft.slots, slots)
+
+  if (errors.length > 0) {
+    const asking = SLOT_FOR_FIELD[errors[0].field] ?? missingSlot(merged)
+    return {
+      text: [
+        t('chat.couldNotUse'),
+        ...errors.map(
+          ({ field, message, value }) =>
+            `- ${t(message, { field: t(`chat.field.${field}`), value })}`,
+        ),
+        t(asking ? SLOT_PROMPTS[asking] : 'chat.sendCorrection'),
+      ].join('\n'),
+      state: 'awaiting_tax_details',
+      taxDetails: { slots: merged, asking },
+    }
+  }
+
+  const missing = missingSlot(merged)
+  if (missing) {
+    return {
+      text: t(SLOT_PROMPTS[missing]),
+      state: 'awaiting_tax_details',
+      taxDetails: { slots: merged, asking: missing },
+    }
+  }
+
+  // Move to next state after calculation
+  return {
+    ...estimateFromSlots(merged, i18n),
+    state: 'awaiting_anything_else',
+  }
+}
+
+/**
+ * Handles the chatbot response logic based on current state and user input
+ * @param session - Conversation before the turn
+ * @param userInput - Text input from the user
+ * @param i18n - Language of the reply
+ * @returns Bot's response text and the state to move to
+ */
+function handleBotResponse(
+  session: ChatSession,
+  userInput: string,
+  i18n: I18n,
+): BotReply {
+  const { state } = session
+  const { t } = i18n
+
+  if (isFlowState(state)) {
+    const reply = advanceFlow(state, userInput, session.answers ?? {}, i18n)
+    // An unparseable answer may be the user backing out of the flow
+    if (reply.state === state && isDecline(userInput)) {
+      return {
+        text: t('chat.flowDeclined'),
+        state: 'awaiting_tax_request',
+        answers: {},
+      }
+    }
+    return fromFlowReply(reply, i18n)
+  }
+
+  switch (state) {
+    case 'awaiting_tax_request':
+      // Declining here stops prompting further
+      return handleIntent(
+        state,
+        userInput,
+        chatbotIntents.classify(userInput),
+        'awaiting_anything_else',
+        { text: t('chat.fallback'), state },
+        i18n,
+      )
+
+    case 'awaiting_tax_details':
+      return handleTaxDetails(
+        session.taxDetails ?? { slots: {} },
+        userInput,
+        i18n,
+      )
+
+    case 'awaiting_anything_else':
+      // Declining here resets to the initial state
+      return handleIntent(
+        state,
+        userInput,
+        chatbotIntents.classify(userInput),
+        'awaiting_tax_request',
+        { text: t('chat.calculateAgain'), state: 'awaiting_tax_request' },
+        i18n,
+      )
+
+    default:
+      // Fallback to reset conversation
+      return { text: t('chat.calculateAgain'), state: 'awaiting_anything_else' }
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { advanceFlow, startFlow, type FlowReply } from '@/lib/chatbot/flows'
+import { createI18n, type I18n } from '@/lib/i18n'
+
+const en = createI18n('en')
+const es = createI18n('es')
+
+/**
+ * Starts a flow and feeds it each reply in turn
+ */
+function run(
+  name: Parameters<typeof startFlow>[0],
+  replies: string[],
+  i18n: I18n = en,
+) {
+  let reply: FlowReply = startFlow(name, i18n)
+  for (const input of replies) {
+    reply = advanceFlow(reply.state!, input, reply.answers, i18n)
+  }
+  return reply
+}
+
+describe('deductions flow', () => {
+  it('asks for the filing status first', () => {
+    const reply = startFlow('deductions', en)
+    expect(reply.state).toBe('awaiting_deduction_filing')
+    expect(reply.text).toContain('B) Married Filing Jointly')
+  })
+
+  it.each([
+    ['B', 2],
+    ['2', 2],
+    ['married filing jointly', 2],
+    ['we are filing jointly', 2],
+    ['MFS', 3],
+    ['head of household', 4],
+  ])('reads %j as a filing status', (input, choice) => {
+    expect(run('deductions', [input]).answers.filingStatus).toBe(choice)
+  })
+
+  it('asks again for an unknown filing status', () => {
+    const reply = run('deductions', ['widowed'])
+    expect(reply.state).toBe('awaiting_deduction_filing')
+    expect(reply.text).toMatch(/^Please reply with a letter from A to D/)
+  })
+
+  it("compares against the status's standard deduction and SALT cap", () => {
+    const reply = run('deductions', [
+      'married filing separately',
+      '$80,000',
+      '$9,000',
+      '$12,000',
+      '$500',
+      'none',
+    ])
+    expect(reply.state).toBeNull()
+    expect(reply.text).toContain(
+      'Standard Deduction (Married Filing Separately): $14,600',
+    )
+    expect(reply.text).toContain('State & Local Taxes (capped): $5,000')
+    expect(reply.text).toContain('Itemized Total: $14,500')
+  })
+
+  it('treats a conversation begun before the question existed as single', () => {
+    const reply = advanceFlow(
+      'awaiting_deduction_medical',
+      'none',
+      {
+        adjustedGrossIncome: 80_000,
+        mortgageInterest: 20_000,
+        stateAndLocalTaxes: 12_000,
+        charitableGifts: 0,
+      },
+      en,
+    )
+    expect(reply.text).toContain('Standard Deduction (Single): $14,600')
+    expect(reply.text).toContain('State & Local Taxes (capped): $10,000')
+  })
+})
+
+describe('flows in Spanish', () => {
+  it('asks and lists the options in Spanish', () => {
+    expect(startFlow('deductions', es).text).toBe(
+      [
+        es.t('flow.deductions.intro'),
+        es.t('flow.deductions.filing'),
+        'A) Soltero/a',
+        'B) Casado/a, declaración conjunta',
+        'C) Casado/a, declaración por separado',
+        'D) Cabeza de familia',
+      ].join('\n'),
+    )
+  })
+
+  it.each([
+    ['casada', 2],
+    ['Cabeza de familia', 4],
+    ['c', 3],
+  ])('reads %j as a filing status', (input, choice) => {
+    expect(run('deductions', [input], es).answers.filingStatus).toBe(choice)
+  })
+
+  it('explains an invalid answer in Spanish', () => {
+    const reply = run('retirement', ['cien'], es)
+    expect(reply.text).toBe(
+      `${es.t('flow.invalidAge')}\n${es.t('flow.retirement.age')}`,
+    )
+  })
+
+  it('compares deductions in Spanish', () => {
+    const reply = run(
+      'deductions',
+      ['soltero', '$80,000', '$9,000', '$12,000', 'nada', 'nada'],
+      es,
+    )
+    expect(reply.text).toContain('Deducción estándar (Soltero/a):')
+    expect(reply.text).toContain('Impuestos estatales y locales (con tope):')
+    expect(reply.text).toContain(
+      'Detallar deduce $4,400.00 más que la deducción estándar.',
+    )
+  })
+
+  it('scores the risk questions answered by option text', () => {
+    const reply = run(
+      'investment',
+      ['Dentro de más de 15 años', 'comprar más', 'Mucha', 'D'],
+      es,
+    )
+    expect(reply.text).toMatch(/^Tu perfil de riesgo: Agresivo\n/)
+  })
+})
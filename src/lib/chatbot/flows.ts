@@ -0,0 +1,424 @@
+import { formatMoney, formatPercent } from '@/lib/format'
+import type { I18n, MessageKey, Translator } from '@/lib/i18n'
+import {
+  projectRetirement,
+  RISK_QUESTIONS,
+  scoreRiskProfile,
+} from '@/lib/planning'
+import {
+  compareDeductions,
+  FILING_STATUS_LABELS,
+  type FilingStatus,
+} from '@/lib/tax'
+import { parseFilingStatus } from './tax-details'
+
+/**
+ * FlowName - Multi-step conversations launched from the suggestion cards
+ */
+export type FlowName = 'retirement' | 'investment' | 'deductions'
+
+/**
+ * FlowState - One chat state per question asked by a flow
+ */
+export type FlowState =
+  | 'awaiting_retirement_age'
+  | 'awaiting_retirement_target_age'
+  | 'awaiting_retirement_savings'
+  | 'awaiting_retirement_contribution'
+  | 'awaiting_retirement_return'
+  | 'awaiting_risk_horizon'
+  | 'awaiting_risk_drawdown'
+  | 'awaiting_risk_experience'
+  | 'awaiting_risk_goal'
+  | 'awaiting_deduction_filing'
+  | 'awaiting_deduction_income'
+  | 'awaiting_deduction_mortgage'
+  | 'awaiting_deduction_salt'
+  | 'awaiting_deduction_charity'
+  | 'awaiting_deduction_medical'
+
+/**
+ * FlowAnswers - Answers collected so far, keyed by step
+ */
+export type FlowAnswers = Record<string, number>
+
+/**
+ * FlowStep - A single question in a flow
+ * @property state - Chat state while waiting for the answer
+ * @property key - Key the parsed answer is stored under
+ * @property prompt - Message key of the question
+ * @property options - Message keys of the answers to a multiple-choice
+ * question, listed under it with letters
+ * @property parse - Converts the reply to a number, or undefined if it is not valid
+ * @property invalid - Message key of the explanation shown when the reply
+ * cannot be parsed; {last} is filled with the last option's letter
+ * @property check - Optional cross-question validation, returns the message
+ * key of the problem, filled in with the answers so far
+ */
+interface FlowStep {
+  state: FlowState
+  key: string
+  prompt: MessageKey
+  options?: MessageKey[]
+  parse: (input: string, i18n: I18n) => number | undefined
+  invalid: MessageKey
+  check?: (value: number, answers: FlowAnswers) => MessageKey | undefined
+}
+
+/**
+ * FlowDefinition - A multi-step conversation and the calculator it feeds
+ * @property intro - Message key of the sentence shown before the first question
+ * @property steps - Questions, asked in order
+ * @property complete - Builds the final answer from the collected replies
+ */
+interface FlowDefinition {
+  intro: MessageKey
+  steps: FlowStep[]
+  complete: (answers: FlowAnswers, i18n: I18n) => string
+}
+
+/**
+ * FlowReply - Result of a flow handling a message
+ * @property text - The bot's response
+ * @property state - Next question's state, or null when the flow has finished
+ * @property answers - Answers collected so far
+ */
+export interface FlowReply {
+  text: string
+  state: FlowState | null
+  answers: FlowAnswers
+}
+
+/**
+ * Parses a dollar amount such as "$12,500", "12.5k", "none" or "nada"
+ */
+function parseAmount(input: string): number | undefined {
+  if (/^\s*(none|nothing|zero|n\/a|nada|ninguno|cero)\s*$/i.test(input)) {
+    return 0
+  }
+  const match = input.replace(/,/g, '').match(/(\d*\.?\d+)\s*(k|m)?\b/i)
+  if (!match) return undefined
+  const multiplier = { k: 1_000, m: 1_000_000 }[
+    match[2]?.toLowerCase() as 'k' | 'm'
+  ]
+  return parseFloat(match[1]) * (multiplier ?? 1)
+}
+
+/**
+ * Parses a whole-number age between 16 and 100
+ */
+function parseAge(input: string): number | undefined {
+  const match = input.match(/\d+/)
+  const age = match ? parseInt(match[0], 10) : NaN
+  return age >= 16 && age <= 100 ? age : undefined
+}
+
+/**
+ * Parses a rate of return: "7", "7%" and "0.07" all mean 7%
+ */
+function parseRate(input: string): number | undefined {
+  const match = input.match(/-?\d*\.?\d+/)
+  if (!match) return undefined
+  const value = parseFloat(match[0])
+  const rate = input.includes('%') || value >= 1 ? value / 100 : value
+  return rate >= 0 && rate <= 0.2 ? rate : undefined
+}
+
+/**
+ * Builds a parser for a multiple-choice question, accepting a letter,
+ * a number or the option text in the conversation's language
+ */
+function parseChoice(options: MessageKey[]) {
+  return (input: string, { t }: I18n): number | undefined => {
+    const reply = input.trim().toLowerCase()
+    const letter = reply.match(/^\(?([a-z])\)?\.?$/)
+    if (letter) {
+      const index = letter[1].charCodeAt(0) - 'a'.charCodeAt(0)
+      return index < options.length ? index + 1 : undefined
+    }
+    const number = reply.match(/^\d+$/)
+    if (number) {
+      const choice = parseInt(number[0], 10)
+      return choice >= 1 && choice <= options.length ? choice : undefined
+    }
+    const index = options.findIndex(
+      (option) => t(option).toLowerCase() === reply,
+    )
+    return index >= 0 ? index + 1 : undefined
+  }
+}
+
+/**
+ * Letter of a multiple-choice step's last option, e.g. "D"
+ */
+function lastLetter(step: FlowStep): string {
+  return String.fromCharCode(64 + (step.options?.length ?? 0))
+}
+
+/**
+ * Renders a step's question, followed by its lettered options if it has any
+ */
+function formatPrompt(step: FlowStep, t: Translator): string {
+  const options = (step.options ?? []).map(
+    (option, i) => `${String.fromCharCode(65 + i)}) ${t(option)}`,
+  )
+  return [t(step.prompt), ...options].join('\n')
+}
+
+/**
+ * Filing statuses in the order the deductions flow lists them; the flow
+ * stores the chosen one as its 1-based position
+ */
+const FILING_STATUSES = Object.keys(FILING_STATUS_LABELS) as FilingStatus[]
+
+const FILING_STATUS_OPTIONS = FILING_STATUSES.map(
+  (status) => `filing.${status}` as const,
+)
+
+/**
+ * Parses a filing status by letter, number or name, e.g. "B", "married
+ * filing jointly" or "casado"
+ */
+function parseFilingStatusChoice(
+  input: string,
+  i18n: I18n,
+): number | undefined {
+  const status = parseFilingStatus(input)
+  return status
+    ? FILING_STATUSES.indexOf(status) + 1
+    : parseChoice(FILING_STATUS_OPTIONS)(input, i18n)
+}
+
+const FLOWS: Record<FlowName, FlowDefinition> = {
+  retirement: {
+    intro: 'flow.retirement.intro',
+    steps: [
+      {
+        state: 'awaiting_retirement_age',
+        key: 'currentAge',
+        prompt: 'flow.retirement.age',
+        parse: parseAge,
+        invalid: 'flow.invalidAge',
+      },
+      {
+        state: 'awaiting_retirement_target_age',
+        key: 'retirementAge',
+        prompt: 'flow.retirement.targetAge',
+        parse: parseAge,
+        invalid: 'flow.invalidAge',
+        check: (value, answers) =>
+          value > answers.currentAge ? undefined : 'flow.retirement.ageTooLow',
+      },
+      {
+        state: 'awaiting_retirement_savings',
+        key: 'currentSavings',
+        prompt: 'flow.retirement.savings',
+        parse: parseAmount,
+        invalid: 'flow.invalidAmount',
+      },
+      {
+        state: 'awaiting_retirement_contribution',
+        key: 'monthlyContribution',
+        prompt: 'flow.retirement.contribution',
+        parse: parseAmount,
+        invalid: 'flow.invalidAmount',
+      },
+      {
+        state: 'awaiting_retirement_return',
+        key: 'annualReturn',
+        prompt: 'flow.retirement.return',
+        parse: parseRate,
+        invalid: 'flow.invalidRate',
+      },
+    ],
+    complete: (answers, { locale, t }) => {
+      const projection = projectRetirement({
+        currentAge: answers.currentAge,
+        retirementAge: answers.retirementAge,
+        currentSavings: answers.currentSavings,
+        monthlyContribution: answers.monthlyContribution,
+        annualReturn: answers.annualReturn,
+      })
+      return t('flow.retirement.result', {
+        years: projection.years,
+        rate: formatPercent(answers.annualReturn, locale),
+        balance: formatMoney(projection.balance, locale),
+        contributions: formatMoney(projection.totalContributions, locale),
+        growth: formatMoney(projection.growth, locale),
+        income: formatMoney(projection.sustainableIncome, locale),
+      })
+    },
+  },
+
+  investment: {
+    intro: 'flow.investment.intro',
+    steps: RISK_QUESTIONS.map((question) => ({
+      state: `awaiting_risk_${question.id}` as FlowState,
+      key: question.id,
+      prompt: question.text,
+      options: question.options,
+      parse: parseChoice(question.options),
+      invalid: 'flow.invalidChoice',
+    })),
+    complete: (answers, { t }) => {
+      const profile = scoreRiskProfile(RISK_QUESTIONS.map((q) => answers[q.id]))
+      return t('flow.investment.result', {
+        profile: t(profile.name),
+        ...profile.allocation,
+      })
+    },
+  },
+
+  deductions: {
+    intro: 'flow.deductions.intro',
+    steps: [
+      {
+        state: 'awaiting_deduction_filing',
+        key: 'filingStatus',
+        prompt: 'flow.deductions.filing',
+        options: FILING_STATUS_OPTIONS,
+        parse: parseFilingStatusChoice,
+        invalid: 'flow.invalidChoice',
+      },
+      {
+        state: 'awaiting_deduction_income',
+        key: 'adjustedGrossIncome',
+        prompt: 'flow.deductions.income',
+        parse: parseAmount,
+        invalid: 'flow.invalidAmount',
+      },
+      {
+        state: 'awaiting_deduction_mortgage',
+        key: 'mortgageInterest',
+        prompt: 'flow.deductions.mortgage',
+        parse: parseAmount,
+        invalid: 'flow.invalidAmount',
+      },
+      {
+        state: 'awaiting_deduction_salt',
+        key: 'stateAndLocalTaxes',
+        prompt: 'flow.deductions.salt',
+        parse: parseAmount,
+        invalid: 'flow.invalidAmount',
+      },
+      {
+        state: 'awaiting_deduction_charity',
+        key: 'charitableGifts',
+        prompt: 'flow.deductions.charity',
+        parse: parseAmount,
+        invalid: 'flow.invalidAmount',
+      },
+      {
+        state: 'awaiting_deduction_medical',
+        key: 'medicalExpenses',
+        prompt: 'flow.deductions.medical',
+        parse: parseAmount,
+        invalid: 'flow.invalidAmount',
+      },
+    ],
+    complete: (answers, { locale, t }) => {
+      // Conversations started before the flow asked for it count as single
+      const filingStatus = FILING_STATUSES[answers.filingStatus - 1] ?? 'single'
+      const comparison = compareDeductions({
+        filingStatus,
+        adjustedGrossIncome: answers.adjustedGrossIncome,
+        mortgageInterest: answers.mortgageInterest,
+        stateAndLocalTaxes: answers.stateAndLocalTaxes,
+        charitableGifts: answers.charitableGifts,
+        medicalExpenses: answers.medicalExpenses,
+      })
+      const money = (amount: number) => formatMoney(amount, locale)
+      return [
+        t('flow.deductions.heading'),
+        t('flow.deductions.standard', {
+          filing: t(`filing.${filingStatus}`),
+          amount: money(comparison.standard),
+        }),
+        ...comparison.items.map(
+          (item) =>
+            `${t(`deductions.${item.category}`)}: ${money(item.amount)}`,
+        ),
+        t('flow.deductions.itemized', { amount: money(comparison.itemized) }),
+        t(
+          comparison.recommendation === 'itemized'
+            ? 'flow.deductions.itemize'
+            : 'flow.deductions.keepStandard',
+          { amount: money(comparison.difference) },
+        ),
+      ].join('\n')
+    },
+  },
+}
+
+/**
+ * Returns true when the state belongs to one of the flows
+ */
+export function isFlowState(state: string): state is FlowState {
+  return Object.values(FLOWS).some((flow) =>
+    flow.steps.some((step) => step.state === state),
+  )
+}
+
+/**
+ * startFlow - Begins a flow by asking its first question
+ * @param name - Flow to start
+ * @param i18n - Language of the questions
+ */
+export function startFlow(name: FlowName, { t }: I18n): FlowReply {
+  const flow = FLOWS[name]
+  const [first] = flow.steps
+  return {
+    text: `${t(flow.intro)}\n${formatPrompt(first, t)}`,
+    state: first.state,
+    answers: {},
+  }
+}
+
+/**
+ * advanceFlow - Records the answer to the current question and asks the next one
+ * @param state - State of the question being answered
+ * @param input - The user's reply
+ * @param answers - Answers collected so far
+ * @param i18n - Language of the reply, which choices are also read in
+ * @returns The next question, a re-prompt if the reply was invalid, or the
+ *   calculator result once every question is answered
+ */
+export function advanceFlow(
+  state: FlowState,
+  input: string,
+  answers: FlowAnswers,
+  i18n: I18n,
+): FlowReply {
+  const { t } = i18n
+  const flow = Object.values(FLOWS).find((f) =>
+    f.steps.some((step) => step.state === state),
+  )!
+  const index = flow.steps.findIndex((step) => step.state === state)
+  const step = flow.steps[index]
+
+  const prompt = formatPrompt(step, t)
+  const value = step.parse(input, i18n)
+  if (value === undefined) {
+    const invalid = t(step.invalid, { last: lastLetter(step) })
+    return { text: `${invalid}\n${prompt}`, state, answers }
+  }
+  const problem = step.check?.(value, answers)
+  if (problem) {
+    return { text: `${t(problem, answers)}\n${prompt}`, state, answers }
+  }
+
+  const nextAnswers = { ...answers, [step.key]: value }
+  const next = flow.steps[index + 1]
+  if (next) {
+    return {
+      text: formatPrompt(next, t),
+      state: next.state,
+      answers: nextAnswers,
+    }
+  }
+  return {
+    text: flow.complete(nextAnswers, i18n),
+    state: null,
+    answers: nextAnswers,
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import {
+  chatbotIntents,
+  createIntentClassifier,
+  tokenize,
+} from '@/lib/chatbot/intents'
+
+/**
+ * The intent an input is classified as, or its kind when nothing won
+ */
+function intentOf(input: string): string {
+  const result = chatbotIntents.classify(input)
+  return result.kind === 'match' ? result.intent : result.kind
+}
+
+describe('chatbotIntents', () => {
+  it.each(['sí', 'Si', 'Sí, claro'])('reads %j as yes', (input) => {
+    expect(intentOf(input)).toBe('affirm')
+  })
+
+  it('does not read "si" meaning "if" as yes', () => {
+    expect(intentOf('si gano 50000 en CA')).not.toBe('affirm')
+  })
+})
+
+describe('tokenize', () => {
+  it('negates the content words after a negator, up to its scope', () => {
+    const tokens = tokenize("I don't want to calculate taxes or budgets")
+    expect(
+      tokens.filter((token) => token.negated).map((token) => token.word),
+    ).toEqual(['want', 'to', 'calculate', 'tax'])
+  })
+
+  it('ends a negation at the end of its clause', () => {
+    const tokens = tokenize('no taxes, but retirement')
+    expect(tokens.find((token) => token.word === 'retirement')).toMatchObject({
+      negated: false,
+    })
+    expect(new Set(tokens.map((token) => token.clause)).size).toBe(2)
+  })
+
+  it('drops negation idioms entirely', () => {
+    expect(tokenize('no idea about taxes').map((token) => token.word)).toEqual([
+      'about',
+      'tax',
+    ])
+  })
+
+  it('folds accents and case', () => {
+    expect(tokenize('JUBILACIÓN Cálculo').map((token) => token.word)).toEqual([
+      'jubilacion',
+      'calculo',
+    ])
+  })
+})
+
+describe('classifying', () => {
+  it.each([
+    [
+      "I don't want to calculate taxes, but tell me about retirement",
+      'retirement',
+    ],
+    [
+      "I don't want to calculate taxes but tell me about retirement",
+      'retirement',
+    ],
+    ['no idea about taxes', 'calculate_tax'],
+    ['I have no clue how taxes work', 'calculate_tax'],
+    ['no thanks', 'decline'],
+    ['No, thanks', 'decline'],
+    ['please calculate my taxes', 'calculate_tax'],
+    ['JUBILACIÓN', 'retirement'],
+    ['jubilacion', 'retirement'],
+    ['inversion', 'investment'],
+    ['deduccion estandar', 'deductions'],
+    ['calcular impuestos', 'calculate_tax'],
+  ])('reads %j as %s', (input, intent) => {
+    expect(intentOf(input)).toBe(intent)
+  })
+
+  it('does not read a refused topic as a request for it', () => {
+    expect(intentOf('not taxes')).toBe('unknown')
+    expect(intentOf('no quiero calcular impuestos')).not.toBe('calculate_tax')
+  })
+
+  it('reports an even split as ambiguous', () => {
+    const result = chatbotIntents.classify('retirement and investing')
+    expect(result.kind).toBe('ambiguous')
+    expect(
+      result.kind === 'ambiguous' &&
+        result.candidates.map((candidate) => candidate.name).sort(),
+    ).toEqual(['investment', 'retirement'])
+  })
+
+  it('suggests intents for typos', () => {
+    const result = chatbotIntents.classify('retirment')
+    expect(result).toEqual({
+      kind: 'unknown',
+      suggestions: [expect.objectContaining({ name: 'retirement' })],
+    })
+  })
+
+  it('takes intents registered later', () => {
+    const classifier = createIntentClassifier()
+    classifier.register({
+      name: 'budget',
+      label: 'chat.topic.tax',
+      keywords: ['budget'],
+    })
+    expect(classifier.classify('my budgets')).toMatchObject({
+      kind: 'match',
+      intent: 'budget',
+    })
+  })
+})
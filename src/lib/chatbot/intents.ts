@@ -0,0 +1,491 @@
+import type { MessageKey } from '@/lib/i18n'
+
+/**
+ * IntentDefinition - Declarative description of something the user can ask for
+ * @property name - Identifier dispatched on by the conversation
+ * @property label - Message key of the name used in "did you mean" suggestions
+ * @property keywords - Single words that signal the intent (plural forms and accents are matched automatically)
+ * @property phrases - Multi-word phrases that signal the intent more strongly
+ * @property standalone - Words that only signal the intent as a clause of
+ * their own, like "sí" in "Sí, claro": without its accent it is also "if"
+ */
+export interface IntentDefinition {
+  name: string
+  label: MessageKey
+  keywords: string[]
+  phrases?: string[]
+  standalone?: string[]
+}
+
+/**
+ * IntentScore - How strongly an input matched a single intent
+ * @property intent - Name of the matched intent
+ * @property score - Sum of keyword (1) and phrase (2) hits, minus negated hits
+ * @property confidence - Share of all positive scores held by this intent (0-1)
+ */
+export interface IntentScore {
+  intent: string
+  score: number
+  confidence: number
+}
+
+/**
+ * Classification - Outcome of classifying a user input
+ * - 'match': one intent won with enough confidence
+ * - 'ambiguous': several intents scored but none clearly won
+ * - 'unknown': nothing scored; `suggestions` holds near-miss intents for "did you mean"
+ */
+export type Classification =
+  | { kind: 'match'; intent: string; confidence: number; scores: IntentScore[] }
+  | { kind: 'ambiguous'; candidates: IntentDefinition[]; scores: IntentScore[] }
+  | { kind: 'unknown'; suggestions: IntentDefinition[] }
+
+/**
+ * ClassifierOptions - Tuning knobs for the classifier
+ * @property minScore - Minimum score an intent needs to be considered
+ * @property confidenceThreshold - Minimum confidence for a clear match
+ * @property maxSuggestionDistance - Maximum edit distance for "did you mean" suggestions
+ */
+export interface ClassifierOptions {
+  minScore: number
+  confidenceThreshold: number
+  maxSuggestionDistance: number
+}
+
+const DEFAULT_OPTIONS: ClassifierOptions = {
+  minScore: 1,
+  confidenceThreshold: 0.6,
+  maxSuggestionDistance: 2,
+}
+
+/**
+ * Words that negate the content words following them in the same clause
+ */
+const NEGATORS = new Set([
+  'no',
+  'not',
+  'never',
+  'without',
+  'nor',
+  'sin',
+  'nunca',
+  'ni',
+])
+
+/**
+ * Negation idioms that express uncertainty rather than refusal,
+ * e.g. "I have no idea about taxes" is still a question about taxes
+ */
+const NEGATION_IDIOMS = [
+  'no idea',
+  'not sure',
+  'no clue',
+  'not certain',
+  'ni idea',
+  'no se',
+]
+
+/**
+ * Filler words that do not use up a negation's scope,
+ * so in "don't want to calculate taxes" the negation still reaches "calculate"
+ */
+const STOPWORDS = new Set([
+  'a',
+  'about',
+  'an',
+  'any',
+  'do',
+  'i',
+  'like',
+  'me',
+  'my',
+  'need',
+  'the',
+  'to',
+  'want',
+  'wanna',
+  'de',
+  'el',
+  'la',
+  'lo',
+  'los',
+  'las',
+  'mi',
+  'mis',
+  'un',
+  'una',
+  'quiero',
+  'necesito',
+  'sobre',
+])
+
+/**
+ * Number of content words a negation applies to
+ */
+const NEGATION_SCOPE = 2
+
+/**
+ * Token - A normalized word from the input
+ * @property word - Lower-cased, singularized word
+ * @property clause - Index of the clause the word belongs to
+ * @property negated - Whether a preceding negator applies to the word
+ */
+interface Token {
+  word: string
+  clause: number
+  negated: boolean
+}
+
+/**
+ * Reduces simple English plurals to their singular form, e.g. "taxes" -> "tax"
+ */
+export function singularize(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (/(x|ss|ch|sh)es$/.test(word)) return word.slice(0, -2)
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1)
+  }
+  return word
+}
+
+/**
+ * Strips accents so Spanish input matches with or without them, e.g.
+ * "jubilación" -> "jubilacion"
+ */
+function foldAccents(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '')
+}
+
+/**
+ * Normalizes a keyword the same way input words are
+ */
+function normalizeKeyword(keyword: string): string {
+  return singularize(foldAccents(keyword.toLowerCase()))
+}
+
+/**
+ * Splits input into normalized tokens, expanding contractions ("don't" -> "do not"),
+ * tracking clause boundaries and marking which tokens fall under a negation.
+ * @param text - Raw user input
+ */
+export function tokenize(text: string): Token[] {
+  const clauses = foldAccents(text)
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/n't\b/g, ' not')
+    .split(/[.,;!?]+|\bbut\b/)
+
+  const tokens: Token[] = []
+  clauses.forEach((clause, clauseIndex) => {
+    const words = clause
+      .replace(/'/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean)
+      .map(singularize)
+
+    let scopeLeft = 0
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i]
+      if (NEGATION_IDIOMS.includes(`${word} ${words[i + 1]}`)) {
+        // Drop the idiom entirely so neither word counts as a keyword
+        i++
+        continue
+      }
+
+      if (NEGATORS.has(word)) {
+        tokens.push({ word, clause: clauseIndex, negated: false })
+        scopeLeft = NEGATION_SCOPE
+        continue
+      }
+
+      const negated = scopeLeft > 0
+      if (negated && !STOPWORDS.has(word)) scopeLeft--
+      tokens.push({ word, clause: clauseIndex, negated })
+    }
+  })
+
+  return tokens
+}
+
+/**
+ * Levenshtein distance between two words, used for "did you mean" suggestions
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j]
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+      diagonal = above
+    }
+  }
+  return row[b.length]
+}
+
+/**
+ * Scores a single intent against tokenized input
+ */
+function scoreIntent(definition: IntentDefinition, tokens: Token[]): number {
+  const keywords = new Set(definition.keywords.map(normalizeKeyword))
+  let score = 0
+
+  for (const token of tokens) {
+    if (keywords.has(token.word)) score += token.negated ? -1 : 1
+  }
+
+  const standalone = new Set(definition.standalone?.map(normalizeKeyword))
+  for (const token of tokens) {
+    const alone = tokens.every(
+      (other) => other === token || other.clause !== token.clause,
+    )
+    if (alone && standalone.has(token.word)) score += 1
+  }
+
+  for (const phrase of definition.phrases ?? []) {
+    const words = tokenize(phrase).map((t) => t.word)
+    for (let i = 0; i + words.length <= tokens.length; i++) {
+      const window = tokens.slice(i, i + words.length)
+      const matches =
+        window.every((t, j) => t.word === words[j]) &&
+        window.every((t) => t.clause === window[0].clause)
+      // Only a negation from before the phrase counts, so "no thanks" is not
+      // negated by its own leading "no"
+      if (matches) score += window[0].negated ? -2 : 2
+    }
+  }
+
+  return score
+}
+
+/**
+ * createIntentClassifier - Builds a classifier backed by an intent registry
+ * @param definitions - Initial intents
+ * @param options - Overrides for the default thresholds
+ * @returns `register` to add intents declaratively and `classify` to recognize input
+ */
+export function createIntentClassifier(
+  definitions: IntentDefinition[] = [],
+  options: Partial<ClassifierOptions> = {},
+) {
+  const registry = new Map<string, IntentDefinition>()
+  const settings = { ...DEFAULT_OPTIONS, ...options }
+
+  const register = (definition: IntentDefinition) => {
+    registry.set(definition.name, definition)
+  }
+  definitions.forEach(register)
+
+  const classify = (text: string): Classification => {
+    const tokens = tokenize(text)
+    const raw = [...registry.values()].map((definition) => ({
+      intent: definition.name,
+      score: scoreIntent(definition, tokens),
+    }))
+    const total = raw.reduce((sum, s) => sum + Math.max(0, s.score), 0)
+    const scores: IntentScore[] = raw
+      .filter((s) => s.score >= settings.minScore)
+      .map((s) => ({ ...s, confidence: s.score / total }))
+      .sort((a, b) => b.score - a.score)
+
+    const [best] = scores
+    if (best && best.confidence >= settings.confidenceThreshold) {
+      return {
+        kind: 'match',
+        intent: best.intent,
+        confidence: best.confidence,
+        scores,
+      }
+    }
+    if (best) {
+      return {
+        kind: 'ambiguous',
+        candidates: scores.map((s) => registry.get(s.intent)!),
+        scores,
+      }
+    }
+
+    // Nothing matched outright: look for typos of known keywords
+    const suggestions = [...registry.values()].filter((definition) =>
+      tokens.some(
+        (token) =>
+          !token.negated &&
+          token.word.length > 3 &&
+          definition.keywords.some(
+            (keyword) =>
+              keyword.length > 3 &&
+              editDistance(token.word, normalizeKeyword(keyword)) <=
+                settings.maxSuggestionDistance,
+          ),
+      ),
+    )
+    return { kind: 'unknown', suggestions }
+  }
+
+  return {
+    register,
+    classify,
+    definitions: () => [...registry.values()],
+  }
+}
+
+/**
+ * IntentClassifier - A classifier built by `createIntentClassifier`
+ */
+export type IntentClassifier = ReturnType<typeof createIntentClassifier>
+
+/**
+ * Intents understood by the financial advisor chatbot, in English and
+ * Spanish
+ */
+export const CHATBOT_INTENTS: IntentDefinition[] = [
+  {
+    name: 'calculate_tax',
+    label: 'chat.topic.tax',
+    keywords: [
+      'tax',
+      'paycheck',
+      'withholding',
+      'calculate',
+      'estimate',
+      'impuesto',
+      'nómina',
+      'retención',
+      'retenciones',
+      'calcular',
+      'calcula',
+      'estimar',
+    ],
+    phrases: [
+      'take home pay',
+      'net pay',
+      'how much do i owe',
+      'sueldo neto',
+      'pago neto',
+      'cuánto debo',
+    ],
+  },
+  {
+    name: 'retirement',
+    label: 'chat.topic.retirement',
+    keywords: [
+      'retirement',
+      'retire',
+      'retiring',
+      '401k',
+      'ira',
+      'pension',
+      'jubilación',
+      'jubilar',
+      'jubilarme',
+      'jubilarse',
+      'retiro',
+    ],
+    phrases: [
+      'retirement plan',
+      'save for retirement',
+      'plan de jubilación',
+      'ahorrar para la jubilación',
+    ],
+  },
+  {
+    name: 'investment',
+    label: 'chat.topic.investment',
+    keywords: [
+      'invest',
+      'investing',
+      'investment',
+      'stock',
+      'bond',
+      'portfolio',
+      'fund',
+      'invertir',
+      'inversión',
+      'inversiones',
+      'acciones',
+      'bono',
+      'cartera',
+      'fondo',
+    ],
+    phrases: [
+      'investment advice',
+      'index fund',
+      'consejos de inversión',
+      'fondo indexado',
+    ],
+  },
+  {
+    name: 'deductions',
+    label: 'chat.topic.deductions',
+    keywords: [
+      'deduction',
+      'deduct',
+      'itemize',
+      'writeoff',
+      'deducción',
+      'deducciones',
+      'deducir',
+      'desgravar',
+    ],
+    phrases: [
+      'tax deduction',
+      'standard deduction',
+      'write off',
+      'deducciones fiscales',
+      'deducción estándar',
+      'deducciones de impuestos',
+    ],
+  },
+  {
+    name: 'affirm',
+    label: 'chat.intent.affirm',
+    keywords: [
+      'yes',
+      'yeah',
+      'yep',
+      'sure',
+      'ok',
+      'okay',
+      'claro',
+      'vale',
+      'dale',
+    ],
+    phrases: ['go ahead', 'sounds good', 'de acuerdo', 'por supuesto'],
+    standalone: ['sí'],
+  },
+  {
+    name: 'decline',
+    label: 'chat.intent.decline',
+    keywords: [
+      'no',
+      'nope',
+      'nah',
+      'nothing',
+      'bye',
+      'goodbye',
+      'nada',
+      'adiós',
+      'chao',
+    ],
+    phrases: [
+      'no thanks',
+      'thats all',
+      'that is all',
+      'im good',
+      'never mind',
+      'no gracias',
+      'eso es todo',
+      'estoy bien',
+    ],
+  },
+]
+
+/**
+ * Shared classifier instance used by the conversation state machine
+ */
+export const chatbotIntents = createIntentClassifier(CHATBOT_INTENTS)
@@ -0,0 +1,111 @@
+import type { Locale } from '@/lib/i18n'
+import { getLlmProvider } from '@/lib/llm'
+import { createAdvisorResponder } from './advisor'
+import {
+  advanceConversation,
+  isOpenEnded,
+  startTopic,
+  type ChatSession,
+  type ChatTopic,
+} from './conversation'
+import { typeOut } from './typing'
+
+/**
+ * ChatTurn - What the user did: typed a message or clicked a suggestion card
+ */
+export type ChatTurn =
+  | { kind: 'message'; text: string }
+  | { kind: 'topic'; topic: ChatTopic; label: string }
+
+/**
+ * ChatResponse - A reply in the making
+ * @property text - The reply, in chunks as it is produced
+ * @property complete - Records the turn once the reply stops, given the text
+ * that was sent (all of it, or less when the user moved on)
+ */
+export interface ChatResponse {
+  text: AsyncIterable<string>
+  complete(sent: string): ChatSession
+}
+
+/**
+ * ReplyOptions - How to reply to a turn
+ * @property signal - Aborted when the user moves on; stop producing text
+ * @property locale - Language to reply in
+ */
+export interface ReplyOptions {
+  signal: AbortSignal
+  locale: Locale
+}
+
+/**
+ * ChatResponder - Writes the bot's side of a conversation
+ */
+export interface ChatResponder {
+  /**
+   * Starts replying to a turn
+   * @param session - Conversation before the turn
+   * @param turn - What the user did
+   * @param options - Abort signal and reply language
+   */
+  respond(
+    session: ChatSession,
+    turn: ChatTurn,
+    options: ReplyOptions,
+  ): ChatResponse
+}
+
+/**
+ * createRuleResponder - The rule-based bot: the conversation state machine
+ * decides the whole reply up front, which is then typed out. An interrupted
+ * reply is still recorded in full, since the state has already moved on.
+ * @param delayMs - Pause between words
+ * @param openEnded - Answers messages the state machine doesn't understand;
+ * without it they get the state machine's fallback reply
+ */
+export function createRuleResponder({
+  delayMs = 25,
+  openEnded,
+}: { delayMs?: number; openEnded?: ChatResponder } = {}): ChatResponder {
+  return {
+    respond: (session, turn, options) => {
+      if (
+        openEnded &&
+        turn.kind === 'message' &&
+        isOpenEnded(session, turn.text)
+      ) {
+        return openEnded.respond(session, turn, options)
+      }
+      const next =
+        turn.kind === 'message'
+          ? advanceConversation(session, turn.text, options.locale)
+          : startTopic(session, turn.topic, turn.label, options.locale)
+      const reply = next.messages[next.messages.length - 1].text
+      return {
+        text: typeOut(reply, delayMs, options.signal),
+        complete: () => next,
+      }
+    },
+  }
+}
+
+let responder: ChatResponder | undefined
+
+/**
+ * getChatResponder - Returns the chatbot: the rule-based bot, handing
+ * open-ended questions to the language model from `getLlmProvider`
+ */
+export function getChatResponder(): ChatResponder {
+  responder ??= createRuleResponder({
+    openEnded: createAdvisorResponder(getLlmProvider()),
+  })
+  return responder
+}
+
+/**
+ * setChatResponder - Replaces the chatbot, e.g. with one that skips the
+ * typing delay in tests
+ */
+export function setChatResponder(next: ChatResponder) {
+  responder = next
+}
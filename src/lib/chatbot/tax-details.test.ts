@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { parseTaxDetails } from '@/lib/chatbot/tax-details'
+
+describe('parseTaxDetails', () => {
+  it('reads fields in any order, with currency symbols', () => {
+    expect(parseTaxDetails('rate $35/hr, 40 hours, CA').slots).toEqual({
+      hours: 40,
+      rate: 35,
+      state: 'CA',
+    })
+  })
+
+  it('reads labels with the colons left out', () => {
+    expect(parseTaxDetails('hours 40 rate 20 state CA').slots).toEqual({
+      hours: 40,
+      rate: 20,
+      state: 'CA',
+    })
+  })
+
+  it('reads multi-word names and full state names', () => {
+    expect(
+      parseTaxDetails(
+        'salary: $120,000, state: California, county: Los Angeles',
+      ).slots,
+    ).toEqual({ salary: 120_000, state: 'CA', county: 'Los Angeles' })
+  })
+
+  it.each([
+    ['I make $85,000 a year in CA', 85_000],
+    ['taxes on $85k in CA', 85_000],
+    ['85k salary in CA', 85_000],
+    ['my salary is 85k, CA', 85_000],
+  ])('reads %j as an annual salary', (input, salary) => {
+    expect(parseTaxDetails(input).slots).toMatchObject({ salary, state: 'CA' })
+  })
+
+  it.each([
+    ['I make $4,000 a month in TX', 48_000],
+    ['I earn $1,200 per week in TX', 62_400],
+    ['$2000 biweekly in TX', 52_000],
+    ['$3,000 twice a month in TX', 72_000],
+    ['gano $3,000 al mes en TX', 36_000],
+  ])('annualizes the pay in %j', (input, salary) => {
+    expect(parseTaxDetails(input).slots).toMatchObject({ salary, state: 'TX' })
+  })
+
+  it('does not read a monthly deduction as pay', () => {
+    expect(
+      parseTaxDetails('$85k salary, 401k: $200 a month, CA').slots,
+    ).toMatchObject({ salary: 85_000, retirement401k: 200 })
+  })
+
+  it('says which field was wrong', () => {
+    expect(
+      parseTaxDetails('hours: 200, rate: abc, state: Narnia').errors,
+    ).toEqual([
+      { field: 'hours', message: 'chat.slotError.hoursRange', value: 200 },
+      { field: 'rate', message: 'chat.slotError.notAmount', value: 'abc' },
+      { field: 'state', message: 'chat.slotError.notState', value: 'Narnia' },
+    ])
+  })
+
+  it('reads a bare reply as the slot that was asked about', () => {
+    expect(parseTaxDetails('ca', 'state').slots).toEqual({ state: 'CA' })
+    expect(parseTaxDetails('85000', 'pay').slots).toEqual({ salary: 85_000 })
+  })
+})
@@ -0,0 +1,677 @@
+import type { MessageKey } from '@/lib/i18n'
+import {
+  resolveStateCode,
+  US_STATES,
+  type FilingStatus,
+  type PayFrequency,
+} from '@/lib/tax'
+
+/**
+ * TaxSlots - Details the chatbot collects before running an estimate
+ * @property hours - Hours worked per week
+ * @property rate - Hourly rate in dollars
+ * @property salary - Annual salary, used instead of hours x rate
+ * @property state - Postal abbreviation of the state of residence
+ * @property county - County of residence
+ * @property city - City of residence
+ * @property localitySkipped - The user said they have no city/county to add
+ * @property payFrequency - How often the user is paid
+ * @property filingStatus - Federal filing status
+ * @property allowances - W-4 withholding allowances
+ * @property extraWithholding - Extra federal withholding per paycheck
+ * @property retirement401k - 401(k) contribution per paycheck in dollars
+ * @property retirement401kPercent - 401(k) contribution as a percentage of gross pay
+ * @property hsa - HSA contribution per paycheck
+ * @property healthPremiums - Pre-tax health insurance premiums per paycheck
+ */
+export interface TaxSlots {
+  hours: number
+  rate: number
+  salary: number
+  state: string
+  county: string
+  city: string
+  localitySkipped: boolean
+  payFrequency: PayFrequency
+  filingStatus: FilingStatus
+  allowances: number
+  extraWithholding: number
+  retirement401k: number
+  retirement401kPercent: number
+  hsa: number
+  healthPremiums: number
+}
+
+/**
+ * TaxSlotName - Fields the user can be asked about
+ * 'pay' covers hours, rate and salary; 'locality' covers county and city
+ */
+export type TaxSlotName = 'pay' | 'hours' | 'rate' | 'state' | 'locality'
+
+/**
+ * TaxDetailsDraft - Slot-filling progress kept on the chat session
+ * @property slots - Values collected so far
+ * @property asking - Slot the bot last asked about, so bare replies like "ca" are understood
+ */
+export interface TaxDetailsDraft {
+  slots: Partial<TaxSlots>
+  asking?: TaxSlotName
+}
+
+/**
+ * SlotError - A value the user supplied that could not be accepted
+ * @property field - Name of the field that was wrong
+ * @property message - Message key saying what was wrong with it
+ * @property value - The rejected value, filled into the message
+ */
+export interface SlotError {
+  field:
+    | 'hours'
+    | 'rate'
+    | 'salary'
+    | 'state'
+    | 'county'
+    | 'city'
+    | 'allowances'
+    | 'extraWithholding'
+    | 'retirement401k'
+    | 'hsa'
+    | 'healthPremiums'
+  message: MessageKey
+  value: string | number
+}
+
+/**
+ * Message key of the follow-up question for each missing slot
+ */
+export const SLOT_PROMPTS: Record<TaxSlotName, MessageKey> = {
+  pay: 'chat.slot.pay',
+  hours: 'chat.slot.hours',
+  rate: 'chat.slot.rate',
+  state: 'chat.slot.state',
+  locality: 'chat.slot.locality',
+}
+
+const LABELS =
+  'hours?|hrs|rate|salary|state|county|city|allowances?|(?:extra\\s+)?withholding|401\\(?k\\)?|hsa|health(?:\\s+insurance)?(?:\\s+premiums?)?|premiums?'
+
+/**
+ * Captures the text following a label such as "county:" up to the next
+ * delimiter or label, so values may contain spaces ("Los Angeles").
+ * Commas inside amounts ("$120,000") do not end the value.
+ */
+function labeledValue(input: string, label: string): string | undefined {
+  const regex = new RegExp(
+    String.raw`\b(?:${label})\s*[:=]\s*((?:[^,;\n]|,(?=\d{3}))*?)\s*(?=,(?!\d{3})|[;\n]|\b(?:${LABELS})\s*[:=]|$)`,
+    'i',
+  )
+  return input.match(regex)?.[1]
+}
+
+/**
+ * Parses a number that may carry a currency symbol, thousands separators or a "k" suffix
+ */
+function parseNumber(value: string): number | undefined {
+  const match = value.replace(/,/g, '').match(/^\s*\$?\s*(\d*\.?\d+)\s*(k)?\b/i)
+  if (!match) return undefined
+  return parseFloat(match[1]) * (match[2] ? 1_000 : 1)
+}
+
+/**
+ * Title-cases a place name, e.g. "los angeles" -> "Los Angeles"
+ */
+function titleCase(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/\b[a-z]/g, (c) => c.toUpperCase())
+}
+
+/**
+ * Upper-case words that are far more likely to be English than a state
+ */
+const AMBIGUOUS_ABBREVIATIONS = new Set(['OK', 'HI'])
+
+/**
+ * Suffix that marks an amount as hourly, e.g. "$35/hr", "35 an hour" or
+ * "$35 la hora"
+ */
+const PER_HOUR = String.raw`\s*(?:(?:\/|per|an|a)\s*(?:hour|hr|h)\b|(?:\/|por|la)\s*hora\b)`
+
+/**
+ * An amount of pay inside a larger pattern, e.g. "$85,000" or "85k"
+ */
+const PAY_AMOUNT = String.raw`\$?\s*[\d,]*\.?\d+\s*k?`
+
+/**
+ * Periods pay may be quoted in, with how many of them make a year, e.g.
+ * "$4,000 a month" or "$2,000 biweekly". Checked in order, so "biweekly"
+ * is not read as "weekly".
+ */
+const PAY_PERIODS: Array<[string, number]> = [
+  [
+    String.raw`(?:\/|per|a|an)\s*(?:year|yr|annum)\b|yearly\b|(?:\/|al|por)\s*año\b|annual(?:ly)?\b|anual(?:es)?\b`,
+    1,
+  ],
+  [
+    String.raw`bi-?weekly\b|every (?:two|2|other) weeks?\b|cada (?:dos|2) semanas\b|bisemanal(?:es)?\b`,
+    26,
+  ],
+  [String.raw`semi-?monthly\b|twice (?:a|per) month\b|quincenal(?:es)?\b`, 24],
+  [
+    String.raw`(?:\/|per|a|an)\s*(?:month|mo)\b|monthly\b|(?:al|por)\s+mes\b|mensual(?:es)?\b`,
+    12,
+  ],
+  [
+    String.raw`(?:\/|per|a|an)\s*(?:week|wk)\b|weekly\b|(?:a\s+la|por)\s+semana\b|semanal(?:es)?\b`,
+    52,
+  ],
+]
+
+/**
+ * Words around an amount that make it a deduction rather than pay, e.g.
+ * "401k: $200 a month" or "$150 a month in premiums"
+ */
+const DEDUCTION_BEFORE = String.raw`(?<!(?:401\(?k\)?|hsa|premiums?|withholding)\s*[:=]?\s*)`
+const DEDUCTION_AFTER = String.raw`(?!\s+(?:in\s+|for\s+|to\s+|into\s+)?(?:my\s+|a\s+)?(?:health|premiums?|hsa|401|extra|withholding))`
+
+/**
+ * Phrases for each pay frequency. Checked in order, so "biweekly" is
+ * recognized before the "weekly" inside "bi-weekly".
+ */
+const PAY_FREQUENCY_PATTERNS: Array<[RegExp, PayFrequency]> = [
+  [
+    /\b(?:bi-?weekly|every (?:two|2|other) weeks?|fortnightly|cada (?:dos|2) semanas|bisemanal)\b/i,
+    'biweekly',
+  ],
+  [
+    /\b(?:semi-?monthly|twice (?:a|per) month|twice monthly|quincenal(?:mente)?|dos veces al mes)\b/i,
+    'semimonthly',
+  ],
+  [
+    /\b(?:monthly|once a month|every month|mensual(?:mente)?|cada mes)\b(?!\s+premiums?)/i,
+    'monthly',
+  ],
+  [
+    /\b(?:weekly|every week|once a week|semanal(?:mente)?|cada semana)\b(?!\s+hours)/i,
+    'weekly',
+  ],
+]
+
+/**
+ * Phrases for each filing status, checked in order so "married filing
+ * separately" is not read as a plain "married"
+ */
+const FILING_STATUS_PATTERNS: Array<[RegExp, FilingStatus]> = [
+  [
+    /\b(?:married filing separate(?:ly)?|filing separately|married separate(?:ly)?|mfs|declaraci[oó]n por separado)\b/i,
+    'married_separate',
+  ],
+  [
+    /\b(?:head of (?:the )?household|hoh|cabeza de familia)\b/i,
+    'head_of_household',
+  ],
+  [
+    /\b(?:married(?: filing jointly| joint(?:ly)?)?|filing jointly|mfj|casad[oa]s?|declaraci[oó]n conjunta)\b/i,
+    'married_joint',
+  ],
+  [/\b(?:single|solter[oa])\b/i, 'single'],
+]
+
+/**
+ * parseFilingStatus - Finds a filing status named in free text, e.g.
+ * "married filing jointly" or "HOH"
+ * @param input - The user's message
+ */
+export function parseFilingStatus(input: string): FilingStatus | undefined {
+  return FILING_STATUS_PATTERNS.find(([pattern]) => pattern.test(input))?.[1]
+}
+
+/**
+ * A dollar amount inside a larger pattern
+ */
+const AMOUNT = String.raw`\$?\s*[\d,]*\.?\d+`
+
+/**
+ * Validates an optional per-paycheck dollar amount, recording an error when invalid
+ * @returns The amount, or undefined when it was missing or invalid
+ */
+function parsePaycheckAmount(
+  text: string | undefined,
+  field: SlotError['field'],
+  errors: SlotError[],
+): number | undefined {
+  if (text === undefined) return undefined
+  const amount = parseNumber(text)
+  if (amount === undefined) {
+    errors.push({
+      field,
+      message: 'chat.slotError.notAmount',
+      value: text.trim(),
+    })
+    return undefined
+  }
+  if (amount < 0 || amount > 1_000_000) {
+    errors.push({
+      field,
+      message: 'chat.slotError.paycheckRange',
+      value: amount,
+    })
+    return undefined
+  }
+  return amount
+}
+
+/**
+ * Finds a state mentioned without a label: a full name in any case, or an
+ * upper-case abbreviation (lower-case "in", "or", "me" are too ambiguous)
+ */
+function findUnlabeledState(input: string): string | undefined {
+  const byLength = Object.entries(US_STATES).sort(
+    ([, a], [, b]) => b.length - a.length,
+  )
+  for (const [code, name] of byLength) {
+    if (new RegExp(`\\b${name}\\b(?!\\s+city)`, 'i').test(input)) return code
+  }
+  return input
+    .match(/\b[A-Z]{2}\b/g)
+    ?.find((word) => US_STATES[word] && !AMBIGUOUS_ABBREVIATIONS.has(word))
+}
+
+/**
+ * parseTaxDetails - Extracts whatever tax details a message contains
+ *
+ * Fields may appear in any order, labeled ("county: Los Angeles") or in
+ * natural phrasing ("rate $35/hr, 40 hours, CA"). Pay can be weekly hours
+ * with an hourly rate or a salary; pay quoted per month, week or paycheck
+ * ("$4,000 a month") is annualized.
+ * @param input - The user's message
+ * @param asking - Slot the bot asked about last, which lets bare answers through
+ * @returns Slots found in the message and any values that were invalid
+ */
+export function parseTaxDetails(
+  input: string,
+  asking?: TaxSlotName,
+): { slots: Partial<TaxSlots>; errors: SlotError[] } {
+  const slots: Partial<TaxSlots> = {}
+  const errors: SlotError[] = []
+
+  // Hours per week
+  const hoursLabel = labeledValue(input, 'hours?|hrs')
+  const hoursText =
+    hoursLabel ??
+    input.match(
+      /(?<!\$\s*)\b(\d*\.?\d+)\s*(?:horas?|hours|hrs|hr|h)\b(?!\s*(?:rate|pay))/i,
+    )?.[1] ??
+    // "hours 40", with the colon left out
+    input.match(/\b(?:hours?|hrs|horas)\s+(\d*\.?\d+)\b(?!\s*[$%])/i)?.[1] ??
+    (asking === 'hours' ? input : undefined)
+  if (hoursText !== undefined) {
+    const hours = parseNumber(hoursText)
+    if (hours === undefined) {
+      errors.push({
+        field: 'hours',
+        message: 'chat.slotError.notNumber',
+        value: hoursText.trim(),
+      })
+    } else if (hours <= 0 || hours > 168) {
+      errors.push({
+        field: 'hours',
+        message: 'chat.slotError.hoursRange',
+        value: hours,
+      })
+    } else {
+      slots.hours = hours
+    }
+  }
+
+  // Hourly rate
+  const rateText =
+    labeledValue(input, 'rate') ??
+    input.match(
+      new RegExp(String.raw`(\$?\s*\d*\.?\d+)${PER_HOUR}`, 'i'),
+    )?.[1] ??
+    input.match(/\bat\s+(\$\s*\d*\.?\d+)(?!\s*(?:k|,\d))/i)?.[1] ??
+    input.match(
+      /\brate\s+(?:of\s+|is\s+)?(\$?\s*\d*\.?\d+)(?![\d,]|\s*k)/i,
+    )?.[1] ??
+    (asking === 'rate' ? input : undefined)
+  if (rateText !== undefined) {
+    const rate = parseNumber(rateText)
+    if (rate === undefined) {
+      errors.push({
+        field: 'rate',
+        message: 'chat.slotError.notAmount',
+        value: rateText.trim(),
+      })
+    } else if (rate <= 0 || rate > 10_000) {
+      errors.push({
+        field: 'rate',
+        message: 'chat.slotError.rateRange',
+        value: rate,
+      })
+    } else {
+      slots.rate = rate
+    }
+  }
+
+  // Annual salary. Pay quoted per month, week or paycheck is annualized.
+  let salaryText: string | undefined
+  let periodsPerYear = 1
+  for (const [period, perYear] of PAY_PERIODS) {
+    const match = input.match(
+      new RegExp(
+        String.raw`(?<![\w.,$])(?!401\(?k)${DEDUCTION_BEFORE}(${PAY_AMOUNT})\s*(?:${period})${DEDUCTION_AFTER}`,
+        'i',
+      ),
+    )
+    if (match) {
+      salaryText = match[1]
+      periodsPerYear = perYear
+      break
+    }
+  }
+  salaryText ??=
+    labeledValue(input, 'salary') ??
+    input.match(
+      new RegExp(
+        String.raw`\b(?:salary|earn|make|making|income|salario|sueldo|gano|ingresos)\s+(?:of\s+|is\s+|de\s+|es\s+)?(${PAY_AMOUNT})(?!${PER_HOUR}|\d)`,
+        'i',
+      ),
+    )?.[1] ??
+    // "taxes on $85k" or "impuestos sobre 85k"; the amount needs a "$" or
+    // "k" to be told apart from other numbers
+    input.match(
+      new RegExp(
+        String.raw`\b(?:on|sobre)\s+(\$\s*[\d,]*\.?\d+\s*k?|[\d,]*\.?\d+\s*k\b)(?!${PER_HOUR}|\d)`,
+        'i',
+      ),
+    )?.[1] ??
+    input.match(
+      new RegExp(
+        String.raw`(${PAY_AMOUNT})\s+(?:(?:annual|yearly)\s+)?(?:salary|income|salario|sueldo)\b`,
+        'i',
+      ),
+    )?.[1] ??
+    input.match(/\bannual(?:ly)?\s+(\$?\s*[\d,]*\.?\d+\s*k?)/i)?.[1]
+  if (salaryText !== undefined) {
+    const amount = parseNumber(salaryText)
+    const salary = amount === undefined ? undefined : amount * periodsPerYear
+    if (salary === undefined) {
+      errors.push({
+        field: 'salary',
+        message: 'chat.slotError.notAmount',
+        value: salaryText.trim(),
+      })
+    } else if (salary <= 0 || salary > 100_000_000) {
+      errors.push({
+        field: 'salary',
+        message: 'chat.slotError.salaryRange',
+        value: salary,
+      })
+    } else {
+      slots.salary = salary
+    }
+  }
+
+  // A bare number in reply to "how much do you earn?" is a salary when
+  // large enough to be one, otherwise an hourly rate
+  if (
+    asking === 'pay' &&
+    slots.hours === undefined &&
+    slots.rate === undefined &&
+    slots.salary === undefined &&
+    errors.length === 0
+  ) {
+    const amount = parseNumber(input)
+    if (amount !== undefined && amount >= 1_000) slots.salary = amount
+    else if (amount !== undefined && amount > 0) slots.rate = amount
+  }
+
+  // State
+  const stateLabel = labeledValue(input, 'state')
+  if (stateLabel !== undefined) {
+    const code = resolveStateCode(stateLabel)
+    if (code) slots.state = code
+    else
+      errors.push({
+        field: 'state',
+        message: 'chat.slotError.notState',
+        value: stateLabel,
+      })
+  } else if (asking === 'state') {
+    const code = resolveStateCode(input) ?? findUnlabeledState(input)
+    if (code) slots.state = code
+    else
+      errors.push({
+        field: 'state',
+        message: 'chat.slotError.notState',
+        value: input.trim(),
+      })
+  } else {
+    // "state ca", with the colon left out, or a state named anywhere
+    const stateWord = input.match(
+      /\bstate\s+(?:of\s+|is\s+)?([a-z]{2})\b/i,
+    )?.[1]
+    const code =
+      (stateWord && resolveStateCode(stateWord)) || findUnlabeledState(input)
+    if (code) slots.state = code
+  }
+
+  // County and city
+  const countyText =
+    labeledValue(input, 'county') ??
+    input
+      .match(/\b([a-z][a-z.'-]*(?:\s+[a-z][a-z.'-]*){0,2})\s+county\b/i)?.[1]
+      ?.replace(/^(?:in|at|of|live|from)\s+/i, '') ??
+    // "condado de Los Angeles", up to the next delimiter or "en NY"
+    input.match(
+      /\bcondado\s+de\s+([a-z][a-z.'-]*(?:\s+[a-z][a-z.'-]*){0,2}?)(?=\s*(?:[,;\n]|$)|\s+en\b)/i,
+    )?.[1]
+  if (countyText !== undefined) {
+    if (/^[a-z][a-z .'-]*$/i.test(countyText))
+      slots.county = titleCase(countyText)
+    else
+      errors.push({
+        field: 'county',
+        message: 'chat.slotError.lettersOnly',
+        value: countyText,
+      })
+  }
+  const cityText = labeledValue(input, 'city')
+  if (cityText !== undefined) {
+    if (/^[a-z][a-z .'-]*$/i.test(cityText)) {
+      slots.city =
+        cityText.length <= 3 ? cityText.toUpperCase() : titleCase(cityText)
+    } else {
+      errors.push({
+        field: 'city',
+        message: 'chat.slotError.lettersOnly',
+        value: cityText,
+      })
+    }
+  }
+
+  if (
+    asking === 'locality' &&
+    slots.city === undefined &&
+    slots.county === undefined
+  ) {
+    if (
+      /^\s*(skip|none|no|n\/a|nope|omitir|saltar|ninguno|ninguna|nada)\s*$/i.test(
+        input,
+      )
+    ) {
+      slots.localitySkipped = true
+    } else {
+      // "Brooklyn" or "Brooklyn, Kings" - city first, then county
+      const [city, county] = input.split(',').map((part) => part.trim())
+      if (city && /^[a-z][a-z .'-]*$/i.test(city)) {
+        slots.city = city.length <= 3 ? city.toUpperCase() : titleCase(city)
+      }
+      if (county && /^[a-z][a-z .'-]*$/i.test(county)) {
+        slots.county = titleCase(county.replace(/\s+county$/i, ''))
+      }
+    }
+  }
+
+  // Pay frequency and filing status
+  const frequency = PAY_FREQUENCY_PATTERNS.find(([pattern]) =>
+    pattern.test(input),
+  )
+  if (frequency) slots.payFrequency = frequency[1]
+  const filingStatus = parseFilingStatus(input)
+  if (filingStatus) slots.filingStatus = filingStatus
+
+  // W-4 allowances and extra withholding
+  const allowancesText =
+    labeledValue(input, 'allowances?') ??
+    input.match(/\b(\d+)\s+(?:w-?4\s+)?allowances?\b/i)?.[1]
+  if (allowancesText !== undefined) {
+    const allowances = Number(allowancesText.trim())
+    if (!Number.isInteger(allowances) || allowances < 0 || allowances > 20) {
+      errors.push({
+        field: 'allowances',
+        message: 'chat.slotError.allowances',
+        value: allowancesText.trim(),
+      })
+    } else {
+      slots.allowances = allowances
+    }
+  }
+  const extraWithholding = parsePaycheckAmount(
+    labeledValue(input, String.raw`(?:extra\s+)?withholding`) ??
+      input.match(
+        new RegExp(
+          String.raw`\bextra\s+(?:withholding\s+)?(?:of\s+)?(${AMOUNT})`,
+          'i',
+        ),
+      )?.[1] ??
+      input.match(
+        new RegExp(
+          String.raw`(${AMOUNT})\s+(?:in\s+)?extra\s+withholding`,
+          'i',
+        ),
+      )?.[1],
+    'extraWithholding',
+    errors,
+  )
+  if (extraWithholding !== undefined) slots.extraWithholding = extraWithholding
+
+  // Pre-tax deductions; a 401(k) may be a percentage of pay or a dollar amount
+  const retirementText =
+    labeledValue(input, String.raw`401\(?k\)?`) ??
+    input.match(
+      new RegExp(String.raw`\b401\(?k\)?\s+(?:of\s+)?(${AMOUNT}\s*%?)`, 'i'),
+    )?.[1] ??
+    input.match(
+      new RegExp(
+        String.raw`(${AMOUNT}\s*%?)\s+(?:to|into|in)\s+(?:my\s+|a\s+)?401\(?k\)?`,
+        'i',
+      ),
+    )?.[1]
+  if (retirementText?.includes('%')) {
+    const percent = parseNumber(retirementText)
+    if (percent === undefined || percent < 0 || percent > 100) {
+      errors.push({
+        field: 'retirement401k',
+        message: 'chat.slotError.percent',
+        value: retirementText.trim(),
+      })
+    } else {
+      slots.retirement401kPercent = percent
+    }
+  } else {
+    const retirement401k = parsePaycheckAmount(
+      retirementText,
+      'retirement401k',
+      errors,
+    )
+    if (retirement401k !== undefined) slots.retirement401k = retirement401k
+  }
+  const hsa = parsePaycheckAmount(
+    labeledValue(input, 'hsa') ??
+      input.match(
+        new RegExp(String.raw`\bhsa\s+(?:of\s+)?(${AMOUNT})`, 'i'),
+      )?.[1] ??
+      input.match(
+        new RegExp(
+          String.raw`(${AMOUNT})\s+(?:to|into|in)\s+(?:my\s+|an\s+)?hsa\b`,
+          'i',
+        ),
+      )?.[1],
+    'hsa',
+    errors,
+  )
+  if (hsa !== undefined) slots.hsa = hsa
+  const healthPremiums = parsePaycheckAmount(
+    labeledValue(
+      input,
+      String.raw`health(?:\s+insurance)?(?:\s+premiums?)?|premiums?`,
+    ) ??
+      input.match(
+        new RegExp(
+          String.raw`\b(?:health(?:\s+insurance)?\s+premiums?|premiums?)\s+(?:of\s+)?(${AMOUNT})`,
+          'i',
+        ),
+      )?.[1] ??
+      input.match(
+        new RegExp(
+          String.raw`(${AMOUNT})\s+(?:for\s+|in\s+)?(?:health(?:\s+insurance)?\s+)?premiums?\b`,
+          'i',
+        ),
+      )?.[1],
+    'healthPremiums',
+    errors,
+  )
+  if (healthPremiums !== undefined) slots.healthPremiums = healthPremiums
+
+  return { slots, errors }
+}
+
+/**
+ * Returns the first slot that still needs an answer, in the order the bot asks
+ * @param slots - Values collected so far
+ */
+export function missingSlot(slots: Partial<TaxSlots>): TaxSlotName | undefined {
+  if (slots.salary === undefined) {
+    if (slots.hours === undefined && slots.rate === undefined) return 'pay'
+    if (slots.hours === undefined) return 'hours'
+    if (slots.rate === undefined) return 'rate'
+  }
+  if (slots.state === undefined) return 'state'
+  if (
+    slots.city === undefined &&
+    slots.county === undefined &&
+    !slots.localitySkipped
+  ) {
+    return 'locality'
+  }
+  return undefined
+}
+
+/**
+ * Merges newly parsed slots into the draft. Salary and hours x rate are
+ * alternatives, so supplying one clears the other; the same goes for a
+ * 401(k) percentage and dollar amount.
+ */
+export function mergeSlots(
+  current: Partial<TaxSlots>,
+  update: Partial<TaxSlots>,
+): Partial<TaxSlots> {
+  const merged = { ...current, ...update }
+  if (
+    update.salary !== undefined &&
+    update.hours === undefined &&
+    update.rate === undefined
+  ) {
+    delete merged.hours
+    delete merged.rate
+  } else if (update.hours !== undefined || update.rate !== undefined) {
+    if (update.salary === undefined) delete merged.salary
+  }
+  if (update.retirement401kPercent !== undefined) delete merged.retirement401k
+  else if (update.retirement401k !== undefined)
+    delete merged.retirement401kPercent
+  return merged
+}
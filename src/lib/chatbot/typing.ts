@@ -0,0 +1,37 @@
+/**
+ * Waits `ms`, returning early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    // Removed once the wait is over, so long replies don't pile up listeners
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * typeOut - Yields text a word at a time, `delayMs` apart, like someone
+ * typing. Whitespace stays attached to the word before it, so the chunks
+ * join back into the original text.
+ * @param text - Text to type
+ * @param delayMs - Pause before each word
+ * @param signal - Stops typing when aborted
+ */
+export async function* typeOut(
+  text: string,
+  delayMs: number,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  for (const word of text.split(/(?<=\s)(?=\S)/)) {
+    if (delayMs > 0) await sleep(delayMs, signal)
+    if (signal?.aborted) return
+    yield word
+  }
+}
@@ -0,0 +1,53 @@
+import { log, serializeError } from '@/lib/logger'
+
+/**
+ * ErrorReport - A server error worth someone's attention
+ * @property error - What was thrown
+ * @property source - Where it surfaced: a request handler or a server
+ * function (including loader calls made during SSR)
+ * @property requestId - Id of the request it belongs to, if known
+ * @property path - Request path, for request errors
+ * @property functionId - Server function id, for server function errors
+ */
+export interface ErrorReport {
+  error: unknown
+  source: 'request' | 'server function'
+  requestId?: string
+  path?: string
+  functionId?: string
+}
+
+/**
+ * ErrorReporter - Receives every server error, e.g. to forward it to an
+ * error tracker; swap it with `setErrorReporter`
+ */
+export type ErrorReporter = (report: ErrorReport) => void | Promise<void>
+
+// Errors are already logged where they happen, so nothing more by default
+let reporter: ErrorReporter = () => {}
+
+/**
+ * Replaces the error reporter, e.g. with one that sends errors to an error
+ * tracking service, or one that collects them in tests
+ * @returns The previous reporter, so it can be restored
+ */
+export function setErrorReporter(next: ErrorReporter): ErrorReporter {
+  const previous = reporter
+  reporter = next
+  return previous
+}
+
+/**
+ * reportServerError - Hands an error to the reporter without delaying or
+ * failing the response; a reporter that throws is only logged
+ * @param report - The error and where it happened
+ */
+export function reportServerError(report: ErrorReport) {
+  const failed = (error: unknown) =>
+    log('error', 'error reporter failed', { error: serializeError(error) })
+  try {
+    Promise.resolve(reporter(report)).catch(failed)
+  } catch (error) {
+    failed(error)
+  }
+}
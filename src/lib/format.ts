@@ -0,0 +1,59 @@
+import { DEFAULT_LOCALE, LOCALE_TAGS, type I18n, type Locale } from '@/lib/i18n'
+import type { DeductionLineItem, TaxLineItem } from '@/lib/tax'
+
+const moneyFormats = new Map<Locale, Intl.NumberFormat>()
+const percentFormats = new Map<Locale, Intl.NumberFormat>()
+
+/**
+ * Formats a dollar amount for display, e.g. 1234.5 -> "$1,234.50"
+ * @param amount - Amount in dollars
+ * @param locale - Locale whose separators and symbol placement to use
+ */
+export function formatMoney(amount: number, locale: Locale = DEFAULT_LOCALE) {
+  let format = moneyFormats.get(locale)
+  if (!format) {
+    format = new Intl.NumberFormat(LOCALE_TAGS[locale], {
+      style: 'currency',
+      currency: 'USD',
+    })
+    moneyFormats.set(locale, format)
+  }
+  return format.format(amount)
+}
+
+/**
+ * Formats a fraction as a percentage, e.g. 0.264 -> "26.4%"
+ * @param fraction - Value where 1 is 100%
+ * @param locale - Locale whose separators to use
+ */
+export function formatPercent(
+  fraction: number,
+  locale: Locale = DEFAULT_LOCALE,
+) {
+  let format = percentFormats.get(locale)
+  if (!format) {
+    format = new Intl.NumberFormat(LOCALE_TAGS[locale], {
+      style: 'percent',
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1,
+    })
+    percentFormats.set(locale, format)
+  }
+  return format.format(fraction)
+}
+
+/**
+ * Names a tax or deduction row in the reader's language. Local taxes keep
+ * their own names, e.g. "NYC Resident Income Tax".
+ * @param item - Row of an estimate
+ * @param i18n - Language to name it in
+ */
+export function formatLineItem(
+  item: TaxLineItem | DeductionLineItem,
+  { t }: I18n,
+) {
+  if (item.id === 'local') return item.label
+  return t(`tax.${item.id}`, {
+    state: 'state' in item ? (item.state ?? '') : '',
+  })
+}
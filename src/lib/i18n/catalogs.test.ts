@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import en from './en'
+import es from './es'
+
+const CATALOGS: Record<string, Record<string, string>> = { en, es }
+
+const SOURCES = import.meta.glob<string>(
+  ['/src/**/*.{ts,tsx}', '!**/i18n/**'],
+  {
+    query: '?raw',
+    import: 'default',
+    eager: true,
+  },
+)
+
+/**
+ * Placeholder names in a message, e.g. "{min} to {max}" -> ["max", "min"]
+ */
+function placeholders(message: string): string[] {
+  return [...message.matchAll(/\{(\w+)\}/g)].map(([, name]) => name).sort()
+}
+
+/**
+ * Every match of `pattern`'s first group across the source files, paired
+ * with the file it came from
+ */
+function findInSources(pattern: RegExp): Array<[string, string]> {
+  return Object.entries(SOURCES).flatMap(([file, source]) =>
+    [...source.matchAll(pattern)].map(([, key]): [string, string] => [
+      file,
+      key,
+    ]),
+  )
+}
+
+describe('message catalogs', () => {
+  it.each(Object.keys(CATALOGS))('%s has the same keys as en', (locale) => {
+    expect(Object.keys(CATALOGS[locale]).sort()).toEqual(Object.keys(en).sort())
+  })
+
+  it.each(Object.keys(CATALOGS))('%s has no empty messages', (locale) => {
+    const empty = Object.entries(CATALOGS[locale])
+      .filter(([, message]) => !message.trim())
+      .map(([key]) => key)
+    expect(empty).toEqual([])
+  })
+
+  it('uses the same placeholders in every locale', () => {
+    const mismatched = Object.entries(en).filter(([key, message]) =>
+      Object.values(CATALOGS).some(
+        (catalog) =>
+          placeholders(catalog[key] ?? '').join() !==
+          placeholders(message).join(),
+      ),
+    )
+    expect(mismatched.map(([key]) => key)).toEqual([])
+  })
+
+  it('has a message for every key the source looks up', () => {
+    const lookups = findInSources(/\bt\(\s*['"]([\w.-]+)['"]/g)
+    expect(lookups.length).toBeGreaterThan(100)
+    const missing = lookups
+      .filter(([, key]) => !(key in en))
+      .map(([file, key]) => `${file}: ${key}`)
+    expect(missing).toEqual([])
+  })
+
+  it('has messages under every prefix the source builds keys from', () => {
+    const missing = findInSources(/\bt\(\s*`([\w.-]+\.)\$\{/g)
+      .filter(
+        ([, prefix]) => !Object.keys(en).some((key) => key.startsWith(prefix)),
+      )
+      .map(([file, prefix]) => `${file}: ${prefix}`)
+    expect(missing).toEqual([])
+  })
+})
@@ -0,0 +1,334 @@
+/**
+ * English messages, the reference catalog every other locale must match.
+ * Placeholders in braces, e.g. {username}, are filled in by the translator.
+ */
+const en = {
+  'header.openMenu': 'Open menu',
+  'header.closeMenu': 'Close menu',
+  'header.navigation': 'Navigation',
+  'header.home': 'Home',
+  'header.chatbot': 'Chatbot',
+  'header.calculator': 'Paycheck Calculator',
+  'header.serverFunctions': 'Start - Server Functions',
+  'header.apiRequest': 'Start - API Request',
+  'header.ssrDemos': 'Start - SSR Demos',
+  'header.spaMode': 'SPA Mode',
+  'header.fullSsr': 'Full SSR',
+  'header.dataOnly': 'Data Only',
+  'header.streaming': 'Streaming',
+  'header.signedInAs': 'Signed in as',
+  'header.signIn': 'Sign in',
+  'header.signOut': 'Sign out',
+  'header.language': 'Language',
+  'header.theme': 'Theme: {theme}. Switch theme',
+
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'System',
+
+  'seo.description':
+    'Estimate your take-home pay and get answers about taxes, retirement and investing.',
+  'seo.home.title': 'Paycheck calculator and AI financial advisor',
+  'seo.calculator.description':
+    'Estimate federal, state and local taxes and take-home pay for hourly or salaried work in any US state.',
+  'seo.calculator.estimate':
+    'Estimated take-home pay: {net} per {frequency} paycheck on {gross} gross in {state}.',
+  'seo.chatbot.description':
+    'Chat with Jacob about paycheck taxes, retirement savings, investing and deductions.',
+  'seo.demo.description': 'TanStack Start demo: {title}.',
+  'seo.signup.title': 'Create an account',
+
+  'error.title': 'Something went wrong',
+  'error.description': "This page couldn't load. Try again, or head back home.",
+  'error.retry': 'Try again',
+  'error.retrying': 'Retrying...',
+  'error.home': 'Go home',
+  'error.list': "Couldn't load this list.",
+  'validation.invalidInput': 'Invalid input',
+  'validation.notText': 'Must be text',
+  'validation.required': 'Required',
+  'validation.tooShort': 'Must be at least {min} characters',
+  'validation.tooLong': 'Must be {max} characters or fewer',
+  'validation.invalidFormat': 'Invalid format',
+  'validation.notNumber': 'Must be a number',
+  'validation.notWholeNumber': 'Must be a whole number',
+  'validation.tooSmall': 'Must be at least {min}',
+  'validation.tooLarge': 'Must be at most {max}',
+  'validation.notBoolean': 'Must be true or false',
+  'validation.notOneOf': 'Must be one of: {values}',
+  'validation.notList': 'Must be a list',
+  'validation.tooManyItems': 'Must have {max} items or fewer',
+  'validation.notObject': 'Must be an object',
+  'validation.sessionId': 'Must be a session id',
+  'validation.username':
+    'Use only letters, numbers, dots, dashes and underscores',
+  'validation.usernameTaken': 'That username is taken',
+  'validation.badCredentials': 'Incorrect username or password',
+  'notFound.title': 'Page not found',
+  'notFound.description': "We couldn't find the page you were looking for.",
+  'notFound.home': 'Back to home',
+  'pending.loading': 'Loading...',
+
+  'auth.signIn': 'Sign in',
+  'auth.signUp': 'Create an account',
+  'auth.submitSignUp': 'Sign up',
+  'auth.username': 'Username',
+  'auth.usernameHint': '3 to 32 letters, numbers, dots, dashes or underscores',
+  'auth.password': 'Password',
+  'auth.passwordHint': 'At least 8 characters',
+  'auth.haveAccount': 'Already have an account?',
+  'auth.newHere': 'New here?',
+  'auth.failed': 'Something went wrong. Please try again.',
+
+  'todos.title': 'Start Server Functions - Todo Example',
+  'todos.markDone': 'Mark "{name}" as done',
+  'todos.markNotDone': 'Mark "{name}" as not done',
+  'todos.name': 'Todo name',
+  'todos.moveUp': 'Move up',
+  'todos.moveDown': 'Move down',
+  'todos.edit': 'Edit',
+  'todos.delete': 'Delete',
+  'todos.placeholder': 'Enter a new todo...',
+  'todos.add': 'Add todo',
+  'todos.addFailed': 'Could not add todo: {problem}',
+  'todos.updateFailed': 'Could not update todo: {problem}',
+  'todos.renameFailed': 'Could not rename todo: {problem}',
+  'todos.deleteFailed': 'Could not delete todo: {problem}',
+  'todos.reorderFailed': 'Could not reorder todos: {problem}',
+  'toast.dismiss': 'Dismiss notification',
+
+  'streaming.title': 'Streaming - Punk Songs',
+  'streaming.intro':
+    'The song list arrives with the page. Release years and albums come from slow server functions and stream in as each one finishes.',
+  'streaming.loadNormally': 'Load normally',
+  'streaming.failAlbums': 'Make the albums fail',
+  'streaming.releaseYears': 'Release years (1 second)',
+  'streaming.albums': 'Albums (3 seconds)',
+  'streaming.albumsFailed': 'The album service did not respond',
+
+  'calculator.title': 'Paycheck Calculator',
+  'calculator.payType': 'Pay type',
+  'calculator.salaried': 'Annual salary',
+  'calculator.hourly': 'Hourly',
+  'calculator.salary': 'Annual salary ($)',
+  'calculator.hours': 'Hours per week',
+  'calculator.rate': 'Hourly rate ($)',
+  'calculator.frequency': 'Pay frequency',
+  'calculator.filing': 'Filing status',
+  'calculator.state': 'State',
+  'calculator.county': 'County (optional)',
+  'calculator.city': 'City (optional)',
+  'calculator.withholding': 'W-4 and pre-tax deductions (per paycheck)',
+  'calculator.allowances': 'W-4 allowances',
+  'calculator.extra': 'Extra withholding ($)',
+  'calculator.k401': '401(k) contribution ($)',
+  'calculator.hsa': 'HSA contribution ($)',
+  'calculator.health': 'Health insurance premiums ($)',
+  'calculator.submit': 'Calculate',
+  'calculator.notANumber': 'Enter a number',
+  'calculator.required': 'Required',
+  'calculator.outOfRange': 'Enter a number from {min} to {max}',
+  'calculator.wholeNumber': 'Enter a whole number',
+  'calculator.chooseState': 'Choose a state',
+  'calculator.perPaycheck': 'Per paycheck',
+  'calculator.annual': 'Annual',
+  'calculator.grossPay': 'Gross Pay',
+  'calculator.totalTaxes': 'Total Taxes ({rate})',
+  'calculator.netPay': 'Net Pay',
+
+  'tax.retirement401k': '401(k) Contribution',
+  'tax.hsa': 'HSA Contribution',
+  'tax.healthPremiums': 'Health Insurance Premiums',
+  'tax.federalIncome': 'Federal Income Tax',
+  'tax.extraWithholding': 'Extra Federal Withholding',
+  'tax.socialSecurity': 'Social Security',
+  'tax.medicare': 'Medicare',
+  'tax.additionalMedicare': 'Additional Medicare',
+  'tax.stateIncome': '{state} State Income Tax',
+
+  'frequency.weekly': 'Weekly',
+  'frequency.biweekly': 'Biweekly',
+  'frequency.semimonthly': 'Semimonthly',
+  'frequency.monthly': 'Monthly',
+  'filing.single': 'Single',
+  'filing.married_joint': 'Married Filing Jointly',
+  'filing.married_separate': 'Married Filing Separately',
+  'filing.head_of_household': 'Head of Household',
+
+  'chat.title': 'AI Financial Advisor',
+  'chat.subtitle': 'Tax calculations & personalized financial guidance',
+  'chat.suggestions': 'Try asking about:',
+  'chat.topic.tax': 'Calculate Tax',
+  'chat.topic.retirement': 'Retirement Plan',
+  'chat.topic.investment': 'Investment Advice',
+  'chat.topic.deductions': 'Tax Deductions',
+  'chat.intent.affirm': 'Yes',
+  'chat.intent.decline': 'No thanks',
+  'chat.placeholder': 'Ask about taxes, retirement, investments...',
+  'chat.holdToTalk': 'Hold to talk',
+  'chat.voiceUnsupported': 'Voice input is not supported in this browser',
+  'chat.listening': 'Listening... release to stop',
+  'chat.micDenied': 'Microphone access was denied.',
+  'chat.voiceFailed': 'Voice input failed. Please try again.',
+  'chat.disclaimer':
+    '💡 This is a demo with mock calculations and under testing. Consult with a certified financial advisor.',
+  'chat.typing': 'Jacob is typing',
+  'chat.download': 'Download {format}',
+  'chat.unreadable': "Sorry, I couldn't read that message. {problem}.",
+  'chat.tooFast': "You're sending messages quickly. {problem}.",
+  'chat.failed': 'Sorry, something went wrong. Please try again.',
+
+  'chat.landing':
+    'Sign in to ask Jacob about paycheck taxes, retirement savings, investing and deductions. Your conversation is saved to your account.',
+  'chat.signUp': 'Create an account',
+
+  'chat.greeting': 'Hello, my name is Jacob. How can I help you?',
+  'chat.taxStart':
+    'Sure! Tell me about your pay and where you live, e.g. "40 hours at $35/hr in NYC, Kings County, NY" or "$85,000 a year, Los Angeles County, CA".',
+  'chat.anythingElse': 'Would you like help with anything else?',
+  'chat.flowDeclined':
+    'No problem! Let me know if there is anything else I can help with.',
+  'chat.fallback':
+    'I can help you calculate taxes. Please type "please calculate my taxes" to begin.',
+  'chat.calculateAgain':
+    'Okay! Let me know if you would like me to calculate taxes again.',
+  'chat.didYouMean': 'Did you mean {options}?',
+  'chat.or': 'or',
+  'chat.goodbye': 'Thanks, have a nice day!',
+  'chat.whatNext': 'Great! What would you like help with?',
+  'chat.taxDeclined':
+    'No problem! Let me know if you would like me to calculate taxes later.',
+  'chat.couldNotUse': "I couldn't use part of that:",
+  'chat.sendCorrection':
+    'Send a corrected value, or say "calculate" to continue without it.',
+  'chat.field.hours': 'hours',
+  'chat.field.rate': 'rate',
+  'chat.field.salary': 'salary',
+  'chat.field.state': 'state',
+  'chat.field.county': 'county',
+  'chat.field.city': 'city',
+  'chat.field.allowances': 'allowances',
+  'chat.field.extraWithholding': 'extra withholding',
+  'chat.field.retirement401k': '401k',
+  'chat.field.hsa': 'HSA',
+  'chat.field.healthPremiums': 'health premiums',
+  'chat.slotError.notNumber': '{field}: "{value}" is not a number.',
+  'chat.slotError.notAmount': '{field}: "{value}" is not a dollar amount.',
+  'chat.slotError.hoursRange':
+    '{field}: {value} is not a valid number of hours in a week (1-168).',
+  'chat.slotError.rateRange':
+    '{field}: ${value} per hour is outside the supported range ($0-$10,000).',
+  'chat.slotError.salaryRange':
+    '{field}: ${value} is outside the supported range.',
+  'chat.slotError.paycheckRange':
+    '{field}: ${value} per paycheck is outside the supported range.',
+  'chat.slotError.notState':
+    '{field}: "{value}" is not a US state name or abbreviation.',
+  'chat.slotError.lettersOnly':
+    '{field}: "{value}" should only contain letters.',
+  'chat.slotError.allowances':
+    '{field}: "{value}" should be a whole number from 0 to 20.',
+  'chat.slotError.percent':
+    '{field}: "{value}" is not a percentage between 0% and 100%.',
+  'chat.slot.pay':
+    'How much do you earn? Give me your weekly hours and hourly rate (e.g. "40 hours at $35/hr") or your annual salary (e.g. "$85,000 a year").',
+  'chat.slot.hours': 'How many hours do you work per week?',
+  'chat.slot.rate': 'What is your hourly rate?',
+  'chat.slot.state': 'Which state do you live in?',
+  'chat.slot.locality':
+    'Which city and county do you live in? Some cities, like NYC, have their own income tax. Reply "skip" if you would rather not say.',
+  'chat.estimate': 'Estimated {frequency} paycheck for {location} ({filing}):',
+  'chat.county': '{county} County',
+  'chat.grossPay': 'Gross Pay: {amount}',
+  'chat.totalTaxes': 'Total Taxes: {amount} ({rate} effective)',
+  'chat.netPay': 'Net Pay: {amount}',
+  'chat.annualNetPay': 'Annual Net Pay: {net} of {gross} gross',
+  'chat.estimateNote': '(Note: this is an estimate.)',
+  'chat.refine':
+    'Include details like "biweekly", "married filing jointly", "401k 6%" or "HSA $100" in your request to refine this.',
+
+  'flow.invalidAge': 'Please reply with an age between 16 and 100.',
+  'flow.invalidAmount':
+    'Please reply with a dollar amount, e.g. "$5,000" or "none".',
+  'flow.invalidRate': 'Please reply with a yearly return between 0% and 20%.',
+  'flow.invalidChoice': 'Please reply with a letter from A to {last}.',
+  'flow.retirement.intro': "Let's project your retirement savings.",
+  'flow.retirement.age': 'How old are you today?',
+  'flow.retirement.targetAge': 'At what age would you like to retire?',
+  'flow.retirement.ageTooLow':
+    'Please pick a retirement age above your current age ({currentAge}).',
+  'flow.retirement.savings': 'How much have you saved for retirement so far?',
+  'flow.retirement.contribution': 'How much will you contribute each month?',
+  'flow.retirement.return':
+    'What yearly return do you expect? (7% is a common assumption)',
+  'flow.retirement.result':
+    'Retirement projection ({years} years at {rate}):\nProjected Balance: {balance}\nTotal Contributions: {contributions}\nInvestment Growth: {growth}\nSustainable Yearly Income (4% rule): {income}\n(Note: returns are not guaranteed; this ignores inflation and taxes.)',
+  'flow.investment.intro':
+    "Let's find an allocation that fits your risk tolerance. Reply with a letter for each question.",
+  'flow.investment.result':
+    'Your risk profile: {profile}\nSuggested allocation:\nStocks: {stocks}%\nBonds: {bonds}%\nCash: {cash}%\n(Note: this is general guidance, not a recommendation to buy specific securities.)',
+  'flow.deductions.intro':
+    "Let's compare the standard deduction with itemizing.",
+  'flow.deductions.filing': 'What is your filing status?',
+  'flow.deductions.income': 'What is your approximate yearly income (AGI)?',
+  'flow.deductions.mortgage':
+    'How much mortgage interest did you pay this year?',
+  'flow.deductions.salt':
+    'How much did you pay in state, local and property taxes?',
+  'flow.deductions.charity': 'How much did you give to charity?',
+  'flow.deductions.medical':
+    'How much did you spend on unreimbursed medical expenses?',
+  'flow.deductions.heading': 'Standard vs. itemized deductions:',
+  'flow.deductions.standard': 'Standard Deduction ({filing}): {amount}',
+  'flow.deductions.itemized': 'Itemized Total: {amount}',
+  'flow.deductions.itemize':
+    'Itemizing deducts {amount} more than the standard deduction.',
+  'flow.deductions.keepStandard':
+    'The standard deduction is {amount} larger, so itemizing would not help.',
+  'deductions.mortgageInterest': 'Mortgage Interest',
+  'deductions.stateAndLocalTaxes': 'State & Local Taxes (capped)',
+  'deductions.charitableGifts': 'Charitable Gifts',
+  'deductions.medicalExpenses': 'Medical Expenses (above 7.5% of AGI)',
+
+  'risk.horizon': 'When will you need most of this money?',
+  'risk.horizon.short': 'Within 3 years',
+  'risk.horizon.medium': 'In 3 to 7 years',
+  'risk.horizon.long': 'In 7 to 15 years',
+  'risk.horizon.veryLong': 'More than 15 years from now',
+  'risk.drawdown':
+    'If your portfolio dropped 20% in a month, what would you do?',
+  'risk.drawdown.sellAll': 'Sell everything',
+  'risk.drawdown.sellSome': 'Sell some',
+  'risk.drawdown.hold': 'Hold steady',
+  'risk.drawdown.buy': 'Buy more',
+  'risk.experience': 'How much investing experience do you have?',
+  'risk.experience.none': 'None',
+  'risk.experience.little': 'A little',
+  'risk.experience.some': 'Some',
+  'risk.experience.lot': 'A lot',
+  'risk.goal': 'What matters most to you?',
+  'risk.goal.protect': 'Protecting what I have',
+  'risk.goal.income': 'Steady income',
+  'risk.goal.balanced': 'Balanced growth',
+  'risk.goal.growth': 'Maximum growth',
+  'risk.profile.aggressive': 'Aggressive',
+  'risk.profile.moderate': 'Moderate',
+  'risk.profile.moderatelyConservative': 'Moderately Conservative',
+  'risk.profile.conservative': 'Conservative',
+
+  'advisor.language': 'English',
+  'advisor.disclaimer':
+    'This is general information, not tax, legal or financial advice; for decisions about your situation, talk to a qualified professional.',
+  'advisor.summary':
+    'Estimated {frequency} paycheck in {state}: {gross} gross, {tax} in taxes and {net} take-home, or {annualNet} a year at a {rate} effective tax rate.',
+  'advisor.invalidArguments': 'Invalid arguments',
+  'advisor.invalidValues': 'Some values are missing or out of range',
+  'advisor.unknownTool': 'Unknown tool "{name}"',
+  'advisor.mock.toolFailed': "I couldn't run the calculator: {error}.",
+  'advisor.mock.offline':
+    'I\'m the offline stand-in for a language model, so I can\'t discuss "{question}" in depth. I can estimate take-home pay, though: tell me your pay and state, e.g. "Can I afford $2,000 rent making $30/hr for 40 hours in NY?"',
+  'advisor.unavailable':
+    'Sorry, I can\'t answer open questions right now. I can still estimate your taxes: type "please calculate my taxes" to begin.',
+} satisfies Record<string, string>
+
+export default en
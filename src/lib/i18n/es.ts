@@ -0,0 +1,339 @@
+import type { Messages } from './index'
+
+/**
+ * Spanish messages
+ */
+const es: Messages = {
+  'header.openMenu': 'Abrir menú',
+  'header.closeMenu': 'Cerrar menú',
+  'header.navigation': 'Navegación',
+  'header.home': 'Inicio',
+  'header.chatbot': 'Chatbot',
+  'header.calculator': 'Calculadora de sueldo',
+  'header.serverFunctions': 'Start - Funciones de servidor',
+  'header.apiRequest': 'Start - Solicitud a la API',
+  'header.ssrDemos': 'Start - Demos de SSR',
+  'header.spaMode': 'Modo SPA',
+  'header.fullSsr': 'SSR completo',
+  'header.dataOnly': 'Solo datos',
+  'header.streaming': 'Streaming',
+  'header.signedInAs': 'Sesión iniciada como',
+  'header.signIn': 'Iniciar sesión',
+  'header.signOut': 'Cerrar sesión',
+  'header.language': 'Idioma',
+  'header.theme': 'Tema: {theme}. Cambiar tema',
+
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.system': 'Sistema',
+
+  'seo.description':
+    'Calcula tu sueldo neto y resuelve dudas sobre impuestos, jubilación e inversiones.',
+  'seo.home.title': 'Calculadora de sueldo y asesor financiero con IA',
+  'seo.calculator.description':
+    'Calcula los impuestos federales, estatales y locales y tu sueldo neto, por hora o con salario, en cualquier estado de EE. UU.',
+  'seo.calculator.estimate':
+    'Sueldo neto estimado: {net} por pago ({frequency}) sobre {gross} brutos en {state}.',
+  'seo.chatbot.description':
+    'Habla con Jacob sobre impuestos del sueldo, ahorro para la jubilación, inversiones y deducciones.',
+  'seo.demo.description': 'Demo de TanStack Start: {title}.',
+  'seo.signup.title': 'Crear una cuenta',
+
+  'error.title': 'Algo salió mal',
+  'error.description':
+    'No se pudo cargar esta página. Inténtalo de nuevo o vuelve al inicio.',
+  'error.retry': 'Reintentar',
+  'error.retrying': 'Reintentando...',
+  'error.home': 'Ir al inicio',
+  'error.list': 'No se pudo cargar esta lista.',
+  'validation.invalidInput': 'Datos no válidos',
+  'validation.notText': 'Debe ser texto',
+  'validation.required': 'Obligatorio',
+  'validation.tooShort': 'Debe tener al menos {min} caracteres',
+  'validation.tooLong': 'Debe tener {max} caracteres o menos',
+  'validation.invalidFormat': 'Formato no válido',
+  'validation.notNumber': 'Debe ser un número',
+  'validation.notWholeNumber': 'Debe ser un número entero',
+  'validation.tooSmall': 'Debe ser al menos {min}',
+  'validation.tooLarge': 'Debe ser como máximo {max}',
+  'validation.notBoolean': 'Debe ser verdadero o falso',
+  'validation.notOneOf': 'Debe ser uno de: {values}',
+  'validation.notList': 'Debe ser una lista',
+  'validation.tooManyItems': 'Debe tener {max} elementos o menos',
+  'validation.notObject': 'Debe ser un objeto',
+  'validation.sessionId': 'Debe ser un identificador de sesión',
+  'validation.username':
+    'Usa solo letras, números, puntos, guiones y guiones bajos',
+  'validation.usernameTaken': 'Ese nombre de usuario ya existe',
+  'validation.badCredentials': 'Usuario o contraseña incorrectos',
+  'notFound.title': 'Página no encontrada',
+  'notFound.description': 'No encontramos la página que buscabas.',
+  'notFound.home': 'Volver al inicio',
+  'pending.loading': 'Cargando...',
+
+  'auth.signIn': 'Iniciar sesión',
+  'auth.signUp': 'Crear una cuenta',
+  'auth.submitSignUp': 'Registrarse',
+  'auth.username': 'Nombre de usuario',
+  'auth.usernameHint':
+    'De 3 a 32 letras, números, puntos, guiones o guiones bajos',
+  'auth.password': 'Contraseña',
+  'auth.passwordHint': 'Al menos 8 caracteres',
+  'auth.haveAccount': '¿Ya tienes una cuenta?',
+  'auth.newHere': '¿Eres nuevo?',
+  'auth.failed': 'Algo salió mal. Inténtalo de nuevo.',
+
+  'todos.title': 'Start Server Functions - Ejemplo de tareas',
+  'todos.markDone': 'Marcar "{name}" como hecha',
+  'todos.markNotDone': 'Marcar "{name}" como pendiente',
+  'todos.name': 'Nombre de la tarea',
+  'todos.moveUp': 'Subir',
+  'todos.moveDown': 'Bajar',
+  'todos.edit': 'Editar',
+  'todos.delete': 'Eliminar',
+  'todos.placeholder': 'Escribe una nueva tarea...',
+  'todos.add': 'Añadir tarea',
+  'todos.addFailed': 'No se pudo añadir la tarea: {problem}',
+  'todos.updateFailed': 'No se pudo actualizar la tarea: {problem}',
+  'todos.renameFailed': 'No se pudo renombrar la tarea: {problem}',
+  'todos.deleteFailed': 'No se pudo eliminar la tarea: {problem}',
+  'todos.reorderFailed': 'No se pudieron reordenar las tareas: {problem}',
+  'toast.dismiss': 'Cerrar notificación',
+
+  'streaming.title': 'Streaming - Canciones punk',
+  'streaming.intro':
+    'La lista de canciones llega con la página. Los años de lanzamiento y los álbumes vienen de funciones de servidor lentas y aparecen en cuanto cada una termina.',
+  'streaming.loadNormally': 'Cargar normalmente',
+  'streaming.failAlbums': 'Hacer que fallen los álbumes',
+  'streaming.releaseYears': 'Años de lanzamiento (1 segundo)',
+  'streaming.albums': 'Álbumes (3 segundos)',
+  'streaming.albumsFailed': 'El servicio de álbumes no respondió',
+
+  'calculator.title': 'Calculadora de sueldo',
+  'calculator.payType': 'Tipo de pago',
+  'calculator.salaried': 'Salario anual',
+  'calculator.hourly': 'Por hora',
+  'calculator.salary': 'Salario anual ($)',
+  'calculator.hours': 'Horas por semana',
+  'calculator.rate': 'Tarifa por hora ($)',
+  'calculator.frequency': 'Frecuencia de pago',
+  'calculator.filing': 'Estado civil tributario',
+  'calculator.state': 'Estado',
+  'calculator.county': 'Condado (opcional)',
+  'calculator.city': 'Ciudad (opcional)',
+  'calculator.withholding': 'W-4 y deducciones antes de impuestos (por pago)',
+  'calculator.allowances': 'Exenciones del W-4',
+  'calculator.extra': 'Retención adicional ($)',
+  'calculator.k401': 'Aporte al 401(k) ($)',
+  'calculator.hsa': 'Aporte a la HSA ($)',
+  'calculator.health': 'Primas del seguro médico ($)',
+  'calculator.submit': 'Calcular',
+  'calculator.notANumber': 'Escribe un número',
+  'calculator.required': 'Obligatorio',
+  'calculator.outOfRange': 'Escribe un número del {min} al {max}',
+  'calculator.wholeNumber': 'Escribe un número entero',
+  'calculator.chooseState': 'Elige un estado',
+  'calculator.perPaycheck': 'Por pago',
+  'calculator.annual': 'Anual',
+  'calculator.grossPay': 'Sueldo bruto',
+  'calculator.totalTaxes': 'Total de impuestos ({rate})',
+  'calculator.netPay': 'Sueldo neto',
+
+  'tax.retirement401k': 'Aportación al 401(k)',
+  'tax.hsa': 'Aportación a la HSA',
+  'tax.healthPremiums': 'Primas del seguro médico',
+  'tax.federalIncome': 'Impuesto federal sobre la renta',
+  'tax.extraWithholding': 'Retención federal adicional',
+  'tax.socialSecurity': 'Seguro Social',
+  'tax.medicare': 'Medicare',
+  'tax.additionalMedicare': 'Medicare adicional',
+  'tax.stateIncome': 'Impuesto estatal sobre la renta ({state})',
+
+  'frequency.weekly': 'Semanal',
+  'frequency.biweekly': 'Cada dos semanas',
+  'frequency.semimonthly': 'Quincenal',
+  'frequency.monthly': 'Mensual',
+  'filing.single': 'Soltero/a',
+  'filing.married_joint': 'Casado/a, declaración conjunta',
+  'filing.married_separate': 'Casado/a, declaración por separado',
+  'filing.head_of_household': 'Cabeza de familia',
+
+  'chat.title': 'Asesor financiero con IA',
+  'chat.subtitle':
+    'Cálculo de impuestos y orientación financiera personalizada',
+  'chat.suggestions': 'Prueba a preguntar sobre:',
+  'chat.topic.tax': 'Calcular impuestos',
+  'chat.topic.retirement': 'Plan de jubilación',
+  'chat.topic.investment': 'Consejos de inversión',
+  'chat.topic.deductions': 'Deducciones fiscales',
+  'chat.intent.affirm': 'Sí',
+  'chat.intent.decline': 'No, gracias',
+  'chat.placeholder': 'Pregunta sobre impuestos, jubilación, inversiones...',
+  'chat.holdToTalk': 'Mantén pulsado para hablar',
+  'chat.voiceUnsupported': 'Este navegador no admite la entrada de voz',
+  'chat.listening': 'Escuchando... suelta para terminar',
+  'chat.micDenied': 'Se denegó el acceso al micrófono.',
+  'chat.voiceFailed': 'La entrada de voz falló. Inténtalo de nuevo.',
+  'chat.disclaimer':
+    '💡 Esta es una demo en pruebas con cálculos simulados. Consulta con un asesor financiero certificado.',
+  'chat.typing': 'Jacob está escribiendo',
+  'chat.download': 'Descargar {format}',
+  'chat.unreadable': 'Lo siento, no pude leer ese mensaje. {problem}.',
+  'chat.tooFast': 'Estás enviando mensajes muy rápido. {problem}.',
+  'chat.failed': 'Lo siento, algo salió mal. Inténtalo de nuevo.',
+
+  'chat.landing':
+    'Inicia sesión para preguntarle a Jacob sobre impuestos del sueldo, ahorro para la jubilación, inversiones y deducciones. Tu conversación se guarda en tu cuenta.',
+  'chat.signUp': 'Crear una cuenta',
+
+  'chat.greeting': 'Hola, me llamo Jacob. ¿En qué puedo ayudarte?',
+  'chat.taxStart':
+    '¡Claro! Cuéntame cuánto ganas y dónde vives, p. ej. "40 horas a $35 la hora en NYC, condado de Kings, NY" o "$85,000 al año, condado de Los Angeles, CA".',
+  'chat.anythingElse': '¿Te ayudo con algo más?',
+  'chat.flowDeclined':
+    '¡No hay problema! Avísame si hay algo más en lo que pueda ayudarte.',
+  'chat.fallback':
+    'Puedo ayudarte a calcular tus impuestos. Escribe "calcular mis impuestos" para empezar.',
+  'chat.calculateAgain':
+    '¡De acuerdo! Avísame si quieres que vuelva a calcular tus impuestos.',
+  'chat.didYouMean': '¿Quisiste decir {options}?',
+  'chat.or': 'o',
+  'chat.goodbye': '¡Gracias, que tengas un buen día!',
+  'chat.whatNext': '¡Genial! ¿Con qué te ayudo?',
+  'chat.taxDeclined':
+    '¡No hay problema! Avísame si más adelante quieres que calcule tus impuestos.',
+  'chat.couldNotUse': 'No pude usar parte de eso:',
+  'chat.sendCorrection':
+    'Envía un valor corregido o escribe "calcular" para continuar sin él.',
+  'chat.field.hours': 'horas',
+  'chat.field.rate': 'tarifa',
+  'chat.field.salary': 'salario',
+  'chat.field.state': 'estado',
+  'chat.field.county': 'condado',
+  'chat.field.city': 'ciudad',
+  'chat.field.allowances': 'exenciones',
+  'chat.field.extraWithholding': 'retención adicional',
+  'chat.field.retirement401k': '401k',
+  'chat.field.hsa': 'HSA',
+  'chat.field.healthPremiums': 'primas del seguro médico',
+  'chat.slotError.notNumber': '{field}: "{value}" no es un número.',
+  'chat.slotError.notAmount':
+    '{field}: "{value}" no es una cantidad en dólares.',
+  'chat.slotError.hoursRange':
+    '{field}: {value} no es un número válido de horas semanales (1-168).',
+  'chat.slotError.rateRange':
+    '{field}: ${value} por hora está fuera del rango admitido ($0-$10,000).',
+  'chat.slotError.salaryRange':
+    '{field}: ${value} está fuera del rango admitido.',
+  'chat.slotError.paycheckRange':
+    '{field}: ${value} por pago está fuera del rango admitido.',
+  'chat.slotError.notState':
+    '{field}: "{value}" no es el nombre ni la abreviatura de un estado de EE. UU.',
+  'chat.slotError.lettersOnly': '{field}: "{value}" solo debe contener letras.',
+  'chat.slotError.allowances':
+    '{field}: "{value}" debe ser un número entero del 0 al 20.',
+  'chat.slotError.percent':
+    '{field}: "{value}" no es un porcentaje entre 0% y 100%.',
+  'chat.slot.pay':
+    '¿Cuánto ganas? Indica tus horas semanales y tu tarifa por hora (p. ej. "40 horas a $35 la hora") o tu salario anual (p. ej. "$85,000 al año").',
+  'chat.slot.hours': '¿Cuántas horas trabajas por semana?',
+  'chat.slot.rate': '¿Cuál es tu tarifa por hora?',
+  'chat.slot.state': '¿En qué estado vives?',
+  'chat.slot.locality':
+    '¿En qué ciudad y condado vives? Algunas ciudades, como NYC, tienen su propio impuesto sobre la renta. Responde "omitir" si prefieres no decirlo.',
+  'chat.estimate': 'Pago estimado ({frequency}) para {location} ({filing}):',
+  'chat.county': 'Condado de {county}',
+  'chat.grossPay': 'Sueldo bruto: {amount}',
+  'chat.totalTaxes': 'Total de impuestos: {amount} ({rate} efectivo)',
+  'chat.netPay': 'Sueldo neto: {amount}',
+  'chat.annualNetPay': 'Sueldo neto anual: {net} de {gross} brutos',
+  'chat.estimateNote': '(Nota: esto es una estimación.)',
+  'chat.refine':
+    'Incluye detalles como "cada dos semanas", "casado, declaración conjunta", "401k 6%" o "HSA $100" en tu solicitud para afinar el cálculo.',
+
+  'flow.invalidAge': 'Responde con una edad entre 16 y 100.',
+  'flow.invalidAmount':
+    'Responde con una cantidad en dólares, p. ej. "$5,000" o "nada".',
+  'flow.invalidRate': 'Responde con una rentabilidad anual entre 0% y 20%.',
+  'flow.invalidChoice': 'Responde con una letra de la A a la {last}.',
+  'flow.retirement.intro': 'Calculemos tus ahorros para la jubilación.',
+  'flow.retirement.age': '¿Cuántos años tienes?',
+  'flow.retirement.targetAge': '¿A qué edad te gustaría jubilarte?',
+  'flow.retirement.ageTooLow':
+    'Elige una edad de jubilación mayor que tu edad actual ({currentAge}).',
+  'flow.retirement.savings':
+    '¿Cuánto has ahorrado hasta ahora para la jubilación?',
+  'flow.retirement.contribution': '¿Cuánto aportarás cada mes?',
+  'flow.retirement.return':
+    '¿Qué rentabilidad anual esperas? (7% es una suposición habitual)',
+  'flow.retirement.result':
+    'Proyección de jubilación ({years} años al {rate}):\nSaldo proyectado: {balance}\nAportaciones totales: {contributions}\nCrecimiento de la inversión: {growth}\nIngreso anual sostenible (regla del 4%): {income}\n(Nota: la rentabilidad no está garantizada; no se tienen en cuenta la inflación ni los impuestos.)',
+  'flow.investment.intro':
+    'Busquemos una distribución que se ajuste a tu tolerancia al riesgo. Responde a cada pregunta con una letra.',
+  'flow.investment.result':
+    'Tu perfil de riesgo: {profile}\nDistribución sugerida:\nAcciones: {stocks}%\nBonos: {bonds}%\nEfectivo: {cash}%\n(Nota: esto es una orientación general, no una recomendación para comprar valores concretos.)',
+  'flow.deductions.intro':
+    'Comparemos la deducción estándar con las deducciones detalladas.',
+  'flow.deductions.filing': '¿Cuál es tu estado civil para la declaración?',
+  'flow.deductions.income':
+    '¿Cuáles son tus ingresos anuales aproximados (AGI)?',
+  'flow.deductions.mortgage':
+    '¿Cuánto pagaste este año en intereses hipotecarios?',
+  'flow.deductions.salt':
+    '¿Cuánto pagaste en impuestos estatales, locales y sobre la propiedad?',
+  'flow.deductions.charity': '¿Cuánto donaste a organizaciones benéficas?',
+  'flow.deductions.medical':
+    '¿Cuánto gastaste en gastos médicos no reembolsados?',
+  'flow.deductions.heading': 'Deducción estándar frente a detallada:',
+  'flow.deductions.standard': 'Deducción estándar ({filing}): {amount}',
+  'flow.deductions.itemized': 'Total detallado: {amount}',
+  'flow.deductions.itemize':
+    'Detallar deduce {amount} más que la deducción estándar.',
+  'flow.deductions.keepStandard':
+    'La deducción estándar es {amount} mayor, así que detallar no te conviene.',
+  'deductions.mortgageInterest': 'Intereses hipotecarios',
+  'deductions.stateAndLocalTaxes': 'Impuestos estatales y locales (con tope)',
+  'deductions.charitableGifts': 'Donaciones benéficas',
+  'deductions.medicalExpenses': 'Gastos médicos (por encima del 7.5% del AGI)',
+
+  'risk.horizon': '¿Cuándo necesitarás la mayor parte de este dinero?',
+  'risk.horizon.short': 'En menos de 3 años',
+  'risk.horizon.medium': 'En 3 a 7 años',
+  'risk.horizon.long': 'En 7 a 15 años',
+  'risk.horizon.veryLong': 'Dentro de más de 15 años',
+  'risk.drawdown': 'Si tu cartera cayera un 20% en un mes, ¿qué harías?',
+  'risk.drawdown.sellAll': 'Venderlo todo',
+  'risk.drawdown.sellSome': 'Vender una parte',
+  'risk.drawdown.hold': 'Mantenerme',
+  'risk.drawdown.buy': 'Comprar más',
+  'risk.experience': '¿Cuánta experiencia tienes invirtiendo?',
+  'risk.experience.none': 'Ninguna',
+  'risk.experience.little': 'Poca',
+  'risk.experience.some': 'Algo',
+  'risk.experience.lot': 'Mucha',
+  'risk.goal': '¿Qué es lo que más te importa?',
+  'risk.goal.protect': 'Proteger lo que tengo',
+  'risk.goal.income': 'Ingresos estables',
+  'risk.goal.balanced': 'Crecimiento equilibrado',
+  'risk.goal.growth': 'Máximo crecimiento',
+  'risk.profile.aggressive': 'Agresivo',
+  'risk.profile.moderate': 'Moderado',
+  'risk.profile.moderatelyConservative': 'Moderadamente conservador',
+  'risk.profile.conservative': 'Conservador',
+
+  'advisor.language': 'Spanish',
+  'advisor.disclaimer':
+    'Esta es información general, no asesoramiento fiscal, legal ni financiero; para decisiones sobre tu situación, consulta con un profesional cualificado.',
+  'advisor.summary':
+    'Cheque de pago estimado ({frequency}) en {state}: {gross} brutos, {tax} de impuestos y {net} netos, o {annualNet} al año con una tasa efectiva de impuestos del {rate}.',
+  'advisor.invalidArguments': 'Argumentos no válidos',
+  'advisor.invalidValues': 'Faltan algunos valores o están fuera de rango',
+  'advisor.unknownTool': 'Herramienta desconocida "{name}"',
+  'advisor.mock.toolFailed': 'No pude usar la calculadora: {error}.',
+  'advisor.mock.offline':
+    'Soy el sustituto sin conexión de un modelo de lenguaje, así que no puedo hablar a fondo de "{question}". Pero sí puedo estimar tu sueldo neto: dime tu sueldo y tu estado, p. ej. "¿Puedo pagar $2,000 de alquiler ganando $30/hr por 40 horas en NY?"',
+  'advisor.unavailable':
+    'Lo siento, ahora mismo no puedo responder preguntas abiertas. Aún puedo estimar tus impuestos: escribe "calcular mis impuestos" para empezar.',
+}
+
+export default es
@@ -0,0 +1,99 @@
+import en from './en'
+import es from './es'
+
+/**
+ * Locale - Languages the app is translated into
+ */
+export type Locale = 'en' | 'es'
+
+export const LOCALES: readonly Locale[] = ['en', 'es']
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+/**
+ * Each locale's name in its own language, for the language switcher
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+}
+
+/**
+ * BCP 47 tag used for number formatting and the `lang` attribute. Spanish
+ * uses US conventions, since every amount is in US dollars.
+ */
+export const LOCALE_TAGS: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-US',
+}
+
+/**
+ * Messages - A full catalog. Typing each catalog with it makes the
+ * type-check fail when a locale is missing a key (or has a stray one).
+ */
+export type Messages = Record<keyof typeof en, string>
+
+export type MessageKey = keyof Messages
+
+const CATALOGS: Record<Locale, Messages> = { en, es }
+
+/**
+ * Returns true for the locales the app supports
+ */
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+/**
+ * negotiateLocale - Picks the best supported locale from an Accept-Language
+ * header, e.g. "es-MX,es;q=0.9,en;q=0.8" -> "es"
+ * @param acceptLanguage - Header value, if the request had one
+ */
+export function negotiateLocale(acceptLanguage?: string | null): Locale {
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((part) => {
+      const [range, ...params] = part.trim().toLowerCase().split(';')
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith('q='))
+      return { language: range.split('-')[0], q: q ? Number(q.slice(2)) : 1 }
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q)
+  return ranges.map(({ language }) => language).find(isLocale) ?? DEFAULT_LOCALE
+}
+
+/**
+ * Translator - Looks up a message and fills in its {placeholders}
+ */
+export type Translator = (
+  key: MessageKey,
+  params?: Record<string, string | number>,
+) => string
+
+/**
+ * I18n - Everything needed to render text in one locale
+ * @property locale - Current locale
+ * @property t - Message lookup
+ */
+export interface I18n {
+  locale: Locale
+  t: Translator
+}
+
+/**
+ * createI18n - Builds the translator for a locale
+ * @param locale - Locale to translate into
+ */
+export function createI18n(locale: Locale): I18n {
+  // Route context can lack the locale while the root route is failing
+  const messages = CATALOGS[locale] ?? CATALOGS[DEFAULT_LOCALE]
+  return {
+    locale,
+    t: (key, params) =>
+      messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        params && name in params ? String(params[name]) : placeholder,
+      ),
+  }
+}
@@ -0,0 +1,52 @@
+import { createMockProvider } from './mock'
+import { createOpenAiProvider } from './openai'
+import type { LlmProvider } from './types'
+
+export type {
+  CompletionChunk,
+  CompletionRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmTool,
+  ToolCall,
+} from './types'
+export { createMockProvider } from './mock'
+export { createOpenAiProvider } from './openai'
+
+let provider: LlmProvider | undefined
+
+/**
+ * Builds the provider selected by `LLM_PROVIDER`: "mock" (the default) or
+ * "openai", any OpenAI-compatible server configured by `LLM_BASE_URL`,
+ * `LLM_API_KEY` and `LLM_MODEL`
+ */
+function createProvider(): LlmProvider {
+  const name = process.env.LLM_PROVIDER ?? 'mock'
+  if (name === 'mock') return createMockProvider()
+  if (name !== 'openai') {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}", expected "mock" or "openai"`,
+    )
+  }
+  return createOpenAiProvider({
+    baseUrl: process.env.LLM_BASE_URL ?? 'https://api.openai.com/v1',
+    apiKey: process.env.LLM_API_KEY,
+    model: process.env.LLM_MODEL ?? 'gpt-4o-mini',
+  })
+}
+
+/**
+ * getLlmProvider - Returns the app's language model, creating it on first use
+ */
+export function getLlmProvider(): LlmProvider {
+  provider ??= createProvider()
+  return provider
+}
+
+/**
+ * setLlmProvider - Replaces the language model, e.g. with
+ * `createMockProvider({ delayMs: 0 })` in tests
+ */
+export function setLlmProvider(next: LlmProvider) {
+  provider = next
+}
@@ -0,0 +1,84 @@
+import { ESTIMATE_TOOL } from '@/lib/chatbot/advisor'
+import { parseTaxDetails } from '@/lib/chatbot/tax-details'
+import { typeOut } from '@/lib/chatbot/typing'
+import { createI18n, DEFAULT_LOCALE, type I18n } from '@/lib/i18n'
+import type { CalculatorSearch } from '@/lib/calculator'
+import type { LlmMessage, LlmProvider } from './types'
+
+/**
+ * Reads paycheck calculator arguments from a question, when it names both
+ * pay and a state
+ */
+function estimateArguments(question: string): CalculatorSearch | undefined {
+  const { slots } = parseTaxDetails(question)
+  const hasPay =
+    slots.salary !== undefined ||
+    (slots.hours !== undefined && slots.rate !== undefined)
+  if (!hasPay || slots.state === undefined) return undefined
+  return {
+    ...(slots.salary !== undefined
+      ? { pay: 'salary', salary: slots.salary }
+      : { pay: 'hourly', hours: slots.hours, rate: slots.rate }),
+    frequency: slots.payFrequency,
+    filing: slots.filingStatus,
+    state: slots.state,
+    county: slots.county,
+    city: slots.city,
+  }
+}
+
+/**
+ * Writes the mock's answer to the last message
+ */
+function answer(last: LlmMessage, { t }: I18n): string {
+  if (last.role === 'tool') {
+    const result = JSON.parse(last.content) as {
+      summary?: string
+      error?: string
+    }
+    return result.summary
+      ? `${result.summary}\n\n${t('advisor.disclaimer')}`
+      : t('advisor.mock.toolFailed', { error: result.error ?? '' })
+  }
+  return t('advisor.mock.offline', { question: last.content })
+}
+
+/**
+ * createMockProvider - A deterministic stand-in for a language model, used
+ * offline and in tests. It calls the paycheck calculator when a question
+ * names pay and a state, relays the calculator's summary, and otherwise
+ * replies with a canned answer in the request's locale, typed out a word at
+ * a time.
+ * @param delayMs - Pause between words
+ */
+export function createMockProvider({ delayMs = 30 } = {}): LlmProvider {
+  return {
+    async *complete({ messages, tools, signal, locale = DEFAULT_LOCALE }) {
+      const last = messages[messages.length - 1]
+      const args =
+        last.role === 'user' &&
+        tools?.some((tool) => tool.name === ESTIMATE_TOOL)
+          ? estimateArguments(last.content)
+          : undefined
+      if (args) {
+        const previousCalls = messages.filter((m) => m.role === 'tool').length
+        yield {
+          type: 'tool_call',
+          call: {
+            id: `call_${previousCalls + 1}`,
+            name: ESTIMATE_TOOL,
+            arguments: args,
+          },
+        }
+        return
+      }
+      for await (const text of typeOut(
+        answer(last, createI18n(locale)),
+        delayMs,
+        signal,
+      )) {
+        yield { type: 'text', text }
+      }
+    },
+  }
+}
@@ -0,0 +1,141 @@
+import { readRawEvents } from '@/lib/sse'
+import type { LlmMessage, LlmProvider, ToolCall } from './types'
+
+/**
+ * OpenAiOptions - Where to reach an OpenAI-compatible chat completions API
+ * @property baseUrl - API root, e.g. "https://api.openai.com/v1" or a local
+ * server such as llama.cpp or Ollama
+ * @property apiKey - Bearer token, if the server needs one
+ * @property model - Model name
+ */
+export interface OpenAiOptions {
+  baseUrl: string
+  apiKey?: string
+  model: string
+}
+
+/**
+ * Converts messages to the chat completions wire format
+ */
+function toWireMessage(message: LlmMessage) {
+  switch (message.role) {
+    case 'tool':
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      }
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function',
+            function: {
+              name: call.name,
+              arguments: JSON.stringify(call.arguments),
+            },
+          })),
+        }),
+      }
+    default:
+      return message
+  }
+}
+
+/**
+ * Parses tool call arguments, keeping the raw text when they are not JSON
+ */
+function parseArguments(text: string): unknown {
+  try {
+    return JSON.parse(text || '{}')
+  } catch {
+    return text
+  }
+}
+
+/**
+ * A streamed chunk of a chat completion, reduced to the fields used here
+ */
+interface CompletionDelta {
+  choices?: Array<{
+    delta?: {
+      content?: string | null
+      tool_calls?: Array<{
+        index: number
+        id?: string
+        function?: { name?: string; arguments?: string }
+      }>
+    }
+  }>
+}
+
+/**
+ * createOpenAiProvider - Talks to any server implementing OpenAI's streaming
+ * chat completions API with function calling
+ * @param options - Server, credentials and model
+ */
+export function createOpenAiProvider(options: OpenAiOptions): LlmProvider {
+  return {
+    async *complete({ messages, tools, signal }) {
+      const response = await fetch(
+        `${options.baseUrl.replace(/\/$/, '')}/chat/completions`,
+        {
+          method: 'POST',
+          signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.apiKey && {
+              Authorization: `Bearer ${options.apiKey}`,
+            }),
+          },
+          body: JSON.stringify({
+            model: options.model,
+            stream: true,
+            messages: messages.map(toWireMessage),
+            ...(tools?.length && {
+              tools: tools.map((tool) => ({
+                type: 'function',
+                function: tool,
+              })),
+            }),
+          }),
+        },
+      )
+      if (!response.ok) {
+        throw new Error(
+          `Chat completion failed with ${response.status}: ${(await response.text()).slice(0, 200)}`,
+        )
+      }
+
+      // Tool calls arrive in fragments keyed by index; they are only usable
+      // once the stream ends
+      const calls: Array<{ id: string; name: string; arguments: string }> = []
+      for await (const { data } of readRawEvents(response)) {
+        if (data === '[DONE]') break
+        const delta = (JSON.parse(data) as CompletionDelta).choices?.[0]?.delta
+        if (delta?.content) yield { type: 'text', text: delta.content }
+        for (const fragment of delta?.tool_calls ?? []) {
+          const call = (calls[fragment.index] ??= {
+            id: '',
+            name: '',
+            arguments: '',
+          })
+          if (fragment.id) call.id = fragment.id
+          if (fragment.function?.name) call.name += fragment.function.name
+          call.arguments += fragment.function?.arguments ?? ''
+        }
+      }
+      for (const call of calls.filter(Boolean)) {
+        const toolCall: ToolCall = {
+          id: call.id,
+          name: call.name,
+          arguments: parseArguments(call.arguments),
+        }
+        yield { type: 'tool_call', call: toolCall }
+      }
+    },
+  }
+}
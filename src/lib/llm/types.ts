@@ -0,0 +1,69 @@
+import type { Locale } from '@/lib/i18n'
+import type { JsonSchema } from '@/lib/validation'
+
+/**
+ * ToolCall - A model's request to run one of the tools it was offered
+ * @property id - Identifies the call, so its result can be matched to it
+ * @property name - Name of the tool
+ * @property arguments - Parsed JSON arguments; a string when the model sent
+ * malformed JSON
+ */
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: unknown
+}
+
+/**
+ * LlmMessage - One message of a conversation sent to a model. Tool results
+ * go back as "tool" messages answering the assistant's calls.
+ */
+export type LlmMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string }
+
+/**
+ * LlmTool - A function the model may call instead of answering directly
+ * @property name - Name the model calls it by
+ * @property description - When and why to use it
+ * @property parameters - JSON Schema of its arguments
+ */
+export interface LlmTool {
+  name: string
+  description: string
+  parameters: JsonSchema
+}
+
+/**
+ * CompletionRequest - Input for one model turn
+ * @property messages - Conversation so far, starting with the system prompt
+ * @property tools - Tools the model may call
+ * @property signal - Aborts the request
+ * @property locale - Language of the conversation. Real models follow the
+ * system prompt; the mock provider writes its canned replies in it.
+ */
+export interface CompletionRequest {
+  messages: LlmMessage[]
+  tools?: LlmTool[]
+  signal?: AbortSignal
+  locale?: Locale
+}
+
+/**
+ * CompletionChunk - Part of a model's reply: text as it is generated, or a
+ * complete tool call
+ */
+export type CompletionChunk =
+  { type: 'text'; text: string } | { type: 'tool_call'; call: ToolCall }
+
+/**
+ * LlmProvider - A chat model behind a provider-agnostic interface
+ */
+export interface LlmProvider {
+  /**
+   * Runs one model turn, streaming its reply. When the reply asks for
+   * tools, the caller runs them and calls `complete` again with the results.
+   */
+  complete(request: CompletionRequest): AsyncIterable<CompletionChunk>
+}
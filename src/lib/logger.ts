@@ -0,0 +1,85 @@
+/**
+ * LogLevel - Severity of a log record, lowest first
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * LogRecord - One structured log entry
+ * @property time - ISO timestamp
+ * @property level - Severity
+ * @property msg - Short, fixed description of the event, e.g. "request"
+ * @property requestId - Id of the request the event belongs to, if any
+ */
+export interface LogRecord {
+  time: string
+  level: LogLevel
+  msg: string
+  requestId?: string
+  [field: string]: unknown
+}
+
+/**
+ * LogSink - Receives every log record; swap it with `setLogSink`
+ */
+export type LogSink = (record: LogRecord) => void
+
+/**
+ * Writes each record to the console as one line of JSON
+ */
+export const jsonConsoleSink: LogSink = (record) => {
+  const line = JSON.stringify(record)
+  if (record.level === 'error') console.error(line)
+  else if (record.level === 'warn') console.warn(line)
+  else console.log(line)
+}
+
+/**
+ * createMemorySink - Keeps records in an array instead of printing them,
+ * so tests can assert on what was logged
+ */
+export function createMemorySink(): LogSink & { records: LogRecord[] } {
+  const records: LogRecord[] = []
+  return Object.assign((record: LogRecord) => void records.push(record), {
+    records,
+  })
+}
+
+let sink: LogSink = jsonConsoleSink
+
+/**
+ * Replaces the log sink, e.g. with a memory sink in tests or a shipper to a
+ * log service
+ * @returns The previous sink, so it can be restored
+ */
+export function setLogSink(next: LogSink): LogSink {
+  const previous = sink
+  sink = next
+  return previous
+}
+
+/**
+ * Emits a log record to the current sink
+ * @param level - Severity
+ * @param msg - Short, fixed description of the event
+ * @param fields - Structured details, e.g. the request id and duration
+ */
+export function log(
+  level: LogLevel,
+  msg: string,
+  fields: Record<string, unknown> = {},
+) {
+  sink({ time: new Date().toISOString(), level, msg, ...fields })
+}
+
+/**
+ * Describes an error for a log record. Stack traces are only included in
+ * development, since they expose file paths and code structure.
+ */
+export function serializeError(error: unknown) {
+  if (!(error instanceof Error)) return { message: String(error) }
+  return {
+    name: error.name,
+    message: error.message,
+    ...(import.meta.env.DEV && { stack: error.stack }),
+  }
+}
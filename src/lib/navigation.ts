@@ -0,0 +1,101 @@
+import type { AnyRoute } from '@tanstack/react-router'
+import type { LucideIcon } from 'lucide-react'
+import type { MessageKey } from '@/lib/i18n'
+
+/**
+ * NavMeta - How a route appears in the navigation drawer, declared in its
+ * `staticData`
+ * @property title - Message key of the link text
+ * @property icon - Icon shown before the title
+ * @property order - Position among its siblings, lowest first
+ * @property group - Routes sharing a group are listed together; the one
+ * with the shortest path heads the group and the others nest under it
+ * @property hidden - Keeps the route out of the drawer
+ */
+export interface NavMeta {
+  title: MessageKey
+  icon: LucideIcon
+  order: number
+  group?: string
+  hidden?: boolean
+}
+
+declare module '@tanstack/react-router' {
+  interface StaticDataRouteOption {
+    nav?: NavMeta
+  }
+}
+
+/**
+ * NavItem - A link in the navigation drawer
+ * @property to - Path the link opens
+ * @property title - Message key of the link text
+ * @property icon - Icon shown before the title
+ * @property group - Group the link heads, if any
+ * @property children - Links nested under this one
+ */
+export interface NavItem {
+  to: string
+  title: MessageKey
+  icon: LucideIcon
+  group?: string
+  children: NavItem[]
+}
+
+const byOrder = (a: { order: number }, b: { order: number }) =>
+  a.order - b.order
+
+/**
+ * buildNavigation - Turns the routes that declare `staticData.nav` into the
+ * drawer's link tree, so a new page shows up by declaring it on its route
+ * @param routes - Every route in the router, e.g. `router.routesById`
+ */
+export function buildNavigation(routes: Iterable<AnyRoute>): NavItem[] {
+  const entries: Array<NavMeta & { to: string }> = []
+  for (const route of routes) {
+    const nav = route.options.staticData?.nav
+    if (!nav || nav.hidden) continue
+    // Index routes end in a slash, e.g. "/demo/start/ssr/"
+    entries.push({ ...nav, to: route.fullPath.replace(/(.)\/$/, '$1') })
+  }
+
+  const groups = new Map<string, Array<NavMeta & { to: string }>>()
+  const items: Array<NavItem & { order: number }> = []
+  for (const entry of entries) {
+    if (entry.group === undefined) {
+      items.push({ ...entry, group: undefined, children: [] })
+    } else {
+      groups.set(entry.group, [...(groups.get(entry.group) ?? []), entry])
+    }
+  }
+  for (const [group, members] of groups) {
+    const [head, ...rest] = [...members].sort(
+      (a, b) => a.to.length - b.to.length,
+    )
+    items.push({
+      ...head,
+      group,
+      children: rest
+        .sort(byOrder)
+        .map(({ to, title, icon }) => ({ to, title, icon, children: [] })),
+    })
+  }
+
+  return items.sort(byOrder).map(({ to, title, icon, group, children }) => ({
+    to,
+    title,
+    icon,
+    group,
+    children,
+  }))
+}
+
+/**
+ * Whether a link points at the current page or one of the pages under it
+ * @param to - Link path
+ * @param pathname - Current path
+ */
+export function isNavActive(to: string, pathname: string): boolean {
+  if (to === '/') return pathname === '/'
+  return pathname === to || pathname.startsWith(`${to}/`)
+}
@@ -0,0 +1,262 @@
+import { calculatorSearchSchema } from '@/lib/schemas'
+import type { JsonSchema } from '@/lib/validation'
+
+/*
+ * OpenAPI document for the REST API under /api/v1. Request bodies come
+ * straight from the validation schemas, so the document cannot drift from
+ * what the handlers accept.
+ */
+
+const money: JsonSchema = { type: 'number', description: 'US dollars' }
+
+const deductionLineItem: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', enum: ['retirement401k', 'hsa', 'healthPremiums'] },
+    label: { type: 'string' },
+    amount: money,
+  },
+  required: ['id', 'label', 'amount'],
+}
+
+const taxLineItem: JsonSchema = {
+  type: 'object',
+  properties: {
+    kind: {
+      type: 'string',
+      enum: ['federal', 'fica', 'state', 'local'],
+      description: 'Which level of government levies the tax',
+    },
+    id: {
+      type: 'string',
+      enum: [
+        'federalIncome',
+        'extraWithholding',
+        'socialSecurity',
+        'medicare',
+        'additionalMedicare',
+        'stateIncome',
+        'local',
+      ],
+      description: 'Which tax the row is; local taxes are told apart by label',
+    },
+    label: { type: 'string' },
+    state: {
+      type: 'string',
+      description: 'Postal abbreviation of the state, on state income tax',
+    },
+    amount: money,
+  },
+  required: ['kind', 'id', 'label', 'amount'],
+}
+
+const taxEstimate: JsonSchema = {
+  type: 'object',
+  properties: {
+    grossPay: money,
+    deductions: { type: 'array', items: deductionLineItem },
+    lineItems: { type: 'array', items: taxLineItem },
+    totalDeductions: money,
+    totalTax: money,
+    netPay: money,
+    effectiveRate: {
+      type: 'number',
+      description: 'Total tax as a fraction of gross pay',
+    },
+    notes: { type: 'array', items: { type: 'string' } },
+  },
+  required: [
+    'grossPay',
+    'deductions',
+    'lineItems',
+    'totalDeductions',
+    'totalTax',
+    'netPay',
+    'effectiveRate',
+    'notes',
+  ],
+}
+
+const bracket: JsonSchema = {
+  type: 'object',
+  properties: {
+    upTo: {
+      type: 'number',
+      nullable: true,
+      description: 'Upper bound, or null for the top bracket',
+    },
+    rate: { type: 'number' },
+  },
+  required: ['upTo', 'rate'],
+}
+
+const jurisdiction: JsonSchema = {
+  type: 'object',
+  properties: {
+    code: { type: 'string' },
+    name: { type: 'string' },
+    supported: {
+      type: 'boolean',
+      description: 'Whether state income tax is included in estimates',
+    },
+    standardDeduction: money,
+    brackets: { type: 'array', items: bracket },
+    localTaxes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          cities: { type: 'array', items: { type: 'string' } },
+          counties: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+  },
+  required: ['code', 'name', 'supported', 'localTaxes'],
+}
+
+const errorEnvelope: JsonSchema = {
+  type: 'object',
+  properties: {
+    error: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        message: { type: 'string' },
+        details: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Message for each invalid field',
+        },
+      },
+      required: ['code', 'message'],
+    },
+  },
+  required: ['error'],
+}
+
+const envelope = (data: JsonSchema): JsonSchema => ({
+  type: 'object',
+  properties: { data },
+  required: ['data'],
+})
+
+const error = (description: string) => ({
+  description,
+  content: {
+    'application/json': { schema: { $ref: '#/components/schemas/Error' } },
+  },
+})
+
+const rateLimited = {
+  ...error('Too many requests from this client'),
+  headers: {
+    'Retry-After': {
+      description: 'Seconds to wait before trying again',
+      schema: { type: 'integer' },
+    },
+  },
+}
+
+/**
+ * buildOpenApiDocument - Describes the /api/v1 endpoints as OpenAPI 3.0
+ */
+export function buildOpenApiDocument() {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Paycheck Estimator API',
+      version: '1.0.0',
+      description:
+        'Estimates US take-home pay. Estimates are informational only and are not tax advice.',
+    },
+    servers: [{ url: '/api/v1' }],
+    paths: {
+      '/tax/estimate': {
+        post: {
+          operationId: 'estimatePaycheck',
+          summary: 'Estimate a paycheck',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: calculatorSearchSchema.jsonSchema },
+            },
+          },
+          responses: {
+            200: {
+              description: 'The estimate, per paycheck and annually',
+              content: {
+                'application/json': {
+                  schema: envelope({
+                    type: 'object',
+                    properties: {
+                      input: calculatorSearchSchema.jsonSchema,
+                      estimate: {
+                        type: 'object',
+                        properties: {
+                          periodsPerYear: { type: 'integer' },
+                          perPaycheck: {
+                            $ref: '#/components/schemas/TaxEstimate',
+                          },
+                          annual: { $ref: '#/components/schemas/TaxEstimate' },
+                        },
+                        required: ['periodsPerYear', 'perPaycheck', 'annual'],
+                      },
+                    },
+                    required: ['input', 'estimate'],
+                  }),
+                },
+                'text/csv': { schema: { type: 'string' } },
+              },
+            },
+            400: error('The body is not valid JSON'),
+            406: error('Neither JSON nor CSV is acceptable'),
+            413: error('The body is larger than the server accepts'),
+            415: error('The body is not application/json'),
+            422: error('Some fields are invalid'),
+            429: rateLimited,
+          },
+        },
+      },
+      '/tax/jurisdictions': {
+        get: {
+          operationId: 'listJurisdictions',
+          summary: 'List states and their local taxes',
+          parameters: [
+            {
+              name: 'state',
+              in: 'query',
+              required: false,
+              description: 'Only return this state (postal abbreviation)',
+              schema: { type: 'string' },
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Matching states',
+              content: {
+                'application/json': {
+                  schema: envelope({
+                    type: 'array',
+                    items: { $ref: '#/components/schemas/Jurisdiction' },
+                  }),
+                },
+              },
+            },
+            406: error('JSON is not acceptable'),
+            422: error('Unknown state'),
+            429: rateLimited,
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        TaxEstimate: taxEstimate,
+        Jurisdiction: jurisdiction,
+        Error: errorEnvelope,
+      },
+    },
+  }
+}
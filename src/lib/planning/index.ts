@@ -0,0 +1,13 @@
+export {
+  RISK_QUESTIONS,
+  scoreRiskProfile,
+  type Allocation,
+  type RiskProfile,
+  type RiskQuestion,
+} from './investment'
+export {
+  projectRetirement,
+  SAFE_WITHDRAWAL_RATE,
+  type RetirementInput,
+  type RetirementProjection,
+} from './retirement'
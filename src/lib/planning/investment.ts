@@ -0,0 +1,117 @@
+import type { MessageKey } from '@/lib/i18n'
+
+/**
+ * RiskQuestion - A multiple-choice question in the risk tolerance questionnaire
+ * @property id - Stable identifier used to store the answer
+ * @property text - Message key of the question
+ * @property options - Message keys of the answers, ordered from most to least
+ * conservative (scored 1..n)
+ */
+export interface RiskQuestion {
+  id: string
+  text: MessageKey
+  options: MessageKey[]
+}
+
+/**
+ * Allocation - Suggested portfolio split, in whole percentages
+ */
+export interface Allocation {
+  stocks: number
+  bonds: number
+  cash: number
+}
+
+/**
+ * RiskProfile - Outcome of the questionnaire
+ * @property name - Message key of the profile name
+ * @property score - Sum of the answer scores
+ * @property allocation - Suggested portfolio split for the profile
+ */
+export interface RiskProfile {
+  name: MessageKey
+  score: number
+  allocation: Allocation
+}
+
+/**
+ * Risk tolerance questionnaire, asked in order
+ */
+export const RISK_QUESTIONS: RiskQuestion[] = [
+  {
+    id: 'horizon',
+    text: 'risk.horizon',
+    options: [
+      'risk.horizon.short',
+      'risk.horizon.medium',
+      'risk.horizon.long',
+      'risk.horizon.veryLong',
+    ],
+  },
+  {
+    id: 'drawdown',
+    text: 'risk.drawdown',
+    options: [
+      'risk.drawdown.sellAll',
+      'risk.drawdown.sellSome',
+      'risk.drawdown.hold',
+      'risk.drawdown.buy',
+    ],
+  },
+  {
+    id: 'experience',
+    text: 'risk.experience',
+    options: [
+      'risk.experience.none',
+      'risk.experience.little',
+      'risk.experience.some',
+      'risk.experience.lot',
+    ],
+  },
+  {
+    id: 'goal',
+    text: 'risk.goal',
+    options: [
+      'risk.goal.protect',
+      'risk.goal.income',
+      'risk.goal.balanced',
+      'risk.goal.growth',
+    ],
+  },
+]
+
+/**
+ * Profiles by minimum score, from most to least aggressive
+ */
+const PROFILES: Array<{ minScore: number } & Omit<RiskProfile, 'score'>> = [
+  {
+    minScore: 14,
+    name: 'risk.profile.aggressive',
+    allocation: { stocks: 90, bonds: 10, cash: 0 },
+  },
+  {
+    minScore: 11,
+    name: 'risk.profile.moderate',
+    allocation: { stocks: 70, bonds: 25, cash: 5 },
+  },
+  {
+    minScore: 8,
+    name: 'risk.profile.moderatelyConservative',
+    allocation: { stocks: 50, bonds: 40, cash: 10 },
+  },
+  {
+    minScore: 0,
+    name: 'risk.profile.conservative',
+    allocation: { stocks: 30, bonds: 55, cash: 15 },
+  },
+]
+
+/**
+ * Scores questionnaire answers and picks a risk profile
+ * @param answers - 1-based option numbers, one per question in `RISK_QUESTIONS`
+ */
+export function scoreRiskProfile(answers: number[]): RiskProfile {
+  const score = answers.reduce((sum, answer) => sum + answer, 0)
+  const profile = PROFILES.find((p) => score >= p.minScore)!
+  return { name: profile.name, score, allocation: profile.allocation }
+}
@@ -0,0 +1,65 @@
+/**
+ * RetirementInput - Assumptions for a retirement projection
+ * @property currentAge - Age today
+ * @property retirementAge - Age the user plans to retire at
+ * @property currentSavings - Amount already saved
+ * @property monthlyContribution - Amount added every month until retirement
+ * @property annualReturn - Expected yearly return as a fraction (0.07 for 7%)
+ */
+export interface RetirementInput {
+  currentAge: number
+  retirementAge: number
+  currentSavings: number
+  monthlyContribution: number
+  annualReturn: number
+}
+
+/**
+ * RetirementProjection - Result of projecting savings forward
+ * @property years - Years until retirement
+ * @property balance - Projected balance at retirement
+ * @property totalContributions - Current savings plus all future contributions
+ * @property growth - Investment growth on top of contributions
+ * @property sustainableIncome - Yearly income the balance supports under the 4% rule
+ */
+export interface RetirementProjection {
+  years: number
+  balance: number
+  totalContributions: number
+  growth: number
+  sustainableIncome: number
+}
+
+/**
+ * Share of the retirement balance that can be withdrawn each year
+ */
+export const SAFE_WITHDRAWAL_RATE = 0.04
+
+/**
+ * Projects a retirement balance with monthly contributions and monthly compounding
+ * @param input - Savings assumptions
+ */
+export function projectRetirement(
+  input: RetirementInput,
+): RetirementProjection {
+  const years = Math.max(0, input.retirementAge - input.currentAge)
+  const months = years * 12
+  const monthlyRate = input.annualReturn / 12
+  const growthFactor = (1 + monthlyRate) ** months
+
+  const balance =
+    monthlyRate === 0
+      ? input.currentSavings + input.monthlyContribution * months
+      : input.currentSavings * growthFactor +
+        (input.monthlyContribution * (growthFactor - 1)) / monthlyRate
+  const totalContributions =
+    input.currentSavings + input.monthlyContribution * months
+
+  return {
+    years,
+    balance,
+    totalContributions,
+    growth: balance - totalContributions,
+    sustainableIncome: balance * SAFE_WITHDRAWAL_RATE,
+  }
+}
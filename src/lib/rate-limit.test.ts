@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  checkRateLimit,
+  createMemoryRateLimitStore,
+  enforceRateLimit,
+  RateLimitError,
+  resolveRateLimit,
+  setRateLimitStore,
+} from '@/lib/rate-limit'
+
+const limit = { burst: 2, perMinute: 6 }
+
+describe('createMemoryRateLimitStore', () => {
+  it('allows a burst, then rejects until a token refills', async () => {
+    const store = createMemoryRateLimitStore()
+    expect(await store.take('k', limit, 0)).toEqual({
+      allowed: true,
+      remaining: 1,
+      retryAfterSeconds: 0,
+    })
+    expect((await store.take('k', limit, 0)).allowed).toBe(true)
+    // 6 a minute is one token every 10 seconds
+    expect(await store.take('k', limit, 0)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 10,
+    })
+    expect(await store.take('k', limit, 4_000)).toMatchObject({
+      allowed: false,
+      retryAfterSeconds: 6,
+    })
+    expect((await store.take('k', limit, 10_000)).allowed).toBe(true)
+  })
+
+  it('never refills past the burst', async () => {
+    const store = createMemoryRateLimitStore()
+    await store.take('k', limit, 0)
+    expect(await store.take('k', limit, 3_600_000)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    })
+  })
+
+  it('keeps a bucket per key', async () => {
+    const store = createMemoryRateLimitStore()
+    await store.take('a', limit, 0)
+    await store.take('a', limit, 0)
+    expect((await store.take('a', limit, 0)).allowed).toBe(false)
+    expect((await store.take('b', limit, 0)).allowed).toBe(true)
+  })
+
+  it('drops the least recently used bucket past maxKeys', async () => {
+    const store = createMemoryRateLimitStore(2)
+    await store.take('a', limit, 0)
+    await store.take('a', limit, 0)
+    await store.take('b', limit, 0)
+    await store.take('c', limit, 0)
+    // "a" was evicted, so it starts over with a full bucket
+    expect(await store.take('a', limit, 0)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    })
+  })
+})
+
+describe('enforceRateLimit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    setRateLimitStore(createMemoryRateLimitStore())
+    vi.stubEnv('RATE_LIMIT_AUTH', '2/6')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+  })
+
+  it('throws a RateLimitError once the bucket is empty', async () => {
+    await enforceRateLimit('auth', 'ip:203.0.113.7')
+    await enforceRateLimit('auth', 'ip:203.0.113.7')
+    const error = await enforceRateLimit('auth', 'ip:203.0.113.7').catch(
+      (caught: unknown) => caught,
+    )
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error).toMatchObject({
+      retryAfterSeconds: 10,
+      message: 'Too many requests; try again in 10 seconds',
+    })
+  })
+
+  it('lets the client back in once the clock passes Retry-After', async () => {
+    await enforceRateLimit('auth', 'user:1')
+    await enforceRateLimit('auth', 'user:1')
+    await expect(enforceRateLimit('auth', 'user:1')).rejects.toThrow(
+      RateLimitError,
+    )
+    vi.advanceTimersByTime(8_000)
+    await expect(enforceRateLimit('auth', 'user:1')).rejects.toThrow(
+      'try again in 2 seconds',
+    )
+    vi.advanceTimersByTime(2_000)
+    await expect(enforceRateLimit('auth', 'user:1')).resolves.toBeUndefined()
+  })
+
+  it('counts each limit separately for the same client', async () => {
+    await enforceRateLimit('auth', 'user:1')
+    await enforceRateLimit('auth', 'user:1')
+    expect((await checkRateLimit('chat', 'user:1')).allowed).toBe(true)
+  })
+})
+
+describe('resolveRateLimit', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it.each(['', 'ten/5', '0/5', '10/0', '10'])(
+    'ignores the override %j',
+    (override) => {
+      vi.stubEnv('RATE_LIMIT_API', override)
+      expect(resolveRateLimit('api')).toEqual({ burst: 60, perMinute: 60 })
+    },
+  )
+
+  it('reads burst/perMinute', () => {
+    vi.stubEnv('RATE_LIMIT_API', ' 5 / 2.5 ')
+    expect(resolveRateLimit('api')).toEqual({ burst: 5, perMinute: 2.5 })
+  })
+})
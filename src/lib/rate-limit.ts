@@ -0,0 +1,221 @@
+import { createServerOnlyFn } from '@tanstack/react-start'
+import { getRequestIP } from '@tanstack/react-start/server'
+
+/*
+ * Token-bucket rate limiting. Each client gets a bucket per limit that holds
+ * up to `burst` tokens and refills at `perMinute` tokens a minute; every
+ * request takes one token and is rejected when the bucket is empty.
+ */
+
+/**
+ * RateLimit - Size and refill rate of a bucket
+ * @property burst - Requests allowed back to back
+ * @property perMinute - Sustained requests per minute
+ */
+export interface RateLimit {
+  burst: number
+  perMinute: number
+}
+
+/**
+ * Limits for each kind of traffic. Override one with an environment
+ * variable holding "burst/perMinute", e.g. `RATE_LIMIT_AUTH=20/10`.
+ */
+export const DEFAULT_RATE_LIMITS = {
+  // REST API calls, per client
+  api: { burst: 60, perMinute: 60 },
+  // Sign-in and sign-up attempts, kept low to slow password guessing
+  auth: { burst: 10, perMinute: 5 },
+  // Todo changes
+  todos: { burst: 30, perMinute: 30 },
+  // Chatbot turns
+  chat: { burst: 20, perMinute: 20 },
+} satisfies Record<string, RateLimit>
+
+export type RateLimitName = keyof typeof DEFAULT_RATE_LIMITS
+
+/**
+ * Reads a limit, preferring its `RATE_LIMIT_<NAME>` override
+ */
+export function resolveRateLimit(name: RateLimitName): RateLimit {
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase()}`]
+  const match = override?.match(/^\s*(\d+)\s*\/\s*(\d+(?:\.\d+)?)\s*$/)
+  if (match && Number(match[1]) > 0 && Number(match[2]) > 0) {
+    return { burst: Number(match[1]), perMinute: Number(match[2]) }
+  }
+  return DEFAULT_RATE_LIMITS[name]
+}
+
+/**
+ * RateLimitResult - Outcome of taking a token
+ * @property allowed - Whether the request may proceed
+ * @property remaining - Whole tokens left in the bucket
+ * @property retryAfterSeconds - When the next token arrives, if rejected
+ */
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterSeconds: number
+}
+
+/**
+ * RateLimitStore - Where buckets live. The memory store suits a single
+ * process; several instances behind a load balancer need a shared store
+ * (e.g. Redis) that updates a bucket atomically.
+ */
+export interface RateLimitStore {
+  /**
+   * Takes a token from a bucket, creating it full if it is new
+   * @param key - Bucket id, e.g. "auth:ip:203.0.113.7"
+   * @param limit - Size and refill rate of the bucket
+   * @param now - Current time in milliseconds
+   */
+  take(key: string, limit: RateLimit, now: number): Promise<RateLimitResult>
+}
+
+/**
+ * createMemoryRateLimitStore - Keeps buckets in process memory
+ * @param maxKeys - Buckets to keep before the least recently used are
+ * dropped, so a flood of new clients cannot exhaust memory
+ */
+export function createMemoryRateLimitStore(maxKeys = 10_000): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>()
+
+  return {
+    take: async (key, { burst, perMinute }, now) => {
+      const bucket = buckets.get(key) ?? { tokens: burst, updatedAt: now }
+      const refilled = ((now - bucket.updatedAt) / 60_000) * perMinute
+      bucket.tokens = Math.min(burst, bucket.tokens + Math.max(0, refilled))
+      bucket.updatedAt = now
+
+      const allowed = bucket.tokens >= 1
+      if (allowed) bucket.tokens -= 1
+
+      // Re-inserting keeps the map in least-recently-used order
+      buckets.delete(key)
+      buckets.set(key, bucket)
+      if (buckets.size > maxKeys) {
+        buckets.delete(buckets.keys().next().value!)
+      }
+
+      return {
+        allowed,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterSeconds: allowed
+          ? 0
+          : Math.ceil(((1 - bucket.tokens) / perMinute) * 60),
+      }
+    },
+  }
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore()
+
+/**
+ * setRateLimitStore - Replaces the bucket store, e.g. with a shared store
+ * in production or a fresh memory store in tests
+ */
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next
+}
+
+/**
+ * checkRateLimit - Takes a token for a client under one of the named limits
+ * @param name - Which limit applies
+ * @param client - Who is calling, e.g. "ip:203.0.113.7"
+ * @param now - Current time in milliseconds; defaults to the clock, so fake
+ * timers control it in tests
+ */
+export function checkRateLimit(
+  name: RateLimitName,
+  client: string,
+  now = Date.now(),
+): Promise<RateLimitResult> {
+  return store.take(`${name}:${client}`, resolveRateLimit(name), now)
+}
+
+/**
+ * RateLimitError - Thrown when a client has used up its requests
+ * @property retryAfterSeconds - How long to wait before trying again
+ */
+export class RateLimitError extends Error {
+  readonly retryAfterSeconds: number
+
+  constructor(retryAfterSeconds: number) {
+    super(
+      `Too many requests; try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}`,
+    )
+    this.name = 'RateLimitError'
+    this.retryAfterSeconds = retryAfterSeconds
+  }
+}
+
+/**
+ * Whether X-Forwarded-For names the client. Clients can set the header to
+ * anything, so it is only read behind a proxy that overwrites it:
+ * `TRUST_PROXY=1` or `0` decides, and when unset it is trusted on Vercel
+ * (which sets `VERCEL`), since every request there arrives through its edge.
+ */
+function trustProxy(): boolean {
+  const setting = process.env.TRUST_PROXY
+  if (setting === '1' || setting === '0') return setting === '1'
+  return Boolean(process.env.VERCEL)
+}
+
+/**
+ * rateLimitClient - Names the caller of the current request: the signed-in
+ * user when known, otherwise the client IP. Behind a proxy that
+ * `trustProxy` does not recognize, every visitor shares the proxy's IP and
+ * so one bucket; set `TRUST_PROXY=1` there.
+ * @param userId - Id of the signed-in user, if any
+ */
+export const rateLimitClient = createServerOnlyFn((userId?: number) => {
+  if (userId !== undefined) return `user:${userId}`
+  const ip = getRequestIP({ xForwardedFor: trustProxy() })
+  return `ip:${ip ?? 'unknown'}`
+})
+
+/**
+ * enforceRateLimit - Takes a token for the client, throwing a
+ * RateLimitError when its bucket is empty
+ * @param name - Which limit applies
+ * @param client - Caller from `rateLimitClient`
+ */
+export async function enforceRateLimit(name: RateLimitName, client: string) {
+  const { allowed, retryAfterSeconds } = await checkRateLimit(name, client)
+  if (!allowed) throw new RateLimitError(retryAfterSeconds)
+}
+
+/**
+ * Largest request body accepted, from `MAX_BODY_BYTES` (default 64 KiB)
+ */
+export function maxBodyBytes(): number {
+  const configured = Number(process.env.MAX_BODY_BYTES)
+  return Number.isInteger(configured) && configured > 0 ? configured : 64 * 1024
+}
+
+/**
+ * Checks whether a request body is larger than `max` bytes. Trusts
+ * Content-Length when present; otherwise counts a copy of the stream,
+ * stopping as soon as the limit is passed.
+ */
+export async function isBodyTooLarge(
+  request: Request,
+  max: number,
+): Promise<boolean> {
+  const length = request.headers.get('Content-Length')
+  if (length !== null) return Number(length) > max
+  if (!request.body) return false
+
+  const reader = request.clone().body!.getReader()
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return false
+    size += value.byteLength
+    if (size > max) {
+      await reader.cancel()
+      return true
+    }
+  }
+}
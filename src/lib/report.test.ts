@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { checkCalculatorSearch } from '@/lib/calculator'
+import { estimateToCsv } from '@/lib/report'
+import { calculatePaycheck } from '@/lib/tax'
+
+const input = {
+  pay: 'salary',
+  salary: 60_000,
+  frequency: 'biweekly',
+  filing: 'single',
+  state: 'CA',
+} as const
+
+const csvFor = (location: { city?: string; county?: string }) => {
+  const search = { ...input, ...location }
+  const checked = checkCalculatorSearch(search)
+  if ('errors' in checked) throw new Error('Invalid test input')
+  return estimateToCsv(search, calculatePaycheck(checked.input))
+}
+
+const locationRow = (csv: string) =>
+  csv.split('\r\n').find((row) => row.startsWith('Location,'))
+
+describe('estimateToCsv', () => {
+  it.each([
+    [
+      '=HYPERLINK("https://evil.example")',
+      `"'=HYPERLINK(""https://evil.example""), CA"`,
+    ],
+    ['+1+2', `"'+1+2, CA"`],
+    ['-2+3', `"'-2+3, CA"`],
+    ['@SUM(A1)', `"'@SUM(A1), CA"`],
+    ['\tcmd', `"'\tcmd, CA"`],
+  ])('neutralizes the formula in city %j', (city, location) => {
+    expect(locationRow(csvFor({ city }))).toBe(`Location,${location}`)
+  })
+
+  it('quotes fields with delimiters', () => {
+    expect(locationRow(csvFor({ city: 'Oakland', county: 'Alameda' }))).toBe(
+      'Location,"Oakland, Alameda County, CA"',
+    )
+  })
+
+  it('leaves amounts as numbers', () => {
+    const csv = csvFor({})
+    expect(csv).toMatch(/^Net Pay,\d+\.\d{2},\d+\.\d{2}\r$/m)
+    expect(csv).not.toMatch(/,'/)
+  })
+})
@@ -0,0 +1,285 @@
+import type { CalculatorSearch } from '@/lib/calculator'
+import { formatMoney } from '@/lib/format'
+import {
+  FILING_STATUS_LABELS,
+  PAY_FREQUENCY_LABELS,
+  type PaycheckEstimate,
+} from '@/lib/tax'
+
+/**
+ * Disclaimer printed at the bottom of every exported report
+ */
+export const REPORT_DISCLAIMER =
+  'This report is an estimate for informational purposes only and is not tax, legal or financial advice. Actual withholding depends on your employer, your full tax situation and current tax law.'
+
+/**
+ * Lists the inputs an estimate was calculated from, as label/value pairs
+ * @param search - Calculator inputs
+ */
+export function describeInputs(
+  search: CalculatorSearch,
+): Array<[string, string]> {
+  const rows: Array<[string, string]> = [
+    [
+      'Pay',
+      search.pay === 'hourly'
+        ? `${search.hours} hours/week at ${formatMoney(search.rate ?? 0)}/hour`
+        : `${formatMoney(search.salary ?? 0)} per year`,
+    ],
+    ['Pay Frequency', PAY_FREQUENCY_LABELS[search.frequency ?? 'biweekly']],
+    ['Filing Status', FILING_STATUS_LABELS[search.filing ?? 'single']],
+    [
+      'Location',
+      [search.city, search.county && `${search.county} County`, search.state]
+        .filter(Boolean)
+        .join(', '),
+    ],
+  ]
+  if (search.allowances)
+    rows.push(['W-4 Allowances', String(search.allowances)])
+  const perPaycheck: Array<[string, number | undefined]> = [
+    ['Extra Withholding', search.extra],
+    ['401(k) Contribution', search.k401],
+    ['HSA Contribution', search.hsa],
+    ['Health Insurance Premiums', search.health],
+  ]
+  for (const [label, amount] of perPaycheck) {
+    if (amount) rows.push([label, `${formatMoney(amount)} per paycheck`])
+  }
+  return rows
+}
+
+/**
+ * Builds the itemized breakdown as label, per-paycheck and annual columns
+ * @param estimate - Result of the paycheck calculator
+ */
+export function breakdownRows(
+  estimate: PaycheckEstimate,
+): Array<[string, number, number]> {
+  const { perPaycheck, annual } = estimate
+  return [
+    ['Gross Pay', perPaycheck.grossPay, annual.grossPay],
+    ...perPaycheck.deductions.map(
+      (item, i) =>
+        [item.label, item.amount, annual.deductions[i].amount] as [
+          string,
+          number,
+          number,
+        ],
+    ),
+    ...perPaycheck.lineItems.map(
+      (item, i) =>
+        [item.label, item.amount, annual.lineItems[i].amount] as [
+          string,
+          number,
+          number,
+        ],
+    ),
+    ['Total Taxes', perPaycheck.totalTax, annual.totalTax],
+    ['Net Pay', perPaycheck.netPay, annual.netPay],
+  ]
+}
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break.
+ * Text that a spreadsheet would run as a formula (it starts with =, +, -,
+ * @, a tab or a carriage return) gets a leading apostrophe, since county
+ * and city come straight from the query string; plain numbers keep their
+ * sign.
+ */
+function csvField(value: string): string {
+  const safe =
+    /^[=+\-@\t\r]/.test(value) && !/^-\d+(\.\d+)?$/.test(value)
+      ? `'${value}`
+      : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * estimateToCsv - Renders an estimate as CSV: the inputs, then the
+ * itemized breakdown with per-paycheck and annual columns
+ * @param search - Inputs the estimate was calculated from
+ * @param estimate - Result of the paycheck calculator
+ */
+export function estimateToCsv(
+  search: CalculatorSearch,
+  estimate: PaycheckEstimate,
+): string {
+  const rows: string[][] = [
+    ['Input', 'Value'],
+    ...describeInputs(search),
+    [],
+    ['Item', 'Per Paycheck', 'Annual'],
+    ...breakdownRows(estimate).map(([label, perPaycheck, annual]) => [
+      label,
+      perPaycheck.toFixed(2),
+      annual.toFixed(2),
+    ]),
+    [],
+    ...estimate.annual.notes.map((note) => ['Note', note]),
+    ['Disclaimer', REPORT_DISCLAIMER],
+  ]
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * A line of text in the PDF report
+ * @property font - F1 Helvetica, F2 Helvetica-Bold or F3 Courier
+ * @property size - Font size in points
+ * @property text - ASCII text to draw
+ */
+interface PdfLine {
+  font: 'F1' | 'F2' | 'F3'
+  size: number
+  text: string
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 50
+
+/**
+ * Escapes text for a PDF string literal; the standard fonts only cover ASCII
+ */
+function pdfString(text: string): string {
+  return `(${text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/[\\()]/g, (c) => `\\${c}`)})`
+}
+
+/**
+ * Splits text into lines of at most `width` characters on word boundaries
+ */
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/)) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+/**
+ * Lays lines out top to bottom, starting a new page when one fills up
+ * @returns One content stream per page
+ */
+function layoutPages(lines: PdfLine[]): string[] {
+  const pages: string[] = []
+  let ops: string[] = []
+  let y = PAGE_HEIGHT - MARGIN
+
+  for (const line of lines) {
+    const height = line.size * 1.5
+    if (y - height < MARGIN) {
+      pages.push(ops.join('\n'))
+      ops = []
+      y = PAGE_HEIGHT - MARGIN
+    }
+    y -= height
+    if (line.text) {
+      ops.push(
+        `BT /${line.font} ${line.size} Tf ${MARGIN} ${y} Td ${pdfString(line.text)} Tj ET`,
+      )
+    }
+  }
+  pages.push(ops.join('\n'))
+  return pages
+}
+
+/**
+ * Serializes content streams into a PDF file using the standard 14 fonts,
+ * so no font data needs embedding
+ */
+function buildPdf(pageStreams: string[]): Uint8Array<ArrayBuffer> {
+  const objects: string[] = []
+  const pageIds = pageStreams.map((_, i) => 6 + i * 2)
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>'
+  objects[5] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>'
+  pageStreams.forEach((stream, i) => {
+    const pageId = pageIds[i]
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    objects[pageId + 1] =
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+  })
+
+  // Everything is ASCII, so string length equals byte length for the xref offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return new TextEncoder().encode(pdf)
+}
+
+/**
+ * estimateToPdf - Renders an estimate as a pay-stub style PDF with the
+ * inputs used, the itemized breakdown and a disclaimer
+ * @param search - Inputs the estimate was calculated from
+ * @param estimate - Result of the paycheck calculator
+ * @param generatedAt - Timestamp printed in the header
+ */
+export function estimateToPdf(
+  search: CalculatorSearch,
+  estimate: PaycheckEstimate,
+  generatedAt = new Date(),
+): Uint8Array<ArrayBuffer> {
+  // Courier is 0.6em wide, so 10pt rows fit 85 aligned columns
+  const row = (label: string, perPaycheck: string, annual: string) =>
+    `${label.padEnd(45)}${perPaycheck.padStart(18)}${annual.padStart(18)}`
+  const blank: PdfLine = { font: 'F1', size: 10, text: '' }
+
+  const lines: PdfLine[] = [
+    { font: 'F2', size: 18, text: 'Paycheck Estimate' },
+    {
+      font: 'F1',
+      size: 9,
+      text: `Generated ${generatedAt.toISOString().slice(0, 10)}`,
+    },
+    blank,
+    { font: 'F2', size: 12, text: 'Inputs' },
+    ...describeInputs(search).map(([label, value]): PdfLine => ({
+      font: 'F3',
+      size: 10,
+      text: `${label.padEnd(30)}${value}`,
+    })),
+    blank,
+    { font: 'F2', size: 12, text: 'Breakdown' },
+    { font: 'F3', size: 10, text: row('', 'Per Paycheck', 'Annual') },
+    ...breakdownRows(estimate).map(([label, perPaycheck, annual]): PdfLine => ({
+      font: 'F3',
+      size: 10,
+      text: row(label, formatMoney(perPaycheck), formatMoney(annual)),
+    })),
+    blank,
+    ...estimate.annual.notes.flatMap((note) =>
+      wrap(note, 100).map((text): PdfLine => ({ font: 'F1', size: 9, text })),
+    ),
+    ...wrap(REPORT_DISCLAIMER, 100).map((text): PdfLine => ({
+      font: 'F1',
+      size: 9,
+      text,
+    })),
+  ]
+
+  return buildPdf(layoutPages(lines))
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest'
+import {
+  albumsSchema,
+  calculatorSearchSchema,
+  chatTopicSchema,
+  chatTurnSchema,
+  completeTodoSchema,
+  localeSchema,
+  MAX_CHAT_MESSAGE,
+  MAX_TODO_NAME,
+  newTodoSchema,
+  renameTodoSchema,
+  reorderTodosSchema,
+  safeRedirect,
+  signInSchema,
+  signUpSchema,
+  themeSchema,
+  todoIdSchema,
+} from '@/lib/schemas'
+import type { Schema } from '@/lib/validation'
+
+const SESSION_ID = '0f8fad5b-d9cb-469f-a165-70867728950e'
+
+/**
+ * Each schema with one valid input and the inputs it must reject, along
+ * with the field the error should be reported against
+ */
+const cases: Array<{
+  name: string
+  schema: Schema<unknown>
+  valid: unknown
+  invalid: Array<[input: unknown, field: string]>
+}> = [
+  {
+    name: 'newTodoSchema',
+    schema: newTodoSchema,
+    valid: { name: 'Buy milk' },
+    invalid: [
+      [{}, 'name'],
+      [{ name: '   ' }, 'name'],
+      [{ name: 42 }, 'name'],
+      [{ name: 'x'.repeat(MAX_TODO_NAME + 1) }, 'name'],
+    ],
+  },
+  {
+    name: 'renameTodoSchema',
+    schema: renameTodoSchema,
+    valid: { id: 1, name: 'Buy bread' },
+    invalid: [
+      [{ id: 0, name: 'a' }, 'id'],
+      [{ id: 1.5, name: 'a' }, 'id'],
+      [{ id: '1', name: 'a' }, 'id'],
+      [{ id: 1, name: '' }, 'name'],
+    ],
+  },
+  {
+    name: 'completeTodoSchema',
+    schema: completeTodoSchema,
+    valid: { id: 3, completed: false },
+    invalid: [
+      [{ id: 3 }, 'completed'],
+      [{ id: 3, completed: 'true' }, 'completed'],
+      [{ id: -1, completed: true }, 'id'],
+    ],
+  },
+  {
+    name: 'todoIdSchema',
+    schema: todoIdSchema,
+    valid: { id: 7 },
+    invalid: [
+      [{}, 'id'],
+      [{ id: null }, 'id'],
+      [{ id: Number.NaN }, 'id'],
+    ],
+  },
+  {
+    name: 'reorderTodosSchema',
+    schema: reorderTodosSchema,
+    valid: { ids: [3, 1, 2] },
+    invalid: [
+      [{ ids: '1,2' }, 'ids'],
+      [{ ids: [1, 'two'] }, 'ids.1'],
+      [{ ids: Array.from({ length: 1_001 }, (_, i) => i + 1) }, 'ids'],
+    ],
+  },
+  {
+    name: 'calculatorSearchSchema',
+    schema: calculatorSearchSchema,
+    valid: { pay: 'salary', salary: 60_000, state: 'CA' },
+    invalid: [
+      [{ pay: 'weekly' }, 'pay'],
+      [{ salary: '60000' }, 'salary'],
+      [{ frequency: 'daily' }, 'frequency'],
+      [{ filing: 'widowed' }, 'filing'],
+      [{ state: 'x'.repeat(101) }, 'state'],
+      [{ city: ['Oakland'] }, 'city'],
+    ],
+  },
+  {
+    name: 'chatTurnSchema',
+    schema: chatTurnSchema,
+    valid: { sessionId: SESSION_ID, text: 'hello' },
+    invalid: [
+      [{ sessionId: 'not-a-uuid', text: 'hello' }, 'sessionId'],
+      [{ sessionId: SESSION_ID, text: '' }, 'text'],
+      [
+        { sessionId: SESSION_ID, text: 'x'.repeat(MAX_CHAT_MESSAGE + 1) },
+        'text',
+      ],
+    ],
+  },
+  {
+    name: 'chatTopicSchema',
+    schema: chatTopicSchema,
+    valid: { sessionId: SESSION_ID, topic: 'tax', label: 'Calculate Tax' },
+    invalid: [
+      [{ sessionId: SESSION_ID, topic: 'crypto', label: 'x' }, 'topic'],
+      [{ sessionId: SESSION_ID, topic: 'tax' }, 'label'],
+      [{ topic: 'tax', label: 'x' }, 'sessionId'],
+    ],
+  },
+  {
+    name: 'signUpSchema',
+    schema: signUpSchema,
+    valid: { username: 'ada.l', password: 'correct horse' },
+    invalid: [
+      [{ username: 'ab', password: 'longenough' }, 'username'],
+      [{ username: 'ada lovelace', password: 'longenough' }, 'username'],
+      [{ username: 'x'.repeat(33), password: 'longenough' }, 'username'],
+      [{ username: 'ada', password: 'short' }, 'password'],
+      [{ username: 'ada', password: 'x'.repeat(201) }, 'password'],
+    ],
+  },
+  {
+    name: 'signInSchema',
+    schema: signInSchema,
+    valid: { username: 'ada', password: 'p' },
+    invalid: [
+      [{ password: 'p' }, 'username'],
+      [{ username: 'ada', password: 123 }, 'password'],
+    ],
+  },
+  {
+    name: 'localeSchema',
+    schema: localeSchema,
+    valid: { locale: 'es' },
+    invalid: [
+      [{ locale: 'fr' }, 'locale'],
+      [{}, 'locale'],
+    ],
+  },
+  {
+    name: 'themeSchema',
+    schema: themeSchema,
+    valid: { theme: 'system' },
+    invalid: [
+      [{ theme: 'blue' }, 'theme'],
+      [{ theme: true }, 'theme'],
+    ],
+  },
+  {
+    name: 'albumsSchema',
+    schema: albumsSchema,
+    valid: { fail: true },
+    invalid: [
+      [{}, 'fail'],
+      [{ fail: 'true' }, 'fail'],
+    ],
+  },
+]
+
+describe.each(cases)('$name', ({ schema, valid, invalid }) => {
+  it('accepts valid input', () => {
+    expect(schema.parse(valid).ok).toBe(true)
+  })
+
+  it.each([undefined, null, 'text', 0, []])(
+    'rejects %j in place of an object',
+    (input) => {
+      expect(schema.parse(input)).toEqual({
+        ok: false,
+        errors: { input: 'Must be an object' },
+      })
+    },
+  )
+
+  it.each(invalid)('rejects %j', (input, field) => {
+    const result = schema.parse(input)
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(Object.keys(result.errors)).toContain(field)
+  })
+})
+
+describe('safeRedirect', () => {
+  it.each(['/todos', '/demo/start/chatbot?x=1'])('keeps %s', (target) => {
+    expect(safeRedirect(target)).toBe(target)
+  })
+
+  it.each([
+    'https://evil.example',
+    '//evil.example',
+    '/\\evil.example',
+    'todos',
+    undefined,
+    42,
+  ])('drops %j', (target) => {
+    expect(safeRedirect(target)).toBeUndefined()
+  })
+})
@@ -0,0 +1,126 @@
+import type { CalculatorSearch } from '@/lib/calculator'
+import type { ChatTopic } from '@/lib/chatbot/conversation'
+import { LOCALES } from '@/lib/i18n'
+import { FILING_STATUS_LABELS, PAY_FREQUENCY_LABELS } from '@/lib/tax'
+import type { FilingStatus, PayFrequency } from '@/lib/tax'
+import { THEME_PREFERENCES } from '@/lib/theme'
+import {
+  array,
+  boolean,
+  describe,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+} from '@/lib/validation'
+
+/*
+ * Input schemas for the server functions. Each one bounds every string and
+ * list, so a malformed or oversized payload is rejected before a handler
+ * runs.
+ */
+
+export const MAX_TODO_NAME = 200
+
+const todoId = number({ integer: true, min: 1 })
+const todoName = string({ max: MAX_TODO_NAME })
+
+export const newTodoSchema = object({ name: todoName })
+
+export const renameTodoSchema = object({ id: todoId, name: todoName })
+
+export const completeTodoSchema = object({ id: todoId, completed: boolean() })
+
+export const todoIdSchema = object({ id: todoId })
+
+export const reorderTodosSchema = object({ ids: array(todoId) })
+
+/**
+ * Calculator inputs. Range checks stay in `checkCalculatorSearch`, which
+ * reports them as a result rather than an error so the page can show them
+ * next to the form.
+ */
+export const calculatorSearchSchema = object<CalculatorSearch>({
+  pay: describe(
+    optional(oneOf(['hourly', 'salary'])),
+    'Whether pay is quoted hourly or as an annual salary',
+  ),
+  hours: describe(optional(number()), 'Hours worked per week (hourly pay)'),
+  rate: describe(optional(number()), 'Hourly rate (hourly pay)'),
+  salary: describe(optional(number()), 'Annual salary (salaried pay)'),
+  frequency: describe(
+    optional(oneOf(Object.keys(PAY_FREQUENCY_LABELS) as PayFrequency[])),
+    'How often the employee is paid; defaults to biweekly',
+  ),
+  filing: describe(
+    optional(oneOf(Object.keys(FILING_STATUS_LABELS) as FilingStatus[])),
+    'Federal filing status; defaults to single',
+  ),
+  state: describe(
+    optional(string({ max: 100 })),
+    'Postal abbreviation of the state of residence',
+  ),
+  county: describe(optional(string({ max: 100 })), 'County of residence'),
+  city: describe(optional(string({ max: 100 })), 'City of residence'),
+  allowances: describe(optional(number()), 'W-4 withholding allowances'),
+  extra: describe(optional(number()), 'Extra federal withholding per paycheck'),
+  k401: describe(optional(number()), '401(k) contribution per paycheck'),
+  hsa: describe(optional(number()), 'HSA contribution per paycheck'),
+  health: describe(
+    optional(number()),
+    'Pre-tax health insurance premiums per paycheck',
+  ),
+})
+
+export const MAX_CHAT_MESSAGE = 2_000
+
+const sessionId = string({
+  pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  message: 'validation.sessionId',
+})
+
+export const chatTurnSchema = object({
+  sessionId,
+  text: string({ max: MAX_CHAT_MESSAGE }),
+})
+
+export const chatTopicSchema = object({
+  sessionId,
+  topic: oneOf<ChatTopic>(['tax', 'retirement', 'investment', 'deductions']),
+  label: string({ max: 200 }),
+})
+
+export const signUpSchema = object({
+  username: string({
+    min: 3,
+    max: 32,
+    pattern: /^[a-z0-9_.-]+$/i,
+    message: 'validation.username',
+  }),
+  password: string({ min: 8, max: 200, trim: false }),
+})
+
+export const signInSchema = object({
+  username: string({ max: 32 }),
+  password: string({ max: 200, trim: false }),
+})
+
+export const localeSchema = object({ locale: oneOf(LOCALES) })
+
+export const themeSchema = object({ theme: oneOf(THEME_PREFERENCES) })
+
+export const albumsSchema = object({ fail: boolean() })
+
+/**
+ * Where to go after signing in. Only same-site paths are allowed, so the
+ * login page cannot be used to bounce visitors to another site.
+ */
+export function safeRedirect(target: unknown): string | undefined {
+  return typeof target === 'string' &&
+    target.startsWith('/') &&
+    !target.startsWith('//') &&
+    !target.startsWith('/\\')
+    ? target
+    : undefined
+}
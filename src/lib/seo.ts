@@ -0,0 +1,141 @@
+import type { AnyRoute } from '@tanstack/react-router'
+
+/**
+ * Name appended to every page title and used for Open Graph's site name
+ */
+export const SITE_NAME = 'TanStack Start Starter'
+
+/**
+ * Public origin of the site, e.g. "https://example.com", set at build time
+ * with VITE_SITE_URL or taken from the host's production domain (see
+ * vite.config.ts). Without it canonical links are relative and the sitemap
+ * uses the origin it was requested from.
+ */
+export const SITE_URL = (import.meta.env.VITE_SITE_URL ?? '').replace(
+  /\/+$/,
+  '',
+)
+
+/**
+ * SitemapEntry - Lists a route in sitemap.xml, declared in its `staticData`
+ * @property priority - Importance relative to the site's other pages, 0 to 1
+ * @property changeFrequency - How often the page is expected to change
+ */
+export interface SitemapEntry {
+  priority?: number
+  changeFrequency?: 'daily' | 'weekly' | 'monthly' | 'yearly'
+}
+
+declare module '@tanstack/react-router' {
+  interface StaticDataRouteOption {
+    sitemap?: SitemapEntry
+  }
+}
+
+/**
+ * SeoOptions - What a page tells search engines and link previews
+ * @property title - Page title, without the site name
+ * @property description - One or two sentence summary
+ * @property path - Canonical path, without search params
+ * @property image - Preview image URL or path
+ * @property noindex - Keeps the page out of search results
+ */
+export interface SeoOptions {
+  title: string
+  description: string
+  path: string
+  image?: string
+  noindex?: boolean
+}
+
+/**
+ * seo - Builds a route's `head`: title, description, canonical link and
+ * Open Graph and Twitter card tags. Tags set by a child route replace the
+ * root's.
+ */
+export function seo({ title, description, path, image, noindex }: SeoOptions) {
+  const fullTitle = `${title} | ${SITE_NAME}`
+  const url = `${SITE_URL}${path}`
+  const imageUrl =
+    image && (image.startsWith('/') ? `${SITE_URL}${image}` : image)
+  return {
+    meta: [
+      { title: fullTitle },
+      { name: 'description', content: description },
+      ...(noindex ? [{ name: 'robots', content: 'noindex' }] : []),
+      { property: 'og:type', content: 'website' },
+      { property: 'og:site_name', content: SITE_NAME },
+      { property: 'og:title', content: fullTitle },
+      { property: 'og:description', content: description },
+      { property: 'og:url', content: url },
+      ...(imageUrl ? [{ property: 'og:image', content: imageUrl }] : []),
+      {
+        name: 'twitter:card',
+        content: imageUrl ? 'summary_large_image' : 'summary',
+      },
+      { name: 'twitter:title', content: fullTitle },
+      { name: 'twitter:description', content: description },
+      ...(imageUrl ? [{ name: 'twitter:image', content: imageUrl }] : []),
+    ],
+    links: [{ rel: 'canonical', href: url }],
+  }
+}
+
+/**
+ * Escapes text for an XML element
+ */
+const xmlText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/**
+ * buildSitemap - Renders sitemap.xml from the routes that declare
+ * `staticData.sitemap`
+ * @param routes - Every route in the router, e.g. `router.routesById`
+ * @param origin - Site origin the page URLs start with
+ */
+export function buildSitemap(routes: Iterable<AnyRoute>, origin: string) {
+  const entries: Array<SitemapEntry & { path: string }> = []
+  for (const route of routes) {
+    const entry = route.options.staticData?.sitemap
+    if (!entry) continue
+    // Index routes end in a slash, e.g. "/demo/start/ssr/"
+    entries.push({ ...entry, path: route.fullPath.replace(/(.)\/$/, '$1') })
+  }
+  const urls = entries
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(({ path, changeFrequency, priority }) =>
+      [
+        '  <url>',
+        `    <loc>${xmlText(origin + path)}</loc>`,
+        changeFrequency && `    <changefreq>${changeFrequency}</changefreq>`,
+        priority !== undefined &&
+          `    <priority>${priority.toFixed(1)}</priority>`,
+        '  </url>',
+      ]
+        .filter(Boolean)
+        .join('\n'),
+    )
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`
+}
+
+/**
+ * siteOrigin - Origin for absolute links in a response: VITE_SITE_URL, or
+ * else the origin it was requested from, which any client can choose, so
+ * such responses must not be cached (see `siteCacheControl`)
+ * @param request - Incoming request
+ */
+export function siteOrigin(request: Request): string {
+  return SITE_URL || new URL(request.url).origin
+}
+
+/**
+ * siteCacheControl - Cache-Control for a response built with `siteOrigin`:
+ * cached for an hour when the origin is configured, never otherwise
+ */
+export function siteCacheControl(): string {
+  return SITE_URL ? 'public, max-age=3600' : 'no-store'
+}
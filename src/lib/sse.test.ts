@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createMemorySink, setLogSink } from '@/lib/logger'
+import { eventStream, readEventStream, readRawEvents } from '@/lib/sse'
+
+/**
+ * A response whose body arrives in the given pieces
+ */
+function chunked(...pieces: Array<string | Uint8Array>): Response {
+  const encoder = new TextEncoder()
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const piece of pieces) {
+          controller.enqueue(
+            typeof piece === 'string' ? encoder.encode(piece) : piece,
+          )
+        }
+        controller.close()
+      },
+    }),
+  )
+}
+
+/**
+ * Collects everything an async iterable yields
+ */
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const all: T[] = []
+  for await (const item of items) all.push(item)
+  return all
+}
+
+describe('eventStream', () => {
+  const sink = createMemorySink()
+  let restoreSink: ReturnType<typeof setLogSink>
+
+  beforeEach(() => {
+    sink.records.length = 0
+    restoreSink = setLogSink(sink)
+  })
+
+  afterEach(() => {
+    setLogSink(restoreSink)
+  })
+
+  it('frames each event as an event line and a JSON data line', async () => {
+    const response = eventStream(async (send) => {
+      send('token', { text: 'Hello\n' })
+      send('done', [1, 2])
+    })
+
+    expect(response.headers.get('Content-Type')).toBe(
+      'text/event-stream; charset=utf-8',
+    )
+    expect(await response.text()).toBe(
+      'event: token\ndata: {"text":"Hello\\n"}\n\nevent: done\ndata: [1,2]\n\n',
+    )
+  })
+
+  it('round-trips through readEventStream', async () => {
+    const events = await collect(
+      readEventStream(
+        eventStream(async (send) => {
+          send('token', { text: 'é' })
+          send('done', null)
+        }),
+      ),
+    )
+    expect(events).toEqual([
+      { event: 'token', data: { text: 'é' } },
+      { event: 'done', data: null },
+    ])
+  })
+
+  it('sends a failure as an error event and logs it', async () => {
+    const events = await collect(
+      readEventStream(
+        eventStream(async (send) => {
+          send('token', { text: 'Hi' })
+          throw new Error('model crashed')
+        }),
+      ),
+    )
+    expect(events).toEqual([
+      { event: 'token', data: { text: 'Hi' } },
+      { event: 'error', data: { message: 'Something went wrong' } },
+    ])
+    expect(sink.records[0]).toMatchObject({
+      level: 'error',
+      msg: 'event stream',
+      error: { message: 'model crashed' },
+    })
+  })
+
+  it('stops the producer when the reader cancels', async () => {
+    let sent = 0
+    let stopped!: () => void
+    const producerStopped = new Promise<void>((resolve) => (stopped = resolve))
+    const response = eventStream(async (send, signal) => {
+      while (!signal.aborted) {
+        send('token', { n: sent++ })
+        await new Promise((resolve) => setTimeout(resolve, 1))
+      }
+      stopped()
+    })
+
+    const reader = response.body!.getReader()
+    await reader.read()
+    await reader.cancel()
+    await producerStopped
+    const total = sent
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect(sent).toBe(total)
+  })
+
+  it('stops the producer when the request aborts', async () => {
+    const request = new AbortController()
+    let producerSignal!: AbortSignal
+    const response = eventStream(async (send, signal) => {
+      producerSignal = signal
+      send('token', { text: 'Hi' })
+      await new Promise((resolve) =>
+        signal.addEventListener('abort', resolve, { once: true }),
+      )
+      // Ignored once the client is gone
+      send('token', { text: 'lost' })
+    }, request.signal)
+
+    const reader = response.body!.getReader()
+    await reader.read()
+    request.abort()
+    expect(producerSignal.aborted).toBe(true)
+  })
+})
+
+describe('readRawEvents', () => {
+  it('reassembles events split across chunks', async () => {
+    const bytes = new TextEncoder().encode(
+      'event: token\ndata: {"text":"año"}\n\n',
+    )
+    // Split inside the event name, inside "ñ" and between the two newlines
+    const events = await collect(
+      readRawEvents(
+        chunked(
+          bytes.slice(0, 3),
+          bytes.slice(3, 29),
+          bytes.slice(29, bytes.length - 1),
+          bytes.slice(bytes.length - 1),
+        ),
+      ),
+    )
+    expect(events).toEqual([{ event: 'token', data: '{"text":"año"}' }])
+  })
+
+  it('reads CRLF line endings, multi-line data and unnamed events', async () => {
+    const events = await collect(
+      readRawEvents(
+        chunked(
+          ': comment\r\n\r\n',
+          'data: first\r\ndata: second\r',
+          '\n\r\nevent: done\ndata: {}\n\n',
+        ),
+      ),
+    )
+    expect(events).toEqual([
+      { event: 'message', data: 'first\nsecond' },
+      { event: 'done', data: '{}' },
+    ])
+  })
+
+  it('drops an incomplete event at the end of the stream', async () => {
+    expect(
+      await collect(readRawEvents(chunked('event: done\ndata: {}\n'))),
+    ).toEqual([])
+  })
+})
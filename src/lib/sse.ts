@@ -0,0 +1,108 @@
+import { log, serializeError } from '@/lib/logger'
+
+/*
+ * Server-sent events (text/event-stream): the server writes named events
+ * with JSON data, and the client reads them from a fetch response.
+ */
+
+/**
+ * ServerSentEvent - One event in the stream
+ * @property event - Event name
+ * @property data - JSON-serializable payload
+ */
+export interface ServerSentEvent {
+  event: string
+  data: unknown
+}
+
+/**
+ * eventStream - Streams events produced by `produce` as a text/event-stream
+ * response. The stream closes when `produce` settles; a failure is sent as
+ * an "error" event.
+ * @param produce - Writes events with `send`; `signal` aborts when the
+ * client disconnects
+ * @param signal - Aborts along with the request, if given
+ */
+export function eventStream(
+  produce: (
+    send: (event: string, data: unknown) => void,
+    signal: AbortSignal,
+  ) => Promise<void>,
+  signal?: AbortSignal,
+): Response {
+  const disconnected = new AbortController()
+  signal?.addEventListener('abort', () => disconnected.abort(), { once: true })
+  const encoder = new TextEncoder()
+
+  const body = new ReadableStream<Uint8Array>({
+    start: async (controller) => {
+      let open = true
+      const send = (event: string, data: unknown) => {
+        if (!open || disconnected.signal.aborted) return
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+        )
+      }
+      try {
+        await produce(send, disconnected.signal)
+      } catch (error) {
+        log('error', 'event stream', { error: serializeError(error) })
+        send('error', { message: 'Something went wrong' })
+      }
+      open = false
+      if (!disconnected.signal.aborted) controller.close()
+    },
+    cancel: () => disconnected.abort(),
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      // Stops proxies such as nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
+
+/**
+ * readRawEvents - Reads events from a text/event-stream response without
+ * interpreting their data
+ * @param response - Response whose body is an event stream
+ */
+export async function* readRawEvents(
+  response: Response,
+): AsyncGenerator<{ event: string; data: string }> {
+  if (!response.body) return
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return
+    buffer += value.replace(/\r\n?/g, '\n')
+    let end: number
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      let event = 'message'
+      const data: string[] = []
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+      }
+      if (data.length > 0) yield { event, data: data.join('\n') }
+    }
+  }
+}
+
+/**
+ * readEventStream - Reads events written by `eventStream`
+ * @param response - Response whose body is an event stream
+ */
+export async function* readEventStream(
+  response: Response,
+): AsyncGenerator<ServerSentEvent> {
+  for await (const { event, data } of readRawEvents(response)) {
+    yield { event, data: JSON.parse(data) }
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Bracket - A single marginal tax bracket
+ * @property upTo - Upper bound of the bracket (inclusive), or null for the top bracket
+ * @property rate - Marginal rate applied to income inside the bracket
+ */
+export interface Bracket {
+  upTo: number | null
+  rate: number
+}
+
+/**
+ * Applies a progressive bracket schedule to a taxable amount.
+ * Each slice of income is taxed at the rate of the bracket it falls into.
+ * @param taxable - Income subject to the schedule (negative values are treated as 0)
+ * @param brackets - Brackets ordered from lowest to highest
+ * @returns The total tax owed under the schedule
+ */
+export function applyBrackets(taxable: number, brackets: Bracket[]): number {
+  let remaining = Math.max(0, taxable)
+  let lowerBound = 0
+  let tax = 0
+
+  for (const bracket of brackets) {
+    if (remaining <= 0) break
+    const width =
+      bracket.upTo === null ? remaining : Math.max(0, bracket.upTo - lowerBound)
+    const slice = Math.min(remaining, width)
+    tax += slice * bracket.rate
+    remaining -= slice
+    if (bracket.upTo !== null) lowerBound = bracket.upTo
+  }
+
+  return tax
+}
+
+/**
+ * Builds a single-bracket schedule for flat-rate jurisdictions
+ * @param rate - The flat rate
+ */
+export function flat(rate: number): Bracket[] {
+  return [{ upTo: null, rate }]
+}
+
+/**
+ * Multiplies every bracket's upper bound, e.g. by 2 to approximate a joint
+ * schedule from a single-filer one
+ * @param brackets - Brackets ordered from lowest to highest
+ * @param factor - Multiplier for each upper bound
+ */
+export function scaleBrackets(brackets: Bracket[], factor: number): Bracket[] {
+  return brackets.map((bracket) => ({
+    ...bracket,
+    upTo: bracket.upTo === null ? null : bracket.upTo * factor,
+  }))
+}
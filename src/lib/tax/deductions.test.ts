@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { compareDeductions, FEDERAL_SCHEDULES } from '@/lib/tax'
+
+const input = {
+  adjustedGrossIncome: 100_000,
+  mortgageInterest: 12_000,
+  stateAndLocalTaxes: 14_000,
+  charitableGifts: 2_000,
+  medicalExpenses: 0,
+}
+
+describe('compareDeductions', () => {
+  it.each(
+    Object.keys(FEDERAL_SCHEDULES) as Array<keyof typeof FEDERAL_SCHEDULES>,
+  )('uses the %s standard deduction', (filingStatus) => {
+    expect(compareDeductions({ ...input, filingStatus }).standard).toBe(
+      FEDERAL_SCHEDULES[filingStatus].standardDeduction,
+    )
+  })
+
+  it('caps SALT at $10,000, or $5,000 when married filing separately', () => {
+    const salt = (filingStatus: 'single' | 'married_separate') =>
+      compareDeductions({ ...input, filingStatus }).items[1].amount
+    expect(salt('single')).toBe(10_000)
+    expect(salt('married_separate')).toBe(5_000)
+  })
+
+  it('recommends whichever strategy deducts more for the status', () => {
+    // $24,000 itemized beats $14,600 single but not $29,200 joint
+    expect(
+      compareDeductions({ ...input, filingStatus: 'single' }),
+    ).toMatchObject({
+      itemized: 24_000,
+      recommendation: 'itemized',
+      difference: 9_400,
+    })
+    expect(
+      compareDeductions({ ...input, filingStatus: 'married_joint' }),
+    ).toMatchObject({ recommendation: 'standard', difference: 5_200 })
+  })
+
+  it('only counts medical expenses above 7.5% of AGI', () => {
+    const { items } = compareDeductions({
+      ...input,
+      filingStatus: 'single',
+      medicalExpenses: 10_000,
+    })
+    expect(items[3].amount).toBe(2_500)
+  })
+})
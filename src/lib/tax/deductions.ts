@@ -0,0 +1,96 @@
+import { FEDERAL_SCHEDULES, type FilingStatus } from './federal'
+
+/**
+ * Cap on the state and local tax (SALT) deduction
+ */
+export const SALT_CAP = 10_000
+
+/**
+ * SALT cap for each filing status: married couples filing separately each
+ * get half of it
+ */
+export function saltCap(filingStatus: FilingStatus): number {
+  return filingStatus === 'married_separate' ? SALT_CAP / 2 : SALT_CAP
+}
+
+/**
+ * Medical expenses are only deductible above this share of AGI
+ */
+export const MEDICAL_AGI_FLOOR = 0.075
+
+/**
+ * DeductionInput - Annual amounts used to compare deduction strategies
+ * @property filingStatus - Selects the standard deduction and SALT cap
+ * @property adjustedGrossIncome - AGI, used for the medical expense floor
+ * @property mortgageInterest - Home mortgage interest paid
+ * @property stateAndLocalTaxes - State/local income and property taxes paid
+ * @property charitableGifts - Charitable contributions
+ * @property medicalExpenses - Unreimbursed medical expenses
+ */
+export interface DeductionInput {
+  filingStatus: FilingStatus
+  adjustedGrossIncome: number
+  mortgageInterest: number
+  stateAndLocalTaxes: number
+  charitableGifts: number
+  medicalExpenses: number
+}
+
+/**
+ * ItemizedCategory - Itemized deductions the comparison covers
+ */
+export type ItemizedCategory =
+  | 'mortgageInterest'
+  | 'stateAndLocalTaxes'
+  | 'charitableGifts'
+  | 'medicalExpenses'
+
+/**
+ * DeductionComparison - Standard vs. itemized result
+ * @property standard - Standard deduction available
+ * @property items - Deductible amount of each itemized category, after the
+ * SALT cap and the medical expense floor
+ * @property itemized - Sum of the itemized categories
+ * @property recommendation - Whichever strategy deducts more
+ * @property difference - How much more the recommended strategy deducts
+ */
+export interface DeductionComparison {
+  standard: number
+  items: Array<{ category: ItemizedCategory; amount: number }>
+  itemized: number
+  recommendation: 'standard' | 'itemized'
+  difference: number
+}
+
+/**
+ * Compares the filing status's standard deduction against itemizing,
+ * applying its SALT cap and the medical expense AGI floor
+ * @param input - Filing status and annual deduction amounts
+ */
+export function compareDeductions(input: DeductionInput): DeductionComparison {
+  const items: DeductionComparison['items'] = [
+    { category: 'mortgageInterest', amount: input.mortgageInterest },
+    {
+      category: 'stateAndLocalTaxes',
+      amount: Math.min(input.stateAndLocalTaxes, saltCap(input.filingStatus)),
+    },
+    { category: 'charitableGifts', amount: input.charitableGifts },
+    {
+      category: 'medicalExpenses',
+      amount: Math.max(
+        0,
+        input.medicalExpenses - input.adjustedGrossIncome * MEDICAL_AGI_FLOOR,
+      ),
+    },
+  ]
+  const itemized = items.reduce((sum, item) => sum + item.amount, 0)
+  const standard = FEDERAL_SCHEDULES[input.filingStatus].standardDeduction
+
+  return {
+    standard,
+    items,
+    itemized,
+    recommendation: itemized > standard ? 'itemized' : 'standard',
+    difference: Math.abs(itemized - standard),
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { estimateTaxes, type TaxEstimate } from '@/lib/tax'
+
+/**
+ * The amount of each line item, keyed by label
+ */
+function amounts(estimate: TaxEstimate): Record<string, number> {
+  return Object.fromEntries(
+    estimate.lineItems.map((item) => [item.label, item.amount]),
+  )
+}
+
+describe('estimateTaxes', () => {
+  it('leaves state tax out in a state with no income tax', () => {
+    const estimate = estimateTaxes({ annualWages: 85_000, state: 'TX' })
+    expect(amounts(estimate)).toEqual({
+      'Federal Income Tax': expect.closeTo(10_541, 2),
+      'Social Security': expect.closeTo(5_270, 2),
+      Medicare: expect.closeTo(1_232.5, 2),
+    })
+    expect(estimate.totalTax).toBeCloseTo(17_043.5, 2)
+    expect(estimate.netPay).toBeCloseTo(67_956.5, 2)
+    expect(estimate.notes).toEqual([])
+  })
+
+  it('adds New York State and NYC tax for a Brooklyn resident', () => {
+    const estimate = estimateTaxes({
+      annualWages: 100_000,
+      state: 'New York',
+      city: 'Brooklyn',
+    })
+    expect(amounts(estimate)).toMatchObject({
+      // $92,000 after the $8,000 New York standard deduction
+      'NY State Income Tax': expect.closeTo(4_951.75, 2),
+      'New York City Resident Tax': expect.closeTo(3_441.09, 2),
+    })
+  })
+
+  it('caps Social Security and adds Additional Medicare on high wages', () => {
+    expect(
+      amounts(estimateTaxes({ annualWages: 250_000, state: 'TX' })),
+    ).toMatchObject({
+      'Social Security': expect.closeTo(10_453.2, 2),
+      Medicare: expect.closeTo(3_625, 2),
+      'Additional Medicare': expect.closeTo(450, 2),
+    })
+  })
+
+  it('takes 401(k) deferrals out of income tax wages but not FICA wages', () => {
+    const estimate = estimateTaxes({
+      annualWages: 85_000,
+      state: 'TX',
+      preTaxDeductions: { retirement401k: 10_000, hsa: 1_000 },
+    })
+    expect(amounts(estimate)).toMatchObject({
+      // $59,400 taxable
+      'Federal Income Tax': expect.closeTo(8_121, 2),
+      'Social Security': expect.closeTo(5_208, 2),
+    })
+    expect(estimate.totalDeductions).toBe(11_000)
+  })
+
+  it('notes a state it has no table for', () => {
+    const estimate = estimateTaxes({ annualWages: 50_000, state: 'Narnia' })
+    expect(estimate.lineItems.map((item) => item.kind)).not.toContain('state')
+    expect(estimate.notes).toEqual([
+      'No tax table for state "Narnia", so state and local taxes were left out.',
+    ])
+  })
+})
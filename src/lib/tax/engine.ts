@@ -0,0 +1,303 @@
+import { federalIncomeTax, ficaTaxes, type FilingStatus } from './federal'
+import { findLocalTaxes, localIncomeTax } from './local'
+import { findStateTable, stateIncomeTax, stateTaxableIncome } from './states'
+
+/**
+ * PreTaxDeductions - Payroll deductions taken out before tax
+ * @property retirement401k - Traditional 401(k) deferrals; reduce income tax wages but not FICA wages
+ * @property hsa - Health savings account contributions made through payroll
+ * @property healthPremiums - Health insurance premiums paid through a cafeteria plan
+ */
+export interface PreTaxDeductions {
+  retirement401k?: number
+  hsa?: number
+  healthPremiums?: number
+}
+
+/**
+ * TaxInput - Everything the engine needs to estimate taxes on wages
+ * @property annualWages - Annual gross wages
+ * @property state - Postal abbreviation or full state name
+ * @property county - Optional county, used to select county taxes
+ * @property city - Optional city, used to select city taxes
+ * @property filingStatus - Federal filing status (defaults to single)
+ * @property allowances - Withholding allowances claimed on a pre-2020 W-4
+ * @property extraWithholding - Additional federal withholding requested for the year
+ * @property preTaxDeductions - Annual pre-tax payroll deductions
+ */
+export interface TaxInput {
+  annualWages: number
+  state: string
+  county?: string
+  city?: string
+  filingStatus?: FilingStatus
+  allowances?: number
+  extraWithholding?: number
+  preTaxDeductions?: PreTaxDeductions
+}
+
+/**
+ * TaxLineItem - A single row of the itemized breakdown
+ * @property kind - Which level of government levies the tax
+ * @property id - Which tax the row is, for looking up its translated name
+ * @property label - English name of the tax, as the API and reports show it
+ * @property state - Postal abbreviation of the state, on state income tax
+ * @property amount - Amount owed
+ */
+export interface TaxLineItem {
+  kind: 'federal' | 'fica' | 'state' | 'local'
+  id:
+    | 'federalIncome'
+    | 'extraWithholding'
+    | 'socialSecurity'
+    | 'medicare'
+    | 'additionalMedicare'
+    | 'stateIncome'
+    | 'local'
+  label: string
+  state?: string
+  amount: number
+}
+
+/**
+ * DeductionLineItem - A pre-tax deduction taken from gross pay
+ * @property id - Which deduction the row is, for looking up its translated name
+ * @property label - English name of the deduction, as the API and reports show it
+ * @property amount - Amount deducted
+ */
+export interface DeductionLineItem {
+  id: 'retirement401k' | 'hsa' | 'healthPremiums'
+  label: string
+  amount: number
+}
+
+/**
+ * TaxEstimate - Result of running the engine
+ * @property grossPay - Wages the estimate covers
+ * @property deductions - Pre-tax deductions (zero-amount items are omitted)
+ * @property lineItems - Itemized taxes (zero-amount items are omitted)
+ * @property totalDeductions - Sum of the pre-tax deductions
+ * @property totalTax - Sum of all line items
+ * @property netPay - Gross pay minus deductions and total tax
+ * @property effectiveRate - Total tax as a fraction of gross pay
+ * @property notes - Caveats about the estimate, e.g. unsupported jurisdictions
+ */
+export interface TaxEstimate {
+  grossPay: number
+  deductions: DeductionLineItem[]
+  lineItems: TaxLineItem[]
+  totalDeductions: number
+  totalTax: number
+  netPay: number
+  effectiveRate: number
+  notes: string[]
+}
+
+/**
+ * Caps each deduction so that together they never exceed gross wages
+ */
+function capDeductions(
+  wages: number,
+  preTax: PreTaxDeductions,
+  notes: string[],
+): Required<PreTaxDeductions> {
+  let remaining = wages
+  const take = (amount = 0) => {
+    const taken = Math.min(Math.max(0, amount), remaining)
+    remaining -= taken
+    return taken
+  }
+  const capped = {
+    healthPremiums: take(preTax.healthPremiums),
+    hsa: take(preTax.hsa),
+    retirement401k: take(preTax.retirement401k),
+  }
+  const requested =
+    (preTax.healthPremiums ?? 0) +
+    (preTax.hsa ?? 0) +
+    (preTax.retirement401k ?? 0)
+  if (requested > wages) {
+    notes.push('Pre-tax deductions were capped at gross pay.')
+  }
+  return capped
+}
+
+/**
+ * Estimates annual taxes on wages.
+ *
+ * Applies the filing status's federal brackets, FICA, the state's bracket
+ * table and any city/county taxes matched from the county and city names.
+ * HSA and health premium deductions come out of every wage base; 401(k)
+ * deferrals only come out of income tax wages.
+ * @param input - Wages, jurisdiction, filing status and deductions
+ * @returns Annual itemized estimate
+ */
+export function estimateTaxes(input: TaxInput): TaxEstimate {
+  const wages = Math.max(0, input.annualWages)
+  const filingStatus = input.filingStatus ?? 'single'
+  const lineItems: TaxLineItem[] = []
+  const notes: string[] = []
+
+  const preTax = capDeductions(wages, input.preTaxDeductions ?? {}, notes)
+  const deductions: DeductionLineItem[] = [
+    {
+      id: 'retirement401k',
+      label: '401(k) Contribution',
+      amount: preTax.retirement401k,
+    },
+    { id: 'hsa', label: 'HSA Contribution', amount: preTax.hsa },
+    {
+      id: 'healthPremiums',
+      label: 'Health Insurance Premiums',
+      amount: preTax.healthPremiums,
+    },
+  ]
+
+  const ficaWages = wages - preTax.hsa - preTax.healthPremiums
+  const incomeTaxWages = ficaWages - preTax.retirement401k
+
+  lineItems.push({
+    kind: 'federal',
+    id: 'federalIncome',
+    label: 'Federal Income Tax',
+    amount: federalIncomeTax(incomeTaxWages, filingStatus, input.allowances),
+  })
+  lineItems.push({
+    kind: 'federal',
+    id: 'extraWithholding',
+    label: 'Extra Federal Withholding',
+    amount: Math.max(0, input.extraWithholding ?? 0),
+  })
+
+  const fica = ficaTaxes(ficaWages)
+  lineItems.push(
+    {
+      kind: 'fica',
+      id: 'socialSecurity',
+      label: 'Social Security',
+      amount: fica.socialSecurity,
+    },
+    { kind: 'fica', id: 'medicare', label: 'Medicare', amount: fica.medicare },
+    {
+      kind: 'fica',
+      id: 'additionalMedicare',
+      label: 'Additional Medicare',
+      amount: fica.additionalMedicare,
+    },
+  )
+
+  const stateTable = findStateTable(input.state)
+  if (stateTable) {
+    const stateWages =
+      incomeTaxWages +
+      (stateTable.taxesRetirementContributions ? preTax.retirement401k : 0) +
+      (stateTable.taxesHsaContributions ? preTax.hsa : 0)
+    const stateTax = stateIncomeTax(stateTable, stateWages, filingStatus)
+    lineItems.push({
+      kind: 'state',
+      id: 'stateIncome',
+      label: `${stateTable.code} State Income Tax`,
+      state: stateTable.code,
+      amount: stateTax,
+    })
+
+    const bases = {
+      wages: ficaWages,
+      state_taxable: stateTaxableIncome(stateTable, stateWages, filingStatus),
+      state_tax: stateTax,
+    }
+    for (const localTax of findLocalTaxes(
+      stateTable.code,
+      input.county,
+      input.city,
+    )) {
+      lineItems.push({
+        kind: 'local',
+        id: 'local',
+        label: localTax.name,
+        amount: localIncomeTax(localTax, bases, filingStatus),
+      })
+    }
+  } else {
+    notes.push(
+      `No tax table for state "${input.state}", so state and local taxes were left out.`,
+    )
+  }
+
+  return summarize(
+    wages,
+    deductions.filter((item) => item.amount > 0),
+    lineItems.filter((item) => item.amount > 0),
+    notes,
+  )
+}
+
+/**
+ * Scales an annual estimate down to a single pay period
+ * @param estimate - Annual estimate from `estimateTaxes`
+ * @param periodsPerYear - e.g. 52 for weekly pay
+ */
+export function perPeriod(
+  estimate: TaxEstimate,
+  periodsPerYear: number,
+): TaxEstimate {
+  return summarize(
+    estimate.grossPay / periodsPerYear,
+    estimate.deductions.map((item) => ({
+      ...item,
+      amount: item.amount / periodsPerYear,
+    })),
+    estimate.lineItems.map((item) => ({
+      ...item,
+      amount: item.amount / periodsPerYear,
+    })),
+    estimate.notes,
+  )
+}
+
+/**
+ * Rounds every amount in an estimate to whole cents, and the effective rate
+ * to four decimal places, for output that leaves the app. Totals are
+ * rounded on their own, so they can differ from the sum of the rounded
+ * items by a cent.
+ * @param estimate - Estimate from `estimateTaxes` or `perPeriod`
+ */
+export function roundEstimate(estimate: TaxEstimate): TaxEstimate {
+  const cents = (amount: number) => Math.round(amount * 100) / 100
+  return {
+    ...estimate,
+    grossPay: cents(estimate.grossPay),
+    deductions: estimate.deductions.map((item) => ({
+      ...item,
+      amount: cents(item.amount),
+    })),
+    lineItems: estimate.lineItems.map((item) => ({
+      ...item,
+      amount: cents(item.amount),
+    })),
+    totalDeductions: cents(estimate.totalDeductions),
+    totalTax: cents(estimate.totalTax),
+    netPay: cents(estimate.netPay),
+    effectiveRate: Math.round(estimate.effectiveRate * 10_000) / 10_000,
+  }
+}
+
+function summarize(
+  grossPay: number,
+  deductions: DeductionLineItem[],
+  lineItems: TaxLineItem[],
+  notes: string[],
+): TaxEstimate {
+  const totalDeductions = deductions.reduce((sum, item) => sum + item.amount, 0)
+  const totalTax = lineItems.reduce((sum, item) => sum + item.amount, 0)
+  return {
+    grossPay,
+    deductions,
+    lineItems,
+    totalDeductions,
+    totalTax,
+    netPay: grossPay - totalDeductions - totalTax,
+    effectiveRate: grossPay > 0 ? totalTax / grossPay : 0,
+    notes,
+  }
+}
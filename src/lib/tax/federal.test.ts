@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { federalIncomeTax, ficaTaxes } from '@/lib/tax'
+
+describe('federalIncomeTax', () => {
+  // Wages that put taxable income exactly on each 2024 single-filer bracket
+  // boundary, with the tax owed there from the IRS tax rate schedule
+  it.each([
+    [14_600, 0],
+    [26_200, 1_160],
+    [61_750, 5_426],
+    [115_125, 17_168.5],
+    [206_550, 39_110.5],
+    [258_325, 55_678.5],
+    [623_950, 183_647.25],
+  ])('taxes single wages of %d at %d', (wages, tax) => {
+    expect(federalIncomeTax(wages)).toBeCloseTo(tax, 2)
+  })
+
+  it('taxes each dollar past a boundary at the next rate', () => {
+    expect(federalIncomeTax(26_300) - federalIncomeTax(26_200)).toBeCloseTo(12)
+    expect(federalIncomeTax(700_000) - federalIncomeTax(623_950)).toBeCloseTo(
+      0.37 * (700_000 - 623_950),
+    )
+  })
+
+  it('uses the schedule and standard deduction of the filing status', () => {
+    // $94,300 taxable, the top of the 12% joint bracket
+    expect(federalIncomeTax(123_500, 'married_joint')).toBeCloseTo(10_852, 2)
+    // $63,100 taxable, the top of the 12% head of household bracket
+    expect(federalIncomeTax(85_000, 'head_of_household')).toBeCloseTo(7_241, 2)
+  })
+
+  it('takes W-4 allowances off taxable wages and never goes negative', () => {
+    expect(federalIncomeTax(26_200, 'single', 1)).toBeCloseTo(730, 2)
+    expect(federalIncomeTax(10_000, 'single', 3)).toBe(0)
+  })
+})
+
+describe('ficaTaxes', () => {
+  it('charges Social Security and Medicare on every dollar below the cap', () => {
+    const fica = ficaTaxes(85_000)
+    expect(fica.socialSecurity).toBeCloseTo(5_270, 2)
+    expect(fica.medicare).toBeCloseTo(1_232.5, 2)
+    expect(fica.additionalMedicare).toBe(0)
+  })
+
+  it('stops Social Security at the $168,600 wage base', () => {
+    expect(ficaTaxes(168_600).socialSecurity).toBeCloseTo(10_453.2, 2)
+    expect(ficaTaxes(250_000).socialSecurity).toBeCloseTo(10_453.2, 2)
+  })
+
+  it('adds 0.9% Medicare only on wages above $200,000', () => {
+    expect(ficaTaxes(200_000).additionalMedicare).toBe(0)
+    const fica = ficaTaxes(250_000)
+    expect(fica.medicare).toBeCloseTo(3_625, 2)
+    expect(fica.additionalMedicare).toBeCloseTo(450, 2)
+  })
+})
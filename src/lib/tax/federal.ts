@@ -0,0 +1,152 @@
+import { applyBrackets, type Bracket } from './brackets'
+
+/**
+ * FilingStatus - Federal filing status, which selects the bracket schedule
+ * and standard deduction
+ */
+export type FilingStatus =
+  'single' | 'married_joint' | 'married_separate' | 'head_of_household'
+
+/**
+ * Display names for each filing status
+ */
+export const FILING_STATUS_LABELS: Record<FilingStatus, string> = {
+  single: 'Single',
+  married_joint: 'Married Filing Jointly',
+  married_separate: 'Married Filing Separately',
+  head_of_household: 'Head of Household',
+}
+
+/**
+ * FederalSchedule - Standard deduction and brackets for one filing status
+ * @property standardDeduction - Amount subtracted from wages before brackets apply
+ * @property brackets - Progressive schedule
+ */
+export interface FederalSchedule {
+  standardDeduction: number
+  brackets: Bracket[]
+}
+
+/**
+ * 2024 federal income tax schedules by filing status
+ */
+export const FEDERAL_SCHEDULES: Record<FilingStatus, FederalSchedule> = {
+  single: {
+    standardDeduction: 14_600,
+    brackets: [
+      { upTo: 11_600, rate: 0.1 },
+      { upTo: 47_150, rate: 0.12 },
+      { upTo: 100_525, rate: 0.22 },
+      { upTo: 191_950, rate: 0.24 },
+      { upTo: 243_725, rate: 0.32 },
+      { upTo: 609_350, rate: 0.35 },
+      { upTo: null, rate: 0.37 },
+    ],
+  },
+  married_joint: {
+    standardDeduction: 29_200,
+    brackets: [
+      { upTo: 23_200, rate: 0.1 },
+      { upTo: 94_300, rate: 0.12 },
+      { upTo: 201_050, rate: 0.22 },
+      { upTo: 383_900, rate: 0.24 },
+      { upTo: 487_450, rate: 0.32 },
+      { upTo: 731_200, rate: 0.35 },
+      { upTo: null, rate: 0.37 },
+    ],
+  },
+  married_separate: {
+    standardDeduction: 14_600,
+    brackets: [
+      { upTo: 11_600, rate: 0.1 },
+      { upTo: 47_150, rate: 0.12 },
+      { upTo: 100_525, rate: 0.22 },
+      { upTo: 191_950, rate: 0.24 },
+      { upTo: 243_725, rate: 0.32 },
+      { upTo: 365_600, rate: 0.35 },
+      { upTo: null, rate: 0.37 },
+    ],
+  },
+  head_of_household: {
+    standardDeduction: 21_900,
+    brackets: [
+      { upTo: 16_550, rate: 0.1 },
+      { upTo: 63_100, rate: 0.12 },
+      { upTo: 100_500, rate: 0.22 },
+      { upTo: 191_950, rate: 0.24 },
+      { upTo: 243_700, rate: 0.32 },
+      { upTo: 609_350, rate: 0.35 },
+      { upTo: null, rate: 0.37 },
+    ],
+  },
+}
+
+/**
+ * 2024 federal standard deduction for a single filer
+ */
+export const FEDERAL_STANDARD_DEDUCTION =
+  FEDERAL_SCHEDULES.single.standardDeduction
+
+/**
+ * 2024 federal income tax brackets for a single filer
+ */
+export const FEDERAL_BRACKETS: Bracket[] = FEDERAL_SCHEDULES.single.brackets
+
+/**
+ * Annual value of one withholding allowance claimed on a pre-2020 Form W-4
+ * (2024 IRS Publication 15-T)
+ */
+export const W4_ALLOWANCE_VALUE = 4_300
+
+/**
+ * FICA parameters for 2024
+ * @property socialSecurityRate - Employee share of Social Security
+ * @property socialSecurityWageBase - Wages above this are not subject to Social Security
+ * @property medicareRate - Employee share of Medicare
+ * @property additionalMedicareRate - Additional Medicare tax on high earners
+ * @property additionalMedicareThreshold - Employers withhold Additional Medicare on wages above this, whatever the filing status
+ */
+export const FICA = {
+  socialSecurityRate: 0.062,
+  socialSecurityWageBase: 168_600,
+  medicareRate: 0.0145,
+  additionalMedicareRate: 0.009,
+  additionalMedicareThreshold: 200_000,
+}
+
+/**
+ * Calculates annual federal income tax on wages after the standard deduction
+ * and any W-4 allowances
+ * @param annualWages - Annual wages subject to federal income tax
+ * @param filingStatus - Selects the brackets and standard deduction
+ * @param allowances - Withholding allowances claimed on a pre-2020 W-4
+ */
+export function federalIncomeTax(
+  annualWages: number,
+  filingStatus: FilingStatus = 'single',
+  allowances = 0,
+): number {
+  const schedule = FEDERAL_SCHEDULES[filingStatus]
+  return applyBrackets(
+    annualWages -
+      schedule.standardDeduction -
+      Math.max(0, allowances) * W4_ALLOWANCE_VALUE,
+    schedule.brackets,
+  )
+}
+
+/**
+ * Calculates annual employee FICA contributions
+ * @param annualWages - Annual wages subject to FICA
+ */
+export function ficaTaxes(annualWages: number) {
+  const wages = Math.max(0, annualWages)
+  const socialSecurity =
+    Math.min(wages, FICA.socialSecurityWageBase) * FICA.socialSecurityRate
+  const medicare = wages * FICA.medicareRate
+  const additionalMedicare =
+    Math.max(0, wages - FICA.additionalMedicareThreshold) *
+    FICA.additionalMedicareRate
+
+  return { socialSecurity, medicare, additionalMedicare }
+}
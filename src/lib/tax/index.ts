@@ -0,0 +1,49 @@
+export { applyBrackets, flat, scaleBrackets, type Bracket } from './brackets'
+export {
+  compareDeductions,
+  MEDICAL_AGI_FLOOR,
+  SALT_CAP,
+  saltCap,
+  type DeductionComparison,
+  type DeductionInput,
+  type ItemizedCategory,
+} from './deductions'
+export { estimateTaxes, perPeriod, roundEstimate } from './engine'
+export type {
+  DeductionLineItem,
+  PreTaxDeductions,
+  TaxEstimate,
+  TaxInput,
+  TaxLineItem,
+} from './engine'
+export {
+  FEDERAL_BRACKETS,
+  FEDERAL_SCHEDULES,
+  FEDERAL_STANDARD_DEDUCTION,
+  FICA,
+  FILING_STATUS_LABELS,
+  federalIncomeTax,
+  ficaTaxes,
+  W4_ALLOWANCE_VALUE,
+  type FederalSchedule,
+  type FilingStatus,
+} from './federal'
+export { findLocalTaxes, LOCAL_TAXES, type LocalTax } from './local'
+export {
+  calculatePaycheck,
+  grossPerPaycheck,
+  PAY_FREQUENCY_LABELS,
+  PAY_PERIODS,
+  roundPaycheckEstimate,
+  type PayBasis,
+  type PayFrequency,
+  type PaycheckEstimate,
+  type PaycheckInput,
+} from './paycheck'
+export {
+  findStateTable,
+  resolveStateCode,
+  STATE_TAX_TABLES,
+  US_STATES,
+  type StateTaxTable,
+} from './states'
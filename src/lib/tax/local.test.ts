@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { findLocalTaxes, localIncomeTax } from '@/lib/tax/local'
+
+describe('findLocalTaxes', () => {
+  it('matches cities and counties, ignoring case and "County"', () => {
+    expect(
+      findLocalTaxes('NY', undefined, 'Brooklyn').map((tax) => tax.name),
+    ).toEqual(['New York City Resident Tax'])
+    expect(findLocalTaxes('NY', 'Kings County').map((tax) => tax.name)).toEqual(
+      ['New York City Resident Tax'],
+    )
+  })
+
+  it('returns a locality once when the county and city both match', () => {
+    expect(findLocalTaxes('NY', 'Kings', 'NYC')).toHaveLength(1)
+  })
+
+  it('only matches localities in the given state', () => {
+    expect(findLocalTaxes('CA', undefined, 'New York')).toEqual([])
+    expect(findLocalTaxes('NY')).toEqual([])
+  })
+})
+
+describe('localIncomeTax', () => {
+  const [nyc] = findLocalTaxes('NY', undefined, 'NYC')
+  const bases = (stateTaxable: number) => ({
+    wages: 0,
+    state_taxable: stateTaxable,
+    state_tax: 0,
+  })
+
+  it('applies the NYC brackets to state taxable income', () => {
+    // 12,000 x 3.078% + 13,000 x 3.762% + 25,000 x 3.819% + 42,000 x 3.876%
+    expect(localIncomeTax(nyc, bases(92_000))).toBeCloseTo(3_441.09, 2)
+    expect(localIncomeTax(nyc, bases(12_000))).toBeCloseTo(369.36, 2)
+  })
+
+  it('doubles the bracket widths for joint filers', () => {
+    expect(localIncomeTax(nyc, bases(24_000), 'married_joint')).toBeCloseTo(
+      738.72,
+      2,
+    )
+  })
+
+  it('levies a surcharge on the state tax', () => {
+    const [yonkers] = findLocalTaxes('NY', undefined, 'Yonkers')
+    expect(
+      localIncomeTax(yonkers, { wages: 0, state_taxable: 0, state_tax: 1_000 }),
+    ).toBeCloseTo(167.5, 2)
+  })
+})
@@ -0,0 +1,178 @@
+import { applyBrackets, flat, scaleBrackets, type Bracket } from './brackets'
+import type { FilingStatus } from './federal'
+
+/**
+ * LocalTaxBase - What a local tax is levied on
+ * - 'wages': annual wages after cafeteria-plan deductions (HSA, health premiums)
+ * - 'state_taxable': state taxable income (after the state standard deduction)
+ * - 'state_tax': the state income tax itself (a surcharge)
+ */
+export type LocalTaxBase = 'wages' | 'state_taxable' | 'state_tax'
+
+/**
+ * LocalTax - A city or county income tax
+ * @property name - Display name used in the itemized breakdown
+ * @property state - Postal abbreviation of the state the locality belongs to
+ * @property cities - Lower-case city names and aliases that select this tax
+ * @property counties - Lower-case county names that select this tax
+ * @property base - What the brackets are applied to
+ * @property brackets - Progressive schedule (a single bracket for flat taxes)
+ */
+export interface LocalTax {
+  name: string
+  state: string
+  cities?: string[]
+  counties?: string[]
+  base: LocalTaxBase
+  brackets: Bracket[]
+}
+
+/**
+ * 2024 resident local income taxes for a single filer
+ */
+export const LOCAL_TAXES: LocalTax[] = [
+  {
+    name: 'New York City Resident Tax',
+    state: 'NY',
+    cities: [
+      'nyc',
+      'new york',
+      'new york city',
+      'brooklyn',
+      'manhattan',
+      'queens',
+      'bronx',
+      'the bronx',
+      'staten island',
+    ],
+    counties: ['kings', 'queens', 'new york', 'bronx', 'richmond'],
+    base: 'state_taxable',
+    brackets: [
+      { upTo: 12_000, rate: 0.03078 },
+      { upTo: 25_000, rate: 0.03762 },
+      { upTo: 50_000, rate: 0.03819 },
+      { upTo: null, rate: 0.03876 },
+    ],
+  },
+  {
+    name: 'Yonkers Resident Surcharge',
+    state: 'NY',
+    cities: ['yonkers'],
+    base: 'state_tax',
+    brackets: flat(0.1675),
+  },
+  {
+    name: 'Philadelphia Wage Tax',
+    state: 'PA',
+    cities: ['philadelphia', 'philly'],
+    counties: ['philadelphia'],
+    base: 'wages',
+    brackets: flat(0.0375),
+  },
+  {
+    name: 'Pittsburgh Earned Income Tax',
+    state: 'PA',
+    cities: ['pittsburgh'],
+    base: 'wages',
+    brackets: flat(0.03),
+  },
+  {
+    name: 'Detroit City Income Tax',
+    state: 'MI',
+    cities: ['detroit'],
+    base: 'wages',
+    brackets: flat(0.024),
+  },
+  {
+    name: 'Columbus City Income Tax',
+    state: 'OH',
+    cities: ['columbus'],
+    base: 'wages',
+    brackets: flat(0.025),
+  },
+  {
+    name: 'Cleveland City Income Tax',
+    state: 'OH',
+    cities: ['cleveland'],
+    base: 'wages',
+    brackets: flat(0.025),
+  },
+  {
+    name: 'Marion County Income Tax',
+    state: 'IN',
+    cities: ['indianapolis'],
+    counties: ['marion'],
+    base: 'wages',
+    brackets: flat(0.0202),
+  },
+  {
+    name: 'Baltimore City Local Tax',
+    state: 'MD',
+    cities: ['baltimore'],
+    counties: ['baltimore city'],
+    base: 'state_taxable',
+    brackets: flat(0.032),
+  },
+  {
+    name: 'Montgomery County Local Tax',
+    state: 'MD',
+    counties: ['montgomery'],
+    base: 'state_taxable',
+    brackets: flat(0.032),
+  },
+]
+
+/**
+ * Normalizes a user-supplied locality name for matching,
+ * e.g. "Kings County" -> "kings"
+ */
+function normalizeLocality(name: string | undefined): string {
+  return (name ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+county$/, '')
+    .replace(/\./g, '')
+    .replace(/\s+/g, ' ')
+}
+
+/**
+ * Finds the local taxes that apply to a state/county/city combination.
+ * Each tax is returned at most once, so a county and city pointing at the
+ * same locality (e.g. Kings County, NYC) are only taxed once.
+ * @param stateCode - Postal abbreviation of the resolved state
+ * @param county - County name as entered by the user
+ * @param city - City name as entered by the user
+ */
+export function findLocalTaxes(
+  stateCode: string,
+  county?: string,
+  city?: string,
+): LocalTax[] {
+  const cityName = normalizeLocality(city)
+  const countyName = normalizeLocality(county)
+
+  return LOCAL_TAXES.filter(
+    (tax) =>
+      tax.state === stateCode &&
+      ((cityName !== '' && tax.cities?.includes(cityName)) ||
+        (countyName !== '' && tax.counties?.includes(countyName))),
+  )
+}
+
+/**
+ * Calculates the annual amount owed for a single local tax
+ * @param tax - The local tax definition
+ * @param bases - Values for each possible base
+ * @param filingStatus - Joint filers get double-width brackets, like the state schedule
+ */
+export function localIncomeTax(
+  tax: LocalTax,
+  bases: Record<LocalTaxBase, number>,
+  filingStatus: FilingStatus = 'single',
+): number {
+  const brackets =
+    filingStatus === 'married_joint'
+      ? scaleBrackets(tax.brackets, 2)
+      : tax.brackets
+  return applyBrackets(bases[tax.base], brackets)
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { calculatePaycheck, roundPaycheckEstimate } from '@/lib/tax'
+
+describe('roundPaycheckEstimate', () => {
+  const estimate = calculatePaycheck({
+    grossPay: 2_307.69,
+    payFrequency: 'biweekly',
+    filingStatus: 'single',
+    state: 'CA',
+    preTaxDeductions: { retirement401k: 123.45, hsa: 33.33 },
+  })
+  const rounded = roundPaycheckEstimate(estimate)
+
+  it('rounds every amount to whole cents', () => {
+    for (const breakdown of [rounded.perPaycheck, rounded.annual]) {
+      const amounts = [
+        breakdown.grossPay,
+        breakdown.totalDeductions,
+        breakdown.totalTax,
+        breakdown.netPay,
+        ...breakdown.deductions.map((item) => item.amount),
+        ...breakdown.lineItems.map((item) => item.amount),
+      ]
+      for (const amount of amounts) {
+        expect(amount).toBe(Number(amount.toFixed(2)))
+      }
+    }
+  })
+
+  it('stays within half a cent of the exact figures', () => {
+    expect(
+      Math.abs(rounded.perPaycheck.netPay - estimate.perPaycheck.netPay),
+    ).toBeLessThanOrEqual(0.005)
+    expect(rounded.perPaycheck.effectiveRate).toBeCloseTo(
+      estimate.perPaycheck.effectiveRate,
+      4,
+    )
+  })
+
+  it('keeps labels, notes and the pay frequency', () => {
+    expect(rounded.periodsPerYear).toBe(26)
+    expect(rounded.annual.lineItems.map((item) => item.label)).toEqual(
+      estimate.annual.lineItems.map((item) => item.label),
+    )
+    expect(rounded.annual.notes).toEqual(estimate.annual.notes)
+  })
+})
@@ -0,0 +1,143 @@
+import {
+  estimateTaxes,
+  perPeriod,
+  roundEstimate,
+  type PreTaxDeductions,
+  type TaxEstimate,
+} from './engine'
+import type { FilingStatus } from './federal'
+
+/**
+ * PayFrequency - How often the employee is paid
+ */
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly'
+
+/**
+ * Number of paychecks per year for each pay frequency
+ */
+export const PAY_PERIODS: Record<PayFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+}
+
+/**
+ * Display names for each pay frequency
+ */
+export const PAY_FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Biweekly',
+  semimonthly: 'Semimonthly',
+  monthly: 'Monthly',
+}
+
+/**
+ * PayBasis - How pay is quoted: weekly hours at an hourly rate, or an annual salary
+ */
+export type PayBasis =
+  | { kind: 'hourly'; hours: number; rate: number }
+  | { kind: 'salary'; salary: number }
+
+/**
+ * Converts quoted pay into gross pay for one paycheck. Hours are a weekly
+ * schedule, so they are annualized before the year is split into paychecks.
+ * @param pay - Hourly or salaried pay
+ * @param payFrequency - How often the employee is paid
+ */
+export function grossPerPaycheck(
+  pay: PayBasis,
+  payFrequency: PayFrequency,
+): number {
+  const annualWages =
+    pay.kind === 'hourly'
+      ? pay.hours * pay.rate * PAY_PERIODS.weekly
+      : pay.salary
+  return annualWages / PAY_PERIODS[payFrequency]
+}
+
+/**
+ * PaycheckInput - A single paycheck and the W-4 choices that shape it.
+ * Money amounts are per paycheck.
+ * @property grossPay - Gross wages for one pay period
+ * @property payFrequency - How often the employee is paid
+ * @property filingStatus - Federal filing status
+ * @property state - Postal abbreviation or full state name
+ * @property county - Optional county, used to select county taxes
+ * @property city - Optional city, used to select city taxes
+ * @property allowances - Withholding allowances claimed on a pre-2020 W-4
+ * @property extraWithholding - Additional federal withholding per paycheck
+ * @property preTaxDeductions - Pre-tax deductions per paycheck
+ */
+export interface PaycheckInput {
+  grossPay: number
+  payFrequency: PayFrequency
+  filingStatus: FilingStatus
+  state: string
+  county?: string
+  city?: string
+  allowances?: number
+  extraWithholding?: number
+  preTaxDeductions?: PreTaxDeductions
+}
+
+/**
+ * PaycheckEstimate - Result of the paycheck calculator
+ * @property periodsPerYear - Paychecks per year for the pay frequency
+ * @property perPaycheck - Breakdown of a single paycheck
+ * @property annual - The same breakdown over a full year
+ */
+export interface PaycheckEstimate {
+  periodsPerYear: number
+  perPaycheck: TaxEstimate
+  annual: TaxEstimate
+}
+
+/**
+ * Estimates take-home pay for one paycheck.
+ *
+ * The paycheck is annualized so progressive brackets and wage caps see a full
+ * year of wages, then the annual estimate is divided back into pay periods.
+ * @param input - Per-paycheck wages, deductions and W-4 choices
+ */
+export function calculatePaycheck(input: PaycheckInput): PaycheckEstimate {
+  const periodsPerYear = PAY_PERIODS[input.payFrequency]
+  const annualize = (amount = 0) => amount * periodsPerYear
+  const deductions = input.preTaxDeductions ?? {}
+
+  const annual = estimateTaxes({
+    annualWages: annualize(input.grossPay),
+    state: input.state,
+    county: input.county,
+    city: input.city,
+    filingStatus: input.filingStatus,
+    allowances: input.allowances,
+    extraWithholding: annualize(input.extraWithholding),
+    preTaxDeductions: {
+      retirement401k: annualize(deductions.retirement401k),
+      hsa: annualize(deductions.hsa),
+      healthPremiums: annualize(deductions.healthPremiums),
+    },
+  })
+
+  return {
+    periodsPerYear,
+    perPaycheck: perPeriod(annual, periodsPerYear),
+    annual,
+  }
+}
+
+/**
+ * Rounds both breakdowns of a paycheck estimate to whole cents, e.g. for an
+ * API response
+ * @param estimate - Result of `calculatePaycheck`
+ */
+export function roundPaycheckEstimate(
+  estimate: PaycheckEstimate,
+): PaycheckEstimate {
+  return {
+    ...estimate,
+    perPaycheck: roundEstimate(estimate.perPaycheck),
+    annual: roundEstimate(estimate.annual),
+  }
+}
@@ -0,0 +1,361 @@
+import { applyBrackets, flat, scaleBrackets, type Bracket } from './brackets'
+import type { FilingStatus } from './federal'
+
+/**
+ * StateTaxTable - Income tax schedule for a single state
+ * @property code - Two-letter postal abbreviation
+ * @property name - Full state name
+ * @property standardDeduction - Amount subtracted from wages before brackets apply
+ * @property brackets - Progressive schedule (a single bracket for flat-tax states)
+ * @property taxesRetirementContributions - 401(k) deferrals stay in state taxable wages
+ * @property taxesHsaContributions - Payroll HSA contributions stay in state taxable wages
+ */
+export interface StateTaxTable {
+  code: string
+  name: string
+  standardDeduction: number
+  brackets: Bracket[]
+  taxesRetirementContributions?: boolean
+  taxesHsaContributions?: boolean
+}
+
+const NO_INCOME_TAX: Bracket[] = flat(0)
+
+/**
+ * 2024 single-filer state income tax tables (joint filers are derived from these), keyed by postal abbreviation
+ */
+export const STATE_TAX_TABLES: Record<string, StateTaxTable> = {
+  AK: {
+    code: 'AK',
+    name: 'Alaska',
+    standardDeduction: 0,
+    brackets: NO_INCOME_TAX,
+  },
+  AZ: {
+    code: 'AZ',
+    name: 'Arizona',
+    standardDeduction: 14_600,
+    brackets: flat(0.025),
+  },
+  CA: {
+    code: 'CA',
+    name: 'California',
+    standardDeduction: 5_540,
+    taxesHsaContributions: true,
+    brackets: [
+      { upTo: 10_756, rate: 0.01 },
+      { upTo: 25_499, rate: 0.02 },
+      { upTo: 40_245, rate: 0.04 },
+      { upTo: 55_866, rate: 0.06 },
+      { upTo: 70_606, rate: 0.08 },
+      { upTo: 360_659, rate: 0.093 },
+      { upTo: 432_787, rate: 0.103 },
+      { upTo: 721_314, rate: 0.113 },
+      { upTo: 1_000_000, rate: 0.123 },
+      { upTo: null, rate: 0.133 },
+    ],
+  },
+  CO: {
+    code: 'CO',
+    name: 'Colorado',
+    standardDeduction: 14_600,
+    brackets: flat(0.044),
+  },
+  FL: {
+    code: 'FL',
+    name: 'Florida',
+    standardDeduction: 0,
+    brackets: NO_INCOME_TAX,
+  },
+  IL: {
+    code: 'IL',
+    name: 'Illinois',
+    standardDeduction: 2_775,
+    brackets: flat(0.0495),
+  },
+  IN: {
+    code: 'IN',
+    name: 'Indiana',
+    standardDeduction: 1_000,
+    brackets: flat(0.0305),
+  },
+  KY: {
+    code: 'KY',
+    name: 'Kentucky',
+    standardDeduction: 3_160,
+    brackets: flat(0.04),
+  },
+  MA: {
+    code: 'MA',
+    name: 'Massachusetts',
+    standardDeduction: 4_400,
+    brackets: [
+      { upTo: 1_053_750, rate: 0.05 },
+      { upTo: null, rate: 0.09 },
+    ],
+  },
+  MD: {
+    code: 'MD',
+    name: 'Maryland',
+    standardDeduction: 2_700,
+    brackets: [
+      { upTo: 1_000, rate: 0.02 },
+      { upTo: 2_000, rate: 0.03 },
+      { upTo: 3_000, rate: 0.04 },
+      { upTo: 100_000, rate: 0.0475 },
+      { upTo: 125_000, rate: 0.05 },
+      { upTo: 150_000, rate: 0.0525 },
+      { upTo: 250_000, rate: 0.055 },
+      { upTo: null, rate: 0.0575 },
+    ],
+  },
+  MI: {
+    code: 'MI',
+    name: 'Michigan',
+    standardDeduction: 5_600,
+    brackets: flat(0.0425),
+  },
+  MN: {
+    code: 'MN',
+    name: 'Minnesota',
+    standardDeduction: 14_575,
+    brackets: [
+      { upTo: 31_690, rate: 0.0535 },
+      { upTo: 104_090, rate: 0.068 },
+      { upTo: 193_240, rate: 0.0785 },
+      { upTo: null, rate: 0.0985 },
+    ],
+  },
+  NC: {
+    code: 'NC',
+    name: 'North Carolina',
+    standardDeduction: 12_750,
+    brackets: flat(0.045),
+  },
+  NH: {
+    code: 'NH',
+    name: 'New Hampshire',
+    standardDeduction: 0,
+    brackets: NO_INCOME_TAX,
+  },
+  NJ: {
+    code: 'NJ',
+    name: 'New Jersey',
+    standardDeduction: 1_000,
+    taxesHsaContributions: true,
+    brackets: [
+      { upTo: 20_000, rate: 0.014 },
+      { upTo: 35_000, rate: 0.0175 },
+      { upTo: 40_000, rate: 0.035 },
+      { upTo: 75_000, rate: 0.05525 },
+      { upTo: 500_000, rate: 0.0637 },
+      { upTo: 1_000_000, rate: 0.0897 },
+      { upTo: null, rate: 0.1075 },
+    ],
+  },
+  NV: {
+    code: 'NV',
+    name: 'Nevada',
+    standardDeduction: 0,
+    brackets: NO_INCOME_TAX,
+  },
+  NY: {
+    code: 'NY',
+    name: 'New York',
+    standardDeduction: 8_000,
+    brackets: [
+      { upTo: 8_500, rate: 0.04 },
+      { upTo: 11_700, rate: 0.045 },
+      { upTo: 13_900, rate: 0.0525 },
+      { upTo: 80_650, rate: 0.055 },
+      { upTo: 215_400, rate: 0.06 },
+      { upTo: 1_077_550, rate: 0.0685 },
+      { upTo: 5_000_000, rate: 0.0965 },
+      { upTo: 25_000_000, rate: 0.103 },
+      { upTo: null, rate: 0.109 },
+    ],
+  },
+  OH: {
+    code: 'OH',
+    name: 'Ohio',
+    standardDeduction: 0,
+    brackets: [
+      { upTo: 26_050, rate: 0 },
+      { upTo: 100_000, rate: 0.0275 },
+      { upTo: null, rate: 0.035 },
+    ],
+  },
+  OR: {
+    code: 'OR',
+    name: 'Oregon',
+    standardDeduction: 2_745,
+    brackets: [
+      { upTo: 4_300, rate: 0.0475 },
+      { upTo: 10_750, rate: 0.0675 },
+      { upTo: 125_000, rate: 0.0875 },
+      { upTo: null, rate: 0.099 },
+    ],
+  },
+  PA: {
+    code: 'PA',
+    name: 'Pennsylvania',
+    standardDeduction: 0,
+    brackets: flat(0.0307),
+    taxesRetirementContributions: true,
+  },
+  SD: {
+    code: 'SD',
+    name: 'South Dakota',
+    standardDeduction: 0,
+    brackets: NO_INCOME_TAX,
+  },
+  TN: {
+    code: 'TN',
+    name: 'Tennessee',
+    standardDeduction: 0,
+    brackets: NO_INCOME_TAX,
+  },
+  TX: {
+    code: 'TX',
+    name: 'Texas',
+    standardDeduction: 0,
+    brackets: NO_INCOME_TAX,
+  },
+  UT: {
+    code: 'UT',
+    name: 'Utah',
+    standardDeduction: 0,
+    brackets: flat(0.0465),
+  },
+  WA: {
+    code: 'WA',
+    name: 'Washington',
+    standardDeduction: 0,
+    brackets: NO_INCOME_TAX,
+  },
+  WY: {
+    code: 'WY',
+    name: 'Wyoming',
+    standardDeduction: 0,
+    brackets: NO_INCOME_TAX,
+  },
+}
+
+/**
+ * Every state (plus DC) by postal abbreviation, including states without a tax table
+ */
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama',
+  AK: 'Alaska',
+  AZ: 'Arizona',
+  AR: 'Arkansas',
+  CA: 'California',
+  CO: 'Colorado',
+  CT: 'Connecticut',
+  DE: 'Delaware',
+  DC: 'District of Columbia',
+  FL: 'Florida',
+  GA: 'Georgia',
+  HI: 'Hawaii',
+  ID: 'Idaho',
+  IL: 'Illinois',
+  IN: 'Indiana',
+  IA: 'Iowa',
+  KS: 'Kansas',
+  KY: 'Kentucky',
+  LA: 'Louisiana',
+  ME: 'Maine',
+  MD: 'Maryland',
+  MA: 'Massachusetts',
+  MI: 'Michigan',
+  MN: 'Minnesota',
+  MS: 'Mississippi',
+  MO: 'Missouri',
+  MT: 'Montana',
+  NE: 'Nebraska',
+  NV: 'Nevada',
+  NH: 'New Hampshire',
+  NJ: 'New Jersey',
+  NM: 'New Mexico',
+  NY: 'New York',
+  NC: 'North Carolina',
+  ND: 'North Dakota',
+  OH: 'Ohio',
+  OK: 'Oklahoma',
+  OR: 'Oregon',
+  PA: 'Pennsylvania',
+  RI: 'Rhode Island',
+  SC: 'South Carolina',
+  SD: 'South Dakota',
+  TN: 'Tennessee',
+  TX: 'Texas',
+  UT: 'Utah',
+  VT: 'Vermont',
+  VA: 'Virginia',
+  WA: 'Washington',
+  WV: 'West Virginia',
+  WI: 'Wisconsin',
+  WY: 'Wyoming',
+}
+
+/**
+ * Resolves a postal abbreviation or full state name (case-insensitive) to its abbreviation
+ * @param state - e.g. "ca", "CA" or "California"
+ * @returns The abbreviation, or undefined if the input is not a US state
+ */
+export function resolveStateCode(state: string): string | undefined {
+  const needle = state.trim().toLowerCase().replace(/\s+/g, ' ')
+  return Object.entries(US_STATES).find(
+    ([code, name]) =>
+      code.toLowerCase() === needle || name.toLowerCase() === needle,
+  )?.[0]
+}
+
+/**
+ * Looks up a state table by postal abbreviation or full name (case-insensitive)
+ * @param state - e.g. "NY", "ny" or "New York"
+ */
+export function findStateTable(state: string): StateTaxTable | undefined {
+  const needle = state.trim().toLowerCase()
+  return Object.values(STATE_TAX_TABLES).find(
+    (table) =>
+      table.code.toLowerCase() === needle ||
+      table.name.toLowerCase() === needle,
+  )
+}
+
+/**
+ * Joint filers get double the single standard deduction and bracket widths.
+ * This is exact for some states (e.g. California) and an approximation for the rest.
+ */
+const JOINT_FACTOR = 2
+
+/**
+ * Returns the amount of wages taxable by the state after its standard deduction
+ */
+export function stateTaxableIncome(
+  table: StateTaxTable,
+  annualWages: number,
+  filingStatus: FilingStatus = 'single',
+): number {
+  const factor = filingStatus === 'married_joint' ? JOINT_FACTOR : 1
+  return Math.max(0, annualWages - table.standardDeduction * factor)
+}
+
+/**
+ * Calculates annual state income tax on wages
+ */
+export function stateIncomeTax(
+  table: StateTaxTable,
+  annualWages: number,
+  filingStatus: FilingStatus = 'single',
+): number {
+  const brackets =
+    filingStatus === 'married_joint'
+      ? scaleBrackets(table.brackets, JOINT_FACTOR)
+      : table.brackets
+  return applyBrackets(
+    stateTaxableIncome(table, annualWages, filingStatus),
+    brackets,
+  )
+}
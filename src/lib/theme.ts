@@ -0,0 +1,30 @@
+/**
+ * Theme - Color scheme a page is drawn in
+ */
+export type Theme = 'light' | 'dark'
+
+/**
+ * ThemePreference - What the visitor picked in the header: a theme, or
+ * whatever their operating system uses
+ */
+export type ThemePreference = Theme | 'system'
+
+export const THEME_PREFERENCES: readonly ThemePreference[] = [
+  'light',
+  'dark',
+  'system',
+]
+
+export const DEFAULT_THEME_PREFERENCE: ThemePreference = 'system'
+
+export const SYSTEM_DARK_QUERY = '(prefers-color-scheme: dark)'
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return THEME_PREFERENCES.includes(value as ThemePreference)
+}
+
+/**
+ * Inline script for the system preference: the server cannot see the
+ * operating system's scheme, so this applies it before the first paint
+ */
+export const SYSTEM_THEME_SCRIPT = `if (matchMedia('${SYSTEM_DARK_QUERY}').matches) document.documentElement.classList.add('dark')`
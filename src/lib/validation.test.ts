@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest'
+import { createI18n } from '@/lib/i18n'
+import {
+  array,
+  boolean,
+  fieldErrorsOf,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  validator,
+  ValidationError,
+} from '@/lib/validation'
+
+describe('validator', () => {
+  const check = validator(
+    object({
+      name: string({ max: 5 }),
+      count: number({ integer: true, min: 1 }),
+      done: optional(boolean()),
+    }),
+  )
+
+  it('returns the converted input', () => {
+    expect(check({ name: '  ab  ', count: 2, extra: 1 } as never)).toEqual({
+      name: 'ab',
+      count: 2,
+    })
+  })
+
+  it.each([undefined, null, 'text', 42, [], true])(
+    'rejects %j in place of an object',
+    (input) => {
+      expect(() => check(input as never)).toThrow(ValidationError)
+    },
+  )
+
+  it('reports every invalid field at once', () => {
+    try {
+      check({ name: 'too long', count: 1.5, done: 'yes' } as never)
+      expect.unreachable()
+    } catch (error) {
+      expect(fieldErrorsOf(error)).toEqual({
+        name: 'Must be 5 characters or fewer',
+        count: 'Must be a whole number',
+        done: 'Must be true or false',
+      })
+    }
+  })
+
+  it('uses the first field error as the message', () => {
+    expect(() => check({ name: ' ', count: 1 } as never)).toThrow('Required')
+  })
+})
+
+describe('string', () => {
+  it.each([
+    [undefined, 'Must be text'],
+    [12, 'Must be text'],
+    [{}, 'Must be text'],
+    ['   ', 'Required'],
+    ['x'.repeat(10_001), 'Must be 10000 characters or fewer'],
+  ])('rejects %j', (value, message) => {
+    expect(string().parse(value)).toEqual({
+      ok: false,
+      errors: { input: message },
+    })
+  })
+
+  it('keeps whitespace when trim is off', () => {
+    expect(string({ trim: false }).parse(' a ')).toEqual({
+      ok: true,
+      value: ' a ',
+    })
+  })
+
+  it('applies the pattern message', () => {
+    const schema = string({
+      pattern: /^[a-z]+$/,
+      message: 'validation.username',
+    })
+    expect(schema.parse('a b', 'name')).toEqual({
+      ok: false,
+      errors: {
+        name: 'Use only letters, numbers, dots, dashes and underscores',
+      },
+    })
+  })
+})
+
+describe('number', () => {
+  it.each([
+    ['1', 'Must be a number'],
+    [Number.NaN, 'Must be a number'],
+    [Number.POSITIVE_INFINITY, 'Must be a number'],
+    [null, 'Must be a number'],
+    [0, 'Must be at least 1'],
+    [11, 'Must be at most 10'],
+  ])('rejects %j', (value, message) => {
+    expect(number({ min: 1, max: 10 }).parse(value)).toEqual({
+      ok: false,
+      errors: { input: message },
+    })
+  })
+})
+
+describe('oneOf', () => {
+  it('rejects values outside the set', () => {
+    expect(oneOf(['a', 'b']).parse('c')).toEqual({
+      ok: false,
+      errors: { input: 'Must be one of: a, b' },
+    })
+  })
+})
+
+describe('optional', () => {
+  it('treats null as missing but still checks other values', () => {
+    const schema = optional(number())
+    expect(schema.parse(null)).toEqual({ ok: true, value: undefined })
+    expect(schema.parse('1').ok).toBe(false)
+  })
+})
+
+describe('array', () => {
+  it('keys item errors by index', () => {
+    expect(array(number()).parse([1, 'two', 3, null], 'ids')).toEqual({
+      ok: false,
+      errors: { 'ids.1': 'Must be a number', 'ids.3': 'Must be a number' },
+    })
+  })
+
+  it('rejects lists over the limit', () => {
+    expect(array(number(), { max: 2 }).parse([1, 2, 3])).toEqual({
+      ok: false,
+      errors: { input: 'Must have 2 items or fewer' },
+    })
+  })
+
+  it('rejects anything that is not a list', () => {
+    expect(array(number()).parse({ 0: 1, length: 1 }).ok).toBe(false)
+  })
+})
+
+describe('fieldErrorsOf', () => {
+  it('translates the English messages the server sends', () => {
+    const error = new ValidationError({
+      name: 'Required',
+      count: 'Must be at most 5',
+      kind: 'Must be one of: a, b',
+      other: 'Not from the catalog',
+    })
+    expect(fieldErrorsOf(error, createI18n('es').t)).toEqual({
+      name: 'Obligatorio',
+      count: 'Debe ser como máximo 5',
+      kind: 'Debe ser uno de: a, b',
+      other: 'Not from the catalog',
+    })
+  })
+})
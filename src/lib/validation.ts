@@ -0,0 +1,385 @@
+import {
+  createI18n,
+  DEFAULT_LOCALE,
+  type MessageKey,
+  type Translator,
+} from '@/lib/i18n'
+
+/**
+ * Field errors are sent in English, so API clients get the same messages
+ * whatever the page's language
+ */
+const { t: english } = createI18n(DEFAULT_LOCALE)
+
+/**
+ * FieldErrors - Message for each input field that failed validation, keyed
+ * by its path, e.g. "name" or "ids.2". Errors about the input as a whole use
+ * the key "input".
+ */
+export type FieldErrors = Record<string, string>
+
+/**
+ * ParseResult - The converted value, or the fields that need fixing
+ */
+export type ParseResult<T> =
+  { ok: true; value: T } | { ok: false; errors: FieldErrors }
+
+/**
+ * JsonSchema - The subset of JSON Schema the schemas below describe
+ * themselves with, e.g. for an OpenAPI document
+ */
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+  enum?: readonly string[]
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  items?: JsonSchema
+  maxItems?: number
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  description?: string
+  [keyword: string]: unknown
+}
+
+/**
+ * Schema - Checks an unknown value and converts it into a T
+ * @property parse - Validates `value`; `path` prefixes the error keys
+ * @property jsonSchema - The same rules as JSON Schema
+ * @property optional - Set by `optional`, so objects can mark the field as
+ * not required
+ */
+export interface Schema<T> {
+  parse: (value: unknown, path?: string) => ParseResult<T>
+  jsonSchema: JsonSchema
+  optional?: true
+}
+
+/**
+ * Infer - The type a schema produces
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+/**
+ * ValidationError - Thrown when server function input fails its schema.
+ * Registered as a serialization adapter in `src/start.ts`, so it reaches the
+ * client with its field errors.
+ * @property fieldErrors - Message for each invalid field
+ */
+export class ValidationError extends Error {
+  readonly fieldErrors: FieldErrors
+
+  constructor(fieldErrors: FieldErrors) {
+    super(Object.values(fieldErrors)[0] ?? english('validation.invalidInput'))
+    this.name = 'ValidationError'
+    this.fieldErrors = fieldErrors
+  }
+}
+
+/**
+ * Reads the field errors from an error thrown by a server function
+ * @param t - Translates the messages, which the server writes in English
+ * @returns The field errors, or undefined for any other kind of failure
+ */
+export function fieldErrorsOf(
+  error: unknown,
+  t?: Translator,
+): FieldErrors | undefined {
+  if (!(error instanceof ValidationError)) return undefined
+  if (!t) return error.fieldErrors
+  return Object.fromEntries(
+    Object.entries(error.fieldErrors).map(([path, message]) => [
+      path,
+      translateFieldError(message, t),
+    ]),
+  )
+}
+
+/**
+ * Message keys of every field error, so the English text can be read back
+ * into a key and its parameters
+ */
+const FIELD_ERROR_KEYS: MessageKey[] = [
+  'validation.invalidInput',
+  'validation.notText',
+  'validation.required',
+  'validation.tooShort',
+  'validation.tooLong',
+  'validation.invalidFormat',
+  'validation.notNumber',
+  'validation.notWholeNumber',
+  'validation.tooSmall',
+  'validation.tooLarge',
+  'validation.notBoolean',
+  'validation.notOneOf',
+  'validation.notList',
+  'validation.tooManyItems',
+  'validation.notObject',
+  'validation.sessionId',
+  'validation.username',
+  'validation.usernameTaken',
+  'validation.badCredentials',
+]
+
+/**
+ * Translates one English field error, e.g. "Must be at most 5" ->
+ * "Debe ser como máximo 5". Messages not from the catalog are kept.
+ */
+function translateFieldError(message: string, t: Translator): string {
+  for (const key of FIELD_ERROR_KEYS) {
+    const names: string[] = []
+    const pattern = english(key)
+      .replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+      .replace(/\{(\w+)\}/g, (_, name: string) => {
+        names.push(name)
+        return '(.+?)'
+      })
+    const match = message.match(new RegExp(`^${pattern}$`))
+    if (match) {
+      return t(
+        key,
+        Object.fromEntries(names.map((name, i) => [name, match[i + 1]])),
+      )
+    }
+  }
+  return message
+}
+
+/**
+ * Ceiling for strings without an explicit `max`, so no field accepts an
+ * unbounded payload
+ */
+const DEFAULT_MAX_LENGTH = 10_000
+
+const ok = <T>(value: T): ParseResult<T> => ({ ok: true, value })
+
+const fail = (path: string, message: string): ParseResult<never> => ({
+  ok: false,
+  errors: { [path || 'input']: message },
+})
+
+const join = (path: string, key: string | number) =>
+  path ? `${path}.${key}` : String(key)
+
+/**
+ * string - Accepts text, trimmed by default
+ * @param options.min - Minimum length after trimming; 1 rejects blank text
+ * @param options.max - Maximum length after trimming
+ * @param options.pattern - Regular expression the text must match
+ * @param options.message - Error shown when `pattern` does not match
+ */
+export function string(
+  options: {
+    min?: number
+    max?: number
+    trim?: boolean
+    pattern?: RegExp
+    message?: MessageKey
+  } = {},
+): Schema<string> {
+  const {
+    min = 1,
+    max = DEFAULT_MAX_LENGTH,
+    trim = true,
+    pattern,
+    message = 'validation.invalidFormat',
+  } = options
+  return {
+    jsonSchema: {
+      type: 'string',
+      minLength: min,
+      maxLength: max,
+      ...(pattern && { pattern: pattern.source }),
+    },
+    parse: (value, path = '') => {
+      if (typeof value !== 'string') {
+        return fail(path, english('validation.notText'))
+      }
+      const text = trim ? value.trim() : value
+      if (text.length < min) {
+        return fail(
+          path,
+          min === 1
+            ? english('validation.required')
+            : english('validation.tooShort', { min }),
+        )
+      }
+      if (text.length > max) {
+        return fail(path, english('validation.tooLong', { max }))
+      }
+      if (pattern && !pattern.test(text)) return fail(path, english(message))
+      return ok(text)
+    },
+  }
+}
+
+/**
+ * number - Accepts a finite number
+ * @param options.integer - Also require a whole number
+ */
+export function number(
+  options: { min?: number; max?: number; integer?: boolean } = {},
+): Schema<number> {
+  const { min, max, integer = false } = options
+  return {
+    jsonSchema: {
+      type: integer ? 'integer' : 'number',
+      ...(min !== undefined && { minimum: min }),
+      ...(max !== undefined && { maximum: max }),
+    },
+    parse: (value, path = '') => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return fail(path, english('validation.notNumber'))
+      }
+      if (integer && !Number.isInteger(value)) {
+        return fail(path, english('validation.notWholeNumber'))
+      }
+      if (min !== undefined && value < min) {
+        return fail(path, english('validation.tooSmall', { min }))
+      }
+      if (max !== undefined && value > max) {
+        return fail(path, english('validation.tooLarge', { max }))
+      }
+      return ok(value)
+    },
+  }
+}
+
+/**
+ * boolean - Accepts true or false
+ */
+export function boolean(): Schema<boolean> {
+  return {
+    jsonSchema: { type: 'boolean' },
+    parse: (value, path = '') =>
+      typeof value === 'boolean'
+        ? ok(value)
+        : fail(path, english('validation.notBoolean')),
+  }
+}
+
+/**
+ * oneOf - Accepts one of a fixed set of strings
+ * @param values - Allowed values
+ */
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    jsonSchema: { type: 'string', enum: values },
+    parse: (value, path = '') =>
+      values.includes(value as T)
+        ? ok(value as T)
+        : fail(
+            path,
+            english('validation.notOneOf', { values: values.join(', ') }),
+          ),
+  }
+}
+
+/**
+ * optional - Lets a value be left out; null is treated as missing
+ * @param schema - Schema for the value when present
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    jsonSchema: schema.jsonSchema,
+    optional: true,
+    parse: (value, path) =>
+      value === undefined || value === null
+        ? ok(undefined)
+        : schema.parse(value, path),
+  }
+}
+
+/**
+ * array - Accepts a list, checking every item
+ * @param item - Schema for each item
+ * @param options.max - Maximum number of items
+ */
+export function array<T>(
+  item: Schema<T>,
+  options: { max?: number } = {},
+): Schema<T[]> {
+  const { max = 1_000 } = options
+  return {
+    jsonSchema: { type: 'array', items: item.jsonSchema, maxItems: max },
+    parse: (value, path = '') => {
+      if (!Array.isArray(value)) {
+        return fail(path, english('validation.notList'))
+      }
+      if (value.length > max) {
+        return fail(path, english('validation.tooManyItems', { max }))
+      }
+      const items: T[] = []
+      const errors: FieldErrors = {}
+      value.forEach((entry, i) => {
+        const result = item.parse(entry, join(path, i))
+        if (result.ok) items.push(result.value)
+        else Object.assign(errors, result.errors)
+      })
+      return Object.keys(errors).length > 0 ? { ok: false, errors } : ok(items)
+    },
+  }
+}
+
+/**
+ * object - Accepts an object with the given fields, reporting every invalid
+ * field at once. Unknown keys and missing optional fields are dropped.
+ * @param shape - Schema for each field
+ */
+export function object<T extends object>(shape: {
+  [K in keyof T]-?: Schema<T[K]>
+}): Schema<T> {
+  const fields = Object.entries(shape) as Array<[string, Schema<unknown>]>
+  return {
+    jsonSchema: {
+      type: 'object',
+      properties: Object.fromEntries(
+        fields.map(([key, field]) => [key, field.jsonSchema]),
+      ),
+      required: fields
+        .filter(([, field]) => !field.optional)
+        .map(([key]) => key),
+    },
+    parse: (value, path = '') => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(path, english('validation.notObject'))
+      }
+      const input = value as Record<string, unknown>
+      const result: Record<string, unknown> = {}
+      const errors: FieldErrors = {}
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const field = shape[key].parse(input[key], join(path, key))
+        if (!field.ok) Object.assign(errors, field.errors)
+        else if (field.value !== undefined) result[key] = field.value
+      }
+      return Object.keys(errors).length > 0
+        ? { ok: false, errors }
+        : ok(result as T)
+    },
+  }
+}
+
+/**
+ * describe - Attaches documentation to a schema's JSON Schema
+ * @param schema - Schema to document
+ * @param description - What the value means
+ */
+export function describe<T>(schema: Schema<T>, description: string): Schema<T> {
+  return { ...schema, jsonSchema: { ...schema.jsonSchema, description } }
+}
+
+/**
+ * validator - Adapts a schema for `createServerFn().inputValidator`
+ * @param schema - Schema the input must satisfy
+ * @returns A function that returns the converted input, or throws a
+ * `ValidationError` listing every invalid field
+ */
+export function validator<T>(schema: Schema<T>) {
+  return (input: T): T => {
+    const result = schema.parse(input)
+    if (!result.ok) throw new ValidationError(result.errors)
+    return result.value
+  }
+}
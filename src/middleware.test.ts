@@ -0,0 +1,314 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { setErrorReporter, type ErrorReport } from '@/lib/error-reporting'
+import { createMemorySink, setLogSink } from '@/lib/logger'
+import {
+  createMemoryRateLimitStore,
+  RateLimitError,
+  setRateLimitStore,
+} from '@/lib/rate-limit'
+import { ValidationError } from '@/lib/validation'
+import {
+  rateLimit,
+  REQUEST_ID_HEADER,
+  requestLogger,
+  serverFnLogger,
+} from '@/middleware'
+
+const server = vi.hoisted(() => ({
+  getRequestIP: vi.fn(() => '203.0.113.7'),
+  setResponseStatus: vi.fn(),
+  setResponseHeader: vi.fn(),
+}))
+
+vi.mock('@tanstack/react-start/server', () => server)
+
+/**
+ * Runs the rate limit middleware's server step the way a server function
+ * call would
+ */
+function call(context: { user?: { id: number } } = {}) {
+  const next = vi.fn(async () => ({ result: 'ok' }))
+  const run = rateLimit('chat').options.server as unknown as (options: {
+    next: typeof next
+    context: typeof context
+  }) => Promise<unknown>
+  return { next, result: run({ next, context }) }
+}
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    vi.stubEnv('RATE_LIMIT_CHAT', '1/2')
+    setRateLimitStore(createMemoryRateLimitStore())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+    vi.clearAllMocks()
+  })
+
+  it('calls through while the bucket has tokens', async () => {
+    const { next, result } = call()
+    await expect(result).resolves.toEqual({ result: 'ok' })
+    expect(next).toHaveBeenCalledOnce()
+    expect(server.setResponseStatus).not.toHaveBeenCalled()
+  })
+
+  it('answers 429 with Retry-After once the bucket is empty', async () => {
+    await call().result
+    const { next, result } = call()
+    await expect(result).rejects.toThrow('Too many requests')
+    expect(next).not.toHaveBeenCalled()
+    expect(server.setResponseStatus).toHaveBeenCalledWith(429)
+    expect(server.setResponseHeader).toHaveBeenCalledWith('Retry-After', '30')
+  })
+
+  it('refills over time', async () => {
+    await call().result
+    vi.advanceTimersByTime(30_000)
+    await expect(call().result).resolves.toEqual({ result: 'ok' })
+  })
+
+  it('counts signed-in callers per user rather than per IP', async () => {
+    await call({ user: { id: 1 } }).result
+    await expect(call({ user: { id: 2 } }).result).resolves.toEqual({
+      result: 'ok',
+    })
+    await expect(call().result).resolves.toEqual({ result: 'ok' })
+    await expect(call({ user: { id: 1 } }).result).rejects.toThrow(
+      'Too many requests',
+    )
+  })
+})
+
+// A password and session token, which must never be logged
+const SECRET = 'hunter2-secret'
+
+/**
+ * A sign-in request carrying the secret in its body, cookie and
+ * Authorization header
+ */
+function secretRequest(headers: Record<string, string> = {}) {
+  return new Request('https://example.com/api/login?next=%2F', {
+    method: 'POST',
+    headers: {
+      cookie: `auth_session=${SECRET}`,
+      authorization: `Bearer ${SECRET}`,
+      'content-type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify({ username: 'ann', password: SECRET }),
+  })
+}
+
+describe('requestLogger', () => {
+  const sink = createMemorySink()
+  const reports: ErrorReport[] = []
+  let restoreSink: ReturnType<typeof setLogSink>
+  let restoreReporter: ReturnType<typeof setErrorReporter>
+
+  beforeEach(() => {
+    sink.records.length = 0
+    reports.length = 0
+    restoreSink = setLogSink(sink)
+    restoreReporter = setErrorReporter((report) => void reports.push(report))
+  })
+
+  afterEach(() => {
+    setLogSink(restoreSink)
+    setErrorReporter(restoreReporter)
+  })
+
+  /**
+   * Runs the request logger's server step around a handler
+   */
+  function handle(
+    request: Request,
+    respond: () => Promise<{ response: Response }>,
+  ) {
+    const next = vi.fn(respond)
+    const run = requestLogger.options.server as unknown as (options: {
+      request: Request
+      next: typeof next
+    }) => Promise<{ response: Response }>
+    return { next, result: run({ request, next }) }
+  }
+
+  it('logs the method, path, status and duration', async () => {
+    const { next, result } = handle(secretRequest(), async () => ({
+      response: new Response('ok', { status: 201 }),
+    }))
+    const { response } = await result
+
+    const requestId = response.headers.get(REQUEST_ID_HEADER)
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/)
+    expect(next).toHaveBeenCalledWith({ context: { requestId } })
+    expect(sink.records).toEqual([
+      {
+        time: expect.any(String),
+        level: 'info',
+        msg: 'request',
+        requestId,
+        method: 'POST',
+        path: '/api/login',
+        status: 201,
+        durationMs: expect.any(Number),
+      },
+    ])
+  })
+
+  it('reuses a valid request id from a proxy', async () => {
+    const { result } = handle(
+      secretRequest({ [REQUEST_ID_HEADER]: 'edge-42' }),
+      async () => ({ response: new Response('ok') }),
+    )
+    const { response } = await result
+    expect(response.headers.get(REQUEST_ID_HEADER)).toBe('edge-42')
+    expect(sink.records[0].requestId).toBe('edge-42')
+  })
+
+  it.each([
+    [404, 'warn'],
+    [503, 'error'],
+  ])('logs a %i response at %s level', async (status, level) => {
+    await handle(secretRequest(), async () => ({
+      response: new Response(null, { status }),
+    })).result
+    expect(sink.records[0]).toMatchObject({ level, status })
+  })
+
+  it('logs and reports a handler that throws', async () => {
+    const { result } = handle(secretRequest(), async () => {
+      throw new Error('database is down')
+    })
+    await expect(result).rejects.toThrow('database is down')
+
+    expect(sink.records).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        msg: 'request',
+        method: 'POST',
+        path: '/api/login',
+        status: 500,
+        durationMs: expect.any(Number),
+        error: expect.objectContaining({
+          name: 'Error',
+          message: 'database is down',
+        }),
+      }),
+    ])
+    expect(reports).toHaveLength(1)
+    expect(reports[0]).toMatchObject({ source: 'request', path: '/api/login' })
+  })
+
+  it('never logs the body, query, cookies or credentials', async () => {
+    await handle(secretRequest(), async () => ({
+      response: new Response('ok'),
+    })).result
+    await expect(
+      handle(secretRequest(), async () => {
+        throw new Error('failed')
+      }).result,
+    ).rejects.toThrow()
+
+    const logged = JSON.stringify(sink.records)
+    expect(logged).not.toContain(SECRET)
+    expect(logged).not.toContain('password')
+    expect(logged).not.toContain('next=')
+  })
+})
+
+describe('serverFnLogger', () => {
+  const sink = createMemorySink()
+  const reports: ErrorReport[] = []
+  let restoreSink: ReturnType<typeof setLogSink>
+  let restoreReporter: ReturnType<typeof setErrorReporter>
+
+  beforeEach(() => {
+    sink.records.length = 0
+    reports.length = 0
+    restoreSink = setLogSink(sink)
+    restoreReporter = setErrorReporter((report) => void reports.push(report))
+  })
+
+  afterEach(() => {
+    setLogSink(restoreSink)
+    setErrorReporter(restoreReporter)
+  })
+
+  /**
+   * Runs the server function logger's server step the way a call would
+   */
+  function call(next: () => Promise<unknown>, context: object = {}) {
+    const run = serverFnLogger.options.server as unknown as (options: {
+      next: typeof next
+      functionId: string
+      method: string
+      context: object
+      data: unknown
+    }) => Promise<unknown>
+    return run({
+      next,
+      functionId: 'src/data/auth.ts--signIn',
+      method: 'POST',
+      context,
+      data: { username: 'ann', password: SECRET },
+    })
+  }
+
+  it('logs the function, status and duration', async () => {
+    await expect(
+      call(async () => ({ result: 'ok' }), { requestId: 'req-1' }),
+    ).resolves.toEqual({ result: 'ok' })
+    expect(sink.records).toEqual([
+      {
+        time: expect.any(String),
+        level: 'info',
+        msg: 'server function',
+        requestId: 'req-1',
+        functionId: 'src/data/auth.ts--signIn',
+        method: 'POST',
+        status: 'ok',
+        durationMs: expect.any(Number),
+      },
+    ])
+  })
+
+  it('logs and reports a failure as an error', async () => {
+    await expect(
+      call(async () => {
+        throw new Error('database is down')
+      }),
+    ).rejects.toThrow('database is down')
+    expect(sink.records[0]).toMatchObject({
+      level: 'error',
+      status: 'error',
+      functionId: 'src/data/auth.ts--signIn',
+      durationMs: expect.any(Number),
+      error: { name: 'Error', message: 'database is down' },
+    })
+    expect(reports).toHaveLength(1)
+  })
+
+  it.each([
+    ['rejected input', new ValidationError({ username: 'Required' })],
+    ['throttling', new RateLimitError(30)],
+  ])('logs %s as a warning without reporting it', async (_, error) => {
+    await expect(
+      call(async () => {
+        throw error
+      }),
+    ).rejects.toBe(error)
+    expect(sink.records[0]).toMatchObject({ level: 'warn', status: 'error' })
+    expect(reports).toEqual([])
+  })
+
+  it('never logs the arguments', async () => {
+    await call(async () => ({ result: 'ok' }))
+    const logged = JSON.stringify(sink.records)
+    expect(logged).not.toContain(SECRET)
+    expect(logged).not.toContain('ann')
+  })
+})
@@ -0,0 +1,174 @@
+import { isNotFound, isRedirect } from '@tanstack/react-router'
+import { createMiddleware } from '@tanstack/react-start'
+import {
+  setResponseHeader,
+  setResponseStatus,
+} from '@tanstack/react-start/server'
+import { ApiError, errorResponse } from '@/lib/api'
+import { reportServerError } from '@/lib/error-reporting'
+import { log, serializeError, type LogLevel } from '@/lib/logger'
+import {
+  enforceRateLimit,
+  isBodyTooLarge,
+  maxBodyBytes,
+  rateLimitClient,
+  RateLimitError,
+  type RateLimitName,
+} from '@/lib/rate-limit'
+import { ValidationError } from '@/lib/validation'
+
+/**
+ * Header carrying the request id. An id sent by a proxy is reused so logs
+ * can be joined across services; otherwise a new one is generated.
+ */
+export const REQUEST_ID_HEADER = 'x-request-id'
+
+const REQUEST_ID_PATTERN = /^[\w.-]{1,128}$/
+
+/**
+ * Milliseconds since `started`, rounded to a tenth
+ */
+const elapsed = (started: number) =>
+  Math.round((performance.now() - started) * 10) / 10
+
+/**
+ * Logs every request (pages, server functions and API routes) with its
+ * status and duration, and tags the response with its request id
+ */
+export const requestLogger = createMiddleware({ type: 'request' }).server(
+  async ({ request, next }) => {
+    const incoming = request.headers.get(REQUEST_ID_HEADER)
+    const requestId =
+      incoming && REQUEST_ID_PATTERN.test(incoming)
+        ? incoming
+        : crypto.randomUUID()
+    const started = performance.now()
+    const fields = {
+      requestId,
+      method: request.method,
+      path: new URL(request.url).pathname,
+    }
+
+    try {
+      const result = await next({ context: { requestId } })
+      let { response } = result
+      try {
+        response.headers.set(REQUEST_ID_HEADER, requestId)
+      } catch {
+        // Some responses (e.g. from fetch) have immutable headers
+        response = new Response(response.body, response)
+        response.headers.set(REQUEST_ID_HEADER, requestId)
+      }
+      const level: LogLevel =
+        response.status >= 500
+          ? 'error'
+          : response.status >= 400
+            ? 'warn'
+            : 'info'
+      log(level, 'request', {
+        ...fields,
+        status: response.status,
+        durationMs: elapsed(started),
+      })
+      return { ...result, response }
+    } catch (error) {
+      log('error', 'request', {
+        ...fields,
+        status: 500,
+        durationMs: elapsed(started),
+        error: serializeError(error),
+      })
+      reportServerError({ error, source: 'request', ...fields })
+      throw error
+    }
+  },
+)
+
+/**
+ * Times each server function call and captures its errors. Runs for calls
+ * made during SSR as well, which never pass through `requestLogger`.
+ */
+export const serverFnLogger = createMiddleware({ type: 'function' }).server(
+  async ({ next, functionId, method, context }) => {
+    const started = performance.now()
+    // Set by requestLogger; absent when called during SSR. The global
+    // context type can't be inferred here without a circular reference to
+    // the start instance.
+    const { requestId } = (context ?? {}) as { requestId?: string }
+    const fields = { requestId, functionId, method }
+    try {
+      const result = await next()
+      log('info', 'server function', {
+        ...fields,
+        status: 'ok',
+        durationMs: elapsed(started),
+      })
+      return result
+    } catch (error) {
+      // Redirects and not-found are control flow, and rejected input and
+      // throttled callers are the caller's doing; none is a server fault
+      const level: LogLevel =
+        isRedirect(error) || isNotFound(error)
+          ? 'info'
+          : error instanceof ValidationError || error instanceof RateLimitError
+            ? 'warn'
+            : 'error'
+      log(level, 'server function', {
+        ...fields,
+        status: 'error',
+        durationMs: elapsed(started),
+        error: serializeError(error),
+      })
+      if (level === 'error') {
+        reportServerError({ error, source: 'server function', ...fields })
+      }
+      throw error
+    }
+  },
+)
+
+/**
+ * Rejects request bodies over `MAX_BODY_BYTES` with a 413 before any route
+ * or server function reads them
+ */
+export const bodySizeLimit = createMiddleware({ type: 'request' }).server(
+  async ({ request, next }) => {
+    const max = maxBodyBytes()
+    if (await isBodyTooLarge(request, max)) {
+      return errorResponse(
+        new ApiError(
+          413,
+          'payload_too_large',
+          `Request bodies are limited to ${max} bytes`,
+        ),
+      )
+    }
+    return next()
+  },
+)
+
+/**
+ * rateLimit - Limits how often a caller may use a server function. Signed-in
+ * callers are counted per user, so list it after `authMiddleware`; visitors
+ * are counted per IP. Over the limit the call fails with a 429 and a
+ * Retry-After header.
+ * @param name - Which configured limit applies
+ */
+export function rateLimit(name: RateLimitName) {
+  return createMiddleware({ type: 'function' }).server(
+    async ({ next, context }) => {
+      // Set by authMiddleware when it runs first
+      const { user } = (context ?? {}) as { user?: { id: number } }
+      try {
+        await enforceRateLimit(name, rateLimitClient(user?.id))
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          setResponseStatus(429)
+          setResponseHeader('Retry-After', String(error.retryAfterSeconds))
+        }
+        throw error
+      }
+      return next()
+    },
+  )
+}
@@ -9,21 +9,67 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as SitemapDotxmlRouteImport } from './routes/sitemap[.]xml'
+import { Route as SignupRouteImport } from './routes/signup'
+import { Route as RobotsDottxtRouteImport } from './routes/robots[.]txt'
+import { Route as LogoutRouteImport } from './routes/logout'
+import { Route as LoginRouteImport } from './routes/login'
+import { Route as CalculatorRouteImport } from './routes/calculator'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as ApiEstimateRouteImport } from './routes/api.estimate'
 import { Route as DemoStartServerFuncsRouteImport } from './routes/demo/start.server-funcs'
 import { Route as DemoStartChatbotRouteImport } from './routes/demo/start.chatbot'
 import { Route as DemoStartApiRequestRouteImport } from './routes/demo/start.api-request'
 import { Route as DemoApiNamesRouteImport } from './routes/demo/api.names'
+import { Route as ApiV1OpenapiDotjsonRouteImport } from './routes/api.v1.openapi[.]json'
 import { Route as DemoStartSsrIndexRouteImport } from './routes/demo/start.ssr.index'
+import { Route as DemoStartSsrStreamingRouteImport } from './routes/demo/start.ssr.streaming'
 import { Route as DemoStartSsrSpaModeRouteImport } from './routes/demo/start.ssr.spa-mode'
 import { Route as DemoStartSsrFullSsrRouteImport } from './routes/demo/start.ssr.full-ssr'
 import { Route as DemoStartSsrDataOnlyRouteImport } from './routes/demo/start.ssr.data-only'
+import { Route as ApiV1TaxJurisdictionsRouteImport } from './routes/api.v1.tax.jurisdictions'
+import { Route as ApiV1TaxEstimateRouteImport } from './routes/api.v1.tax.estimate'
 
+const SitemapDotxmlRoute = SitemapDotxmlRouteImport.update({
+  id: '/sitemap.xml',
+  path: '/sitemap.xml',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const SignupRoute = SignupRouteImport.update({
+  id: '/signup',
+  path: '/signup',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const RobotsDottxtRoute = RobotsDottxtRouteImport.update({
+  id: '/robots.txt',
+  path: '/robots.txt',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const LogoutRoute = LogoutRouteImport.update({
+  id: '/logout',
+  path: '/logout',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const LoginRoute = LoginRouteImport.update({
+  id: '/login',
+  path: '/login',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const CalculatorRoute = CalculatorRouteImport.update({
+  id: '/calculator',
+  path: '/calculator',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiEstimateRoute = ApiEstimateRouteImport.update({
+  id: '/api/estimate',
+  path: '/api/estimate',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStartServerFuncsRoute = DemoStartServerFuncsRouteImport.update({
   id: '/demo/start/server-funcs',
   path: '/demo/start/server-funcs',
@@ -44,11 +90,21 @@ const DemoApiNamesRoute = DemoApiNamesRouteImport.update({
   path: '/demo/api/names',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiV1OpenapiDotjsonRoute = ApiV1OpenapiDotjsonRouteImport.update({
+  id: '/api/v1/openapi.json',
+  path: '/api/v1/openapi.json',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStartSsrIndexRoute = DemoStartSsrIndexRouteImport.update({
   id: '/demo/start/ssr/',
   path: '/demo/start/ssr/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const DemoStartSsrStreamingRoute = DemoStartSsrStreamingRouteImport.update({
+  id: '/demo/start/ssr/streaming',
+  path: '/demo/start/ssr/streaming',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStartSsrSpaModeRoute = DemoStartSsrSpaModeRouteImport.update({
   id: '/demo/start/ssr/spa-mode',
   path: '/demo/start/ssr/spa-mode',
@@ -64,91 +120,220 @@ const DemoStartSsrDataOnlyRoute = DemoStartSsrDataOnlyRouteImport.update({
   path: '/demo/start/ssr/data-only',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiV1TaxJurisdictionsRoute = ApiV1TaxJurisdictionsRouteImport.update({
+  id: '/api/v1/tax/jurisdictions',
+  path: '/api/v1/tax/jurisdictions',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiV1TaxEstimateRoute = ApiV1TaxEstimateRouteImport.update({
+  id: '/api/v1/tax/estimate',
+  path: '/api/v1/tax/estimate',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/calculator': typeof CalculatorRoute
+  '/login': typeof LoginRoute
+  '/logout': typeof LogoutRoute
+  '/robots.txt': typeof RobotsDottxtRoute
+  '/signup': typeof SignupRoute
+  '/sitemap.xml': typeof SitemapDotxmlRoute
+  '/api/estimate': typeof ApiEstimateRoute
+  '/api/v1/openapi.json': typeof ApiV1OpenapiDotjsonRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/chatbot': typeof DemoStartChatbotRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/v1/tax/estimate': typeof ApiV1TaxEstimateRoute
+  '/api/v1/tax/jurisdictions': typeof ApiV1TaxJurisdictionsRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
+  '/demo/start/ssr/streaming': typeof DemoStartSsrStreamingRoute
   '/demo/start/ssr': typeof DemoStartSsrIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/calculator': typeof CalculatorRoute
+  '/login': typeof LoginRoute
+  '/logout': typeof LogoutRoute
+  '/robots.txt': typeof RobotsDottxtRoute
+  '/signup': typeof SignupRoute
+  '/sitemap.xml': typeof SitemapDotxmlRoute
+  '/api/estimate': typeof ApiEstimateRoute
+  '/api/v1/openapi.json': typeof ApiV1OpenapiDotjsonRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/chatbot': typeof DemoStartChatbotRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/v1/tax/estimate': typeof ApiV1TaxEstimateRoute
+  '/api/v1/tax/jurisdictions': typeof ApiV1TaxJurisdictionsRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
+  '/demo/start/ssr/streaming': typeof DemoStartSsrStreamingRoute
   '/demo/start/ssr': typeof DemoStartSsrIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/calculator': typeof CalculatorRoute
+  '/login': typeof LoginRoute
+  '/logout': typeof LogoutRoute
+  '/robots.txt': typeof RobotsDottxtRoute
+  '/signup': typeof SignupRoute
+  '/sitemap.xml': typeof SitemapDotxmlRoute
+  '/api/estimate': typeof ApiEstimateRoute
+  '/api/v1/openapi.json': typeof ApiV1OpenapiDotjsonRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/chatbot': typeof DemoStartChatbotRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/v1/tax/estimate': typeof ApiV1TaxEstimateRoute
+  '/api/v1/tax/jurisdictions': typeof ApiV1TaxJurisdictionsRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
+  '/demo/start/ssr/streaming': typeof DemoStartSsrStreamingRoute
   '/demo/start/ssr/': typeof DemoStartSsrIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/calculator'
+    | '/login'
+    | '/logout'
+    | '/robots.txt'
+    | '/signup'
+    | '/sitemap.xml'
+    | '/api/estimate'
+    | '/api/v1/openapi.json'
     | '/demo/api/names'
     | '/demo/start/api-request'
     | '/demo/start/chatbot'
     | '/demo/start/server-funcs'
+    | '/api/v1/tax/estimate'
+    | '/api/v1/tax/jurisdictions'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
+    | '/demo/start/ssr/streaming'
     | '/demo/start/ssr'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/calculator'
+    | '/login'
+    | '/logout'
+    | '/robots.txt'
+    | '/signup'
+    | '/sitemap.xml'
+    | '/api/estimate'
+    | '/api/v1/openapi.json'
     | '/demo/api/names'
     | '/demo/start/api-request'
     | '/demo/start/chatbot'
     | '/demo/start/server-funcs'
+    | '/api/v1/tax/estimate'
+    | '/api/v1/tax/jurisdictions'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
+    | '/demo/start/ssr/streaming'
     | '/demo/start/ssr'
   id:
     | '__root__'
     | '/'
+    | '/calculator'
+    | '/login'
+    | '/logout'
+    | '/robots.txt'
+    | '/signup'
+    | '/sitemap.xml'
+    | '/api/estimate'
+    | '/api/v1/openapi.json'
     | '/demo/api/names'
     | '/demo/start/api-request'
     | '/demo/start/chatbot'
     | '/demo/start/server-funcs'
+    | '/api/v1/tax/estimate'
+    | '/api/v1/tax/jurisdictions'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
+    | '/demo/start/ssr/streaming'
     | '/demo/start/ssr/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  CalculatorRoute: typeof CalculatorRoute
+  LoginRoute: typeof LoginRoute
+  LogoutRoute: typeof LogoutRoute
+  RobotsDottxtRoute: typeof RobotsDottxtRoute
+  SignupRoute: typeof SignupRoute
+  SitemapDotxmlRoute: typeof SitemapDotxmlRoute
+  ApiEstimateRoute: typeof ApiEstimateRoute
+  ApiV1OpenapiDotjsonRoute: typeof ApiV1OpenapiDotjsonRoute
   DemoApiNamesRoute: typeof DemoApiNamesRoute
   DemoStartApiRequestRoute: typeof DemoStartApiRequestRoute
   DemoStartChatbotRoute: typeof DemoStartChatbotRoute
   DemoStartServerFuncsRoute: typeof DemoStartServerFuncsRoute
+  ApiV1TaxEstimateRoute: typeof ApiV1TaxEstimateRoute
+  ApiV1TaxJurisdictionsRoute: typeof ApiV1TaxJurisdictionsRoute
   DemoStartSsrDataOnlyRoute: typeof DemoStartSsrDataOnlyRoute
   DemoStartSsrFullSsrRoute: typeof DemoStartSsrFullSsrRoute
   DemoStartSsrSpaModeRoute: typeof DemoStartSsrSpaModeRoute
+  DemoStartSsrStreamingRoute: typeof DemoStartSsrStreamingRoute
   DemoStartSsrIndexRoute: typeof DemoStartSsrIndexRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/sitemap.xml': {
+      id: '/sitemap.xml'
+      path: '/sitemap.xml'
+      fullPath: '/sitemap.xml'
+      preLoaderRoute: typeof SitemapDotxmlRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/signup': {
+      id: '/signup'
+      path: '/signup'
+      fullPath: '/signup'
+      preLoaderRoute: typeof SignupRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/robots.txt': {
+      id: '/robots.txt'
+      path: '/robots.txt'
+      fullPath: '/robots.txt'
+      preLoaderRoute: typeof RobotsDottxtRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/logout': {
+      id: '/logout'
+      path: '/logout'
+      fullPath: '/logout'
+      preLoaderRoute: typeof LogoutRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/login': {
+      id: '/login'
+      path: '/login'
+      fullPath: '/login'
+      preLoaderRoute: typeof LoginRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/calculator': {
+      id: '/calculator'
+      path: '/calculator'
+      fullPath: '/calculator'
+      preLoaderRoute: typeof CalculatorRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -156,6 +341,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/estimate': {
+      id: '/api/estimate'
+      path: '/api/estimate'
+      fullPath: '/api/estimate'
+      preLoaderRoute: typeof ApiEstimateRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/start/server-funcs': {
       id: '/demo/start/server-funcs'
       path: '/demo/start/server-funcs'
@@ -184,6 +376,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoApiNamesRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/v1/openapi.json': {
+      id: '/api/v1/openapi.json'
+      path: '/api/v1/openapi.json'
+      fullPath: '/api/v1/openapi.json'
+      preLoaderRoute: typeof ApiV1OpenapiDotjsonRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/start/ssr/': {
       id: '/demo/start/ssr/'
       path: '/demo/start/ssr'
@@ -191,6 +390,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoStartSsrIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/demo/start/ssr/streaming': {
+      id: '/demo/start/ssr/streaming'
+      path: '/demo/start/ssr/streaming'
+      fullPath: '/demo/start/ssr/streaming'
+      preLoaderRoute: typeof DemoStartSsrStreamingRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/start/ssr/spa-mode': {
       id: '/demo/start/ssr/spa-mode'
       path: '/demo/start/ssr/spa-mode'
@@ -212,18 +418,43 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoStartSsrDataOnlyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/v1/tax/jurisdictions': {
+      id: '/api/v1/tax/jurisdictions'
+      path: '/api/v1/tax/jurisdictions'
+      fullPath: '/api/v1/tax/jurisdictions'
+      preLoaderRoute: typeof ApiV1TaxJurisdictionsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/v1/tax/estimate': {
+      id: '/api/v1/tax/estimate'
+      path: '/api/v1/tax/estimate'
+      fullPath: '/api/v1/tax/estimate'
+      preLoaderRoute: typeof ApiV1TaxEstimateRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  CalculatorRoute: CalculatorRoute,
+  LoginRoute: LoginRoute,
+  LogoutRoute: LogoutRoute,
+  RobotsDottxtRoute: RobotsDottxtRoute,
+  SignupRoute: SignupRoute,
+  SitemapDotxmlRoute: SitemapDotxmlRoute,
+  ApiEstimateRoute: ApiEstimateRoute,
+  ApiV1OpenapiDotjsonRoute: ApiV1OpenapiDotjsonRoute,
   DemoApiNamesRoute: DemoApiNamesRoute,
   DemoStartApiRequestRoute: DemoStartApiRequestRoute,
   DemoStartChatbotRoute: DemoStartChatbotRoute,
   DemoStartServerFuncsRoute: DemoStartServerFuncsRoute,
+  ApiV1TaxEstimateRoute: ApiV1TaxEstimateRoute,
+  ApiV1TaxJurisdictionsRoute: ApiV1TaxJurisdictionsRoute,
   DemoStartSsrDataOnlyRoute: DemoStartSsrDataOnlyRoute,
   DemoStartSsrFullSsrRoute: DemoStartSsrFullSsrRoute,
   DemoStartSsrSpaModeRoute: DemoStartSsrSpaModeRoute,
+  DemoStartSsrStreamingRoute: DemoStartSsrStreamingRoute,
   DemoStartSsrIndexRoute: DemoStartSsrIndexRoute,
 }
 export const routeTree = rootRouteImport
@@ -231,10 +462,11 @@ export const routeTree = rootRouteImport
   ._addFileTypes<FileRouteTypes>()
 
 import type { getRouter } from './router.tsx'
-import type { createStart } from '@tanstack/react-start'
+import type { startInstance } from './start.ts'
 declare module '@tanstack/react-start' {
   interface Register {
     ssr: true
     router: Awaited<ReturnType<typeof getRouter>>
+    config: Awaited<ReturnType<typeof startInstance.getOptions>>
   }
 }
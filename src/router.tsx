@@ -1,13 +1,47 @@
+import { QueryClient } from '@tanstack/react-query'
 import { createRouter } from '@tanstack/react-router'
+import { setupRouterSsrQueryIntegration } from '@tanstack/react-router-ssr-query'
+import { createIsomorphicFn } from '@tanstack/react-start'
+import NotFound from './components/NotFound'
+import PageSkeleton from './components/PageSkeleton'
+import RouteError from './components/RouteError'
+import { requestLocale } from './data/i18n'
 
 // Import the generated route tree
 import { routeTree } from './routeTree.gen'
 
+// The server creates a router per request, so it can read the language
+// from the request; in the browser the root's beforeLoad supplies it
+const initialLocale = createIsomorphicFn()
+  .server(() => requestLocale())
+  .client(() => undefined)
+
 // Create a new router instance
 export const getRouter = () => {
-  return createRouter({
+  // One cache per router, so requests on the server never share data
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      // Data prefetched during SSR stays fresh through hydration instead of
+      // being fetched again straight away
+      queries: { staleTime: 30_000 },
+    },
+  })
+
+  const router = createRouter({
     routeTree,
+    context: { queryClient, locale: initialLocale() },
     scrollRestoration: true,
     defaultPreloadStaleTime: 0,
+    // Every route gets its own error boundary, 404 and loading state, so a
+    // failure only replaces the page, never the header around it
+    defaultErrorComponent: RouteError,
+    defaultNotFoundComponent: NotFound,
+    defaultPendingComponent: PageSkeleton,
   })
+
+  // Sends the queries loaders prefetched to the browser with the page, and
+  // wraps the app in a QueryClientProvider
+  setupRouterSsrQueryIntegration({ router, queryClient })
+
+  return router
 }
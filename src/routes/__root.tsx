@@ -1,13 +1,48 @@
-import { HeadContent, Scripts, createRootRoute } from '@tanstack/react-router'
+import type { QueryClient } from '@tanstack/react-query'
+import {
+  HeadContent,
+  Scripts,
+  createRootRouteWithContext,
+} from '@tanstack/react-router'
 import { TanStackRouterDevtoolsPanel } from '@tanstack/react-router-devtools'
 import { TanStackDevtools } from '@tanstack/react-devtools'
 
 import Header from '../components/Header'
+import NotFound from '../components/NotFound'
+import RouteError from '../components/RouteError'
+import ThemeProvider from '../components/ThemeProvider'
+import { sessionQueryOptions } from '../data/queries'
+import { useTheme } from '../hooks/useTheme'
+import { useTranslation } from '../hooks/useTranslation'
+import { createI18n, LOCALE_TAGS, type Locale } from '../lib/i18n'
+import { SITE_NAME } from '../lib/seo'
+import { SYSTEM_THEME_SCRIPT } from '../lib/theme'
 
 import appCss from '../styles.css?url'
 
-export const Route = createRootRoute({
-  head: () => ({
+/**
+ * RouterContext - Context the router is created with, before any route
+ * adds to it
+ * @property queryClient - Query cache loaders prefetch into
+ * @property locale - Visitor's language, known up front on the server so
+ * `head` can use it while the root's `beforeLoad` result is not yet in
+ * the match context
+ */
+export interface RouterContext {
+  queryClient: QueryClient
+  locale?: Locale
+}
+
+export const Route = createRootRouteWithContext<RouterContext>()({
+  // Every route can read the signed-in user (or null), the language to
+  // render in and the saved theme from its context. They come from the
+  // query cache, so client-side navigations only call the server for them
+  // once the cached copy is stale.
+  beforeLoad: ({ context }) =>
+    context.queryClient.fetchQuery(sessionQueryOptions()),
+
+  // Defaults for pages without their own `head`; see `seo` in lib/seo.ts
+  head: ({ match }) => ({
     meta: [
       {
         charSet: 'utf-8',
@@ -17,8 +52,14 @@ export const Route = createRootRoute({
         content: 'width=device-width, initial-scale=1',
       },
       {
-        title: 'TanStack Start Starter',
+        title: SITE_NAME,
+      },
+      {
+        name: 'description',
+        content: createI18n(match.context.locale).t('seo.description'),
       },
+      { property: 'og:site_name', content: SITE_NAME },
+      { name: 'twitter:card', content: 'summary' },
     ],
     links: [
       {
@@ -28,13 +69,36 @@ export const Route = createRootRoute({
     ],
   }),
 
+  // Catches failures in the root route itself, e.g. its beforeLoad
+  errorComponent: RouteError,
+  notFoundComponent: NotFound,
+
   shellComponent: RootDocument,
 })
 
 function RootDocument({ children }: { children: React.ReactNode }) {
   return (
-    <html lang="en">
+    <ThemeProvider>
+      <Document>{children}</Document>
+    </ThemeProvider>
+  )
+}
+
+function Document({ children }: { children: React.ReactNode }) {
+  const { locale } = useTranslation()
+  const { preference, theme } = useTheme()
+  return (
+    // With the system theme the class can differ from the server's render,
+    // once SYSTEM_THEME_SCRIPT has run
+    <html
+      lang={LOCALE_TAGS[locale]}
+      className={theme === 'dark' ? 'dark' : undefined}
+      suppressHydrationWarning
+    >
       <head>
+        {preference === 'system' && (
+          <script dangerouslySetInnerHTML={{ __html: SYSTEM_THEME_SCRIPT }} />
+        )}
         <HeadContent />
       </head>
       <body>
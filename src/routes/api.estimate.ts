@@ -0,0 +1,57 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { ApiError, apiHandlers } from '@/lib/api'
+import {
+  checkCalculatorSearch,
+  validateCalculatorSearch,
+} from '@/lib/calculator'
+import { estimateToCsv, estimateToPdf } from '@/lib/report'
+import { calculatePaycheck } from '@/lib/tax'
+
+/**
+ * Downloads an estimate as a report. Takes the /calculator search params
+ * plus `format=csv` or `format=pdf`. Shares the REST API's rate limit and
+ * error envelope, since building a PDF costs as much as an API call.
+ */
+export const Route = createFileRoute('/api/estimate')({
+  server: {
+    handlers: apiHandlers({
+      GET: ({ request }) => {
+        const params = Object.fromEntries(new URL(request.url).searchParams)
+        const format = params.format ?? 'pdf'
+        if (format !== 'csv' && format !== 'pdf') {
+          throw new ApiError(422, 'invalid_input', 'Unknown report format', {
+            format: 'Use "csv" or "pdf"',
+          })
+        }
+
+        const search = validateCalculatorSearch(params)
+        const checked = checkCalculatorSearch({
+          ...search,
+          pay: search.pay ?? 'salary',
+        })
+        if ('errors' in checked) {
+          throw new ApiError(
+            422,
+            'invalid_input',
+            'Some fields are invalid',
+            checked.errors,
+          )
+        }
+
+        const estimate = calculatePaycheck(checked.input)
+        const headers = {
+          'Content-Disposition': `attachment; filename="paycheck-estimate.${format}"`,
+          'Cache-Control': 'no-store',
+        }
+        if (format === 'csv') {
+          return new Response(estimateToCsv(search, estimate), {
+            headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' },
+          })
+        }
+        return new Response(estimateToPdf(search, estimate), {
+          headers: { ...headers, 'Content-Type': 'application/pdf' },
+        })
+      },
+    }),
+  },
+})
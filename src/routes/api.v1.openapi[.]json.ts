@@ -0,0 +1,14 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { apiHandlers } from '@/lib/api'
+import { buildOpenApiDocument } from '@/lib/openapi'
+
+/**
+ * Serves the OpenAPI document for /api/v1
+ */
+export const Route = createFileRoute('/api/v1/openapi.json')({
+  server: {
+    handlers: apiHandlers({
+      GET: () => Response.json(buildOpenApiDocument()),
+    }),
+  },
+})
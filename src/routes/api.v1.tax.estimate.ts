@@ -0,0 +1,49 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { ApiError, apiHandlers, negotiate, ok, readJson } from '@/lib/api'
+import { checkCalculatorSearch } from '@/lib/calculator'
+import { estimateToCsv } from '@/lib/report'
+import { calculatePaycheck, roundPaycheckEstimate } from '@/lib/tax'
+import { calculatorSearchSchema } from '@/lib/schemas'
+
+/**
+ * Estimates a paycheck from a JSON body with the same fields as the
+ * /calculator search params. Responds with JSON, or with the CSV report
+ * when the client prefers `text/csv`.
+ */
+export const Route = createFileRoute('/api/v1/tax/estimate')({
+  server: {
+    handlers: apiHandlers({
+      POST: async ({ request }) => {
+        const format = negotiate(request, ['application/json', 'text/csv'])
+        const parsed = calculatorSearchSchema.parse(await readJson(request))
+        if (!parsed.ok) {
+          throw new ApiError(
+            422,
+            'invalid_input',
+            'Some fields are invalid',
+            parsed.errors,
+          )
+        }
+
+        const search = { ...parsed.value, pay: parsed.value.pay ?? 'salary' }
+        const checked = checkCalculatorSearch(search)
+        if ('errors' in checked) {
+          throw new ApiError(
+            422,
+            'invalid_input',
+            'Some fields are invalid',
+            checked.errors,
+          )
+        }
+
+        const estimate = calculatePaycheck(checked.input)
+        if (format === 'text/csv') {
+          return new Response(estimateToCsv(search, estimate), {
+            headers: { 'Content-Type': 'text/csv; charset=utf-8' },
+          })
+        }
+        return ok({ input: search, estimate: roundPaycheckEstimate(estimate) })
+      },
+    }),
+  },
+})
@@ -0,0 +1,67 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { ApiError, apiHandlers, negotiate, ok } from '@/lib/api'
+import { LOCAL_TAXES, STATE_TAX_TABLES, US_STATES } from '@/lib/tax'
+
+/**
+ * Jurisdiction - A state and the tax schedules the estimator knows for it
+ * @property code - Postal abbreviation
+ * @property name - Full state name
+ * @property supported - Whether the estimator has a state tax table; for
+ * other states the estimate leaves out state income tax
+ * @property standardDeduction - Single-filer state standard deduction
+ * @property brackets - Single-filer state brackets
+ * @property localTaxes - City and county income taxes, with the names that
+ * select them
+ */
+export interface Jurisdiction {
+  code: string
+  name: string
+  supported: boolean
+  standardDeduction?: number
+  brackets?: Array<{ upTo: number | null; rate: number }>
+  localTaxes: Array<{ name: string; cities: string[]; counties: string[] }>
+}
+
+function toJurisdiction(code: string): Jurisdiction {
+  const table = STATE_TAX_TABLES[code]
+  return {
+    code,
+    name: US_STATES[code],
+    supported: Boolean(table),
+    ...(table && {
+      standardDeduction: table.standardDeduction,
+      brackets: table.brackets,
+    }),
+    localTaxes: LOCAL_TAXES.filter((tax) => tax.state === code).map((tax) => ({
+      name: tax.name,
+      cities: tax.cities ?? [],
+      counties: tax.counties ?? [],
+    })),
+  }
+}
+
+/**
+ * Lists the states the estimator covers. `?state=NY` narrows the list to
+ * one state.
+ */
+export const Route = createFileRoute('/api/v1/tax/jurisdictions')({
+  server: {
+    handlers: apiHandlers({
+      GET: ({ request }) => {
+        negotiate(request, ['application/json'])
+        const state = new URL(request.url).searchParams.get('state')
+        if (state === null) {
+          return ok(Object.keys(US_STATES).map(toJurisdiction))
+        }
+
+        const code = state.toUpperCase()
+        if (!US_STATES[code]) {
+          throw new ApiError(422, 'invalid_input', 'Unknown state', {
+            state: 'Use a two-letter postal abbreviation',
+          })
+        }
+        return ok([toJurisdiction(code)])
+      },
+    }),
+  },
+})
@@ -0,0 +1,325 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { Calculator } from 'lucide-react'
+import { useState, type FormEvent } from 'react'
+import { estimatePaycheck } from '@/data/calculator'
+import {
+  checkCalculatorSearch,
+  validateCalculatorSearch,
+  type CalculatorErrors,
+  type CalculatorField,
+  type CalculatorSearch,
+} from '@/lib/calculator'
+import { useTranslation } from '@/hooks/useTranslation'
+import { formatLineItem, formatMoney, formatPercent } from '@/lib/format'
+import { createI18n, type I18n } from '@/lib/i18n'
+import { seo } from '@/lib/seo'
+import {
+  FILING_STATUS_LABELS,
+  PAY_FREQUENCY_LABELS,
+  US_STATES,
+  type FilingStatus,
+  type PayFrequency,
+  type TaxEstimate,
+} from '@/lib/tax'
+
+/**
+ * Route - Inputs live in the search params so an estimate can be bookmarked
+ * or shared; the loader computes the result on the server during SSR
+ */
+export const Route = createFileRoute('/calculator')({
+  component: PaycheckCalculator,
+  staticData: {
+    nav: { title: 'header.calculator', icon: Calculator, order: 20 },
+    sitemap: { priority: 0.9, changeFrequency: 'monthly' },
+  },
+  validateSearch: (search: Record<string, unknown>) =>
+    validateCalculatorSearch(search),
+  // The router keeps raw params next to the validated ones, so clean them
+  // again before they reach the server function's schema
+  loaderDeps: ({ search }) =>
+    validateCalculatorSearch(search as Record<string, unknown>),
+  loader: async ({ deps }) => await estimatePaycheck({ data: deps }),
+  // A shared estimate previews with its result
+  head: ({ match, loaderData }) => {
+    const { locale, t } = createI18n(match.context.locale)
+    const { search } = match
+    const paycheck =
+      loaderData?.kind === 'estimate'
+        ? loaderData.estimate.perPaycheck
+        : undefined
+    return seo({
+      title: t('header.calculator'),
+      description: paycheck
+        ? t('seo.calculator.estimate', {
+            net: formatMoney(paycheck.netPay, locale),
+            frequency: t(
+              `frequency.${search.frequency ?? 'biweekly'}`,
+            ).toLowerCase(),
+            gross: formatMoney(paycheck.grossPay, locale),
+            state: US_STATES[search.state!] ?? search.state!,
+          })
+        : t('seo.calculator.description'),
+      path: '/calculator',
+    })
+  },
+})
+
+/**
+ * Validates a submitted form the same way the server will, and also flags
+ * values that are not numbers at all (which the URL parser would drop)
+ * @param i18n - Language of the error messages
+ * @returns Search params to navigate to, or errors to show
+ */
+function readForm(
+  form: HTMLFormElement,
+  { locale, t }: I18n,
+): { search: CalculatorSearch } | { errors: CalculatorErrors } {
+  const raw = Object.fromEntries(new FormData(form)) as Record<string, string>
+  const search = validateCalculatorSearch(raw)
+  const errors: CalculatorErrors = {}
+  for (const [field, value] of Object.entries(raw)) {
+    if (value.trim() !== '' && !(field in search)) {
+      errors[field as CalculatorField] = t('calculator.notANumber')
+    }
+  }
+
+  const checked = checkCalculatorSearch(search, locale)
+  if ('errors' in checked) return { errors: { ...checked.errors, ...errors } }
+  return Object.keys(errors).length > 0 ? { errors } : { search }
+}
+
+/**
+ * PaycheckCalculator - Form-based paycheck estimator
+ *
+ * Runs the same calculator as the chatbot, so both always agree. The form
+ * is a plain GET form, so it still works before the page hydrates.
+ */
+function PaycheckCalculator() {
+  const search = Route.useSearch()
+  const result = Route.useLoaderData()
+  const navigate = useNavigate({ from: Route.fullPath })
+  const i18n = useTranslation()
+  const { t } = i18n
+  const [payKind, setPayKind] = useState(search.pay ?? 'salary')
+  const [clientErrors, setClientErrors] = useState<CalculatorErrors | null>(
+    null,
+  )
+  const errors =
+    clientErrors ?? (result?.kind === 'invalid' ? result.errors : {})
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const submitted = readForm(event.currentTarget, i18n)
+    if ('errors' in submitted) {
+      setClientErrors(submitted.errors)
+      return
+    }
+    setClientErrors(null)
+    navigate({ search: submitted.search })
+  }
+
+  const textField = (
+    field: CalculatorField,
+    label: string,
+    placeholder?: string,
+  ) => (
+    <label className="flex flex-col gap-1 text-sm text-ink-muted">
+      {label}
+      <input
+        name={field}
+        defaultValue={search[field]}
+        placeholder={placeholder}
+        aria-invalid={errors[field] ? true : undefined}
+        className={`rounded-lg border px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+          errors[field] ? 'border-red-500' : 'border-line-strong'
+        }`}
+      />
+      {errors[field] && (
+        <span className="text-xs text-red-600">{errors[field]}</span>
+      )}
+    </label>
+  )
+
+  return (
+    <div className="min-h-screen bg-page flex justify-center p-4">
+      <div className="w-full max-w-3xl space-y-6">
+        <form
+          method="get"
+          onSubmit={handleSubmit}
+          noValidate
+          className="rounded-2xl bg-card shadow-sm border border-line p-6 space-y-5"
+        >
+          <h1 className="text-xl font-semibold text-ink">
+            {t('calculator.title')}
+          </h1>
+
+          <fieldset className="flex gap-4 text-sm text-ink-muted">
+            <legend className="sr-only">{t('calculator.payType')}</legend>
+            {(['salary', 'hourly'] as const).map((kind) => (
+              <label key={kind} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="pay"
+                  value={kind}
+                  checked={payKind === kind}
+                  onChange={() => setPayKind(kind)}
+                />
+                {t(
+                  kind === 'salary'
+                    ? 'calculator.salaried'
+                    : 'calculator.hourly',
+                )}
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {payKind === 'salary' ? (
+              textField('salary', t('calculator.salary'), '85000')
+            ) : (
+              <>
+                {textField('hours', t('calculator.hours'), '40')}
+                {textField('rate', t('calculator.rate'), '35')}
+              </>
+            )}
+            <label className="flex flex-col gap-1 text-sm text-ink-muted">
+              {t('calculator.frequency')}
+              <select
+                name="frequency"
+                defaultValue={search.frequency ?? 'biweekly'}
+                className="rounded-lg border border-line-strong px-3 py-2"
+              >
+                {(Object.keys(PAY_FREQUENCY_LABELS) as PayFrequency[]).map(
+                  (value) => (
+                    <option key={value} value={value}>
+                      {t(`frequency.${value}`)}
+                    </option>
+                  ),
+                )}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-sm text-ink-muted">
+              {t('calculator.filing')}
+              <select
+                name="filing"
+                defaultValue={search.filing ?? 'single'}
+                className="rounded-lg border border-line-strong px-3 py-2"
+              >
+                {(Object.keys(FILING_STATUS_LABELS) as FilingStatus[]).map(
+                  (value) => (
+                    <option key={value} value={value}>
+                      {t(`filing.${value}`)}
+                    </option>
+                  ),
+                )}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-sm text-ink-muted">
+              {t('calculator.state')}
+              <select
+                name="state"
+                defaultValue={search.state ?? 'CA'}
+                className="rounded-lg border border-line-strong px-3 py-2"
+              >
+                {Object.entries(US_STATES).map(([code, name]) => (
+                  <option key={code} value={code}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              {errors.state && (
+                <span className="text-xs text-red-600">{errors.state}</span>
+              )}
+            </label>
+            {textField('county', t('calculator.county'), 'Kings')}
+            {textField('city', t('calculator.city'), 'New York')}
+          </div>
+
+          <h2 className="text-sm font-semibold text-ink">
+            {t('calculator.withholding')}
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {textField('allowances', t('calculator.allowances'), '0')}
+            {textField('extra', t('calculator.extra'), '0')}
+            {textField('k401', t('calculator.k401'), '0')}
+            {textField('hsa', t('calculator.hsa'), '0')}
+            {textField('health', t('calculator.health'), '0')}
+          </div>
+
+          <button
+            type="submit"
+            className="rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 transition"
+          >
+            {t('calculator.submit')}
+          </button>
+        </form>
+
+        {result?.kind === 'estimate' && !clientErrors && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Breakdown
+              title={t('calculator.perPaycheck')}
+              estimate={result.estimate.perPaycheck}
+            />
+            <Breakdown
+              title={t('calculator.annual')}
+              estimate={result.estimate.annual}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Breakdown - Itemized deductions, taxes and net pay for one period
+ */
+function Breakdown({
+  title,
+  estimate,
+}: {
+  title: string
+  estimate: TaxEstimate
+}) {
+  const i18n = useTranslation()
+  const { locale, t } = i18n
+  const money = (amount: number) => formatMoney(amount, locale)
+  const rows = [...estimate.deductions, ...estimate.lineItems].map(
+    (item) => [formatLineItem(item, i18n), item.amount] as const,
+  )
+
+  return (
+    <div className="rounded-2xl bg-card shadow-sm border border-line p-6 text-sm">
+      <h2 className="font-semibold text-ink mb-3">{title}</h2>
+      <dl className="space-y-1 text-ink-muted">
+        <div className="flex justify-between">
+          <dt>{t('calculator.grossPay')}</dt>
+          <dd>{money(estimate.grossPay)}</dd>
+        </div>
+        {rows.map(([label, amount]) => (
+          <div key={label} className="flex justify-between">
+            <dt>{label}</dt>
+            <dd>-{money(amount)}</dd>
+          </div>
+        ))}
+        <div className="flex justify-between border-t border-line pt-2">
+          <dt>
+            {t('calculator.totalTaxes', {
+              rate: formatPercent(estimate.effectiveRate, locale),
+            })}
+          </dt>
+          <dd>{money(estimate.totalTax)}</dd>
+        </div>
+        <div className="flex justify-between font-semibold text-ink">
+          <dt>{t('calculator.netPay')}</dt>
+          <dd>{money(estimate.netPay)}</dd>
+        </div>
+      </dl>
+      {estimate.notes.map((note) => (
+        <p key={note} className="mt-3 text-xs text-ink-subtle">
+          {note}
+        </p>
+      ))}
+    </div>
+  )
+}
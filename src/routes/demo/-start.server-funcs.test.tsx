@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import {
+  createMemoryHistory,
+  createRootRouteWithContext,
+  createRouter,
+  Outlet,
+  RouterProvider,
+} from '@tanstack/react-router'
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Todo } from '@/data/repository'
+import { createI18n, type Locale } from '@/lib/i18n'
+import { ValidationError } from '@/lib/validation'
+import { Route as TodosRoute } from './start.server-funcs'
+
+/**
+ * Stands in for the todo server functions, so each test decides what the
+ * server answers
+ */
+const server = vi.hoisted(() => ({
+  getTodos: vi.fn(),
+  addTodo: vi.fn(),
+  completeTodo: vi.fn(),
+  deleteTodo: vi.fn(),
+  reorderTodos: vi.fn(),
+  updateTodo: vi.fn(),
+}))
+
+vi.mock('@/data/todos', () => server)
+
+const TODOS: Todo[] = [
+  { id: 1, name: 'Buy milk', completed: false },
+  { id: 2, name: 'Walk the dog', completed: true },
+]
+
+/**
+ * Renders the todo page for a signed-in user, with the list already loaded
+ */
+async function renderPage(locale: Locale = 'en') {
+  const queryClient = new QueryClient()
+  const rootRoute = createRootRouteWithContext<object>()({ component: Outlet })
+  const route = TodosRoute.update({
+    id: '/demo/start/server-funcs',
+    path: '/demo/start/server-funcs',
+    getParentRoute: () => rootRoute,
+  } as never)
+  const router = createRouter({
+    routeTree: rootRoute.addChildren([route]),
+    history: createMemoryHistory({
+      initialEntries: ['/demo/start/server-funcs'],
+    }),
+    context: {
+      queryClient,
+      locale,
+      user: { id: 7, username: 'ada' },
+    },
+  })
+  render(
+    <QueryClientProvider client={queryClient}>
+      <RouterProvider router={router} />
+    </QueryClientProvider>,
+  )
+  await screen.findByText('Buy milk')
+  return createI18n(locale)
+}
+
+/**
+ * Names of the todos on screen, in order
+ */
+function visibleTodos() {
+  return screen.getAllByRole('listitem').map((item) => item.textContent)
+}
+
+describe('todo page', () => {
+  beforeEach(() => {
+    server.getTodos.mockResolvedValueOnce(TODOS)
+    // Refetches after a mutation never settle, so whatever is on screen
+    // afterwards came from the cache update, not the server
+    server.getTodos.mockReturnValue(new Promise(() => {}))
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.resetAllMocks()
+  })
+
+  it('removes a todo right away and puts it back when the delete fails', async () => {
+    let fail!: (error: Error) => void
+    server.deleteTodo.mockReturnValue(
+      new Promise((_, reject) => (fail = reject)),
+    )
+    const { t } = await renderPage()
+
+    fireEvent.click(
+      screen.getAllByRole('button', { name: t('todos.delete') })[0],
+    )
+    await waitFor(() => expect(visibleTodos()).toEqual(['Walk the dog']))
+    expect(server.deleteTodo).toHaveBeenCalledWith({ data: { id: 1 } })
+
+    fail(new Error('Database unavailable'))
+    expect((await screen.findByRole('alert')).textContent).toBe(
+      t('todos.deleteFailed', { problem: 'Database unavailable' }),
+    )
+    expect(visibleTodos()).toEqual(['Buy milk', 'Walk the dog'])
+    // The list is refetched to pick up changes made elsewhere
+    expect(server.getTodos).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops a rejected todo and hands its text back with the reason', async () => {
+    server.addTodo.mockRejectedValue(
+      new ValidationError({ name: 'Must be 200 characters or fewer' }),
+    )
+    const { t } = await renderPage('es')
+
+    const input = screen.getByPlaceholderText(t('todos.placeholder'))
+    fireEvent.change(input, { target: { value: 'Too long' } })
+    fireEvent.click(screen.getByRole('button', { name: t('todos.add') }))
+
+    expect(
+      (await screen.findByText(t('validation.tooLong', { max: 200 }))).id,
+    ).toBe('todo-error')
+    expect(visibleTodos()).toEqual(['Buy milk', 'Walk the dog'])
+    expect((input as HTMLInputElement).value).toBe('Too long')
+    expect(screen.queryByRole('alert')).toBeNull()
+  })
+})
@@ -0,0 +1,140 @@
+import {
+  createMemoryHistory,
+  createRootRoute,
+  createRouter,
+  Outlet,
+  RouterProvider,
+} from '@tanstack/react-router'
+import { renderToReadableStream } from 'react-dom/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { Route as StreamingRoute } from './start.ssr.streaming'
+
+/**
+ * Stands in for the slow server functions, so each test decides when they
+ * settle
+ */
+const lookups = vi.hoisted(() => {
+  const deferred = <T,>() => {
+    let resolve!: (value: T) => void
+    let reject!: (error: Error) => void
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+    return { promise, resolve, reject }
+  }
+  return {
+    deferred,
+    years: deferred<Record<number, number>>(),
+    albums: deferred<Record<number, string>>(),
+  }
+})
+
+vi.mock('@/data/demo.punk-songs', () => ({
+  getPunkSongs: async () => [
+    { id: 1, name: 'Teenage Dirtbag', artist: 'Wheatus' },
+    { id: 2, name: 'Smells Like Teen Spirit', artist: 'Nirvana' },
+  ],
+  getReleaseYears: () => lookups.years.promise,
+  getAlbums: () => lookups.albums.promise,
+}))
+
+/**
+ * Server-renders the streaming page and returns a reader over the HTML it
+ * sends, one flushed chunk at a time
+ */
+async function renderPage(path = '/demo/start/ssr/streaming') {
+  const rootRoute = createRootRoute({ component: Outlet })
+  const route = StreamingRoute.update({
+    id: '/demo/start/ssr/streaming',
+    path: '/demo/start/ssr/streaming',
+    getParentRoute: () => rootRoute,
+  } as never)
+  const router = createRouter({
+    routeTree: rootRoute.addChildren([route]),
+    history: createMemoryHistory({ initialEntries: [path] }),
+  })
+  await router.load()
+
+  const stream = await renderToReadableStream(
+    <RouterProvider router={router} />,
+  )
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader()
+  let html = ''
+  return {
+    /**
+     * Reads until `text` has arrived, returning everything sent so far
+     */
+    async readUntil(text: string) {
+      while (!html.includes(text)) {
+        const { done, value } = await reader.read()
+        if (done) throw new Error(`The page ended without "${text}"`)
+        html += value
+      }
+      return html
+    },
+    /**
+     * Reads to the end of the page
+     */
+    async readAll() {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) return html
+        html += value
+      }
+    },
+  }
+}
+
+describe('streaming SSR demo', () => {
+  beforeEach(() => {
+    lookups.years = lookups.deferred()
+    lookups.albums = lookups.deferred()
+  })
+
+  it('flushes the song list before the release years and albums', async () => {
+    const page = await renderPage()
+
+    const shell = await page.readUntil('Smells Like Teen Spirit')
+    expect(shell).toContain('Teenage Dirtbag')
+    expect(shell).toContain('Release years (1 second)')
+    expect(shell.match(/aria-busy="true"/g)).toHaveLength(2)
+    expect(shell).not.toContain('1991')
+    expect(shell).not.toContain('Nevermind')
+
+    lookups.years.resolve({ 1: 2000, 2: 1991 })
+    const withYears = await page.readUntil('1991')
+    expect(withYears).not.toContain('Nevermind')
+
+    lookups.albums.resolve({ 1: 'Wheatus', 2: 'Nevermind' })
+    expect(await page.readAll()).toContain('Nevermind')
+  })
+
+  it('streams the albums before the release years when they finish first', async () => {
+    const page = await renderPage()
+    await page.readUntil('Smells Like Teen Spirit')
+
+    lookups.albums.resolve({ 1: 'Wheatus', 2: 'Nevermind' })
+    expect(await page.readUntil('Nevermind')).not.toContain('1991')
+
+    lookups.years.resolve({ 1: 2000, 2: 1991 })
+    expect(await page.readAll()).toContain('1991')
+  })
+
+  it('hands a failed albums lookup to the client without holding back the years', async () => {
+    // React logs the error it hands over
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const page = await renderPage('/demo/start/ssr/streaming?fail=true')
+    await page.readUntil('Smells Like Teen Spirit')
+
+    lookups.albums.reject(new Error('The album service did not respond'))
+    lookups.years.resolve({ 1: 2000, 2: 1991 })
+    const html = await page.readAll()
+    expect(html).toContain('1991')
+    // Error boundaries only run in the browser, so React streams an
+    // instruction to render the albums section there, where CatchBoundary
+    // shows the error in place of that section
+    expect(html).toMatch(/\$RX\("B:1"/)
+    vi.restoreAllMocks()
+  })
+})
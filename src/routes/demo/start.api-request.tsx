@@ -1,44 +1,49 @@
-import { useEffect, useState } from 'react'
-
+import { useQuery } from '@tanstack/react-query'
 import { createFileRoute } from '@tanstack/react-router'
-
-function getNames() {
-  return fetch('/demo/api/names').then((res) => res.json() as Promise<string[]>)
-}
+import { Network } from 'lucide-react'
+import Card from '@/components/Card'
+import ListItem from '@/components/ListItem'
+import PageShell from '@/components/PageShell'
+import QueryStatus from '@/components/QueryStatus'
+import { namesQueryOptions } from '@/data/queries'
+import { createI18n } from '@/lib/i18n'
+import { seo } from '@/lib/seo'
 
 export const Route = createFileRoute('/demo/start/api-request')({
   component: Home,
+  staticData: {
+    nav: { title: 'header.apiRequest', icon: Network, order: 40 },
+    sitemap: { priority: 0.5, changeFrequency: 'yearly' },
+  },
+  head: ({ match }) => {
+    const { t } = createI18n(match.context.locale)
+    return seo({
+      title: t('header.apiRequest'),
+      description: t('seo.demo.description', { title: t('header.apiRequest') }),
+      path: '/demo/start/api-request',
+    })
+  },
 })
 
 function Home() {
-  const [names, setNames] = useState<Array<string>>([])
-
-  useEffect(() => {
-    getNames().then(setNames)
-  }, [])
+  const names = useQuery(namesQueryOptions())
 
   return (
-    <div
-      className="flex items-center justify-center min-h-screen p-4 text-white"
-      style={{
-        backgroundColor: '#000',
-        backgroundImage:
-          'radial-gradient(ellipse 60% 60% at 0% 100%, #444 0%, #222 60%, #000 100%)',
-      }}
-    >
-      <div className="w-full max-w-2xl p-8 rounded-xl backdrop-blur-md bg-black/50 shadow-xl border-8 border-black/10">
+    <PageShell centered>
+      <Card>
         <h1 className="text-2xl mb-4">Start API Request Demo - Names List</h1>
-        <ul className="mb-4 space-y-2">
-          {names.map((name) => (
-            <li
-              key={name}
-              className="bg-white/10 border border-white/20 rounded-lg p-3 backdrop-blur-sm shadow-md"
-            >
-              <span className="text-lg text-white">{name}</span>
-            </li>
-          ))}
-        </ul>
-      </div>
-    </div>
+        {names.isSuccess ? (
+          <ul className="mb-4 space-y-2">
+            {names.data.map((name) => (
+              <ListItem key={name}>
+                <span className="text-lg">{name}</span>
+              </ListItem>
+            ))}
+          </ul>
+        ) : (
+          <QueryStatus query={names} rows={3} />
+        )}
+      </Card>
+    </PageShell>
   )
 }
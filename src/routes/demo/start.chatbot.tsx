@@ -1,169 +1,211 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { Mic  } from "lucide-react";
+import { Cpu, Download, Mic  } from "lucide-react";
 import React, { useState, useEffect, useRef } from 'react'
 import { FaRobot } from 'react-icons/fa'
+import ChatbotLanding from '@/components/ChatbotLanding'
+import { getChatSession, sendChatMessage, startChatTopic } from '@/data/chatbot'
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition'
+import { useTranslation } from '@/hooks/useTranslation'
+import { reportUrl } from '@/lib/calculator'
+import type { ChatSession, ChatTopic, Message } from '@/lib/chatbot/conversation'
+import { createI18n, LOCALE_TAGS } from '@/lib/i18n'
+import { RateLimitError } from '@/lib/rate-limit'
+import { MAX_CHAT_MESSAGE } from '@/lib/schemas'
+import { seo } from '@/lib/seo'
+import { readEventStream } from '@/lib/sse'
+import { fieldErrorsOf } from '@/lib/validation'
 
 /**
  * Route - Registers this component as a file route with TanStack Router
+ * Only signed-in users can chat; the loader rehydrates their persisted
+ * conversation during SSR. Everyone else gets an indexable landing page.
  */
 export const Route = createFileRoute('/demo/start/chatbot')({
   component: RouteComponent,
+  staticData: {
+    nav: { title: 'header.chatbot', icon: Cpu, order: 10 },
+    sitemap: { priority: 0.8, changeFrequency: 'monthly' },
+  },
+  loader: async ({ context }) => context.user ? await getChatSession() : null,
+  head: ({ match }) => {
+    const { t } = createI18n(match.context.locale)
+    return seo({
+      title: t('chat.title'),
+      description: t('seo.chatbot.description'),
+      path: '/demo/start/chatbot',
+    })
+  },
 })
 
 /**
- * Message - Represents a single chat message
- * @property sender - 'user' or 'bot' indicating who sent the message
- * @property text - The content of the message
+ * RouteComponent - The chat for signed-in users, the landing page otherwise
  */
-interface Message {
-  sender: 'user' | 'bot'
-  text: string
+function RouteComponent() {
+  const session = Route.useLoaderData()
+  return session ? <Chat session={session} /> : <ChatbotLanding />
 }
 
 /**
- * ChatState - Represents the different stages of the chatbot conversation
+ * Suggestion cards shown under the conversation, each launching its own flow
  */
-type ChatState =
-  | 'idle'
-  | 'awaiting_tax_request'
-  | 'awaiting_tax_details'
-  | 'awaiting_anything_else'
+const SUGGESTIONS: ChatTopic[] = ['tax', 'retirement', 'investment', 'deductions']
 
 /**
- * RouteComponent - Main chatbot interface component
+ * Chat - Main chatbot interface component
  *
  * Handles chat conversation between the user and bot.
  * Features:
  * - Displays messages in a scrollable chat window
  * - Handles user input via text box or Enter key
- * - Bot provides responses based on conversation state
+ * - Bot responses and conversation state are handled by a server function,
+ *   so the transcript survives a page reload
+ * - Replies stream in word by word; sending another message cuts the
+ *   current reply short
  */
-function RouteComponent() {
+function Chat({ session }: { session: ChatSession }) {
+  const { locale, t } = useTranslation()
   // State to hold all chat messages
-  const [messages, setMessages] = useState<Message[]>([])
+  const [messages, setMessages] = useState<Message[]>(session.messages)
   // State for the current input in the text box
   const [input, setInput] = useState('')
-  // State machine to control conversation flow
-  const [state, setState] = useState<ChatState>('idle')
+  // Bot reply streaming in: empty while the bot is typing, null when idle
+  const [reply, setReply] = useState<string | null>(null)
+  // Latest reply text, so an interrupted reply can be kept in the transcript
+  const replyRef = useRef<string | null>(null)
+  // Cancels the turn in progress
+  const turnRef = useRef<AbortController | null>(null)
   // Ref to scroll chat to the latest message
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Text typed before dictation started, so the transcript is appended to it
+  const dictationPrefixRef = useRef('')
 
   /**
-   * Initial bot greeting
-   * Sets the first message and moves chatbot to awaiting_tax_request state
+   * Push-to-talk dictation; the live transcript is written into the input box
    */
-  useEffect(() => {
-    const initialMessage: Message = {
-      sender: 'bot',
-      text: 'Hello, my name is Jacob. How can I help you?',
-    }
-    setMessages([initialMessage])
-    setState('awaiting_tax_request')
-  }, [])
+  const speech = useSpeechRecognition({
+    lang: LOCALE_TAGS[locale],
+    onTranscript: transcript => {
+      setInput([dictationPrefixRef.current, transcript].filter(Boolean).join(' '))
+    },
+  })
+
+  /**
+   * Starts dictation when the mic button is pressed
+   */
+  const startDictation = () => {
+    if (speech.isListening) return
+    dictationPrefixRef.current = input.trim()
+    speech.start()
+  }
 
   /**
-   * Automatically scrolls the chat to the latest message whenever messages update
+   * Automatically scrolls the chat to the latest message, and along with a reply as it streams in
    */
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  }, [messages, reply])
+
+  const updateReply = (text: string | null) => {
+    replyRef.current = text
+    setReply(text)
+  }
 
   /**
-   * Sends user message and gets bot response
+   * Shows the user's message immediately, streams the bot's reply in, then
+   * replaces the transcript with the server's copy once the bot has replied
+   * @param text - Text recorded as the user's message
+   * @param request - Server call that records the turn and streams the reply
    */
-  const handleSend = () => {
-    if (!input.trim()) return // ignore empty input
-
-    const userMessage: Message = { sender: 'user', text: input }
-    setMessages(prev => [...prev, userMessage])
+  const runTurn = async (
+    text: string,
+    request: (signal: AbortSignal) => Promise<Response>,
+  ) => {
+    // A new turn cuts off the reply still streaming, keeping what was shown
+    turnRef.current?.abort()
+    const controller = new AbortController()
+    turnRef.current = controller
+    const interrupted = replyRef.current
+    const createdAt = new Date().toISOString()
+    setMessages(prev => [
+      ...prev,
+      ...(interrupted
+        ? [{ sender: 'bot' as const, text: interrupted, createdAt }]
+        : []),
+      { sender: 'user', text, createdAt },
+    ])
+    updateReply('')
+
+    try {
+      const response = await request(controller.signal)
+      for await (const { event, data } of readEventStream(response)) {
+        if (event === 'token') {
+          updateReply(replyRef.current + (data as { text: string }).text)
+        } else if (event === 'done') {
+          setMessages((data as ChatSession).messages)
+        } else if (event === 'error') {
+          throw new Error((data as { message: string }).message)
+        }
+      }
+    } catch (error) {
+      // Superseded by a newer turn, which has taken over
+      if (controller.signal.aborted) return
+
+      // Rejected input and throttling explain themselves; anything else gets
+      // a generic apology
+      const fieldErrors = fieldErrorsOf(error, t)
+      const problem = fieldErrors?.text ?? fieldErrors?.label
+      setMessages(prev => [
+        ...prev,
+        {
+          sender: 'bot',
+          text: problem
+            ? t('chat.unreadable', { problem })
+            : error instanceof RateLimitError
+              ? t('chat.tooFast', { problem: error.message })
+              : t('chat.failed'),
+          createdAt: new Date().toISOString(),
+        },
+      ])
+    } finally {
+      if (turnRef.current === controller) {
+        turnRef.current = null
+        updateReply(null)
+      }
+    }
+  }
 
-    const botMessage: Message = { sender: 'bot', text: handleBotResponse(input) }
-    setMessages(prev => [...prev, botMessage])
+  /**
+   * Sends user message and gets bot response
+   */
+  const handleSend = async () => {
+    const text = input.trim()
+    if (!text) return // ignore empty input
 
     setInput('') // clear input after sending
+    await runTurn(text, signal =>
+      sendChatMessage({ data: { sessionId: session.id, text }, signal }),
+    )
   }
 
   /**
-   * Handle Enter key press to send messages
+   * Launches the flow behind a suggestion card
    */
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') handleSend()
+  const handleSuggestion = async (label: string, topic: ChatTopic) => {
+    await runTurn(label, signal =>
+      startChatTopic({ data: { sessionId: session.id, topic, label }, signal }),
+    )
   }
 
   /**
-   * Handles the chatbot response logic based on current state and user input
-   * @param userInput - Text input from the user
-   * @returns Bot's response text
+   * Handle Enter key press to send messages
    */
-  const handleBotResponse = (userInput: string): string => {
-    const lowerInput = userInput.toLowerCase()
-
-    switch (state) {
-      case 'awaiting_tax_request':
-        if (lowerInput.includes('tax')) {
-          setState('awaiting_tax_details')
-          return 'Sure! Please include your information like so, "hours: 40, rate: 35, state: NY, county: Kings, city: NYC".'
-        }
-        if (lowerInput.includes('no')) {
-          setState('awaiting_anything_else') // Stop prompting further
-          return 'Thanks, have a nice day!'
-        }
-        return 'I can help you calculate taxes. Please type "please calculate my taxes" to begin.'
-
-      case 'awaiting_tax_details':
-        // Regex to parse user input for tax calculation
-        const regex =
-          /hours:\s*(\d+\.?\d*).*rate:\s*(\d+\.?\d*).*state:\s*(\w+).*county:\s*(\w+).*city:\s*(\w+)/i
-        const match = userInput.match(regex)
-        if (match) {
-          const hours = parseFloat(match[1])
-          const rate = parseFloat(match[2])
-          const stateName = match[3]
-          const countyName = match[4]
-          const cityName = match[5]
-
-          const federalRate = 0.12
-          const stateRate = 0.05
-          const totalRate = federalRate + stateRate
-          const grossPay = hours * rate
-          const taxes = grossPay * totalRate
-          const netPay = grossPay - taxes
-
-          // Move to next state after calculation
-          setState('awaiting_anything_else')
-
-          return `Estimated taxes for ${cityName}, ${countyName} County, ${stateName}:
-Gross Pay: $${grossPay.toFixed(2)}
-Taxes: $${taxes.toFixed(2)}
-Net Pay: $${netPay.toFixed(2)}
-(Note: this is an estimate.)
-
-Would you like help with anything else?`
-        }
-        return 'Please include your information like so, "hours: 40, rate: 35, state: NY, county: Kings, city: NYC".'
-
-      case 'awaiting_anything_else':
-        if (lowerInput.includes('no')) {
-          setState('awaiting_tax_request') // Reset to initial state
-          return 'Thanks, have a nice day!'
-        }
-        if (lowerInput.includes('tax')) {
-          setState('awaiting_tax_details')
-          return 'Sure! Please include your information like so, "hours: 40, rate: 35, state: NY, county: Kings, city: NYC".'
-        }
-        setState('awaiting_tax_request')
-        return 'Okay! Let me know if you would like me to calculate taxes again.'
-
-      default:
-        // Fallback to reset conversation
-        setState('awaiting_anything_else')
-        return 'Okay! Let me know if you would like me to calculate taxes again.'
-    }
+  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') handleSend()
   }
 
   return (
-  <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
-    <div className="w-full max-w-3xl rounded-2xl bg-white shadow-sm border border-slate-200 flex flex-col overflow-hidden">
+  <div className="min-h-screen bg-page flex items-center justify-center p-4">
+    <div className="w-full max-w-3xl rounded-2xl bg-card shadow-sm border border-line flex flex-col overflow-hidden">
 
       {/* Header */}
       <div className="bg-gradient-to-r from-blue-600 to-emerald-500 px-6 py-5 text-white">
@@ -172,9 +214,9 @@ Would you like help with anything else?`
             ✨
           </div>
           <div>
-            <h1 className="text-xl font-semibold">AI Financial Advisor</h1>
+            <h1 className="text-xl font-semibold">{t('chat.title')}</h1>
             <p className="text-sm opacity-90">
-              Tax calculations & personalized financial guidance
+              {t('chat.subtitle')}
             </p>
           </div>
         </div>
@@ -193,65 +235,139 @@ Would you like help with anything else?`
             )}
 
             <div
-              className={`rounded-xl border px-4 py-3 text-sm leading-relaxed max-w-[85%] ${
+              className={`rounded-xl border px-4 py-3 text-sm leading-relaxed whitespace-pre-line max-w-[85%] ${
                 msg.sender === 'user'
                   ? 'ml-auto bg-blue-600 text-white border-blue-600'
-                  : 'bg-white border-slate-200 text-slate-800'
+                  : 'bg-card border-line text-ink'
               }`}
             >
               {msg.text}
+              {/* Estimate results can be saved as a report */}
+              {msg.report && (
+                <div className="mt-3 flex gap-2">
+                  {(['pdf', 'csv'] as const).map(format => (
+                    <a
+                      key={format}
+                      href={reportUrl(msg.report!, format)}
+                      download
+                      className="inline-flex items-center gap-1 rounded-lg border border-line-strong px-3 py-1 text-xs font-medium text-ink-muted hover:border-blue-500 hover:text-blue-600 transition"
+                    >
+                      <Download className="w-3 h-3" />
+                      {t('chat.download', { format: format.toUpperCase() })}
+                    </a>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         ))}
 
+        {/* Bot reply as it streams in, with a typing indicator until the first words arrive */}
+        {reply !== null && (
+          <div className="flex gap-3 items-start">
+            <div className="h-8 w-8 rounded-full bg-emerald-600 text-white flex items-center justify-center shrink-0">
+              <FaRobot size={14} />
+            </div>
+            <div
+              aria-live="polite"
+              className="rounded-xl border px-4 py-3 text-sm leading-relaxed whitespace-pre-line max-w-[85%] bg-card border-line text-ink"
+            >
+              {reply || (
+                <span className="flex gap-1 py-1" role="status" aria-label={t('chat.typing')}>
+                  {[0, 150, 300].map(delay => (
+                    <span
+                      key={delay}
+                      className="h-2 w-2 rounded-full bg-ink-subtle animate-bounce"
+                      style={{ animationDelay: `${delay}ms` }}
+                    />
+                  ))}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
         <div ref={messagesEndRef} />
 
-        {/* Suggestion cards (static UI, no logic impact) */}
+        {/* Suggestion cards, each starts its own conversation flow */}
         <div className="pt-4">
-          <p className="text-sm text-slate-600 mb-3">Try asking about:</p>
+          <p className="text-sm text-ink-muted mb-3">{t('chat.suggestions')}</p>
           <div className="grid grid-cols-2 gap-3">
-            {[
-              'Calculate Tax',
-              'Retirement Plan',
-              'Investment Advice',
-              'Tax Deductions',
-            ].map(label => (
-              <div
-                key={label}
-                className="border border-slate-200 rounded-xl p-4 text-center text-sm font-medium text-slate-700 hover:border-blue-500 hover:text-blue-600 transition cursor-pointer bg-white"
+            {SUGGESTIONS.map(topic => (
+              <button
+                key={topic}
+                type="button"
+                onClick={() => handleSuggestion(t(`chat.topic.${topic}`), topic)}
+                className="border border-line rounded-xl p-4 text-center text-sm font-medium text-ink-muted hover:border-blue-500 hover:text-blue-600 transition cursor-pointer bg-card"
               >
-                {label}
-              </div>
+                {t(`chat.topic.${topic}`)}
+              </button>
             ))}
           </div>
         </div>
       </div>
 
       {/* Input */}
-      <div className="border-t border-slate-200 px-6 py-4 bg-slate-50">
+      <div className="border-t border-line px-6 py-4 bg-sunken">
         <div className="flex gap-2">
           <input
             type="text"
             value={input}
             onChange={e => setInput(e.target.value)}
             onKeyDown={handleKeyPress}
-            placeholder="Ask about taxes, retirement, investments..."
-            className="flex-1 rounded-lg border border-slate-300 px-4 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            maxLength={MAX_CHAT_MESSAGE}
+            placeholder={t('chat.placeholder')}
+            className="flex-1 rounded-lg border border-line-strong px-4 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
           />
 
 
-          <button onClick={handleSend} className="rounded-lg border border-black bg-white px-4 py-2 text-black hover:bg-slate-100 transition">
-            <Mic className="w-6 h-6 text-black-600" />
+          {/* Push-to-talk: hold the button (or Space/Enter) to dictate */}
+          <button
+            type="button"
+            onPointerDown={startDictation}
+            onPointerUp={speech.stop}
+            onPointerLeave={speech.stop}
+            onKeyDown={e => {
+              if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+                e.preventDefault()
+                startDictation()
+              }
+            }}
+            onKeyUp={e => {
+              if (e.key === ' ' || e.key === 'Enter') speech.stop()
+            }}
+            disabled={!speech.isSupported}
+            aria-pressed={speech.isListening}
+            aria-label={t(speech.isSupported ? 'chat.holdToTalk' : 'chat.voiceUnsupported')}
+            title={t(speech.isSupported ? 'chat.holdToTalk' : 'chat.voiceUnsupported')}
+            className={`rounded-lg border px-4 py-2 transition disabled:cursor-not-allowed disabled:opacity-40 ${
+              speech.isListening
+                ? 'border-red-500 bg-red-50 text-red-600 dark:bg-red-950 dark:text-red-400'
+                : 'border-line-strong bg-card text-ink hover:bg-sunken'
+            }`}
+          >
+            <Mic className={`w-6 h-6 ${speech.isListening ? 'animate-pulse' : ''}`} />
           </button>
-          
-              
+
           <button onClick={handleSend} className="rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 transition">
             ➤
           </button>
         </div>
 
-        <p className="mt-2 text-xs text-slate-500">
-          💡 This is a demo with mock calculations and under testing. Consult with a certified financial advisor.
+        {speech.isListening && (
+          <p className="mt-2 flex items-center gap-2 text-xs text-red-600" role="status">
+            <span className="h-2 w-2 rounded-full bg-red-600 animate-pulse" />
+            {t('chat.listening')}
+          </p>
+        )}
+        {speech.error && (
+          <p className="mt-2 text-xs text-red-600" role="alert">
+            {t(speech.error)}
+          </p>
+        )}
+
+        <p className="mt-2 text-xs text-ink-subtle">
+          {t('chat.disclaimer')}
         </p>
       </div>
     </div>
@@ -1,109 +1,324 @@
-import fs from 'node:fs'
-import { useCallback, useState } from 'react'
-import { createFileRoute, useRouter } from '@tanstack/react-router'
-import { createServerFn } from '@tanstack/react-start'
-
-/*
-const loggingMiddleware = createMiddleware().server(
-  async ({ next, request }) => {
-    console.log("Request:", request.url);
-    return next();
-  }
-);
-const loggedServerFunction = createServerFn({ method: "GET" }).middleware([
-  loggingMiddleware,
-]);
-*/
-
-const TODOS_FILE = 'todos.json'
-
-async function readTodos() {
-  return JSON.parse(
-    await fs.promises.readFile(TODOS_FILE, 'utf-8').catch(() =>
-      JSON.stringify(
-        [
-          { id: 1, name: 'Get groceries' },
-          { id: 2, name: 'Buy a new phone' },
-        ],
-        null,
-        2,
-      ),
-    ),
-  )
-}
-
-const getTodos = createServerFn({
-  method: 'GET',
-}).handler(async () => await readTodos())
-
-const addTodo = createServerFn({ method: 'POST' })
-  .inputValidator((d: string) => d)
-  .handler(async ({ data }) => {
-    const todos = await readTodos()
-    todos.push({ id: todos.length + 1, name: data })
-    await fs.promises.writeFile(TODOS_FILE, JSON.stringify(todos, null, 2))
-    return todos
-  })
+import { useCallback, useMemo, useState } from 'react'
+import { useQueryClient, useSuspenseQuery } from '@tanstack/react-query'
+import { createFileRoute } from '@tanstack/react-router'
+import {
+  ArrowDown,
+  ArrowUp,
+  Pencil,
+  SquareFunction,
+  Trash2,
+} from 'lucide-react'
+import Card from '@/components/Card'
+import ListItem from '@/components/ListItem'
+import PageShell from '@/components/PageShell'
+import Toasts from '@/components/Toasts'
+import { todosQueryOptions } from '@/data/queries'
+import type { Todo } from '@/data/repository'
+import {
+  addTodo,
+  completeTodo,
+  deleteTodo,
+  reorderTodos,
+  updateTodo,
+} from '@/data/todos'
+import { useToasts } from '@/hooks/useToasts'
+import { useTranslation } from '@/hooks/useTranslation'
+import { requireUser } from '@/lib/auth'
+import { createI18n, type MessageKey, type Translator } from '@/lib/i18n'
+import { MAX_TODO_NAME } from '@/lib/schemas'
+import { seo } from '@/lib/seo'
+import { fieldErrorsOf, type FieldErrors } from '@/lib/validation'
 
 export const Route = createFileRoute('/demo/start/server-funcs')({
   component: Home,
-  loader: async () => await getTodos(),
+  staticData: {
+    nav: { title: 'header.serverFunctions', icon: SquareFunction, order: 30 },
+  },
+  beforeLoad: ({ context, location }) => requireUser(context.user, location),
+  loader: async ({ context }) =>
+    await context.queryClient.ensureQueryData(
+      todosQueryOptions(context.user.id),
+    ),
+  head: ({ match }) => {
+    const { t } = createI18n(match.context.locale)
+    return seo({
+      title: t('header.serverFunctions'),
+      description: t('seo.demo.description', {
+        title: t('header.serverFunctions'),
+      }),
+      path: '/demo/start/server-funcs',
+      noindex: true,
+    })
+  },
 })
 
-function Home() {
-  const router = useRouter()
-  let todos = Route.useLoaderData()
+/**
+ * Reads the message from a failed server function call, translating
+ * rejected input
+ */
+function errorMessage(error: unknown, t: Translator): string {
+  const [invalid] = Object.values(fieldErrorsOf(error, t) ?? {})
+  if (invalid) return invalid
+  return error instanceof Error ? error.message : t('error.title')
+}
 
+function Home() {
+  const { user } = Route.useRouteContext()
+  const queryClient = useQueryClient()
+  const todosQuery = useMemo(() => todosQueryOptions(user.id), [user.id])
+  const { queryKey } = todosQuery
+  // Prefetched by the loader, so this never suspends on first render
+  const { data: todos } = useSuspenseQuery(todosQuery)
   const [todo, setTodo] = useState('')
+  const [todoError, setTodoError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ id: number; name: string } | null>(
+    null,
+  )
+  const { toasts, showError, dismiss } = useToasts()
+  const { t } = useTranslation()
+
+  /**
+   * Latest cached list, so a mutation can snapshot it without a stale
+   * closure
+   */
+  const currentTodos = useCallback(
+    () => queryClient.getQueryData(queryKey) ?? [],
+    [queryClient, queryKey],
+  )
+
+  /**
+   * Applies a change to the cached list right away, then replaces it with
+   * the server's copy, or restores the previous list if the server rejects
+   * it. Either way the query is invalidated afterwards, so the list is
+   * refetched and picks up changes made elsewhere, e.g. in another tab.
+   * @param failure - Message key of the toast, filled with the server's
+   * {problem}
+   * @param onInvalid - Shows rejected input next to its field; without it
+   * validation failures are toasted like any other error
+   */
+  const mutate = useCallback(
+    async (
+      optimistic: (current: Todo[]) => Todo[],
+      request: () => Promise<Todo[]>,
+      failure: MessageKey,
+      onInvalid?: (errors: FieldErrors) => void,
+    ) => {
+      // A refetch still in flight would overwrite the optimistic list
+      await queryClient.cancelQueries({ queryKey })
+      const previous = currentTodos()
+      queryClient.setQueryData(queryKey, optimistic(previous))
+      try {
+        queryClient.setQueryData(queryKey, await request())
+      } catch (error) {
+        queryClient.setQueryData(queryKey, previous)
+        const fieldErrors = fieldErrorsOf(error, t)
+        if (fieldErrors && onInvalid) onInvalid(fieldErrors)
+        else showError(t(failure, { problem: errorMessage(error, t) }))
+      } finally {
+        await queryClient.invalidateQueries({ queryKey })
+      }
+    },
+    [queryClient, queryKey, currentTodos, showError, t],
+  )
 
   const submitTodo = useCallback(async () => {
-    todos = await addTodo({ data: todo })
+    const name = todo.trim()
+    if (!name) return
     setTodo('')
-    router.invalidate()
-  }, [addTodo, todo])
+    setTodoError(null)
+    // Negative ids mark rows the server has not confirmed yet
+    const pending: Todo = { id: -Date.now(), name, completed: false }
+    await mutate(
+      (current) => [...current, pending],
+      () => addTodo({ data: { name } }),
+      'todos.addFailed',
+      (errors) => {
+        // Hand the text back so it can be fixed
+        setTodo(name)
+        setTodoError(errors.name ?? Object.values(errors)[0])
+      },
+    )
+  }, [mutate, todo])
+
+  const toggleTodo = (target: Todo) =>
+    mutate(
+      (current) =>
+        current.map((item) =>
+          item.id === target.id
+            ? { ...item, completed: !target.completed }
+            : item,
+        ),
+      () =>
+        completeTodo({
+          data: { id: target.id, completed: !target.completed },
+        }),
+      'todos.updateFailed',
+    )
+
+  const saveEdit = () => {
+    if (!editing) return
+    const { id, name } = editing
+    setEditing(null)
+    const original = currentTodos().find((item) => item.id === id)
+    if (!original || original.name === name.trim()) return
+    mutate(
+      (current) =>
+        current.map((item) =>
+          item.id === id ? { ...item, name: name.trim() } : item,
+        ),
+      () => updateTodo({ data: { id, name } }),
+      'todos.renameFailed',
+    )
+  }
+
+  const removeTodo = (target: Todo) =>
+    mutate(
+      (current) => current.filter((item) => item.id !== target.id),
+      () => deleteTodo({ data: { id: target.id } }),
+      'todos.deleteFailed',
+    )
+
+  const moveTodo = (index: number, offset: -1 | 1) => {
+    const reordered = [...currentTodos()]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(index + offset, 0, moved)
+    mutate(
+      () => reordered,
+      () => reorderTodos({ data: { ids: reordered.map((item) => item.id) } }),
+      'todos.reorderFailed',
+    )
+  }
+
+  const hasPending = todos.some((item) => item.id < 0)
 
   return (
-    <div
-      className="flex items-center justify-center min-h-screen bg-gradient-to-br from-zinc-800 to-black p-4 text-white"
-      style={{
-        backgroundImage:
-          'radial-gradient(50% 50% at 20% 60%, #23272a 0%, #18181b 50%, #000000 100%)',
-      }}
-    >
-      <div className="w-full max-w-2xl p-8 rounded-xl backdrop-blur-md bg-black/50 shadow-xl border-8 border-black/10">
-        <h1 className="text-2xl mb-4">Start Server Functions - Todo Example</h1>
+    <PageShell centered>
+      <Card>
+        <h1 className="text-2xl mb-4">{t('todos.title')}</h1>
         <ul className="mb-4 space-y-2">
-          {todos?.map((t) => (
-            <li
-              key={t.id}
-              className="bg-white/10 border border-white/20 rounded-lg p-3 backdrop-blur-sm shadow-md"
-            >
-              <span className="text-lg text-white">{t.name}</span>
-            </li>
-          ))}
+          {todos.map((item, index) => {
+            const pending = item.id < 0
+            return (
+              <ListItem
+                key={item.id}
+                dimmed={pending}
+                className="flex items-center gap-3"
+              >
+                <input
+                  type="checkbox"
+                  checked={item.completed}
+                  disabled={pending}
+                  onChange={() => toggleTodo(item)}
+                  aria-label={t(
+                    item.completed ? 'todos.markNotDone' : 'todos.markDone',
+                    { name: item.name },
+                  )}
+                  className="w-5 h-5 accent-blue-500"
+                />
+                {editing?.id === item.id ? (
+                  <input
+                    autoFocus
+                    value={editing.name}
+                    onChange={(e) =>
+                      setEditing({ id: item.id, name: e.target.value })
+                    }
+                    onBlur={saveEdit}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveEdit()
+                      if (e.key === 'Escape') setEditing(null)
+                    }}
+                    maxLength={MAX_TODO_NAME}
+                    aria-label={t('todos.name')}
+                    className="flex-1 px-2 py-1 rounded border border-line-strong bg-card focus:outline-none focus:ring-2 focus:ring-blue-400"
+                  />
+                ) : (
+                  <span
+                    className={`flex-1 text-lg ${
+                      item.completed ? 'line-through text-ink-subtle' : ''
+                    }`}
+                  >
+                    {item.name}
+                  </span>
+                )}
+                <div className="flex items-center gap-1 text-ink-muted">
+                  <button
+                    onClick={() => moveTodo(index, -1)}
+                    disabled={pending || hasPending || index === 0}
+                    aria-label={t('todos.moveUp')}
+                    className="p-1 rounded hover:bg-line hover:text-ink disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <ArrowUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => moveTodo(index, 1)}
+                    disabled={
+                      pending || hasPending || index === todos.length - 1
+                    }
+                    aria-label={t('todos.moveDown')}
+                    className="p-1 rounded hover:bg-line hover:text-ink disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <ArrowDown size={16} />
+                  </button>
+                  <button
+                    onClick={() => setEditing({ id: item.id, name: item.name })}
+                    disabled={pending}
+                    aria-label={t('todos.edit')}
+                    className="p-1 rounded hover:bg-line hover:text-ink disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => removeTodo(item)}
+                    disabled={pending}
+                    aria-label={t('todos.delete')}
+                    className="p-1 rounded hover:bg-line hover:text-red-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </ListItem>
+            )
+          })}
         </ul>
         <div className="flex flex-col gap-2">
           <input
             type="text"
             value={todo}
-            onChange={(e) => setTodo(e.target.value)}
+            onChange={(e) => {
+              setTodo(e.target.value)
+              setTodoError(null)
+            }}
             onKeyDown={(e) => {
               if (e.key === 'Enter') {
                 submitTodo()
               }
             }}
-            placeholder="Enter a new todo..."
-            className="w-full px-4 py-3 rounded-lg border border-white/20 bg-white/10 backdrop-blur-sm text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent"
+            maxLength={MAX_TODO_NAME}
+            placeholder={t('todos.placeholder')}
+            aria-invalid={todoError ? true : undefined}
+            aria-describedby={todoError ? 'todo-error' : undefined}
+            className={`w-full px-4 py-3 rounded-lg border bg-card placeholder:text-ink-subtle focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent ${
+              todoError ? 'border-red-400' : 'border-line-strong'
+            }`}
           />
+          {todoError && (
+            <span
+              id="todo-error"
+              className="text-sm text-red-600 dark:text-red-400"
+            >
+              {todoError}
+            </span>
+          )}
           <button
             disabled={todo.trim().length === 0}
             onClick={submitTodo}
             className="bg-blue-500 hover:bg-blue-600 disabled:bg-blue-500/50 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors"
           >
-            Add todo
+            {t('todos.add')}
           </button>
         </div>
-      </div>
-    </div>
+      </Card>
+      <Toasts toasts={toasts} onDismiss={dismiss} />
+    </PageShell>
   )
 }
@@ -1,40 +1,56 @@
+import { useSuspenseQuery } from '@tanstack/react-query'
 import { createFileRoute } from '@tanstack/react-router'
-import { getPunkSongs } from '@/data/demo.punk-songs'
+import { StickyNote } from 'lucide-react'
+import Card from '@/components/Card'
+import ListItem from '@/components/ListItem'
+import PageShell from '@/components/PageShell'
+import PageSkeleton from '@/components/PageSkeleton'
+import { punkSongsQueryOptions } from '@/data/queries'
+import { createI18n } from '@/lib/i18n'
+import { seo } from '@/lib/seo'
 
 export const Route = createFileRoute('/demo/start/ssr/full-ssr')({
   component: RouteComponent,
-  loader: async () => await getPunkSongs(),
+  staticData: {
+    nav: {
+      title: 'header.fullSsr',
+      icon: StickyNote,
+      order: 2,
+      group: 'ssr-demos',
+    },
+    sitemap: { priority: 0.5, changeFrequency: 'yearly' },
+  },
+  pendingComponent: () => <PageSkeleton rows={7} />,
+  loader: async ({ context }) =>
+    await context.queryClient.ensureQueryData(punkSongsQueryOptions()),
+  head: ({ match }) => {
+    const { t } = createI18n(match.context.locale)
+    return seo({
+      title: t('header.fullSsr'),
+      description: t('seo.demo.description', { title: t('header.fullSsr') }),
+      path: '/demo/start/ssr/full-ssr',
+    })
+  },
 })
 
 function RouteComponent() {
-  const punkSongs = Route.useLoaderData()
+  const { data: punkSongs } = useSuspenseQuery(punkSongsQueryOptions())
 
   return (
-    <div
-      className="flex items-center justify-center min-h-screen bg-gradient-to-br from-zinc-800 to-black p-4 text-white"
-      style={{
-        backgroundImage:
-          'radial-gradient(50% 50% at 20% 60%, #1a1a1a 0%, #0a0a0a 50%, #000000 100%)',
-      }}
-    >
-      <div className="w-full max-w-2xl p-8 rounded-xl backdrop-blur-md bg-black/50 shadow-xl border-8 border-black/10">
-        <h1 className="text-3xl font-bold mb-6 text-purple-400">
+    <PageShell centered>
+      <Card>
+        <h1 className="text-3xl font-bold mb-6 text-purple-600 dark:text-purple-400">
           Full SSR - Punk Songs
         </h1>
         <ul className="space-y-3">
           {punkSongs.map((song) => (
-            <li
-              key={song.id}
-              className="bg-white/10 border border-white/20 rounded-lg p-4 backdrop-blur-sm shadow-md"
-            >
-              <span className="text-lg text-white font-medium">
-                {song.name}
-              </span>
-              <span className="text-white/60"> - {song.artist}</span>
-            </li>
+            <ListItem key={song.id}>
+              <span className="text-lg font-medium">{song.name}</span>
+              <span className="text-ink-muted"> - {song.artist}</span>
+            </ListItem>
           ))}
         </ul>
-      </div>
-    </div>
+      </Card>
+    </PageShell>
   )
 }
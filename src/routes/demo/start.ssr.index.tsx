@@ -1,19 +1,35 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
+import { StickyNote } from 'lucide-react'
+import Card from '@/components/Card'
+import PageShell from '@/components/PageShell'
+import { createI18n } from '@/lib/i18n'
+import { seo } from '@/lib/seo'
 
 export const Route = createFileRoute('/demo/start/ssr/')({
   component: RouteComponent,
+  staticData: {
+    nav: {
+      title: 'header.ssrDemos',
+      icon: StickyNote,
+      order: 50,
+      group: 'ssr-demos',
+    },
+    sitemap: { priority: 0.5, changeFrequency: 'yearly' },
+  },
+  head: ({ match }) => {
+    const { t } = createI18n(match.context.locale)
+    return seo({
+      title: t('header.ssrDemos'),
+      description: t('seo.demo.description', { title: t('header.ssrDemos') }),
+      path: '/demo/start/ssr',
+    })
+  },
 })
 
 function RouteComponent() {
   return (
-    <div
-      className="flex items-center justify-center min-h-screen bg-gradient-to-br from-zinc-900 to-black p-4 text-white"
-      style={{
-        backgroundImage:
-          'radial-gradient(50% 50% at 20% 60%, #1a1a1a 0%, #0a0a0a 50%, #000000 100%)',
-      }}
-    >
-      <div className="w-full max-w-2xl p-8 rounded-xl backdrop-blur-md bg-black/50 shadow-xl border-8 border-black/10">
+    <PageShell centered>
+      <Card>
         <h1 className="text-4xl font-bold mb-8 text-center bg-gradient-to-r from-pink-500 via-purple-500 to-green-400 bg-clip-text text-transparent">
           SSR Demos
         </h1>
@@ -36,8 +52,14 @@ function RouteComponent() {
           >
             Data Only
           </Link>
+          <Link
+            to="/demo/start/ssr/streaming"
+            className="text-2xl font-bold py-6 px-8 rounded-lg bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white text-center shadow-lg transform transition-all hover:scale-105 hover:shadow-amber-500/50 border-2 border-amber-400"
+          >
+            Streaming
+          </Link>
         </div>
-      </div>
-    </div>
+      </Card>
+    </PageShell>
   )
 }
@@ -0,0 +1,173 @@
+import {
+  Await,
+  CatchBoundary,
+  createFileRoute,
+  Link,
+} from '@tanstack/react-router'
+import { AlertTriangle, StickyNote } from 'lucide-react'
+import Card from '@/components/Card'
+import ListItem from '@/components/ListItem'
+import PageShell from '@/components/PageShell'
+import {
+  getAlbums,
+  getPunkSongs,
+  getReleaseYears,
+} from '@/data/demo.punk-songs'
+import { useTranslation } from '@/hooks/useTranslation'
+import { createI18n } from '@/lib/i18n'
+import { seo } from '@/lib/seo'
+
+/**
+ * Route - The loader waits for the song list only. The slow lookups are
+ * returned as promises, so the page streams out with the list and each
+ * section fills in when its promise settles, still in the same response.
+ * `?fail=true` makes the albums lookup fail.
+ */
+export const Route = createFileRoute('/demo/start/ssr/streaming')({
+  component: RouteComponent,
+  staticData: {
+    nav: {
+      title: 'header.streaming',
+      icon: StickyNote,
+      order: 4,
+      group: 'ssr-demos',
+    },
+    sitemap: { priority: 0.5, changeFrequency: 'yearly' },
+  },
+  validateSearch: (search: Record<string, unknown>): { fail?: boolean } =>
+    search.fail === true ? { fail: true } : {},
+  loaderDeps: ({ search }) => ({ fail: search.fail ?? false }),
+  loader: async ({ deps }) => ({
+    songs: await getPunkSongs(),
+    releaseYears: getReleaseYears(),
+    albums: getAlbums({ data: { fail: deps.fail } }),
+  }),
+  head: ({ match }) => {
+    const { t } = createI18n(match.context.locale)
+    return seo({
+      title: t('header.streaming'),
+      description: t('seo.demo.description', { title: t('header.streaming') }),
+      path: '/demo/start/ssr/streaming',
+    })
+  },
+})
+
+function RouteComponent() {
+  const { songs, releaseYears, albums } = Route.useLoaderData()
+  const { fail } = Route.useSearch()
+  const { t } = useTranslation()
+
+  return (
+    <PageShell centered>
+      <Card className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 text-amber-600 dark:text-amber-400">
+            {t('streaming.title')}
+          </h1>
+          <p className="text-sm text-ink-muted">
+            {t('streaming.intro')}{' '}
+            <Link
+              to="."
+              search={fail ? {} : { fail: true }}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {t(fail ? 'streaming.loadNormally' : 'streaming.failAlbums')}
+            </Link>
+          </p>
+        </div>
+        <ul className="space-y-3">
+          {songs.map((song) => (
+            <ListItem key={song.id}>
+              <span className="text-lg font-medium">{song.name}</span>
+              <span className="text-ink-muted"> - {song.artist}</span>
+            </ListItem>
+          ))}
+        </ul>
+        <Section title={t('streaming.releaseYears')} resetKey={String(fail)}>
+          <Await promise={releaseYears} fallback={<SectionSkeleton />}>
+            {(years) => (
+              <SongFacts
+                rows={songs.map((song) => [song.name, String(years[song.id])])}
+              />
+            )}
+          </Await>
+        </Section>
+        <Section title={t('streaming.albums')} resetKey={String(fail)}>
+          <Await promise={albums} fallback={<SectionSkeleton />}>
+            {(names) => (
+              <SongFacts
+                rows={songs.map((song) => [song.name, names[song.id]])}
+              />
+            )}
+          </Await>
+        </Section>
+      </Card>
+    </PageShell>
+  )
+}
+
+/**
+ * Section - A streamed part of the page. A failed lookup only replaces its
+ * own section, never the page.
+ * @param resetKey - Clears a caught error when it changes
+ */
+function Section({
+  title,
+  resetKey,
+  children,
+}: {
+  title: string
+  resetKey: string
+  children: React.ReactNode
+}) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      <CatchBoundary
+        getResetKey={() => resetKey}
+        errorComponent={({ error }) => (
+          <div
+            role="alert"
+            className="flex items-center gap-2 rounded-lg border border-line bg-sunken p-3 text-sm text-ink-muted"
+          >
+            <AlertTriangle className="h-5 w-5 shrink-0 text-amber-500" />
+            {error.message}
+          </div>
+        )}
+      >
+        {children}
+      </CatchBoundary>
+    </section>
+  )
+}
+
+/**
+ * Placeholder for a section whose data is still streaming
+ */
+function SectionSkeleton() {
+  const { t } = useTranslation()
+  return (
+    <div role="status" aria-busy="true" className="space-y-2 animate-pulse">
+      <span className="sr-only">{t('pending.loading')}</span>
+      {Array.from({ length: 3 }, (_, i) => (
+        <div key={i} className="h-6 rounded bg-sunken" />
+      ))}
+    </div>
+  )
+}
+
+/**
+ * A song name and one fact about it per row
+ */
+function SongFacts({ rows }: { rows: Array<[string, string]> }) {
+  return (
+    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+      {rows.map(([name, fact]) => (
+        <div key={name} className="contents">
+          <dt className="text-ink-muted">{name}</dt>
+          <dd>{fact}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
@@ -1,5 +1,6 @@
 import { createFileRoute } from '@tanstack/react-router'
 import {
+  Home,
   Zap,
   Server,
   Route as RouteIcon,
@@ -7,8 +8,24 @@ import {
   Waves,
   Sparkles,
 } from 'lucide-react'
+import { createI18n } from '@/lib/i18n'
+import { seo } from '@/lib/seo'
 
-export const Route = createFileRoute('/')({ component: App })
+export const Route = createFileRoute('/')({
+  component: App,
+  staticData: {
+    nav: { title: 'header.home', icon: Home, order: 0 },
+    sitemap: { priority: 1, changeFrequency: 'weekly' },
+  },
+  head: ({ match }) => {
+    const { t } = createI18n(match.context.locale)
+    return seo({
+      title: t('seo.home.title'),
+      description: t('seo.description'),
+      path: '/',
+    })
+  },
+})
 
 function App() {
   const features = [
@@ -51,7 +68,7 @@ function App() {
   ]
 
   return (
-    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900">
+    <div className="min-h-screen bg-page">
       <section className="relative py-20 px-6 text-center overflow-hidden">
         <div className="absolute inset-0 bg-gradient-to-r from-cyan-500/10 via-blue-500/10 to-purple-500/10"></div>
         <div className="relative max-w-5xl mx-auto">
@@ -61,17 +78,17 @@ function App() {
               alt="TanStack Logo"
               className="w-24 h-24 md:w-32 md:h-32"
             />
-            <h1 className="text-6xl md:text-7xl font-black text-white [letter-spacing:-0.08em]">
-              <span className="text-gray-300">TANSTACK</span>{' '}
+            <h1 className="text-6xl md:text-7xl font-black text-ink [letter-spacing:-0.08em]">
+              <span className="text-ink-muted">TANSTACK</span>{' '}
               <span className="bg-gradient-to-r from-cyan-400 to-blue-400 bg-clip-text text-transparent">
                 START
               </span>
             </h1>
           </div>
-          <p className="text-2xl md:text-3xl text-gray-300 mb-4 font-light">
+          <p className="text-2xl md:text-3xl text-ink-muted mb-4 font-light">
             The framework for next generation AI applications
           </p>
-          <p className="text-lg text-gray-400 max-w-3xl mx-auto mb-8">
+          <p className="text-lg text-ink-subtle max-w-3xl mx-auto mb-8">
             Full-stack framework powered by TanStack Router for React and Solid.
             Build modern applications with server functions, streaming, and type
             safety.
@@ -85,9 +102,9 @@ function App() {
             >
               Documentation
             </a>
-            <p className="text-gray-400 text-sm mt-2">
+            <p className="text-ink-subtle text-sm mt-2">
               Begin your TanStack Start journey by editing{' '}
-              <code className="px-2 py-1 bg-slate-700 rounded text-cyan-400">
+              <code className="px-2 py-1 bg-sunken rounded text-cyan-600 dark:text-cyan-400">
                 /src/routes/index.tsx
               </code>
             </p>
@@ -100,13 +117,13 @@ function App() {
           {features.map((feature, index) => (
             <div
               key={index}
-              className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-6 hover:border-cyan-500/50 transition-all duration-300 hover:shadow-lg hover:shadow-cyan-500/10"
+              className="bg-card border border-line rounded-xl p-6 hover:border-cyan-500/50 transition-all duration-300 hover:shadow-lg hover:shadow-cyan-500/10"
             >
               <div className="mb-4">{feature.icon}</div>
-              <h3 className="text-xl font-semibold text-white mb-3">
+              <h3 className="text-xl font-semibold text-ink mb-3">
                 {feature.title}
               </h3>
-              <p className="text-gray-400 leading-relaxed">
+              <p className="text-ink-subtle leading-relaxed">
                 {feature.description}
               </p>
             </div>
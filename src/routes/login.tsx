@@ -0,0 +1,29 @@
+import { createFileRoute, redirect } from '@tanstack/react-router'
+import AuthForm from '@/components/AuthForm'
+import { signIn } from '@/data/auth'
+import { validateAuthSearch } from '@/lib/auth'
+import { createI18n } from '@/lib/i18n'
+import { seo } from '@/lib/seo'
+
+export const Route = createFileRoute('/login')({
+  component: LoginPage,
+  validateSearch: validateAuthSearch,
+  // Already signed in: carry on to wherever the visitor was headed
+  beforeLoad: ({ context, search }) => {
+    if (context.user) throw redirect({ href: search.redirect ?? '/' })
+  },
+  head: ({ match }) => {
+    const { t } = createI18n(match.context.locale)
+    return seo({
+      title: t('header.signIn'),
+      description: t('seo.description'),
+      path: '/login',
+      noindex: true,
+    })
+  },
+})
+
+function LoginPage() {
+  const { redirect: target } = Route.useSearch()
+  return <AuthForm mode="login" submit={signIn} redirect={target} />
+}
@@ -0,0 +1,19 @@
+import { createFileRoute, redirect } from '@tanstack/react-router'
+import { signOut } from '@/data/auth'
+import { sessionQueryOptions } from '@/data/queries'
+
+/**
+ * Signs out and returns to the home page. Never preloaded, since merely
+ * hovering the sign-out link must not end the session.
+ */
+export const Route = createFileRoute('/logout')({
+  preload: false,
+  beforeLoad: async ({ context }) => {
+    await signOut()
+    // The root route refetches the session on the way to the home page
+    await context.queryClient.invalidateQueries({
+      queryKey: sessionQueryOptions().queryKey,
+    })
+    throw redirect({ to: '/' })
+  },
+})
@@ -0,0 +1,33 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { siteCacheControl, siteOrigin } from '@/lib/seo'
+
+/**
+ * Lets crawlers index the pages but not the API, and points them at the
+ * sitemap
+ */
+export const Route = createFileRoute('/robots.txt')({
+  server: {
+    handlers: {
+      GET: ({ request }) => {
+        const origin = siteOrigin(request)
+        return new Response(
+          [
+            'User-agent: *',
+            'Allow: /',
+            'Disallow: /api/',
+            'Disallow: /logout',
+            '',
+            `Sitemap: ${origin}/sitemap.xml`,
+            '',
+          ].join('\n'),
+          {
+            headers: {
+              'Content-Type': 'text/plain; charset=utf-8',
+              'Cache-Control': siteCacheControl(),
+            },
+          },
+        )
+      },
+    },
+  },
+})
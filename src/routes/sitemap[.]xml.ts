@@ -0,0 +1,27 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { buildSitemap, siteCacheControl, siteOrigin } from '@/lib/seo'
+
+/**
+ * Lists the public pages for search engines; a page is included by
+ * declaring `staticData.sitemap` on its route
+ */
+export const Route = createFileRoute('/sitemap.xml')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        // Loaded lazily: the router's route tree includes this route
+        const { getRouter } = await import('@/router')
+        const origin = siteOrigin(request)
+        return new Response(
+          buildSitemap(Object.values(getRouter().routesById), origin),
+          {
+            headers: {
+              'Content-Type': 'application/xml; charset=utf-8',
+              'Cache-Control': siteCacheControl(),
+            },
+          },
+        )
+      },
+    },
+  },
+})
@@ -0,0 +1,34 @@
+import { createSerializationAdapter } from '@tanstack/react-router'
+import { createStart } from '@tanstack/react-start'
+import { RateLimitError } from '@/lib/rate-limit'
+import { ValidationError, type FieldErrors } from '@/lib/validation'
+import { bodySizeLimit, requestLogger, serverFnLogger } from '@/middleware'
+
+/**
+ * Sends a ValidationError to the client with its field errors intact;
+ * other errors only keep their message
+ */
+const validationErrorAdapter = createSerializationAdapter({
+  key: 'validation-error',
+  test: (value): value is ValidationError => value instanceof ValidationError,
+  toSerializable: (error) => error.fieldErrors,
+  fromSerializable: (fieldErrors: FieldErrors) =>
+    new ValidationError(fieldErrors),
+})
+
+/**
+ * Keeps the wait time on a RateLimitError so the client can show it
+ */
+const rateLimitErrorAdapter = createSerializationAdapter({
+  key: 'rate-limit-error',
+  test: (value): value is RateLimitError => value instanceof RateLimitError,
+  toSerializable: (error) => error.retryAfterSeconds,
+  fromSerializable: (retryAfterSeconds: number) =>
+    new RateLimitError(retryAfterSeconds),
+})
+
+export const startInstance = createStart(() => ({
+  serializationAdapters: [validationErrorAdapter, rateLimitErrorAdapter],
+  requestMiddleware: [requestLogger, bodySizeLimit],
+  functionMiddleware: [serverFnLogger],
+}))
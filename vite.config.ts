@@ -1,21 +1,63 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import { tanstackStart } from "@tanstack/react-start/plugin/vite";
 import viteReact from "@vitejs/plugin-react";
 import viteTsConfigPaths from "vite-tsconfig-paths";
 import tailwindcss from "@tailwindcss/vite";
 import { nitro } from "nitro/vite";
 
-const config = defineConfig({
-  plugins: [
-    // this is the plugin that enables path aliases
-    viteTsConfigPaths({
-      projects: ["./tsconfig.json"],
-    }),
-    tailwindcss(),
-    tanstackStart(),
-    nitro(),
-    viteReact(),
-  ],
+/**
+ * Production builds should know the site's public origin: canonical links,
+ * Open Graph URLs, the sitemap and robots.txt are built from it, and
+ * falling back to the request's Host header would let any client choose
+ * the links in publicly cached responses. VITE_SITE_URL wins; otherwise the
+ * production domain Vercel or Netlify provide is used. Without any of them
+ * the build still succeeds, with relative canonical links and a warning.
+ */
+function resolveSiteUrl(mode: string): string {
+  const { VITE_SITE_URL } = loadEnv(mode, process.cwd(), "VITE_");
+  if (VITE_SITE_URL) {
+    let url: URL | undefined;
+    try {
+      url = new URL(VITE_SITE_URL);
+    } catch {
+      url = undefined;
+    }
+    if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+      throw new Error(
+        `VITE_SITE_URL must be the site's public origin, e.g. "https://example.com", not "${VITE_SITE_URL}"`,
+      );
+    }
+    return VITE_SITE_URL;
+  }
+  const { VERCEL_PROJECT_PRODUCTION_URL, URL: NETLIFY_URL } = process.env;
+  if (VERCEL_PROJECT_PRODUCTION_URL) {
+    return `https://${VERCEL_PROJECT_PRODUCTION_URL}`;
+  }
+  if (NETLIFY_URL) return NETLIFY_URL;
+  console.warn(
+    'VITE_SITE_URL is not set: canonical links will be relative, and sitemap.xml and robots.txt will use the origin they are requested from, uncached. Set it to the site\'s public origin, e.g. "https://example.com".',
+  );
+  return "";
+}
+
+const config = defineConfig(({ command, mode }) => {
+  const siteUrl = command === "build" ? resolveSiteUrl(mode) : undefined;
+  return {
+    define:
+      siteUrl === undefined
+        ? {}
+        : { "import.meta.env.VITE_SITE_URL": JSON.stringify(siteUrl) },
+    plugins: [
+      // this is the plugin that enables path aliases
+      viteTsConfigPaths({
+        projects: ["./tsconfig.json"],
+      }),
+      tailwindcss(),
+      tanstackStart(),
+      nitro(),
+      viteReact(),
+    ],
+  };
 });
 
 export default config;
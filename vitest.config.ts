@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import viteReact from "@vitejs/plugin-react";
+import viteTsConfigPaths from "vite-tsconfig-paths";
+
+// tanstackStart and nitro only make sense inside a dev server or build, and
+// nitro breaks when vitest loads it, so tests get the plain React setup.
+const config = defineConfig({
+  plugins: [
+    viteTsConfigPaths({
+      projects: ["./tsconfig.json"],
+    }),
+    viteReact(),
+  ],
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.{ts,tsx}"],
+  },
+});
+
+export default config;